@@ -4,6 +4,7 @@ import { NavigationContainer } from '@react-navigation/native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { USStockRealTimePriceProvider } from './src/contexts/USStockRealTimePriceContext';
 import { ChartTypeProvider } from './src/contexts/ChartTypeContext';
+import { PriceAlertProvider } from './src/contexts/PriceAlertContext';
 import { UserProvider } from './src/contexts/UserContext';
 import AppNavigator from './src/navigation/AppNavigator';
 import linking from './src/navigation/LinkingConfiguration';
@@ -91,7 +92,8 @@ const App = () => {
     <SafeAreaProvider>
       <UserProvider>
         <USStockRealTimePriceProvider>
-          <ChartTypeProvider>
+          <PriceAlertProvider>
+            <ChartTypeProvider>
               <View style={[styles.appContainer, isWideScreen && styles.wideScreenContainer]}>
                 <NavigationContainer 
                   linking={Platform.OS === 'web' ? linking : undefined}
@@ -111,6 +113,7 @@ const App = () => {
                 </NavigationContainer>
               </View>
             </ChartTypeProvider>
+          </PriceAlertProvider>
         </USStockRealTimePriceProvider>
       </UserProvider>
     </SafeAreaProvider>
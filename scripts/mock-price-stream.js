@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+/**
+ * 本地美股实时价格推送模拟服务（仅依赖 Node 内置模块）
+ *
+ * 用法：
+ *   node scripts/mock-price-stream.js [--port 8787] [--interval 1000] [--drop-after 0]
+ *
+ *   WebSocket: ws://localhost:8787/ws
+ *     客户端发送 {"type":"subscribe","symbols":["NVDA","AAPL"]}（全量替换订阅列表）
+ *   SSE:       http://localhost:8787/sse?symbols=NVDA,AAPL
+ *
+ *   服务端推送 {"type":"prices","data":{"nvda":178.08}}，每 10 秒推送一次 {"type":"heartbeat"}
+ *   --drop-after N  每个连接建立 N 秒后主动断开，用于测试 App 降级为轮询和断线重连
+ *
+ * 配合 App 使用：
+ *   EXPO_PUBLIC_PRICE_STREAM_URL=ws://localhost:8787/ws npm run web
+ *   EXPO_PUBLIC_PRICE_STREAM_URL=http://localhost:8787/sse npm run web
+ */
+
+const http = require('http');
+const crypto = require('crypto');
+
+const args = process.argv.slice(2);
+const readArg = (name, defaultValue) => {
+  const index = args.indexOf(`--${name}`);
+  if (index === -1 || index === args.length - 1) return defaultValue;
+  const value = Number(args[index + 1]);
+  return Number.isFinite(value) ? value : defaultValue;
+};
+
+const PORT = readArg('port', 8787);
+const INTERVAL = readArg('interval', 1000);
+const DROP_AFTER = readArg('drop-after', 0);
+const HEARTBEAT_INTERVAL = 10000;
+const WS_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+
+// 模拟价格：首次订阅时按代码生成一个初始价格，之后随机游走
+const prices = new Map();
+const SEED_PRICES = { NVDA: 178.08, AAPL: 212.39, MSFT: 505.82, TSLA: 316.06, AMZN: 223.13, GOOGL: 193.18, META: 717.63 };
+
+const getPrice = (symbol) => {
+  if (!prices.has(symbol)) {
+    const seed = SEED_PRICES[symbol]
+      || 20 + (Array.from(symbol).reduce((sum, char) => sum + char.charCodeAt(0), 0) % 480);
+    prices.set(symbol, seed);
+  }
+  return prices.get(symbol);
+};
+
+const nextPrices = (symbols) => {
+  const data = {};
+  symbols.forEach((symbol) => {
+    // 每次只有部分股票变动，更接近真实推送
+    if (Math.random() < 0.5) return;
+    const price = getPrice(symbol) * (1 + (Math.random() - 0.5) * 0.004);
+    const rounded = Math.round(price * 100) / 100;
+    prices.set(symbol, rounded);
+    data[symbol.toLowerCase()] = rounded;
+  });
+  return data;
+};
+
+const parseSymbols = (value) => Array.from(new Set(
+  String(value || '')
+    .split(',')
+    .map((symbol) => symbol.trim().toUpperCase())
+    .filter(Boolean)
+));
+
+let connectionId = 0;
+
+/**
+ * 为一个连接启动推送循环
+ * @param {{ id: number, symbols: string[] }} client
+ * @param {(message: object) => void} send
+ * @param {() => void} drop 主动断开连接
+ * @returns {() => void} 停止推送
+ */
+const startFeed = (client, send, drop) => {
+  const priceTimer = setInterval(() => {
+    const data = nextPrices(client.symbols);
+    if (Object.keys(data).length > 0) {
+      send({ type: 'prices', data });
+    }
+  }, INTERVAL);
+  const heartbeatTimer = setInterval(() => send({ type: 'heartbeat' }), HEARTBEAT_INTERVAL);
+  const dropTimer = DROP_AFTER > 0
+    ? setTimeout(() => {
+      console.log(`✂️  #${client.id} 模拟断线`);
+      drop();
+    }, DROP_AFTER * 1000)
+    : null;
+
+  return () => {
+    clearInterval(priceTimer);
+    clearInterval(heartbeatTimer);
+    if (dropTimer) clearTimeout(dropTimer);
+  };
+};
+
+// ---------- SSE ----------
+
+const handleSSE = (req, res, url) => {
+  const client = { id: ++connectionId, symbols: parseSymbols(url.searchParams.get('symbols')) };
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'Access-Control-Allow-Origin': '*',
+  });
+  // 告诉浏览器不要自动重连，由 App 自行降级和重连
+  res.write('retry: 86400000\n\n');
+  console.log(`🔌 SSE #${client.id} 已连接，订阅: ${client.symbols.join(',') || '(空)'}`);
+
+  const send = (message) => res.write(`data: ${JSON.stringify(message)}\n\n`);
+  const initial = {};
+  client.symbols.forEach((symbol) => { initial[symbol.toLowerCase()] = getPrice(symbol); });
+  send({ type: 'prices', data: initial });
+  const stop = startFeed(client, send, () => res.destroy());
+  req.on('close', () => {
+    stop();
+    console.log(`👋 SSE #${client.id} 已断开`);
+  });
+};
+
+// ---------- WebSocket（RFC 6455 最小实现，仅支持文本帧） ----------
+
+const encodeFrame = (opcode, payload) => {
+  const length = payload.length;
+  let header;
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// 解析客户端帧（客户端帧必须带掩码），返回 [帧列表, 剩余未完整的数据]
+const decodeFrames = (buffer) => {
+  const frames = [];
+  let offset = 0;
+  while (buffer.length - offset >= 2) {
+    const opcode = buffer[offset] & 0x0f;
+    const masked = (buffer[offset + 1] & 0x80) !== 0;
+    let length = buffer[offset + 1] & 0x7f;
+    let headerLength = 2;
+    if (length === 126) {
+      if (buffer.length - offset < 4) break;
+      length = buffer.readUInt16BE(offset + 2);
+      headerLength = 4;
+    } else if (length === 127) {
+      if (buffer.length - offset < 10) break;
+      length = Number(buffer.readBigUInt64BE(offset + 2));
+      headerLength = 10;
+    }
+    const maskLength = masked ? 4 : 0;
+    const frameLength = headerLength + maskLength + length;
+    if (buffer.length - offset < frameLength) break;
+
+    const payload = Buffer.from(buffer.subarray(offset + headerLength + maskLength, offset + frameLength));
+    if (masked) {
+      const mask = buffer.subarray(offset + headerLength, offset + headerLength + 4);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i % 4];
+      }
+    }
+    frames.push({ opcode, payload });
+    offset += frameLength;
+  }
+  return [frames, buffer.subarray(offset)];
+};
+
+const handleUpgrade = (req, socket) => {
+  const key = req.headers['sec-websocket-key'];
+  if (!key || new URL(req.url, 'http://localhost').pathname !== '/ws') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return;
+  }
+  const accept = crypto.createHash('sha1').update(key + WS_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '',
+    '',
+  ].join('\r\n'));
+
+  const client = { id: ++connectionId, symbols: [] };
+  console.log(`🔌 WS #${client.id} 已连接`);
+
+  const send = (message) => {
+    if (!socket.destroyed) {
+      socket.write(encodeFrame(0x1, Buffer.from(JSON.stringify(message))));
+    }
+  };
+  const stop = startFeed(client, send, () => socket.destroy());
+
+  let pending = Buffer.alloc(0);
+  socket.on('data', (chunk) => {
+    const [frames, rest] = decodeFrames(Buffer.concat([pending, chunk]));
+    pending = rest;
+    frames.forEach(({ opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame(0x8, Buffer.alloc(0)));
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      } else if (opcode === 0x1) {
+        try {
+          const message = JSON.parse(payload.toString('utf8'));
+          if (message.type === 'subscribe' && Array.isArray(message.symbols)) {
+            client.symbols = parseSymbols(message.symbols.join(','));
+            console.log(`📋 WS #${client.id} 订阅: ${client.symbols.join(',') || '(空)'}`);
+            // 订阅后立即推送一次当前价格
+            const data = {};
+            client.symbols.forEach((symbol) => { data[symbol.toLowerCase()] = getPrice(symbol); });
+            send({ type: 'prices', data });
+          }
+        } catch (error) {
+          console.warn(`⚠️  WS #${client.id} 无效消息`);
+        }
+      }
+    });
+  });
+  socket.on('close', () => {
+    stop();
+    console.log(`👋 WS #${client.id} 已断开`);
+  });
+  socket.on('error', () => socket.destroy());
+};
+
+const server = http.createServer((req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+  if (url.pathname === '/sse') {
+    handleSSE(req, res, url);
+    return;
+  }
+  res.writeHead(404, { 'Content-Type': 'text/plain' });
+  res.end('Use ws://host/ws or http://host/sse?symbols=NVDA,AAPL\n');
+});
+
+server.on('upgrade', handleUpgrade);
+
+server.listen(PORT, () => {
+  console.log(`🚀 Mock price stream listening on port ${PORT} (interval: ${INTERVAL}ms${DROP_AFTER > 0 ? `, drop after ${DROP_AFTER}s` : ''})`);
+  console.log(`   WebSocket: ws://localhost:${PORT}/ws`);
+  console.log(`   SSE:       http://localhost:${PORT}/sse?symbols=NVDA,AAPL`);
+});
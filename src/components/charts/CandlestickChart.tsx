@@ -0,0 +1,202 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { Svg, Line, Rect, Polyline, Text as SvgText } from 'react-native-svg';
+import { OHLCCandle } from '../../utils/candleUtils';
+import { IndicatorSeries } from '../../utils/technicalIndicators';
+import { buildPolylineSegments } from './IndicatorSubChart';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+const UP_COLOR = '#00C853';
+const DOWN_COLOR = '#FF5252';
+
+// 左侧价格刻度区域宽度
+const Y_AXIS_WIDTH = 56;
+// 底部日期标签区域高度
+const X_AXIS_HEIGHT = 20;
+const PADDING_TOP = 10;
+
+// 叠加在K线上的指标线（均线、布林带等）
+export interface ChartOverlayLine {
+  key: string;
+  label: string;
+  color: string;
+  values: IndicatorSeries;
+}
+
+interface CandlestickChartProps {
+  candles: OHLCCandle[];
+  // 每根K线的横轴标签
+  labels: string[];
+  width?: number;
+  height?: number;
+  formatPrice?: (value: number) => string;
+  // 最多显示的横轴标签数
+  maxLabels?: number;
+  overlays?: ChartOverlayLine[];
+}
+
+/**
+ * K线图（移动端SVG实现）
+ * 阳线（收盘 >= 开盘）绿色，阴线红色，影线表示最高/最低价
+ */
+const CandlestickChart: React.FC<CandlestickChartProps> = ({
+  candles,
+  labels,
+  width = SCREEN_WIDTH - 30,
+  height = 220,
+  formatPrice = (value: number) => `$${value.toFixed(2)}`,
+  maxLabels = 5,
+  overlays = []
+}) => {
+  const layout = useMemo(() => {
+    if (candles.length === 0) {
+      return null;
+    }
+
+    // 价格区间同时考虑叠加指标，避免布林带超出绘图区域
+    const overlayValues = overlays
+      .flatMap(overlay => overlay.values)
+      .filter((value): value is number => value !== null);
+    const maxPrice = Math.max(...candles.map(candle => candle.high), ...overlayValues);
+    const minPrice = Math.min(...candles.map(candle => candle.low), ...overlayValues);
+    // 价格无波动时上下各留出1%，避免除零
+    const padding = maxPrice === minPrice ? maxPrice * 0.01 || 1 : (maxPrice - minPrice) * 0.05;
+    const top = maxPrice + padding;
+    const bottom = minPrice - padding;
+
+    const plotWidth = width - Y_AXIS_WIDTH;
+    const plotHeight = height - X_AXIS_HEIGHT - PADDING_TOP;
+    const slotWidth = plotWidth / candles.length;
+    const bodyWidth = Math.max(1, Math.min(12, slotWidth * 0.6));
+
+    const toY = (price: number) => PADDING_TOP + ((top - price) / (top - bottom)) * plotHeight;
+
+    const gridValues = [0, 0.25, 0.5, 0.75, 1].map(ratio => top - (top - bottom) * ratio);
+    const labelStep = Math.max(1, Math.ceil(candles.length / maxLabels));
+
+    const toX = (index: number) => Y_AXIS_WIDTH + slotWidth * index + slotWidth / 2;
+    const overlaySegments = overlays.map(overlay => ({
+      key: overlay.key,
+      color: overlay.color,
+      segments: buildPolylineSegments(overlay.values, toX, toY)
+    }));
+
+    return { plotHeight, slotWidth, bodyWidth, toY, gridValues, labelStep, overlaySegments };
+  }, [candles, width, height, maxLabels, overlays]);
+
+  if (!layout) {
+    return (
+      <View style={[styles.emptyContainer, { width, height }]}>
+        <Text style={styles.emptyText}>暂无K线数据</Text>
+      </View>
+    );
+  }
+
+  const { slotWidth, bodyWidth, toY, gridValues, labelStep, overlaySegments } = layout;
+
+  return (
+    <View style={styles.container}>
+      <Svg width={width} height={height}>
+        {/* 价格网格与刻度 */}
+        {gridValues.map((value, index) => (
+          <React.Fragment key={`grid-${index}`}>
+            <Line
+              x1={Y_AXIS_WIDTH}
+              x2={width}
+              y1={toY(value)}
+              y2={toY(value)}
+              stroke="#EEEEEE"
+              strokeWidth={1}
+            />
+            <SvgText
+              x={Y_AXIS_WIDTH - 4}
+              y={toY(value) + 4}
+              fontSize={10}
+              fill="#666666"
+              textAnchor="end"
+            >
+              {formatPrice(value)}
+            </SvgText>
+          </React.Fragment>
+        ))}
+
+        {/* K线 */}
+        {candles.map((candle, index) => {
+          const isUp = candle.close >= candle.open;
+          const color = isUp ? UP_COLOR : DOWN_COLOR;
+          const centerX = Y_AXIS_WIDTH + slotWidth * index + slotWidth / 2;
+          const bodyTop = toY(Math.max(candle.open, candle.close));
+          const bodyHeight = Math.max(1, Math.abs(toY(candle.open) - toY(candle.close)));
+
+          return (
+            <React.Fragment key={`candle-${index}`}>
+              <Line
+                x1={centerX}
+                x2={centerX}
+                y1={toY(candle.high)}
+                y2={toY(candle.low)}
+                stroke={color}
+                strokeWidth={1}
+              />
+              <Rect
+                x={centerX - bodyWidth / 2}
+                y={bodyTop}
+                width={bodyWidth}
+                height={bodyHeight}
+                fill={color}
+              />
+            </React.Fragment>
+          );
+        })}
+
+        {/* 叠加指标 */}
+        {overlaySegments.map(overlay =>
+          overlay.segments.map((points, index) => (
+            <Polyline
+              key={`${overlay.key}-${index}`}
+              points={points}
+              fill="none"
+              stroke={overlay.color}
+              strokeWidth={1.5}
+            />
+          ))
+        )}
+
+        {/* 日期标签 */}
+        {labels.map((label, index) => (
+          index % labelStep === 0 && label ? (
+            <SvgText
+              key={`label-${index}`}
+              x={Y_AXIS_WIDTH + slotWidth * index + slotWidth / 2}
+              y={height - 4}
+              fontSize={10}
+              fill="#666666"
+              textAnchor="middle"
+            >
+              {label}
+            </SvgText>
+          ) : null
+        ))}
+      </Svg>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginVertical: 8,
+  },
+  emptyContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    borderRadius: 16,
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+  },
+});
+
+export default CandlestickChart;
@@ -0,0 +1,156 @@
+import React from 'react';
+import { View, Text, StyleSheet, Dimensions, Platform } from 'react-native';
+import { LineChart as RNLineChart } from 'react-native-chart-kit';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+import { DateUtils } from '../../utils/dateUtils';
+import { NormalizedSeries } from '../../services/ComparisonService';
+
+// 为Web环境注册Chart.js组件
+if (Platform.OS === 'web') {
+  ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Tooltip, Legend);
+}
+
+// 对比曲线配色，按代码顺序依次使用
+export const COMPARISON_COLORS = ['#007AFF', '#FF9500', '#34C759', '#AF52DE', '#FF3B30'];
+
+interface ComparisonChartProps {
+  dates: string[];
+  series: NormalizedSeries[];
+  width?: number;
+  height?: number;
+}
+
+const formatPercent = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+/**
+ * 多标的涨跌幅对比图
+ * Web端使用Chart.js，移动端使用react-native-chart-kit
+ */
+const ComparisonChart: React.FC<ComparisonChartProps> = ({
+  dates,
+  series,
+  width = Dimensions.get('window').width - 30,
+  height = 240
+}) => {
+  if (dates.length < 2 || series.length === 0) {
+    return (
+      <View style={[styles.noDataContainer, { height }]}>
+        <Text style={styles.noDataText}>暂无可对比的数据</Text>
+      </View>
+    );
+  }
+
+  const labels = dates.map(date => DateUtils.formatSimpleDate(date));
+  const colorOf = (index: number) => COMPARISON_COLORS[index % COMPARISON_COLORS.length];
+
+  if (Platform.OS === 'web') {
+    return (
+      <View style={{ height, width }}>
+        <Line
+          data={{
+            labels,
+            datasets: series.map((item, index) => ({
+              label: item.label,
+              data: item.changes,
+              borderColor: colorOf(index),
+              backgroundColor: colorOf(index),
+              borderWidth: 2,
+              pointRadius: 0,
+              tension: 0.2
+            }))
+          }}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            interaction: {
+              intersect: false,
+              mode: 'index',
+            },
+            scales: {
+              y: {
+                ticks: {
+                  callback: (value) => formatPercent(Number(value)),
+                  maxTicksLimit: 6
+                }
+              },
+              x: {
+                grid: {
+                  display: false
+                },
+                ticks: {
+                  maxTicksLimit: 5
+                }
+              }
+            },
+            plugins: {
+              legend: {
+                display: false
+              },
+              tooltip: {
+                callbacks: {
+                  label: (context) => `${context.dataset.label}: ${formatPercent(context.parsed.y)}`
+                }
+              }
+            }
+          }}
+        />
+      </View>
+    );
+  }
+
+  // 移动端只显示少量日期标签，避免拥挤
+  const step = Math.max(1, Math.floor(labels.length / 4));
+  const displayLabels = labels.map((label, index) => (index % step === 0 ? label : ''));
+
+  return (
+    <RNLineChart
+      data={{
+        labels: displayLabels,
+        datasets: series.map((item, index) => ({
+          data: item.changes,
+          color: () => colorOf(index),
+          strokeWidth: 2
+        }))
+      }}
+      width={width}
+      height={height}
+      chartConfig={{
+        backgroundGradientFrom: '#ffffff',
+        backgroundGradientTo: '#ffffff',
+        decimalPlaces: 1,
+        color: () => '#999999',
+        labelColor: () => '#666666',
+        formatYLabel: (value) => `${value}%`,
+        propsForBackgroundLines: {
+          strokeDasharray: ''
+        }
+      }}
+      bezier
+      withDots={false}
+      withShadow={false}
+      withVerticalLines={false}
+      fromZero={false}
+      style={styles.chart}
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    marginVertical: 8,
+    borderRadius: 16
+  },
+  noDataContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    borderRadius: 16
+  },
+  noDataText: {
+    fontSize: 16,
+    color: '#999'
+  }
+});
+
+export default ComparisonChart;
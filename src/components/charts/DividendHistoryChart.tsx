@@ -0,0 +1,116 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import dividendService, { DividendPoint } from '../../services/DividendService';
+
+const BAR_COLOR = '#007AFF';
+// 股息较上一根柱子减少
+const CUT_COLOR = '#FF9500';
+const MAX_BARS = 24;
+const CHART_HEIGHT = 100;
+
+interface DividendHistoryChartProps {
+  // 每月最后一个交易日的股息数据，按日期升序
+  monthly: DividendPoint[];
+}
+
+/**
+ * 年度股息走势柱状图
+ * 展示最近若干个月的年度每股股息，按月份从左到右排列，台阶处即为股息调整
+ */
+const DividendHistoryChart: React.FC<DividendHistoryChartProps> = ({ monthly }) => {
+  const points = useMemo(() => monthly.slice(-MAX_BARS), [monthly]);
+  const maxAmount = useMemo(() => Math.max(...points.map(point => point.annualDividend), 0), [points]);
+  const isCut = (index: number) => index > 0 && points[index].annualDividend < points[index - 1].annualDividend;
+
+  if (points.length === 0 || maxAmount <= 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        {points.map((point, index) => (
+          <View key={point.date} style={styles.column}>
+            <View
+              style={[
+                styles.bar,
+                {
+                  height: Math.max(2, (point.annualDividend / maxAmount) * CHART_HEIGHT),
+                  backgroundColor: isCut(index) ? CUT_COLOR : BAR_COLOR,
+                },
+              ]}
+            />
+          </View>
+        ))}
+      </View>
+      <View style={styles.labels}>
+        {/* 柱子较窄，只标注首、中、尾三个月份 */}
+        {Array.from(new Set([0, Math.floor((points.length - 1) / 2), points.length - 1])).map(index => (
+          <Text key={points[index].date} style={styles.labelText}>
+            {points[index].date.slice(2, 7)}
+          </Text>
+        ))}
+      </View>
+      <View style={styles.rangeRow}>
+        <Text style={styles.rangeText}>最高 {dividendService.formatAmount(maxAmount)}/股</Text>
+        {points.some((_, index) => isCut(index)) && (
+          <View style={styles.legendItem}>
+            <View style={[styles.legendDot, { backgroundColor: CUT_COLOR }]} />
+            <Text style={styles.rangeText}>减派</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    height: CHART_HEIGHT,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E0E0E0',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  bar: {
+    width: '60%',
+    maxWidth: 20,
+    borderTopLeftRadius: 2,
+    borderTopRightRadius: 2,
+  },
+  labels: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  labelText: {
+    fontSize: 10,
+    color: '#999',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  rangeText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 4,
+  },
+});
+
+export default DividendHistoryChart;
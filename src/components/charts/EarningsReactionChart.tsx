@@ -0,0 +1,120 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { EarningsReaction } from '../../services/EarningsService';
+
+const UP_COLOR = '#00C853';
+const DOWN_COLOR = '#FF5252';
+// 单侧柱子的最大高度
+const HALF_HEIGHT = 60;
+
+interface EarningsReactionChartProps {
+  // 按日期倒序
+  reactions: EarningsReaction[];
+}
+
+/**
+ * 财报后股价反应柱状图
+ * 每根柱子为一次财报前后的涨跌幅（见 EarningsService.getReactions），按时间从左到右排列
+ */
+const EarningsReactionChart: React.FC<EarningsReactionChartProps> = ({ reactions }) => {
+  const ordered = useMemo(() => [...reactions].reverse(), [reactions]);
+  const maxAbs = useMemo(
+    () => Math.max(1, ...ordered.map(reaction => Math.abs(reaction.change))),
+    [ordered]
+  );
+  const average = useMemo(
+    () => ordered.reduce((sum, reaction) => sum + Math.abs(reaction.change), 0) / (ordered.length || 1),
+    [ordered]
+  );
+
+  if (ordered.length === 0) {
+    return null;
+  }
+
+  return (
+    <View>
+      <View style={styles.chart}>
+        {ordered.map(reaction => {
+          const isUp = reaction.change >= 0;
+          const height = Math.max(2, (Math.abs(reaction.change) / maxAbs) * HALF_HEIGHT);
+          const color = isUp ? UP_COLOR : DOWN_COLOR;
+
+          return (
+            <View key={reaction.report.date} style={styles.column}>
+              <View style={[styles.half, styles.upperHalf]}>
+                {isUp && (
+                  <>
+                    <Text style={[styles.valueText, { color }]}>+{reaction.change.toFixed(1)}%</Text>
+                    <View style={[styles.bar, { height, backgroundColor: color }]} />
+                  </>
+                )}
+              </View>
+              <View style={styles.axis} />
+              <View style={styles.half}>
+                {!isUp && (
+                  <>
+                    <View style={[styles.bar, { height, backgroundColor: color }]} />
+                    <Text style={[styles.valueText, { color }]}>{reaction.change.toFixed(1)}%</Text>
+                  </>
+                )}
+              </View>
+              <Text style={styles.periodText} numberOfLines={1}>
+                {reaction.report.date.slice(2, 7)}
+              </Text>
+            </View>
+          );
+        })}
+      </View>
+      <Text style={styles.summaryText}>
+        近 {ordered.length} 次财报后平均波动 ±{average.toFixed(1)}%
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chart: {
+    flexDirection: 'row',
+    alignItems: 'stretch',
+  },
+  column: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  half: {
+    height: HALF_HEIGHT + 16,
+    width: '100%',
+    alignItems: 'center',
+  },
+  upperHalf: {
+    justifyContent: 'flex-end',
+  },
+  axis: {
+    height: 1,
+    width: '100%',
+    backgroundColor: '#E0E0E0',
+  },
+  bar: {
+    width: '50%',
+    maxWidth: 24,
+    borderRadius: 2,
+  },
+  valueText: {
+    fontSize: 10,
+    fontWeight: '500',
+    marginVertical: 2,
+  },
+  periodText: {
+    fontSize: 10,
+    color: '#999',
+    marginTop: 4,
+  },
+  summaryText: {
+    fontSize: 12,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 10,
+  },
+});
+
+export default EarningsReactionChart;
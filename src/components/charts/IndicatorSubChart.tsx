@@ -0,0 +1,181 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, Dimensions } from 'react-native';
+import { Svg, Line, Rect, Polyline, Text as SvgText } from 'react-native-svg';
+import { IndicatorSeries, calculateRSI, calculateMACD } from '../../utils/technicalIndicators';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+const Y_AXIS_WIDTH = 56;
+const PADDING_VERTICAL = 8;
+
+interface IndicatorSubChartProps {
+  type: 'rsi' | 'macd';
+  // 收盘价序列（与主图数据点一一对应）
+  values: number[];
+  width?: number;
+  height?: number;
+}
+
+// 将带空值的序列拆分为连续的折线段（供主图叠加指标复用）
+export const buildPolylineSegments = (
+  series: IndicatorSeries,
+  toX: (index: number) => number,
+  toY: (value: number) => number
+): string[] => {
+  const segments: string[] = [];
+  let current: string[] = [];
+  series.forEach((value, index) => {
+    if (value === null) {
+      if (current.length > 1) segments.push(current.join(' '));
+      current = [];
+      return;
+    }
+    current.push(`${toX(index)},${toY(value)}`);
+  });
+  if (current.length > 1) segments.push(current.join(' '));
+  return segments;
+};
+
+/**
+ * 技术指标副图（RSI / MACD）
+ * 使用SVG绘制，Web端与移动端表现一致
+ */
+const IndicatorSubChart: React.FC<IndicatorSubChartProps> = ({
+  type,
+  values,
+  width = SCREEN_WIDTH - 30,
+  height = 100
+}) => {
+  const chart = useMemo(() => {
+    const plotWidth = width - Y_AXIS_WIDTH;
+    const plotHeight = height - PADDING_VERTICAL * 2;
+    const slotWidth = values.length > 0 ? plotWidth / values.length : plotWidth;
+    const toX = (index: number) => Y_AXIS_WIDTH + slotWidth * index + slotWidth / 2;
+
+    if (type === 'rsi') {
+      const rsi = calculateRSI(values);
+      const toY = (value: number) => PADDING_VERTICAL + ((100 - value) / 100) * plotHeight;
+      const latest = [...rsi].reverse().find(value => value !== null) ?? null;
+      return {
+        hasData: latest !== null,
+        latestText: latest !== null ? `RSI(14) ${latest.toFixed(2)}` : 'RSI(14)',
+        guides: [70, 50, 30].map(value => ({ value, y: toY(value), label: String(value) })),
+        lines: [{ color: '#7E57C2', segments: buildPolylineSegments(rsi, toX, toY) }],
+        bars: [] as Array<{ x: number; y: number; height: number; color: string }>,
+        barWidth: 0
+      };
+    }
+
+    const { macd, signal, histogram } = calculateMACD(values);
+    const allValues = [...macd, ...signal, ...histogram].filter((value): value is number => value !== null);
+    const maxAbs = allValues.length > 0 ? Math.max(...allValues.map(Math.abs)) || 1 : 1;
+    const toY = (value: number) => PADDING_VERTICAL + ((maxAbs - value) / (maxAbs * 2)) * plotHeight;
+    const zeroY = toY(0);
+    const latestMacd = [...macd].reverse().find(value => value !== null) ?? null;
+    const latestSignal = [...signal].reverse().find(value => value !== null) ?? null;
+    const barWidth = Math.max(1, Math.min(8, slotWidth * 0.6));
+
+    return {
+      hasData: allValues.length > 0,
+      latestText: latestMacd !== null && latestSignal !== null
+        ? `MACD(12,26,9) ${latestMacd.toFixed(2)} / ${latestSignal.toFixed(2)}`
+        : 'MACD(12,26,9)',
+      guides: [{ value: 0, y: zeroY, label: '0' }],
+      lines: [
+        { color: '#2962FF', segments: buildPolylineSegments(macd, toX, toY) },
+        { color: '#FF6D00', segments: buildPolylineSegments(signal, toX, toY) }
+      ],
+      bars: histogram
+        .map((value, index) => value === null ? null : {
+          x: toX(index) - barWidth / 2,
+          y: Math.min(zeroY, toY(value)),
+          height: Math.max(1, Math.abs(toY(value) - zeroY)),
+          color: value >= 0 ? '#00C853' : '#FF5252'
+        })
+        .filter((bar): bar is { x: number; y: number; height: number; color: string } => bar !== null),
+      barWidth
+    };
+  }, [type, values, width, height]);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>{chart.latestText}</Text>
+      {chart.hasData ? (
+        <Svg width={width} height={height}>
+          {chart.guides.map(guide => (
+            <React.Fragment key={`guide-${guide.value}`}>
+              <Line
+                x1={Y_AXIS_WIDTH}
+                x2={width}
+                y1={guide.y}
+                y2={guide.y}
+                stroke="#E0E0E0"
+                strokeWidth={1}
+                strokeDasharray="4,4"
+              />
+              <SvgText
+                x={Y_AXIS_WIDTH - 4}
+                y={guide.y + 4}
+                fontSize={10}
+                fill="#666666"
+                textAnchor="end"
+              >
+                {guide.label}
+              </SvgText>
+            </React.Fragment>
+          ))}
+          {chart.bars.map((bar, index) => (
+            <Rect
+              key={`bar-${index}`}
+              x={bar.x}
+              y={bar.y}
+              width={chart.barWidth}
+              height={bar.height}
+              fill={bar.color}
+              opacity={0.6}
+            />
+          ))}
+          {chart.lines.map((line, lineIndex) =>
+            line.segments.map((points, segmentIndex) => (
+              <Polyline
+                key={`line-${lineIndex}-${segmentIndex}`}
+                points={points}
+                fill="none"
+                stroke={line.color}
+                strokeWidth={1.5}
+              />
+            ))
+          )}
+        </Svg>
+      ) : (
+        <View style={[styles.noDataContainer, { height }]}>
+          <Text style={styles.noDataText}>数据不足，请选择更长的时间周期</Text>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 4,
+    marginLeft: 4,
+  },
+  noDataContainer: {
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#f9f9f9',
+    borderRadius: 8,
+  },
+  noDataText: {
+    fontSize: 12,
+    color: '#999',
+  },
+});
+
+export default IndicatorSubChart;
@@ -1,7 +1,8 @@
 import React from 'react';
 import { View, Text, StyleSheet, Dimensions, TouchableOpacity, Platform } from 'react-native';
 import { LineChart as RNLineChart } from 'react-native-chart-kit';
-import { DXYData, DXYService } from '../../services/data';
+import MacroIndicatorService, { MacroIndicatorPoint } from '../../services/data/MacroIndicatorService';
+import { DEFAULT_CHART_COLOR } from '../../config/macroIndicatorConfig';
 
 // 仅在Web环境中导入Chart.js相关库
 import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, Filler } from 'chart.js';
@@ -22,120 +23,90 @@ if (Platform.OS === 'web') {
 }
 
 // 时间周期选项
-const TIME_PERIODS = ['7天', '30天', '90天'];
+export const TIME_PERIODS = [
+  { label: '7天', days: 7 },
+  { label: '30天', days: 30 },
+  { label: '90天', days: 90 },
+];
 
-interface DXYChartProps {
-  historicalData: DXYData[];
-  selectedTimePeriod: string;
-  onTimePeriodChange: (period: string) => void;
+interface MacroIndicatorChartProps {
+  service: MacroIndicatorService;
+  // 历史数据，按日期倒序
+  historicalData: MacroIndicatorPoint[];
+  selectedDays: number;
+  onPeriodChange: (days: number) => void;
 }
 
-const DXYChart: React.FC<DXYChartProps> = ({
+// 将 #RRGGBB 转换为 rgba
+const hexToRgba = (hex: string, opacity: number): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  if (isNaN(value)) {
+    return `rgba(255, 107, 53, ${opacity})`;
+  }
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+};
+
+const MacroIndicatorChart: React.FC<MacroIndicatorChartProps> = ({
+  service,
   historicalData,
-  selectedTimePeriod,
-  onTimePeriodChange
+  selectedDays,
+  onPeriodChange
 }) => {
-  console.log('📊 DXYChart: Received historical data:', historicalData);
-  console.log('📊 DXYChart: Data length:', historicalData?.length);
-  console.log('📊 DXYChart: Selected period:', selectedTimePeriod);
-  
-  // 获取屏幕宽度
+  const { config } = service;
+  const color = config.chartColor || DEFAULT_CHART_COLOR;
   const screenWidth = Dimensions.get('window').width - 48; // 减去容器的左右margin
 
-  // 如果没有数据，显示空视图
-  if (!historicalData || historicalData.length === 0) {
-    return (
-      <View style={styles.container}>
-        <View style={styles.header}>
-          <Text style={styles.title}>美元指数</Text>
-          <View style={styles.timePeriodContainer}>
-            {TIME_PERIODS.map(period => (
-              <TouchableOpacity
-                key={period}
-                style={[
-                  styles.timePeriodButton,
-                  selectedTimePeriod === period && styles.selectedTimePeriodButton
-                ]}
-                onPress={() => onTimePeriodChange(period)}
-              >
-                <Text style={[
-                  styles.timePeriodText,
-                  selectedTimePeriod === period && styles.selectedTimePeriodText
-                ]}>
-                  {period}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        </View>
-        <View style={styles.noDataContainer}>
-          <Text style={styles.noDataText}>暂无图表数据</Text>
-        </View>
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <Text style={styles.title}>{config.name}</Text>
+      <View style={styles.timePeriodContainer}>
+        {TIME_PERIODS.map(period => (
+          <TouchableOpacity
+            key={period.days}
+            style={[
+              styles.timePeriodButton,
+              selectedDays === period.days && styles.selectedTimePeriodButton
+            ]}
+            onPress={() => onPeriodChange(period.days)}
+          >
+            <Text style={[
+              styles.timePeriodText,
+              selectedDays === period.days && styles.selectedTimePeriodText
+            ]}>
+              {period.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
       </View>
-    );
-  }
+    </View>
+  );
 
-  // 提取DXY指数数据
-  const dxyValues = historicalData.map(item => {
-    console.log('📊 DXYChart: Processing item:', item);
-    const value = DXYService.parseDXYValue(item.dxy);
-    console.log('📊 DXYChart: Parsed value:', value);
-    return value > 0 ? value : 0;
-  });
-  
-  console.log('📊 DXYChart: Extracted DXY values:', dxyValues);
-  
-  // 使用真实数据 - 确保时间顺序正确（从最早到最新）
-  // API通常返回的是最新到最早的顺序，我们需要反转
-  let finalDXYValues = [...dxyValues].reverse(); // 反转数组，使最早的数据在前
-  let finalHistoricalData = [...historicalData].reverse(); // 反转历史数据数组
-  
-  console.log('📊 DXYChart: Final DXY values (reversed):', finalDXYValues);
-  
-  // 如果没有有效数据，显示错误信息
-  if (finalDXYValues.length === 0) {
+  // 过滤无效数据，并反转为从最早到最新
+  const points = historicalData.filter(point => point.value > 0).reverse();
+
+  if (points.length === 0) {
     return (
       <View style={styles.container}>
-        <View style={styles.header}>
-          <Text style={styles.title}>美元指数</Text>
-          <View style={styles.timePeriodContainer}>
-            {TIME_PERIODS.map(period => (
-              <TouchableOpacity
-                key={period}
-                style={[
-                  styles.timePeriodButton,
-                  selectedTimePeriod === period && styles.selectedTimePeriodButton
-                ]}
-                onPress={() => onTimePeriodChange(period)}
-              >
-                <Text style={[
-                  styles.timePeriodText,
-                  selectedTimePeriod === period && styles.selectedTimePeriodText
-                ]}>
-                  {period}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        </View>
+        {renderHeader()}
         <View style={styles.noDataContainer}>
-          <Text style={styles.noDataText}>无效的数据格式</Text>
+          <Text style={styles.noDataText}>暂无图表数据</Text>
         </View>
       </View>
     );
   }
 
+  const values = points.map(point => point.value);
+
   // 自动计算Y轴范围
-  const minValue = Math.min(...finalDXYValues);
-  const maxValue = Math.max(...finalDXYValues);
-  const range = maxValue - minValue;
-  const padding = range * 0.1; // 10%的边距
+  const minValue = Math.min(...values);
+  const maxValue = Math.max(...values);
+  const padding = (maxValue - minValue) * 0.1; // 10%的边距
   const yMin = Math.max(0, minValue - padding);
   const yMax = maxValue + padding;
 
   // 创建标签（日期）
-  const labels = finalHistoricalData.map(item => {
-    const date = new Date(item.date || item.timestamp || '');
+  const labels = points.map(point => {
+    const date = new Date(point.date || point.timestamp || '');
     return date.toLocaleDateString('zh-CN', { month: 'short', day: 'numeric' });
   });
 
@@ -145,16 +116,16 @@ const DXYChart: React.FC<DXYChartProps> = ({
       labels,
       datasets: [
         {
-          label: '美元指数',
-          data: finalDXYValues,
-          borderColor: '#FF6B35',
-          backgroundColor: 'rgba(255, 107, 53, 0.1)',
+          label: config.name,
+          data: values,
+          borderColor: color,
+          backgroundColor: hexToRgba(color, 0.1),
           borderWidth: 3,
           fill: true,
           tension: 0.4,
           pointRadius: 0,
           pointHoverRadius: 6,
-          pointHoverBackgroundColor: '#FF6B35',
+          pointHoverBackgroundColor: color,
           pointHoverBorderColor: '#FFFFFF',
           pointHoverBorderWidth: 2,
         },
@@ -172,19 +143,19 @@ const DXYChart: React.FC<DXYChartProps> = ({
           backgroundColor: 'rgba(0, 0, 0, 0.8)',
           titleColor: '#FFFFFF',
           bodyColor: '#FFFFFF',
-          borderColor: '#FF6B35',
+          borderColor: color,
           borderWidth: 1,
           cornerRadius: 8,
           displayColors: false,
           callbacks: {
             title: function(context: any) {
               const dataIndex = context[0].dataIndex;
-              return finalHistoricalData[dataIndex]?.date || '';
+              return points[dataIndex]?.date || '';
             },
             label: function(context: any) {
               const value = context.parsed.y;
-              const description = DXYService.getDXYDescription(value);
-              return `美元指数: ${value.toFixed(2)} (${description})`;
+              const level = service.getLevel(value);
+              return `${config.shortName}: ${service.formatValue(value)}${level ? ` (${level.label})` : ''}`;
             },
           },
         },
@@ -230,28 +201,7 @@ const DXYChart: React.FC<DXYChartProps> = ({
 
     return (
       <View style={styles.container}>
-        <View style={styles.header}>
-          <Text style={styles.title}>美元指数</Text>
-          <View style={styles.timePeriodContainer}>
-            {TIME_PERIODS.map(period => (
-              <TouchableOpacity
-                key={period}
-                style={[
-                  styles.timePeriodButton,
-                  selectedTimePeriod === period && styles.selectedTimePeriodButton
-                ]}
-                onPress={() => onTimePeriodChange(period)}
-              >
-                <Text style={[
-                  styles.timePeriodText,
-                  selectedTimePeriod === period && styles.selectedTimePeriodText
-                ]}>
-                  {period}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </View>
-        </View>
+        {renderHeader()}
         <View style={styles.chartContainer}>
           <Line data={chartData} options={chartOptions} />
         </View>
@@ -264,8 +214,8 @@ const DXYChart: React.FC<DXYChartProps> = ({
     backgroundColor: '#FFFFFF',
     backgroundGradientFrom: '#FFFFFF',
     backgroundGradientTo: '#FFFFFF',
-    decimalPlaces: 2,
-    color: (opacity = 1) => `rgba(255, 107, 53, ${opacity})`,
+    decimalPlaces: Math.min(config.decimals, 2),
+    color: (opacity = 1) => hexToRgba(color, opacity),
     labelColor: (opacity = 1) => `rgba(142, 142, 147, ${opacity})`,
     style: {
       borderRadius: 16,
@@ -288,14 +238,14 @@ const DXYChart: React.FC<DXYChartProps> = ({
     }
   };
 
+  // 移动端最多显示8个点
+  const step = Math.ceil(values.length / 8);
   const data = {
-    labels: labels.length > 8 ? labels.filter((_, index) => index % Math.ceil(labels.length / 8) === 0) : labels,
+    labels: labels.length > 8 ? labels.filter((_, index) => index % step === 0) : labels,
     datasets: [
       {
-        data: finalDXYValues.length > 8 ? 
-          finalDXYValues.filter((_, index) => index % Math.ceil(finalDXYValues.length / 8) === 0) : 
-          finalDXYValues,
-        color: (opacity = 1) => `rgba(255, 107, 53, ${opacity})`,
+        data: values.length > 8 ? values.filter((_, index) => index % step === 0) : values,
+        color: (opacity = 1) => hexToRgba(color, opacity),
         strokeWidth: 3,
       },
     ],
@@ -303,28 +253,7 @@ const DXYChart: React.FC<DXYChartProps> = ({
 
   return (
     <View style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>美元指数</Text>
-        <View style={styles.timePeriodContainer}>
-          {TIME_PERIODS.map(period => (
-            <TouchableOpacity
-              key={period}
-              style={[
-                styles.timePeriodButton,
-                selectedTimePeriod === period && styles.selectedTimePeriodButton
-              ]}
-              onPress={() => onTimePeriodChange(period)}
-            >
-              <Text style={[
-                styles.timePeriodText,
-                selectedTimePeriod === period && styles.selectedTimePeriodText
-              ]}>
-                {period}
-              </Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
+      {renderHeader()}
       <View style={styles.chartContainer}>
         <RNLineChart
           data={data}
@@ -433,4 +362,4 @@ const styles = StyleSheet.create({
   },
 });
 
-export default DXYChart;
+export default MacroIndicatorChart;
@@ -0,0 +1,121 @@
+import React, { useMemo } from 'react';
+import { Dimensions } from 'react-native';
+import { Svg, G, Rect, Text as SvgText } from 'react-native-svg';
+import { HeatmapSector, HeatmapStock, getHeatmapColor } from '../../services/SectorHeatmapService';
+import { squarify } from '../../utils/treemapLayout';
+
+const { width: SCREEN_WIDTH } = Dimensions.get('window');
+
+// 行业标题栏高度
+const SECTOR_HEADER_HEIGHT = 16;
+// 行业区域至少达到该尺寸才显示标题栏
+const MIN_HEADER_WIDTH = 40;
+const MIN_HEADER_HEIGHT = 36;
+const SECTOR_GAP = 2;
+const BACKGROUND_COLOR = '#1E222D';
+
+interface SectorTreemapProps {
+  sectors: HeatmapSector[];
+  width?: number;
+  height?: number;
+  onStockPress?: (stock: HeatmapStock) => void;
+}
+
+/**
+ * 行业矩形树图（SVG 实现，移动端和 Web 通用）
+ * 先按行业总市值划分区域，再在行业内按个股市值划分方块，颜色表示当日涨跌幅
+ */
+const SectorTreemap: React.FC<SectorTreemapProps> = ({
+  sectors,
+  width = SCREEN_WIDTH - 32,
+  height = 480,
+  onStockPress,
+}) => {
+  const layout = useMemo(
+    () =>
+      squarify(sectors, sector => sector.marketCap, { x: 0, y: 0, width, height }).map(sectorNode => {
+        const showHeader = sectorNode.width >= MIN_HEADER_WIDTH && sectorNode.height >= MIN_HEADER_HEIGHT;
+        const headerHeight = showHeader ? SECTOR_HEADER_HEIGHT : 0;
+        const stockNodes = squarify(sectorNode.item.stocks, stock => stock.marketCap, {
+          x: sectorNode.x + SECTOR_GAP / 2,
+          y: sectorNode.y + headerHeight + SECTOR_GAP / 2,
+          width: Math.max(0, sectorNode.width - SECTOR_GAP),
+          height: Math.max(0, sectorNode.height - headerHeight - SECTOR_GAP),
+        });
+        return { ...sectorNode, showHeader, stockNodes };
+      }),
+    [sectors, width, height]
+  );
+
+  return (
+    <Svg width={width} height={height}>
+      <Rect x={0} y={0} width={width} height={height} fill={BACKGROUND_COLOR} />
+      {layout.map(sectorNode => (
+        <G key={sectorNode.item.sector}>
+          {sectorNode.showHeader && (
+            <SvgText
+              x={sectorNode.x + 4}
+              y={sectorNode.y + SECTOR_HEADER_HEIGHT - 4}
+              fontSize={10}
+              fontWeight="600"
+              fill="#D1D4DC"
+            >
+              {/* 按宽度截断行业名称 */}
+              {sectorNode.item.sector.slice(0, Math.max(1, Math.floor((sectorNode.width - 8) / 6)))}
+            </SvgText>
+          )}
+          {sectorNode.stockNodes.map(node => {
+            const stock = node.item;
+            const tileWidth = Math.max(0, node.width - 1);
+            const tileHeight = Math.max(0, node.height - 1);
+            // 字号随方块大小变化
+            const fontSize = Math.min(18, Math.max(8, Math.min(tileWidth / 4, tileHeight / 3)));
+            const showCode = tileWidth >= 24 && tileHeight >= 14;
+            const showChange = showCode && tileHeight >= fontSize * 2.4;
+            const centerX = node.x + tileWidth / 2;
+            const centerY = node.y + tileHeight / 2;
+
+            return (
+              <G key={stock.code} onPress={onStockPress ? () => onStockPress(stock) : undefined}>
+                <Rect
+                  x={node.x}
+                  y={node.y}
+                  width={tileWidth}
+                  height={tileHeight}
+                  fill={getHeatmapColor(stock.changePercent)}
+                />
+                {showCode && (
+                  <SvgText
+                    x={centerX}
+                    y={showChange ? centerY - fontSize * 0.15 : centerY + fontSize * 0.35}
+                    fontSize={fontSize}
+                    fontWeight="700"
+                    fill="#FFFFFF"
+                    textAnchor="middle"
+                  >
+                    {stock.code}
+                  </SvgText>
+                )}
+                {showChange && (
+                  <SvgText
+                    x={centerX}
+                    y={centerY + fontSize * 0.95}
+                    fontSize={fontSize * 0.7}
+                    fill="#FFFFFF"
+                    textAnchor="middle"
+                  >
+                    {isNaN(stock.changePercent)
+                      ? '--'
+                      : `${stock.changePercent >= 0 ? '+' : ''}${stock.changePercent.toFixed(2)}%`}
+                  </SvgText>
+                )}
+              </G>
+            );
+          })}
+        </G>
+      ))}
+    </Svg>
+  );
+};
+
+export default SectorTreemap;
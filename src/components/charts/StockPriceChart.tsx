@@ -4,18 +4,26 @@ import { LineChart as RNLineChart } from 'react-native-chart-kit';
 import { StockInfo } from '../../services/StockInfoService';
 import { DateUtils } from '../../utils/dateUtils';
 // 仅在Web环境中导入Chart.js相关库
-import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend, Filler } from 'chart.js';
-import { Line } from 'react-chartjs-2';
-import { useChartType } from '../../contexts/ChartTypeContext';
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, BarElement, LineController, BarController, Title, Tooltip, Legend, Filler, ChartData } from 'chart.js';
+import { Line, Chart } from 'react-chartjs-2';
+import { useChartType, ChartType, IndicatorSettings, SubIndicatorType } from '../../contexts/ChartTypeContext';
+import CandlestickChart, { ChartOverlayLine } from './CandlestickChart';
+import IndicatorSubChart from './IndicatorSubChart';
+import { OHLCCandle, buildDailyCandles, aggregateIntradayCandles } from '../../utils/candleUtils';
+import { calculateSMA, calculateEMA, calculateBollingerBands } from '../../utils/technicalIndicators';
 
 
 // 为Web环境注册Chart.js组件
+// K线模式使用通用 <Chart type="bar">（叠加均线为 line 数据集），不会自动注册控制器，需显式注册
 if (Platform.OS === 'web') {
   ChartJS.register(
     CategoryScale,
     LinearScale,
     PointElement,
     LineElement,
+    BarElement,
+    LineController,
+    BarController,
     Title,
     Tooltip,
     Legend,
@@ -28,12 +36,36 @@ if (Platform.OS === 'web') {
 // 时间周期选项
 const TIME_PERIODS = ['24h', '7d', '30d', '90d', '1y', 'ALL'];
 
+// K线颜色：阳线绿、阴线红
+const CANDLE_UP_COLOR = '#00C853';
+const CANDLE_DOWN_COLOR = '#FF5252';
+
+// 叠加指标颜色
+const SMA_COLOR = '#2962FF';
+const EMA_COLOR = '#FF6D00';
+const BOLLINGER_COLOR = '#9E9E9E';
+
+// 副图指标选项
+const SUB_INDICATOR_OPTIONS: Array<{ type: Exclude<SubIndicatorType, 'none'>; label: string }> = [
+  { type: 'rsi', label: 'RSI' },
+  { type: 'macd', label: 'MACD' }
+];
+
+// 图表数据点，日线数据额外带有开盘/最高/最低价用于K线
+type ChartDataPoint = StockInfo & {
+  openPrice?: string;
+  dayHigh?: string;
+  dayLow?: string;
+  timestamp?: number;
+};
+
 interface StockPriceChartProps {
-  historicalData: StockInfo[];
+  historicalData: ChartDataPoint[];
   selectedTimePeriod: string;
   onTimePeriodChange: (period: string) => void;
   isPositive: boolean;
   showRankChart?: boolean; // 新增：是否显示排名曲线
+  showCandleChart?: boolean; // 是否显示K线
 }
 
 const StockPriceChart: React.FC<StockPriceChartProps> = ({
@@ -41,7 +73,8 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
   selectedTimePeriod,
   onTimePeriodChange,
   isPositive,
-  showRankChart = false
+  showRankChart = false,
+  showCandleChart = true
 }) => {
   // 获取当前股票名称
   const currentStockName = React.useMemo(() => {
@@ -49,13 +82,13 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
   }, [historicalData]);
   
   // 使用全局Context管理图表类型
-  const { getChartType, setChartType } = useChartType();
+  const { getChartType, setChartType, indicatorSettings, updateIndicatorSettings } = useChartType();
   
   // 获取当前图表类型
   const getChartTypeForStock = () => getChartType(currentStockName);
   
   // 设置图表类型
-  const setChartTypeForStock = (newType: 'price' | 'rank') => {
+  const setChartTypeForStock = (newType: ChartType) => {
     setChartType(currentStockName, newType);
   };
   
@@ -89,14 +122,15 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     if (getChartTypeForStock() === 'rank') {
       return TIME_PERIODS.filter(period => period !== '24h');
     }
-    // 价格图表显示所有时间周期选项
+    // 价格图表和K线显示所有时间周期选项（24h的K线按小时聚合）
     return TIME_PERIODS;
   };
 
   // 处理图表类型切换 - 简化版本
   // 价格图表：默认24h，用户可自由调整
   // 排名图表：默认7d，用户可自由调整
-  const handleChartTypeChange = (type: 'price' | 'rank') => {
+  // K线：默认30d，用户可自由调整
+  const handleChartTypeChange = (type: ChartType) => {
     console.log('📊 StockPriceChart: 用户切换图表类型', {
       from: getChartTypeForStock(),
       to: type,
@@ -113,6 +147,9 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     } else if (type === 'rank') {
       // 排名图表默认7d
       onTimePeriodChange('7d');
+    } else if (type === 'candle') {
+      // K线默认30d，日K更有参考意义
+      onTimePeriodChange('30d');
     }
   };
   const formatPrice = (value: number): string => {
@@ -204,6 +241,90 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     selectedTimePeriod
   });
   
+  // 渲染图表类型切换按钮（价格 / K线 / 排名）
+  const renderChartTypeSelector = () => {
+    if (!(showRankChart || showCandleChart) || !(hasValidPriceData || hasValidRankData)) {
+      return null;
+    }
+
+    const options: Array<{ type: ChartType; label: string; enabled: boolean }> = [
+      { type: 'price', label: '价格', enabled: hasValidPriceData }
+    ];
+    if (showCandleChart) {
+      options.push({ type: 'candle', label: 'K线', enabled: hasValidPriceData });
+    }
+    if (showRankChart) {
+      options.push({ type: 'rank', label: '排名', enabled: hasValidRankData });
+    }
+
+    return (
+      <View style={styles.chartTypeContainer}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.type}
+            style={[
+              styles.chartTypeButton,
+              getChartTypeForStock() === option.type && styles.selectedChartTypeButton
+            ]}
+            onPress={() => option.enabled && handleChartTypeChange(option.type)}
+            disabled={!option.enabled}
+          >
+            <Text style={[
+              styles.chartTypeText,
+              getChartTypeForStock() === option.type && styles.selectedChartTypeText,
+              !option.enabled && styles.disabledChartTypeText
+            ]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  // 渲染技术指标开关（均线、布林带叠加在主图，RSI/MACD显示在副图）
+  const renderIndicatorSelector = () => {
+    const overlayOptions: Array<{ key: keyof Pick<IndicatorSettings, 'sma' | 'ema' | 'bollinger'>; label: string; color: string }> = [
+      { key: 'sma', label: `MA${indicatorSettings.smaPeriod}`, color: SMA_COLOR },
+      { key: 'ema', label: `EMA${indicatorSettings.emaPeriod}`, color: EMA_COLOR },
+      { key: 'bollinger', label: 'BOLL', color: BOLLINGER_COLOR }
+    ];
+
+    return (
+      <View style={styles.indicatorContainer}>
+        {overlayOptions.map(option => {
+          const selected = indicatorSettings[option.key];
+          return (
+            <TouchableOpacity
+              key={option.key}
+              style={[styles.indicatorChip, selected && { borderColor: option.color }]}
+              onPress={() => updateIndicatorSettings({ [option.key]: !selected })}
+            >
+              <Text style={[styles.indicatorChipText, selected && { color: option.color, fontWeight: '600' }]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+        <View style={styles.indicatorDivider} />
+        {SUB_INDICATOR_OPTIONS.map(option => {
+          const selected = indicatorSettings.subIndicator === option.type;
+          return (
+            <TouchableOpacity
+              key={option.type}
+              style={[styles.indicatorChip, selected && styles.selectedIndicatorChip]}
+              onPress={() => updateIndicatorSettings({ subIndicator: selected ? 'none' : option.type })}
+            >
+              <Text style={[styles.indicatorChipText, selected && styles.selectedIndicatorChipText]}>
+                {option.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
   // 当历史数据更新时，记录数据状态
   React.useEffect(() => {
     console.log('📊 StockPriceChart: 数据更新', {
@@ -229,10 +350,10 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
   });
   
   // 根据当前图表类型决定显示的数据
-  let displayData = getChartTypeForStock() === 'price' ? priceData : rankData;
+  let displayData = getChartTypeForStock() === 'rank' ? rankData : priceData;
   
   // For price data, if we have mostly 0 values, replace them with the nearest valid value
-  if (getChartTypeForStock() === 'price' && displayData.some(val => val === 0)) {
+  if (getChartTypeForStock() !== 'rank' && displayData.some(val => val === 0)) {
     let lastValidPrice = displayData.find(val => val > 0) || 1; // Use first valid price as fallback
     displayData = displayData.map(price => price > 0 ? price : lastValidPrice);
   }
@@ -245,9 +366,52 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     dateLabelsample: dateLabels.slice(0, 10)
   });
   
-  const dataColor = getChartTypeForStock() === 'price' ? 
+  const dataColor = getChartTypeForStock() !== 'rank' ? 
     (isPositive ? '#00C853' : '#FF5252') : 
     '#FF9800'; // 排名使用橙色
+
+  // K线数据：24h视图将分时价格按小时聚合，其他视图使用每日开高低收
+  const isCandleChart = getChartTypeForStock() === 'candle';
+  const candles: OHLCCandle[] = !isCandleChart ? [] :
+    selectedTimePeriod === '24h'
+      ? aggregateIntradayCandles(historicalData, 60)
+      : buildDailyCandles(historicalData);
+  const candleLabels = candles.map(candle =>
+    selectedTimePeriod === '24h'
+      ? DateUtils.format24hTime(candle.date)
+      : DateUtils.formatSimpleDate(candle.date)
+  );
+
+  // 技术指标只作用于价格图和K线，基于收盘价序列计算
+  const supportsIndicators = getChartTypeForStock() !== 'rank';
+  const indicatorCloses = isCandleChart ? candles.map(candle => candle.close) : displayData;
+  const overlayLines: ChartOverlayLine[] = [];
+  if (supportsIndicators) {
+    if (indicatorSettings.sma) {
+      overlayLines.push({
+        key: 'sma',
+        label: `MA${indicatorSettings.smaPeriod}`,
+        color: SMA_COLOR,
+        values: calculateSMA(indicatorCloses, indicatorSettings.smaPeriod)
+      });
+    }
+    if (indicatorSettings.ema) {
+      overlayLines.push({
+        key: 'ema',
+        label: `EMA${indicatorSettings.emaPeriod}`,
+        color: EMA_COLOR,
+        values: calculateEMA(indicatorCloses, indicatorSettings.emaPeriod)
+      });
+    }
+    if (indicatorSettings.bollinger) {
+      const bands = calculateBollingerBands(indicatorCloses);
+      overlayLines.push(
+        { key: 'bollUpper', label: 'BOLL上轨', color: BOLLINGER_COLOR, values: bands.upper },
+        { key: 'bollMiddle', label: 'BOLL中轨', color: BOLLINGER_COLOR, values: bands.middle },
+        { key: 'bollLower', label: 'BOLL下轨', color: BOLLINGER_COLOR, values: bands.lower }
+      );
+    }
+  }
   
   // 如果没有有效数据，显示错误信息
   if (!hasValidPriceData && !hasValidRankData) {
@@ -280,46 +444,11 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
   }
   
   // 如果当前图表类型没有有效数据，显示切换提示
-  if ((getChartTypeForStock() === 'price' && !hasValidPriceData) || (getChartTypeForStock() === 'rank' && !hasValidRankData)) {
+  if ((getChartTypeForStock() !== 'rank' && !hasValidPriceData) || (getChartTypeForStock() === 'rank' && !hasValidRankData)) {
     return (
       <View style={styles.container}>
         {/* 图表类型切换按钮 */}
-        {showRankChart && (hasValidPriceData || hasValidRankData) && (
-          <View style={styles.chartTypeContainer}>
-            <TouchableOpacity
-              style={[
-                styles.chartTypeButton,
-                getChartTypeForStock() === 'price' && styles.selectedChartTypeButton
-              ]}
-              onPress={() => hasValidPriceData && handleChartTypeChange('price')}
-              disabled={!hasValidPriceData}
-            >
-              <Text style={[
-                styles.chartTypeText,
-                getChartTypeForStock() === 'price' && styles.selectedChartTypeText,
-                !hasValidPriceData && styles.disabledChartTypeText
-              ]}>
-                价格
-              </Text>
-            </TouchableOpacity>
-            <TouchableOpacity
-              style={[
-                styles.chartTypeButton,
-                getChartTypeForStock() === 'rank' && styles.selectedChartTypeButton
-              ]}
-              onPress={() => hasValidRankData && handleChartTypeChange('rank')}
-              disabled={!hasValidRankData}
-            >
-              <Text style={[
-                styles.chartTypeText,
-                getChartTypeForStock() === 'rank' && styles.selectedChartTypeText,
-                !hasValidRankData && styles.disabledChartTypeText
-              ]}>
-                排名
-              </Text>
-            </TouchableOpacity>
-          </View>
-        )}
+        {renderChartTypeSelector()}
         
         <View style={styles.timePeriodContainer}>
           {getAvailableTimePeriods().map(period => (
@@ -343,7 +472,7 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
         
         <View style={styles.noDataContainer}>
           <Text style={styles.noDataText}>
-            {getChartTypeForStock() === 'price' ? '价格数据不可用' : '排名数据不可用'}
+            {getChartTypeForStock() !== 'rank' ? '价格数据不可用' : '排名数据不可用'}
           </Text>
         </View>
       </View>
@@ -370,7 +499,13 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
         data: displayData,
         color: () => chartColor,
         strokeWidth: selectedTimePeriod === '24h' ? 1.5 : 2, // 24h图表使用更细的线条
-      }
+      },
+      // react-native-chart-kit 不支持空值，指标尚未形成的部分用价格补齐（与价格线重合）
+      ...overlayLines.map(line => ({
+        data: line.values.map((value, index) => value ?? displayData[index]),
+        color: () => line.color,
+        strokeWidth: 1
+      }))
     ],
     legend: [getChartTypeForStock() === 'price' ? 'Price' : 'Rank']
   };
@@ -395,7 +530,7 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
   };
 
   // 格式化函数选择
-  const formatValue = getChartTypeForStock() === 'price' ? formatPrice : formatRank;
+  const formatValue = getChartTypeForStock() === 'rank' ? formatRank : formatPrice;
 
   // 图表配置
   const chartConfig = {
@@ -437,45 +572,131 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
     withHorizontalLabels: true
   };
 
+  // 渲染K线图：Web端使用Chart.js浮动柱状图绘制影线和实体，移动端使用SVG
+  const renderCandleChart = () => {
+    const candleColors = candles.map(candle =>
+      candle.close >= candle.open ? CANDLE_UP_COLOR : CANDLE_DOWN_COLOR
+    );
+
+    if (Platform.OS !== 'web') {
+      return (
+        <CandlestickChart
+          candles={candles}
+          labels={candleLabels}
+          width={screenWidth}
+          height={220}
+          formatPrice={formatPrice}
+          maxLabels={selectedTimePeriod === '24h' ? 8 : 5}
+          overlays={overlayLines}
+        />
+      );
+    }
+
+    // 影线、实体为柱状图，叠加指标为折线，组合为混合图表
+    const candleChartData: ChartData<'bar' | 'line', Array<[number, number] | number | null>> = {
+      labels: candleLabels,
+      datasets: [
+        {
+          // 影线：最低价到最高价
+          label: 'Range',
+          data: candles.map(candle => [candle.low, candle.high] as [number, number]),
+          backgroundColor: candleColors,
+          borderColor: candleColors,
+          barThickness: 1,
+          grouped: false
+        },
+        {
+          // 实体：开盘价到收盘价，价格无变化时保留最小高度
+          label: 'OHLC',
+          data: candles.map(candle => (
+            candle.open === candle.close
+              ? [candle.open, candle.close + candle.close * 0.0005]
+              : [candle.open, candle.close]
+          ) as [number, number]),
+          backgroundColor: candleColors,
+          borderColor: candleColors,
+          barPercentage: 0.6,
+          categoryPercentage: 0.9,
+          grouped: false
+        },
+        ...overlayLines.map(line => ({
+          type: 'line' as const,
+          label: line.label,
+          data: line.values,
+          borderColor: line.color,
+          backgroundColor: line.color,
+          borderWidth: 1,
+          pointRadius: 0,
+          fill: false
+        }))
+      ]
+    };
+
+    return (
+      <View style={{height: 220, width: screenWidth}}>
+        <Chart
+          type="bar"
+          data={candleChartData}
+          options={{
+            responsive: true,
+            maintainAspectRatio: false,
+            interaction: {
+              intersect: false,
+              mode: 'index',
+            },
+            scales: {
+              y: {
+                ticks: {
+                  callback: (value) => formatPrice(Number(value)),
+                  maxTicksLimit: 6
+                },
+                grid: {
+                  display: true
+                }
+              },
+              x: {
+                grid: {
+                  display: false
+                },
+                ticks: {
+                  maxTicksLimit: selectedTimePeriod === '24h' ? 8 : 5
+                }
+              }
+            },
+            plugins: {
+              legend: {
+                display: false
+              },
+              tooltip: {
+                // 不显示影线数据集的提示，避免重复
+                filter: (item) => item.datasetIndex !== 0,
+                callbacks: {
+                  label: (context) => {
+                    if (context.datasetIndex > 1) {
+                      return `${context.dataset.label}: ${formatPrice(Number(context.parsed.y))}`;
+                    }
+                    const candle = candles[context.dataIndex];
+                    if (!candle) return '';
+                    return [
+                      `开: ${formatPrice(candle.open)}`,
+                      `高: ${formatPrice(candle.high)}`,
+                      `低: ${formatPrice(candle.low)}`,
+                      `收: ${formatPrice(candle.close)}`
+                    ];
+                  }
+                }
+              }
+            }
+          }}
+        />
+      </View>
+    );
+  };
+
   return (
     <View style={styles.container}>
       {/* 图表类型切换按钮 */}
-      {showRankChart && (hasValidPriceData || hasValidRankData) && (
-        <View style={styles.chartTypeContainer}>
-          <TouchableOpacity
-            style={[
-              styles.chartTypeButton,
-              getChartTypeForStock() === 'price' && styles.selectedChartTypeButton
-            ]}
-            onPress={() => hasValidPriceData && handleChartTypeChange('price')}
-            disabled={!hasValidPriceData}
-          >
-            <Text style={[
-              styles.chartTypeText,
-              getChartTypeForStock() === 'price' && styles.selectedChartTypeText,
-              !hasValidPriceData && styles.disabledChartTypeText
-            ]}>
-              价格
-            </Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[
-              styles.chartTypeButton,
-              getChartTypeForStock() === 'rank' && styles.selectedChartTypeButton
-            ]}
-            onPress={() => hasValidRankData && handleChartTypeChange('rank')}
-            disabled={!hasValidRankData}
-          >
-            <Text style={[
-              styles.chartTypeText,
-              getChartTypeForStock() === 'rank' && styles.selectedChartTypeText,
-              !hasValidRankData && styles.disabledChartTypeText
-            ]}>
-              排名
-            </Text>
-          </TouchableOpacity>
-        </View>
-      )}
+      {renderChartTypeSelector()}
       
       <View style={styles.timePeriodContainer}>
         {getAvailableTimePeriods().map(period => (
@@ -497,7 +718,9 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
         ))}
       </View>
       
-{Platform.OS === 'web' ? (
+      {isCandleChart ? (
+        renderCandleChart()
+      ) : Platform.OS === 'web' ? (
         // Web环境使用react-chartjs-2
         <View style={{height: 220, width: screenWidth}}>
           {/* Add debugging info for web charts */}
@@ -525,7 +748,17 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
                   pointBackgroundColor: chartColor,
                   fill: getChartTypeForStock() === 'rank' ? 'start' : 'origin', // 排名图表填充到顶部，价格图表填充到底部
                   tension: 0.4 // 控制曲线平滑程度
-                }
+                },
+                ...overlayLines.map(line => ({
+                  label: line.label,
+                  data: line.values,
+                  borderColor: line.color,
+                  backgroundColor: line.color,
+                  borderWidth: 1,
+                  pointRadius: 0,
+                  fill: false,
+                  tension: 0
+                }))
               ]
             }}
             options={{
@@ -563,7 +796,9 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
                 },
                 tooltip: {
                   callbacks: {
-                    label: (context) => `${formatValue(context.parsed.y)}`,
+                    label: (context) => context.datasetIndex === 0
+                      ? `${formatValue(context.parsed.y)}`
+                      : `${context.dataset.label}: ${formatValue(context.parsed.y)}`,
                     title: (context) => {
                       const index = context[0]?.dataIndex;
                       if (index !== undefined && historicalData[index]) {
@@ -599,7 +834,7 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
           withHorizontalLines={true}
           withVerticalLines={false}
           withDots={false} // 隐藏所有数据点，让图表更平滑
-          withShadow={true} // 启用阴影填充效果
+          withShadow={overlayLines.length === 0} // 启用阴影填充效果，叠加指标时关闭避免遮挡
           withInnerLines={false}
           withOuterLines={true}
           fromZero={false} // 不从0开始，而是根据数据的最小值自动设置
@@ -607,6 +842,16 @@ const StockPriceChart: React.FC<StockPriceChartProps> = ({
           yAxisInterval={1}
         />
       )}
+
+      {/* 技术指标 */}
+      {supportsIndicators && renderIndicatorSelector()}
+      {supportsIndicators && indicatorSettings.subIndicator !== 'none' && (
+        <IndicatorSubChart
+          type={indicatorSettings.subIndicator}
+          values={indicatorCloses}
+          width={screenWidth}
+        />
+      )}
     </View>
   );
 };
@@ -679,6 +924,40 @@ const styles = StyleSheet.create({
     marginVertical: 8,
     borderRadius: 16
   },
+  indicatorContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flexWrap: 'wrap',
+    marginTop: 4
+  },
+  indicatorChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E0E0E0',
+    marginRight: 6,
+    marginBottom: 6
+  },
+  selectedIndicatorChip: {
+    borderColor: '#007AFF',
+    backgroundColor: '#E8F0FE'
+  },
+  indicatorChipText: {
+    fontSize: 12,
+    color: '#666'
+  },
+  selectedIndicatorChipText: {
+    color: '#007AFF',
+    fontWeight: '600'
+  },
+  indicatorDivider: {
+    width: 1,
+    height: 16,
+    backgroundColor: '#E0E0E0',
+    marginRight: 6,
+    marginBottom: 6
+  },
   noDataContainer: {
     height: 220,
     justifyContent: 'center',
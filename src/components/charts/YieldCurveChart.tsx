@@ -0,0 +1,243 @@
+import React from 'react';
+import { View, Text, StyleSheet, Dimensions, Platform } from 'react-native';
+import { LineChart as RNLineChart } from 'react-native-chart-kit';
+import { YieldCurveData } from '../../services/data/YieldCurveService';
+
+// 仅在Web环境中导入Chart.js相关库
+import { Chart as ChartJS, CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend } from 'chart.js';
+import { Line } from 'react-chartjs-2';
+
+if (Platform.OS === 'web') {
+  ChartJS.register(CategoryScale, LinearScale, PointElement, LineElement, Title, Tooltip, Legend);
+}
+
+// 当前、1个月前、1年前曲线的颜色
+const SNAPSHOT_COLORS: Record<string, string> = {
+  current: '#007AFF',
+  month: '#FF9500',
+  year: '#8E8E93',
+};
+
+interface YieldCurveChartProps {
+  curve: YieldCurveData;
+}
+
+// 将 #RRGGBB 转换为 rgba
+const hexToRgba = (hex: string, opacity: number): string => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return `rgba(${(value >> 16) & 255}, ${(value >> 8) & 255}, ${value & 255}, ${opacity})`;
+};
+
+const YieldCurveChart: React.FC<YieldCurveChartProps> = ({ curve }) => {
+  const screenWidth = Dimensions.get('window').width - 48;
+  const labels = curve.tenors.map(tenor => tenor.label);
+  // 只绘制各期限数据完整的曲线
+  const snapshots = curve.snapshots.filter(snapshot => snapshot.yields.every(value => value !== null));
+
+  const renderLegend = () => (
+    <View style={styles.legend}>
+      {snapshots.map(snapshot => (
+        <View key={snapshot.key} style={styles.legendItem}>
+          <View style={[styles.legendDot, { backgroundColor: SNAPSHOT_COLORS[snapshot.key] }]} />
+          <Text style={styles.legendText}>{snapshot.label}</Text>
+        </View>
+      ))}
+    </View>
+  );
+
+  if (snapshots.length === 0) {
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>收益率曲线</Text>
+        <View style={styles.noDataContainer}>
+          <Text style={styles.noDataText}>暂无收益率数据</Text>
+        </View>
+      </View>
+    );
+  }
+
+  if (Platform.OS === 'web') {
+    const chartData = {
+      labels,
+      datasets: snapshots.map(snapshot => ({
+        label: snapshot.label,
+        data: snapshot.yields as number[],
+        borderColor: SNAPSHOT_COLORS[snapshot.key],
+        backgroundColor: SNAPSHOT_COLORS[snapshot.key],
+        borderWidth: snapshot.key === 'current' ? 3 : 2,
+        borderDash: snapshot.key === 'current' ? [] : [6, 4],
+        tension: 0.3,
+        pointRadius: 4,
+      })),
+    };
+
+    const chartOptions = {
+      responsive: true,
+      maintainAspectRatio: false,
+      plugins: {
+        legend: {
+          display: false,
+        },
+        tooltip: {
+          backgroundColor: 'rgba(0, 0, 0, 0.8)',
+          callbacks: {
+            label: function(context: any) {
+              return `${context.dataset.label}: ${context.parsed.y.toFixed(3)}%`;
+            },
+          },
+        },
+      },
+      scales: {
+        x: {
+          grid: {
+            display: false,
+          },
+          ticks: {
+            color: '#8E8E93',
+          },
+        },
+        y: {
+          grid: {
+            color: 'rgba(142, 142, 147, 0.2)',
+          },
+          ticks: {
+            color: '#8E8E93',
+            callback: function(value: any) {
+              return `${value.toFixed(2)}%`;
+            },
+          },
+        },
+      },
+    };
+
+    return (
+      <View style={styles.container}>
+        <Text style={styles.title}>收益率曲线</Text>
+        {renderLegend()}
+        <View style={styles.chartContainer}>
+          <Line data={chartData} options={chartOptions} />
+        </View>
+      </View>
+    );
+  }
+
+  const chartConfig = {
+    backgroundColor: '#FFFFFF',
+    backgroundGradientFrom: '#FFFFFF',
+    backgroundGradientTo: '#FFFFFF',
+    decimalPlaces: 2,
+    color: (opacity = 1) => hexToRgba(SNAPSHOT_COLORS.current, opacity),
+    labelColor: (opacity = 1) => `rgba(142, 142, 147, ${opacity})`,
+    propsForDots: {
+      r: '3',
+    },
+    propsForBackgroundLines: {
+      strokeDasharray: "5,5",
+      stroke: "rgba(142, 142, 147, 0.2)",
+      strokeWidth: 1
+    },
+  };
+
+  const data = {
+    labels,
+    datasets: snapshots.map(snapshot => ({
+      data: snapshot.yields as number[],
+      color: (opacity = 1) => hexToRgba(SNAPSHOT_COLORS[snapshot.key], opacity),
+      strokeWidth: snapshot.key === 'current' ? 3 : 2,
+    })),
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>收益率曲线</Text>
+      {renderLegend()}
+      <View style={styles.chartContainer}>
+        <RNLineChart
+          data={data}
+          width={screenWidth}
+          height={220}
+          chartConfig={chartConfig}
+          yAxisSuffix="%"
+          withVerticalLines={false}
+          withOuterLines={false}
+          segments={4}
+          fromZero={false}
+          style={styles.chart}
+        />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 24,
+    marginTop: 24,
+    borderRadius: 20,
+    paddingVertical: 24,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.08,
+    shadowRadius: 12,
+    elevation: 6,
+    borderWidth: 1,
+    borderColor: '#F0F0F5',
+  },
+
+  title: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    letterSpacing: -0.5,
+    paddingHorizontal: 24,
+    marginBottom: 12,
+  },
+
+  legend: {
+    flexDirection: 'row',
+    paddingHorizontal: 24,
+    marginBottom: 16,
+    gap: 16,
+  },
+
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 6,
+  },
+
+  legendText: {
+    fontSize: 13,
+    color: '#4A4A4A',
+  },
+
+  chartContainer: {
+    alignItems: 'center',
+    paddingHorizontal: Platform.OS === 'web' ? 24 : 0,
+    height: Platform.OS === 'web' ? 260 : 220,
+  },
+
+  chart: {
+    borderRadius: 16,
+  },
+
+  noDataContainer: {
+    height: 160,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+
+  noDataText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
+
+export default YieldCurveChart;
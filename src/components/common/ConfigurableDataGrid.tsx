@@ -3,15 +3,10 @@ import { View, StyleSheet, TouchableOpacity } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import configService from '../../services/ConfigService';
 
-// Import US stock relevant widgets only (removed GreedyIndex)
-import DXYWidget from './DXYWidget';
-import USBond10YRWidget from './USBond10YRWidget';
-import SP500Widget from './SP500Widget';
-import NasdaqWidget from './NasdaqWidget';
-import DJIWidget from './DJIWidget'; // added
-import XAUUSDWidget from './XAUUSDWidget'; // added gold
-import USCLWidget from './USCLWidget'; // added crude oil
-import USDCNHWidget from './USDCNHWidget'; // added
+import MacroIndicatorWidget from './MacroIndicatorWidget';
+import macroIndicatorRegistry from '../../services/data/MacroIndicatorRegistry';
+import { useMacroIndicators } from '../../hooks/useMacroIndicators';
+import { DEFAULT_INDICATOR_CARDS } from '../../config/macroIndicatorConfig';
 
 // 布局配置接口
 interface LayoutConfig {
@@ -24,44 +19,8 @@ interface ConfigurableDataGridProps {
   onCardPress?: (widgetName: string) => void;
 }
 
-// 可用的组件映射 (removed GreedyIndex)
-const WIDGET_COMPONENTS = {
-  DXY: DXYWidget,
-  USBond10YR: USBond10YRWidget,
-  SP500: SP500Widget,
-  Nasdaq: NasdaqWidget,
-  DJI: DJIWidget, // added
-  XAUUSD: XAUUSDWidget, // added
-  USCL: USCLWidget, // added
-  USDCNH: USDCNHWidget, // added
-};
-
-// 组件详情页面映射 (removed GreedyIndexDetail)
-const DETAIL_SCREENS = {
-  DXY: 'DXYDetail',
-  USBond10YR: 'USBond10YRDetail',
-  SP500: 'SP500Detail',
-  Nasdaq: 'NasdaqDetail',
-  DJI: 'DJIDetail', // added
-  XAUUSD: 'XAUUSDDetail', // added
-  USCL: 'USCLDetail', // added
-  USDCNH: 'USDCNHDetail', // added
-};
-
-// 组件标题映射 - 默认值 (removed GreedyIndex)
-const DEFAULT_WIDGET_TITLES = {
-  DXY: '美元指数',
-  USBond10YR: '美债10年期',
-  SP500: '标普500',
-  Nasdaq: '纳斯达克',
-  DJI: '道琼斯', // added
-  XAUUSD: '黄金', // added
-  USCL: '原油', // added
-  USDCNH: '离岸人民币', // added
-};
-
-// 默认配置字符串 (removed GreedyIndex)
-const DEFAULT_CARDS_CONFIG_STRING = 'DXY,USBond10YR,SP500,Nasdaq,DJI,XAUUSD,USCL,USDCNH';
+// 默认配置字符串
+const DEFAULT_CARDS_CONFIG_STRING = DEFAULT_INDICATOR_CARDS.join(',');
 
 const DEFAULT_LAYOUT_CONFIG: LayoutConfig = {
   columnsPerRow: 2,
@@ -73,13 +32,14 @@ const ConfigurableDataGrid: React.FC<ConfigurableDataGridProps> = ({ onCardPress
   const navigation = useNavigation();
   const [enabledWidgets, setEnabledWidgets] = useState<string[]>([]);
   const [layoutConfig, setLayoutConfig] = useState<LayoutConfig>(DEFAULT_LAYOUT_CONFIG);
-  const [widgetTitles, setWidgetTitles] = useState<{[key: string]: string}>(DEFAULT_WIDGET_TITLES);
+  const [widgetTitles, setWidgetTitles] = useState<{[key: string]: string}>({});
   const [loading, setLoading] = useState(true);
+  const indicators = useMacroIndicators();
 
-  // 加载配置
+  // 加载配置，远程指标更新后重新加载
   useEffect(() => {
     loadDataGridConfig();
-  }, []);
+  }, [indicators]);
 
   const loadDataGridConfig = async () => {
     try {
@@ -87,20 +47,17 @@ const ConfigurableDataGrid: React.FC<ConfigurableDataGridProps> = ({ onCardPress
       await configService.init();
       const cardsConfigString = await configService.getConfig('DATA_CARDS_CONFIG', DEFAULT_CARDS_CONFIG_STRING);
       const layoutConfigData = await configService.getConfig('DATA_LAYOUT_CONFIG', JSON.stringify(DEFAULT_LAYOUT_CONFIG));
-      const titleConfigs = {
-        DXY: await configService.getConfig('DATA_TITLE_DXY', DEFAULT_WIDGET_TITLES.DXY),
-        USBond10YR: await configService.getConfig('DATA_TITLE_US_BOND_10YR', DEFAULT_WIDGET_TITLES.USBond10YR),
-        SP500: await configService.getConfig('DATA_TITLE_SP500', DEFAULT_WIDGET_TITLES.SP500),
-        Nasdaq: await configService.getConfig('DATA_TITLE_NASDAQ', DEFAULT_WIDGET_TITLES.Nasdaq),
-        DJI: await configService.getConfig('DATA_TITLE_DJI', DEFAULT_WIDGET_TITLES.DJI), // added
-        XAUUSD: await configService.getConfig('DATA_TITLE_XAUUSD', DEFAULT_WIDGET_TITLES.XAUUSD), // added
-        USCL: await configService.getConfig('DATA_TITLE_USCL', DEFAULT_WIDGET_TITLES.USCL), // added
-        USDCNH: await configService.getConfig('DATA_TITLE_USDCNH', DEFAULT_WIDGET_TITLES.USDCNH), // added
-      };
+      // 卡片标题：指标配置的 titleConfigKey（如 DATA_TITLE_DXY）可覆盖默认名称
+      const titleConfigs: {[key: string]: string} = {};
+      for (const indicator of macroIndicatorRegistry.getIndicators()) {
+        titleConfigs[indicator.id] = indicator.titleConfigKey
+          ? await configService.getConfig(indicator.titleConfigKey, indicator.shortName)
+          : indicator.shortName;
+      }
       console.log('🔍 ConfigurableDataGrid: Raw config values:', { DATA_CARDS_CONFIG: cardsConfigString, DATA_LAYOUT_CONFIG: layoutConfigData, titleConfigs });
       let widgetNames: string[] = [];
       if (typeof cardsConfigString === 'string' && cardsConfigString.trim()) {
-        widgetNames = cardsConfigString.split(',').map(name => name.trim()).filter(name => name && WIDGET_COMPONENTS[name]);
+        widgetNames = cardsConfigString.split(',').map(name => name.trim()).filter(name => name && macroIndicatorRegistry.getIndicator(name));
       }
       if (widgetNames.length === 0) {
         widgetNames = DEFAULT_CARDS_CONFIG_STRING.split(',').map(name => name.trim());
@@ -120,24 +77,25 @@ const ConfigurableDataGrid: React.FC<ConfigurableDataGridProps> = ({ onCardPress
       const defaultWidgets = DEFAULT_CARDS_CONFIG_STRING.split(',').map(name => name.trim());
       setEnabledWidgets(defaultWidgets);
       setLayoutConfig(DEFAULT_LAYOUT_CONFIG);
-      setWidgetTitles(DEFAULT_WIDGET_TITLES);
+      setWidgetTitles({});
     } finally {
       setLoading(false);
     }
   };
 
   const handleCardPress = (widgetName: string) => {
-    const detailScreen = DETAIL_SCREENS[widgetName];
-    if (detailScreen) {
-      navigation.navigate(detailScreen);
+    const indicator = macroIndicatorRegistry.getIndicator(widgetName);
+    if (indicator) {
+      // @ts-ignore
+      navigation.navigate('IndicatorDetail', { indicatorId: indicator.id });
     }
   };
 
   const renderDataCard = (widgetName: string, index: number) => {
-    const WidgetComponent = WIDGET_COMPONENTS[widgetName];
-    if (!WidgetComponent) return null;
+    const indicator = macroIndicatorRegistry.getIndicator(widgetName);
+    if (!indicator) return null;
     const cardStyle = getCardStyle();
-    const customTitle = widgetTitles[widgetName];
+    const customTitle = widgetTitles[indicator.id];
     return (
       <TouchableOpacity
         key={`${widgetName}-${index}`}
@@ -145,7 +103,7 @@ const ConfigurableDataGrid: React.FC<ConfigurableDataGridProps> = ({ onCardPress
         onPress={() => handleCardPress(widgetName)}
         activeOpacity={0.7}
       >
-        <WidgetComponent title={customTitle} />
+        <MacroIndicatorWidget indicatorId={indicator.id} title={customTitle} onPress={() => handleCardPress(widgetName)} />
       </TouchableOpacity>
     );
   };
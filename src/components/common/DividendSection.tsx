@@ -0,0 +1,246 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import portfolioService from '../../services/PortfolioService';
+import dividendService, { DividendIncomeItem, StockDividends } from '../../services/DividendService';
+import DividendHistoryChart from '../charts/DividendHistoryChart';
+
+const CHANGE_UP_COLOR = '#34C759';
+const CHANGE_DOWN_COLOR = '#FF3B30';
+
+interface DividendSectionProps {
+  stockCode: string;
+  // 行情中的股息率（baseinfo.dividendYield），如 "0.44%"
+  dividendYield?: string;
+}
+
+const formatMoney = (value: number): string =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+/**
+ * 个股股息模块
+ * 年度股息、股息率、持仓的预计收入与成本股息率、最近一次股息调整和年度股息走势
+ */
+const DividendSection: React.FC<DividendSectionProps> = ({ stockCode, dividendYield }) => {
+  const { currentUser } = useUser();
+  const [dividends, setDividends] = useState<StockDividends | null>(null);
+  // 持有该股票时的股息收入
+  const [income, setIncome] = useState<DividendIncomeItem | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (stockCode) {
+      fetchDividends();
+    }
+  }, [stockCode, currentUser]);
+
+  const fetchDividends = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const symbol = stockCode.toUpperCase();
+      const [stockDividends, holdings] = await Promise.all([
+        dividendService.getStockDividends(symbol),
+        currentUser ? portfolioService.getHoldings(currentUser.email) : Promise.resolve([]),
+      ]);
+      const holding = holdings.find(item => item.symbol === symbol);
+      const summary = holding ? await dividendService.getHoldingsIncome([holding]) : null;
+      setDividends(stockDividends);
+      setIncome(summary?.items[0] || null);
+    } catch (err) {
+      console.error('❌ DividendSection: Error fetching dividends:', err);
+      setError('获取股息数据失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const renderContent = () => {
+    const current = dividends?.current;
+    const lastChange = dividends?.changes[0];
+    if (!dividends || !current || (current.annualDividend <= 0 && !lastChange)) {
+      return <Text style={styles.emptyText}>暂无派息数据</Text>;
+    }
+
+    return (
+      <>
+        <View style={styles.summaryRow}>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>年度股息</Text>
+            <Text style={styles.summaryValue}>
+              {current.annualDividend > 0 ? dividendService.formatAmount(current.annualDividend) : '已停止派息'}
+            </Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>股息率</Text>
+            <Text style={styles.summaryValue}>{dividendYield || dividendService.formatYield(current.dividendYield)}</Text>
+          </View>
+          <View style={styles.summaryItem}>
+            <Text style={styles.summaryLabel}>成本股息率</Text>
+            <Text style={styles.summaryValue}>{income ? dividendService.formatYield(income.yieldOnCost) : '--'}</Text>
+          </View>
+        </View>
+
+        {income && (
+          <View style={styles.infoCard}>
+            <Text style={styles.infoTitle}>持仓预计年收入 {formatMoney(income.annualIncome)}</Text>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>持有股数</Text>
+              <Text style={styles.infoValue}>{income.shares}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>当前股息率</Text>
+              <Text style={styles.infoValue}>{dividendService.formatYield(income.currentYield)}</Text>
+            </View>
+          </View>
+        )}
+
+        {lastChange && (
+          <View style={styles.infoCard}>
+            <Text style={styles.infoTitle}>最近一次股息调整</Text>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>{lastChange.date}</Text>
+              <Text style={styles.infoValue}>
+                {dividendService.formatAmount(lastChange.previousDividend)} → {dividendService.formatAmount(lastChange.dividend)}
+                {lastChange.change !== null && (
+                  <Text style={{ color: lastChange.change >= 0 ? CHANGE_UP_COLOR : CHANGE_DOWN_COLOR }}>
+                    {` ${lastChange.change >= 0 ? '+' : ''}${lastChange.change.toFixed(1)}%`}
+                  </Text>
+                )}
+              </Text>
+            </View>
+          </View>
+        )}
+
+        <Text style={styles.subTitle}>年度股息走势</Text>
+        <DividendHistoryChart monthly={dividends.monthly} />
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>股息</Text>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color="#007AFF" />
+          <Text style={styles.loadingText}>加载股息数据...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={24} color="#FF6B6B" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchDividends}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        renderContent()
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  subTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginTop: 20,
+    marginBottom: 10,
+  },
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 20,
+  },
+  loadingText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#666',
+  },
+  errorContainer: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    marginTop: 8,
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    paddingVertical: 10,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+  },
+  summaryItem: {
+    flex: 1,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#999',
+  },
+  summaryValue: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#333',
+    marginTop: 2,
+  },
+  infoCard: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 10,
+    padding: 15,
+    marginTop: 15,
+  },
+  infoTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 3,
+  },
+  infoLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  infoValue: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#333',
+  },
+});
+
+export default DividendSection;
@@ -0,0 +1,294 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import earningsService, {
+  EarningsReport,
+  EarningsReaction,
+  UpcomingEarnings,
+} from '../../services/EarningsService';
+import EarningsReactionChart from '../charts/EarningsReactionChart';
+
+// 历史表格展示的财报次数
+const MAX_HISTORY_ROWS = 4;
+
+const CHANGE_UP_COLOR = '#34C759';
+const CHANGE_DOWN_COLOR = '#FF3B30';
+
+interface EarningsSectionProps {
+  stockCode: string;
+}
+
+// 距离公布日的天数（按本地日历）
+const getDaysUntil = (date: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const target = new Date(year, month - 1, day);
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  return Math.round((target.getTime() - today.getTime()) / (24 * 60 * 60 * 1000));
+};
+
+/**
+ * 个股财报模块
+ * 预计的下一次财报、历次财报前后的 EPS（滚动12个月）变化，以及财报后的股价反应
+ */
+const EarningsSection: React.FC<EarningsSectionProps> = ({ stockCode }) => {
+  const [next, setNext] = useState<UpcomingEarnings | null>(null);
+  const [history, setHistory] = useState<EarningsReport[]>([]);
+  const [reactions, setReactions] = useState<EarningsReaction[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (stockCode) {
+      fetchEarnings();
+    }
+  }, [stockCode]);
+
+  const fetchEarnings = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const earnings = await earningsService.getStockEarnings(stockCode);
+      setNext(earnings.next);
+      setHistory(earnings.history);
+      setReactions(earnings.reactions);
+    } catch (err) {
+      console.error('❌ EarningsSection: Error fetching earnings:', err);
+      setError('获取财报数据失败');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const getChangeColor = (value: number | null) => {
+    if (value === null) return '#999';
+    return value >= 0 ? CHANGE_UP_COLOR : CHANGE_DOWN_COLOR;
+  };
+
+  const renderNext = () => {
+    if (!next) {
+      return <Text style={styles.emptyText}>暂无足够的历史数据推算下次财报</Text>;
+    }
+    const daysUntil = getDaysUntil(next.date);
+
+    return (
+      <View style={styles.nextCard}>
+        <View style={styles.nextHeader}>
+          <View>
+            <Text style={styles.nextLabel}>预计下次财报</Text>
+            <Text style={styles.nextDate}>{next.date}</Text>
+          </View>
+          <View style={styles.countdownBadge}>
+            <Text style={styles.countdownText}>
+              {daysUntil > 0 ? `约 ${daysUntil} 天后` : daysUntil === 0 ? '今天' : '近期公布'}
+            </Text>
+          </View>
+        </View>
+        <Text style={styles.nextHint}>按历次财报间隔推算，上次财报数据更新于 {next.lastDate}</Text>
+      </View>
+    );
+  };
+
+  const renderHistory = () => {
+    if (history.length === 0) {
+      return null;
+    }
+
+    return (
+      <View style={styles.historyTable}>
+        <View style={[styles.historyRow, styles.historyHeaderRow]}>
+          <Text style={[styles.historyHeader, styles.periodColumn]}>更新日期</Text>
+          <Text style={[styles.historyHeader, styles.valueHeader]}>EPS(TTM) 前/后</Text>
+          <Text style={[styles.historyHeader, styles.valueHeader]}>变化</Text>
+        </View>
+        {history.slice(0, MAX_HISTORY_ROWS).map(report => (
+          <View key={report.date} style={styles.historyRow}>
+            <View style={styles.periodColumn}>
+              <Text style={styles.periodText}>{report.date}</Text>
+            </View>
+            <View style={styles.valueColumn}>
+              <Text style={styles.valueText}>
+                {earningsService.formatEps(report.previousEps)} / {earningsService.formatEps(report.eps)}
+              </Text>
+            </View>
+            <View style={styles.valueColumn}>
+              <Text style={[styles.changeText, { color: getChangeColor(report.epsChange) }]}>
+                {earningsService.formatChange(report.epsChange)}
+              </Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.section}>
+      <Text style={styles.sectionTitle}>财报</Text>
+
+      {loading ? (
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="small" color="#007AFF" />
+          <Text style={styles.loadingText}>加载财报数据...</Text>
+        </View>
+      ) : error ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={24} color="#FF6B6B" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={fetchEarnings}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          {renderNext()}
+          {renderHistory()}
+          {reactions.length > 0 && (
+            <View style={styles.reactionContainer}>
+              <Text style={styles.subTitle}>财报后股价反应</Text>
+              <EarningsReactionChart reactions={reactions} />
+            </View>
+          )}
+        </>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  section: {
+    backgroundColor: 'white',
+    padding: 20,
+    marginBottom: 20,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 10,
+  },
+  subTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 10,
+  },
+  loadingContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 20,
+  },
+  loadingText: {
+    marginLeft: 8,
+    fontSize: 14,
+    color: '#666',
+  },
+  errorContainer: {
+    alignItems: 'center',
+    paddingVertical: 20,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    marginTop: 8,
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    paddingVertical: 10,
+  },
+  nextCard: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 10,
+    padding: 15,
+  },
+  nextHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  nextLabel: {
+    fontSize: 13,
+    color: '#666',
+  },
+  nextDate: {
+    fontSize: 17,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginTop: 4,
+  },
+  countdownBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    backgroundColor: '#E3F2FD',
+    borderRadius: 12,
+  },
+  countdownText: {
+    fontSize: 12,
+    fontWeight: '500',
+    color: '#007AFF',
+  },
+  nextHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 10,
+  },
+  historyTable: {
+    marginTop: 15,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+  historyHeaderRow: {
+    paddingVertical: 6,
+  },
+  historyHeader: {
+    fontSize: 12,
+    color: '#999',
+  },
+  periodColumn: {
+    width: 100,
+  },
+  valueHeader: {
+    flex: 1,
+    textAlign: 'right',
+  },
+  valueColumn: {
+    flex: 1,
+    alignItems: 'flex-end',
+  },
+  periodText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#333',
+  },
+  valueText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  changeText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  reactionContainer: {
+    marginTop: 20,
+  },
+});
+
+export default EarningsSection;
@@ -0,0 +1,183 @@
+import React, { useState, useEffect } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import economicCalendarService, { EconomicEvent, COUNTRY_NAMES } from '../../services/EconomicCalendarService';
+import ImportanceStars from './ImportanceStars';
+
+// 最多展示的事件数
+const MAX_EVENTS = 3;
+
+/**
+ * 财经日历预览
+ * 展示本周尚未公布的中高重要性事件，点击进入财经日历
+ */
+const EconomicCalendarWidget: React.FC = () => {
+  const navigation = useNavigation();
+  const [events, setEvents] = useState<EconomicEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchEvents();
+  }, []);
+
+  const fetchEvents = async () => {
+    try {
+      const weekEvents = await economicCalendarService.getWeekEvents(economicCalendarService.getWeekStart());
+      const now = Date.now();
+      setEvents(
+        economicCalendarService
+          .filterByImportance(weekEvents, 2)
+          .filter(event => new Date(event.datetime).getTime() >= now)
+          .slice(0, MAX_EVENTS)
+      );
+    } catch (error) {
+      console.error('❌ EconomicCalendarWidget: Error fetching events:', error);
+      setEvents([]);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCalendar = () => {
+    // @ts-ignore
+    navigation.navigate('EconomicCalendar');
+  };
+
+  const openEvent = (event: EconomicEvent) => {
+    // @ts-ignore
+    navigation.navigate('EconomicEventDetail', { event });
+  };
+
+  return (
+    <View>
+      <View style={styles.header}>
+        <Text style={styles.title}>财经日历</Text>
+        <TouchableOpacity style={styles.moreButton} onPress={openCalendar} activeOpacity={0.7}>
+          <Text style={styles.moreText}>本周日历</Text>
+          <Ionicons name="arrow-forward" size={16} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {loading ? (
+        <ActivityIndicator style={styles.loading} color="#007AFF" />
+      ) : events.length === 0 ? (
+        <Text style={styles.emptyText}>本周暂无待公布的重要事件</Text>
+      ) : (
+        events.map(event => (
+          <TouchableOpacity
+            key={event.id}
+            style={styles.eventItem}
+            onPress={() => openEvent(event)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.eventTime}>
+              <Text style={styles.eventDate}>{event.date.slice(5)}</Text>
+              <Text style={styles.eventClock}>{event.time}</Text>
+            </View>
+            <View style={styles.eventContent}>
+              <Text style={styles.eventTitle} numberOfLines={1}>{event.title}</Text>
+              <View style={styles.eventMeta}>
+                <Text style={styles.eventCountry}>{COUNTRY_NAMES[event.country] || event.country}</Text>
+                <ImportanceStars importance={event.importance} />
+              </View>
+            </View>
+            <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+
+  moreButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+
+  moreText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#007AFF',
+    marginRight: 4,
+  },
+
+  loading: {
+    paddingVertical: 16,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    paddingVertical: 12,
+  },
+
+  eventItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+
+  eventTime: {
+    width: 52,
+  },
+
+  eventDate: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  eventClock: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+
+  eventContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+
+  eventTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1A1A1A',
+  },
+
+  eventMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 4,
+  },
+
+  eventCountry: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginRight: 6,
+  },
+});
+
+export default EconomicCalendarWidget;
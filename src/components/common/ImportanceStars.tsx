@@ -0,0 +1,34 @@
+import React from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { EventImportance, IMPORTANCE_COLORS } from '../../services/EconomicCalendarService';
+
+interface ImportanceStarsProps {
+  importance: EventImportance;
+  size?: number;
+  style?: StyleProp<ViewStyle>;
+}
+
+/**
+ * 财经事件重要性星级（1-3星）
+ */
+const ImportanceStars: React.FC<ImportanceStarsProps> = ({ importance, size = 11, style }) => (
+  <View style={[styles.container, style]}>
+    {[1, 2, 3].map(level => (
+      <Ionicons
+        key={level}
+        name={level <= importance ? 'star' : 'star-outline'}
+        size={size}
+        color={level <= importance ? IMPORTANCE_COLORS[importance] : '#D1D1D6'}
+      />
+    ))}
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+  },
+});
+
+export default ImportanceStars;
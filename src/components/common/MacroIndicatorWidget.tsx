@@ -1,11 +1,14 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { View, Text, TouchableOpacity, ActivityIndicator } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
-import { DXYData, DXYService } from '../../services/data';
+import macroIndicatorRegistry from '../../services/data/MacroIndicatorRegistry';
+import { MacroIndicatorPoint } from '../../services/data/MacroIndicatorService';
+import { getDataErrorMessage } from '../../services/data/DataService';
 import { marketWidgetStyles, MarketWidgetColors, getValueFontSize } from './MarketWidgetStyles';
 
-interface DXYWidgetProps {
+interface MacroIndicatorWidgetProps {
+  indicatorId: string;
   style?: any;
   onPress?: () => void;
   title?: string;
@@ -22,36 +25,41 @@ interface DXYWidgetProps {
   };
 }
 
-const DXYWidget: React.FC<DXYWidgetProps> = ({ 
-  style, 
-  onPress, 
-  title = '美元指数',
+const MacroIndicatorWidget: React.FC<MacroIndicatorWidgetProps> = ({
+  indicatorId,
+  style,
+  onPress,
+  title,
   themeColors,
-  fontSizes 
+  fontSizes
 }) => {
-  const [dxyData, setDXYData] = useState<DXYData | null>(null);
+  const navigation = useNavigation();
+  const service = macroIndicatorRegistry.getService(indicatorId);
+  const [point, setPoint] = useState<MacroIndicatorPoint | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const navigation = useNavigation();
 
   useEffect(() => {
-    fetchDXYData();
-  }, []);
+    fetchData();
+  }, [service]);
 
-  const fetchDXYData = async () => {
+  const fetchData = async () => {
+    if (!service) {
+      setLoading(false);
+      setError('未知指标');
+      return;
+    }
     try {
       setLoading(true);
       setError(null);
-      const data = await DXYService.getCurrentDXY();
-      console.log('🏛️ DXYWidget: Fetched DXY data:', data);
-      setDXYData(data);
-      
-      if (!data) {
+      const current = await service.getCurrent();
+      setPoint(current);
+      if (!current) {
         setError('暂无数据');
       }
     } catch (err) {
-      console.error('🏛️ DXYWidget: Error fetching DXY data:', err);
-      setError('加载失败');
+      console.error(`📊 MacroIndicatorWidget[${indicatorId}]: fetch error`, err);
+      setError(getDataErrorMessage(err));
     } finally {
       setLoading(false);
     }
@@ -62,7 +70,7 @@ const DXYWidget: React.FC<DXYWidgetProps> = ({
       onPress();
     } else {
       // @ts-ignore
-      navigation.navigate('DXYDetail');
+      navigation.navigate('IndicatorDetail', { indicatorId: service?.config.id || indicatorId });
     }
   };
 
@@ -76,7 +84,7 @@ const DXYWidget: React.FC<DXYWidgetProps> = ({
       );
     }
 
-    if (error || !dxyData) {
+    if (error || !point || !service) {
       return (
         <View style={marketWidgetStyles.errorContainer}>
           <Ionicons name="alert-circle-outline" size={16} color={MarketWidgetColors.errorColor} />
@@ -85,42 +93,30 @@ const DXYWidget: React.FC<DXYWidgetProps> = ({
       );
     }
 
-    const dxyValue = DXYService.parseDXYValue(dxyData.dxy);
-    const formattedValue = DXYService.formatDXYValue(dxyValue);
+    const formattedValue = service.formatValue(point.value);
     const valueFontStyle = getValueFontSize(formattedValue);
 
-    // 创建动态样式
-    const dynamicStyles = {
-      title: {
-        ...marketWidgetStyles.title,
-        color: themeColors?.titleColor || marketWidgetStyles.title.color,
-        fontSize: fontSizes?.title || marketWidgetStyles.title.fontSize,
-      },
-      value: {
-        ...marketWidgetStyles[valueFontStyle],
-        color: themeColors?.valueColor || marketWidgetStyles[valueFontStyle].color,
-        fontSize: fontSizes?.value || marketWidgetStyles[valueFontStyle].fontSize,
-      },
-      label: {
-        ...marketWidgetStyles.valueLabel,
-        color: themeColors?.labelColor || marketWidgetStyles.valueLabel.color,
-        fontSize: fontSizes?.label || marketWidgetStyles.valueLabel.fontSize,
-      },
-    };
-
     return (
       <View style={marketWidgetStyles.contentContainer}>
         <View style={marketWidgetStyles.dataDisplay}>
-          <Text style={dynamicStyles.value}>{formattedValue}</Text>
-          <Text style={dynamicStyles.label}>指数</Text>
+          <Text style={{
+            ...marketWidgetStyles[valueFontStyle],
+            color: themeColors?.valueColor || marketWidgetStyles[valueFontStyle].color,
+            fontSize: fontSizes?.value || marketWidgetStyles[valueFontStyle].fontSize,
+          }}>{formattedValue}</Text>
+          <Text style={{
+            ...marketWidgetStyles.valueLabel,
+            color: themeColors?.labelColor || marketWidgetStyles.valueLabel.color,
+            fontSize: fontSizes?.label || marketWidgetStyles.valueLabel.fontSize,
+          }}>{service.config.unit}</Text>
         </View>
       </View>
     );
   };
 
   return (
-    <TouchableOpacity 
-      style={[marketWidgetStyles.container, style]} 
+    <TouchableOpacity
+      style={[marketWidgetStyles.container, style]}
       onPress={handlePress}
       activeOpacity={0.7}
     >
@@ -128,10 +124,10 @@ const DXYWidget: React.FC<DXYWidgetProps> = ({
         ...marketWidgetStyles.title,
         color: themeColors?.titleColor || marketWidgetStyles.title.color,
         fontSize: fontSizes?.title || marketWidgetStyles.title.fontSize,
-      }}>{title}</Text>
+      }}>{title || service?.config.shortName || indicatorId}</Text>
       {renderContent()}
     </TouchableOpacity>
   );
 };
 
-export default DXYWidget;
+export default MacroIndicatorWidget;
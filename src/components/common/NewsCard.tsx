@@ -9,12 +9,15 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { NewsArticle } from '../../services/NewsService';
+import { splitHighlightSegments } from '../../services/NewsSearchIndex';
 
 interface NewsCardProps {
   article: NewsArticle;
   onPress: (article: NewsArticle) => void;
   variant?: 'default' | 'featured' | 'compact' | 'search' | 'flash';
   cardStyle?: string;
+  // 需要高亮的关键词，不传时使用搜索结果自带的命中词
+  highlightTerms?: string[];
 }
 
 const { width: screenWidth } = Dimensions.get('window');
@@ -33,12 +36,25 @@ const NewsCard: React.FC<NewsCardProps> = ({
   article, 
   onPress,
   variant = 'default',
-  cardStyle
+  cardStyle,
+  highlightTerms
 }) => {
   const handlePress = () => {
     onPress(article);
   };
 
+  const terms = highlightTerms || article.matchedTerms || [];
+
+  // 高亮标题/摘要中的关键词
+  const renderHighlighted = (text: string) => {
+    if (terms.length === 0) return text;
+    return splitHighlightSegments(text, terms).map((segment, index) => (
+      segment.highlight
+        ? <Text key={index} style={styles.highlightText}>{segment.text}</Text>
+        : segment.text
+    ));
+  };
+
   // 检查是否是快讯类型
   const isNews = article.category === 'stockquicknews' || 
                  API_TO_UI_CATEGORY[article.category] === '快讯';
@@ -62,10 +78,10 @@ const NewsCard: React.FC<NewsCardProps> = ({
             </View>
           )}
           <Text style={styles.defaultTitle} numberOfLines={2}>
-            {article.title}
+            {renderHighlighted(article.title)}
           </Text>
           <Text style={styles.defaultSummary} numberOfLines={3}>
-            {article.summary}
+            {renderHighlighted(article.summary)}
           </Text>
           <View style={styles.footerContainer}>
             <Text style={styles.dateText}>{article.date}</Text>
@@ -87,7 +103,7 @@ const NewsCard: React.FC<NewsCardProps> = ({
     <TouchableOpacity style={styles.compactCard} onPress={handlePress}>
       <View style={styles.compactContent}>
         <Text style={styles.compactTitle} numberOfLines={2}>
-          {article.title}
+          {renderHighlighted(article.title)}
         </Text>
         <View style={styles.compactFooter}>
           <Text style={styles.compactDate}>{article.date}</Text>
@@ -122,13 +138,13 @@ const NewsCard: React.FC<NewsCardProps> = ({
             styles.featuredTitle,
             !shouldShowImage && styles.featuredTitleNoImage
           ]} numberOfLines={2}>
-            {article.title}
+            {renderHighlighted(article.title)}
           </Text>
           <Text style={[
             styles.featuredSummary,
             !shouldShowImage && styles.featuredSummaryNoImage
           ]} numberOfLines={2}>
-            {article.summary}
+            {renderHighlighted(article.summary)}
           </Text>
           <View style={styles.featuredFooter}>
             <Text style={[
@@ -370,6 +386,13 @@ const styles = StyleSheet.create({
   featuredDateNoImage: {
     color: '#546E7A',
   },
+
+  // 搜索关键词高亮
+  highlightText: {
+    backgroundColor: '#FFF3C4',
+    color: '#E65100',
+    fontWeight: '700',
+  },
 });
 
 export default NewsCard;
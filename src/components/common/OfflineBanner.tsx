@@ -0,0 +1,63 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useOfflineStatus } from '../../hooks/useOfflineStatus';
+import { DateUtils } from '../../utils/dateUtils';
+
+interface OfflineBannerProps {
+  // 点击重试的回调，不传时不显示重试按钮
+  onRetry?: () => void;
+}
+
+/**
+ * 离线提示条
+ * 网络不可用且正在展示缓存数据时显示"离线，显示 HH:MM 的数据"
+ */
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ onRetry }) => {
+  const { isOffline, dataTimestamp } = useOfflineStatus();
+
+  if (!isOffline) {
+    return null;
+  }
+
+  const message = dataTimestamp
+    ? `离线，显示 ${DateUtils.format24hTime(new Date(dataTimestamp))} 的数据`
+    : '网络不可用，请检查网络连接';
+
+  return (
+    <View style={styles.container}>
+      <Ionicons name="cloud-offline-outline" size={16} color="#8D6E00" />
+      <Text style={styles.message} numberOfLines={1}>{message}</Text>
+      {onRetry && (
+        <TouchableOpacity onPress={onRetry} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+          <Text style={styles.retryText}>重试</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFF8E1',
+    borderBottomWidth: 1,
+    borderBottomColor: '#FFE082',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  message: {
+    flex: 1,
+    marginLeft: 8,
+    fontSize: 13,
+    color: '#8D6E00',
+  },
+  retryText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1976D2',
+  },
+});
+
+export default OfflineBanner;
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Animated, Platform } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { TriggeredPriceAlert, PRICE_ALERT_TYPE_LABELS } from '../../services/PriceAlertService';
+
+interface PriceAlertBannerProps {
+  alert: TriggeredPriceAlert | null;
+  onDismiss: () => void;
+  // 自动关闭时间（毫秒），默认5秒
+  autoDismissMs?: number;
+}
+
+/**
+ * 价格提醒横幅
+ * 在页面顶部浮层展示最新触发的提醒，点击关闭或超时自动关闭
+ */
+const PriceAlertBanner: React.FC<PriceAlertBannerProps> = ({
+  alert,
+  onDismiss,
+  autoDismissMs = 5000,
+}) => {
+  const opacity = useRef(new Animated.Value(0)).current;
+
+  useEffect(() => {
+    if (!alert) {
+      return;
+    }
+
+    Animated.timing(opacity, {
+      toValue: 1,
+      duration: 200,
+      useNativeDriver: Platform.OS !== 'web',
+    }).start();
+
+    const timer = setTimeout(onDismiss, autoDismissMs);
+    return () => {
+      clearTimeout(timer);
+      opacity.setValue(0);
+    };
+  }, [alert?.id]);
+
+  if (!alert) {
+    return null;
+  }
+
+  const isUp = alert.type === 'price_above' || (alert.type === 'change_percent' && alert.value >= 0);
+
+  return (
+    <Animated.View style={[styles.container, { opacity }]} pointerEvents="box-none">
+      <TouchableOpacity style={styles.banner} onPress={onDismiss} activeOpacity={0.9}>
+        <View style={[styles.iconContainer, { backgroundColor: isUp ? '#E8F5E9' : '#FFEBEE' }]}>
+          <Ionicons name="notifications" size={18} color={isUp ? '#2E7D32' : '#D32F2F'} />
+        </View>
+        <View style={styles.content}>
+          <Text style={styles.title}>{PRICE_ALERT_TYPE_LABELS[alert.type]} · {alert.symbol}</Text>
+          <Text style={styles.message} numberOfLines={2}>{alert.message}</Text>
+        </View>
+        <Ionicons name="close" size={18} color="#546E7A" />
+      </TouchableOpacity>
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: Platform.OS === 'ios' ? 50 : 30,
+    left: 16,
+    right: 16,
+    zIndex: 1000,
+  },
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    borderWidth: 1,
+    borderColor: '#E3F2FD',
+    shadowColor: '#1565C0',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.15,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  iconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  content: {
+    flex: 1,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0D47A1',
+    marginBottom: 2,
+  },
+  message: {
+    fontSize: 13,
+    color: '#546E7A',
+  },
+});
+
+export default PriceAlertBanner;
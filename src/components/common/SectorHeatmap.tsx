@@ -0,0 +1,227 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUSStockRealTimePrice } from '../../contexts/USStockRealTimePriceContext';
+import sectorHeatmapService, {
+  HeatmapStock,
+  applyRealTimePrice,
+  groupBySector,
+  getHeatmapColor,
+} from '../../services/SectorHeatmapService';
+import SectorTreemap from '../charts/SectorTreemap';
+
+// 图例中的涨跌幅刻度（%）
+const LEGEND_STEPS = [-3, -2, -1, 0, 1, 2, 3];
+// 树图高度与宽度之比
+const TREEMAP_ASPECT_RATIO = 1.3;
+
+interface SectorHeatmapProps {
+  onStockPress: (stock: HeatmapStock) => void;
+}
+
+/**
+ * 行业热力图
+ * 方块大小为市值、颜色为当日涨跌幅，按行业分组；展示期间使用实时价格刷新涨跌幅
+ */
+const SectorHeatmap: React.FC<SectorHeatmapProps> = ({ onStockPress }) => {
+  const { realTimePrices, startPolling, stopPolling, subscribeSymbols } = useUSStockRealTimePrice();
+
+  const [stocks, setStocks] = useState<HeatmapStock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [width, setWidth] = useState(0);
+
+  const loadStocks = useCallback(async () => {
+    try {
+      setError(null);
+      setStocks(await sectorHeatmapService.loadStocks());
+    } catch (err) {
+      console.error('❌ SectorHeatmap: 加载热力图数据失败:', err);
+      setError('加载热力图数据失败');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadStocks();
+  }, [loadStocks]);
+
+  // 展示期间使用实时价格
+  useEffect(() => {
+    startPolling();
+    return () => {
+      stopPolling();
+    };
+  }, []);
+
+  useEffect(() => subscribeSymbols(stocks.map(stock => stock.code)), [stocks]);
+
+  const sectors = useMemo(
+    () => groupBySector(stocks.map(stock => applyRealTimePrice(stock, realTimePrices[stock.code.toLowerCase()]))),
+    [stocks, realTimePrices]
+  );
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    const layoutWidth = Math.floor(event.nativeEvent.layout.width);
+    if (layoutWidth > 0 && layoutWidth !== width) {
+      setWidth(layoutWidth);
+    }
+  };
+
+  if (loading) {
+    return <ActivityIndicator style={styles.loading} size="large" color="#1976D2" />;
+  }
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.content}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={() => {
+            setRefreshing(true);
+            loadStocks();
+          }}
+        />
+      }
+    >
+      {error ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={40} color="#FF6B6B" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={loadStocks}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <>
+          <View style={styles.treemapContainer} onLayout={handleLayout}>
+            {width > 0 && (
+              <SectorTreemap
+                sectors={sectors}
+                width={width}
+                height={Math.round(width * TREEMAP_ASPECT_RATIO)}
+                onStockPress={onStockPress}
+              />
+            )}
+          </View>
+
+          <View style={styles.legend}>
+            {LEGEND_STEPS.map(step => (
+              <View key={step} style={[styles.legendItem, { backgroundColor: getHeatmapColor(step) }]}>
+                <Text style={styles.legendText}>{step > 0 ? `+${step}%` : `${step}%`}</Text>
+              </View>
+            ))}
+          </View>
+
+          <View style={styles.sectorList}>
+            {sectors.map(sector => (
+              <View key={sector.sector} style={styles.sectorRow}>
+                <Text style={styles.sectorName}>{sector.sector}</Text>
+                <Text style={styles.sectorCount}>{sector.stocks.length} 只</Text>
+                <Text style={[styles.sectorChange, { color: sector.changePercent >= 0 ? '#34C759' : '#FF3B30' }]}>
+                  {sector.changePercent >= 0 ? '+' : ''}{sector.changePercent.toFixed(2)}%
+                </Text>
+              </View>
+            ))}
+          </View>
+        </>
+      )}
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  errorContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+    marginTop: 8,
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#1976D2',
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  treemapContainer: {
+    borderRadius: 8,
+    overflow: 'hidden',
+  },
+  legend: {
+    flexDirection: 'row',
+    marginTop: 12,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  legendItem: {
+    flex: 1,
+    paddingVertical: 4,
+    alignItems: 'center',
+  },
+  legendText: {
+    fontSize: 11,
+    color: '#FFFFFF',
+    fontWeight: '500',
+  },
+  sectorList: {
+    marginTop: 16,
+  },
+  sectorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E3F2FD',
+  },
+  sectorName: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#0D47A1',
+  },
+  sectorCount: {
+    fontSize: 12,
+    color: '#546E7A',
+    marginRight: 12,
+  },
+  sectorChange: {
+    width: 64,
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+});
+
+export default SectorHeatmap;
@@ -0,0 +1,58 @@
+import React from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { useStockPrice } from '../../contexts/USStockRealTimePriceContext';
+import { StockQuoteBase, computeMentionChangePercent } from '../../services/StockMentionService';
+
+interface StockMentionChipProps {
+  // 原文中的提及文字，如 "苹果"
+  text: string;
+  symbol: string;
+  base?: StockQuoteBase;
+  onPress: (symbol: string) => void;
+}
+
+export const formatMentionPrice = (price: number | null): string =>
+  price !== null && price > 0 ? `$${price.toFixed(2)}` : '--';
+
+export const formatMentionChange = (changePercent: number | null): string =>
+  changePercent === null ? '' : `${changePercent >= 0 ? '+' : ''}${changePercent.toFixed(2)}%`;
+
+export const getMentionChangeColor = (changePercent: number | null): string => {
+  if (changePercent === null || changePercent === 0) return '#8E8E93';
+  return changePercent > 0 ? '#34C759' : '#FF3B30';
+};
+
+/**
+ * 正文中的股票提及
+ * 作为嵌套文本渲染在段落里，显示实时价格和涨跌幅，点击进入股票详情
+ */
+const StockMentionChip: React.FC<StockMentionChipProps> = ({ text, symbol, base, onPress }) => {
+  const { price: realTimePrice } = useStockPrice(symbol);
+  const price = realTimePrice ?? (base && base.price > 0 ? base.price : null);
+  const changePercent = computeMentionChangePercent(realTimePrice, base);
+
+  return (
+    <Text style={styles.chip} onPress={() => onPress(symbol)} suppressHighlighting>
+      {text}
+      {price !== null && (
+        <Text style={[styles.chipQuote, { color: getMentionChangeColor(changePercent) }]}>
+          {` ${symbol} ${formatMentionPrice(price)} ${formatMentionChange(changePercent)}`.trimEnd()}
+        </Text>
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  chip: {
+    color: '#1976D2',
+    fontWeight: '600',
+    backgroundColor: '#E3F2FD',
+  },
+  chipQuote: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+});
+
+export default StockMentionChip;
@@ -0,0 +1,133 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { useStockPrice } from '../../contexts/USStockRealTimePriceContext';
+import {
+  StockMention,
+  StockQuoteBase,
+  computeMentionChangePercent,
+} from '../../services/StockMentionService';
+import { formatMentionPrice, formatMentionChange, getMentionChangeColor } from './StockMentionChip';
+
+interface StockMentionStripProps {
+  mentions: StockMention[];
+  quoteBases: Record<string, StockQuoteBase>;
+  onPress: (symbol: string) => void;
+}
+
+interface StripItemProps {
+  mention: StockMention;
+  base?: StockQuoteBase;
+  onPress: (symbol: string) => void;
+}
+
+const StripItem: React.FC<StripItemProps> = ({ mention, base, onPress }) => {
+  // 只订阅本股票，其他股票价格变化不会触发重新渲染
+  const { price: realTimePrice } = useStockPrice(mention.symbol);
+  const price = realTimePrice ?? (base && base.price > 0 ? base.price : null);
+  const changePercent = computeMentionChangePercent(realTimePrice, base);
+  const changeColor = getMentionChangeColor(changePercent);
+
+  return (
+    <TouchableOpacity style={styles.item} onPress={() => onPress(mention.symbol)}>
+      <View style={styles.itemHeader}>
+        <Text style={styles.itemSymbol}>{mention.symbol}</Text>
+        {mention.count > 1 && <Text style={styles.itemCount}>×{mention.count}</Text>}
+      </View>
+      <Text style={styles.itemName} numberOfLines={1}>{base?.name || mention.text}</Text>
+      <View style={styles.itemQuote}>
+        <Text style={styles.itemPrice}>{formatMentionPrice(price)}</Text>
+        {changePercent !== null && (
+          <Text style={[styles.itemChange, { color: changeColor }]}>{formatMentionChange(changePercent)}</Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * 文中提及的股票
+ * 文章顶部的横向列表，按提及次数排序，显示实时价格和涨跌幅
+ */
+const StockMentionStrip: React.FC<StockMentionStripProps> = ({ mentions, quoteBases, onPress }) => {
+  if (mentions.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>文中提及</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.list}>
+        {mentions.map(mention => (
+          <StripItem
+            key={mention.symbol}
+            mention={mention}
+            base={quoteBases[mention.symbol]}
+            onPress={onPress}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  title: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  list: {
+    paddingRight: 4,
+  },
+  item: {
+    minWidth: 96,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+    borderRadius: 10,
+    backgroundColor: '#F5F9FF',
+    borderWidth: 1,
+    borderColor: '#E3F2FD',
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  itemSymbol: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#0D47A1',
+  },
+  itemCount: {
+    fontSize: 11,
+    color: '#8E8E93',
+    marginLeft: 4,
+  },
+  itemName: {
+    fontSize: 11,
+    color: '#666',
+    marginTop: 2,
+    maxWidth: 120,
+  },
+  itemQuote: {
+    flexDirection: 'row',
+    alignItems: 'baseline',
+    marginTop: 4,
+  },
+  itemPrice: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 6,
+  },
+  itemChange: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
+
+export default StockMentionStrip;
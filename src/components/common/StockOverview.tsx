@@ -4,7 +4,6 @@ import { useNavigation } from '@react-navigation/native';
 import StockCard, { StockCardData } from '../ui/StockCard';
 import stockService, { TransformedStockData } from '../../services/StockService';
 import stockLogoService from '../../services/StockLogoService';
-import { useUSStockRealTimePrice } from '../../contexts/USStockRealTimePriceContext';
 
 // UI 颜色常量 - 明快金融主题
 const UI_COLORS = {
@@ -44,8 +43,6 @@ const StockOverview: React.FC<StockOverviewProps> = ({
   const [priceChanges, setPriceChanges] = useState<{[key: string]: 'up' | 'down' | null}>({});
   const realTimeIntervalRef = useRef<NodeJS.Timeout | null>(null);
 
-  // 使用实时价格Context（虽然当前可能不支持股票，但保留接口）
-  const { realTimePrices: contextPrices, priceChanges: contextPriceChanges, getPrice, getPriceChange, startPolling } = useUSStockRealTimePrice();
 
   // 将股票数据转换为StockCard组件需要的格式
   const transformStockData = (stocksData: TransformedStockData[]): StockCardData[] => {
@@ -61,10 +58,8 @@ const StockOverview: React.FC<StockOverviewProps> = ({
         maximumFractionDigits: 2
       })}`;
 
-      // 获取实时价格变动方向（如果有的话）
-      const contextPriceChange = getPriceChange(stock.code.toLowerCase());
-      const localPriceChange = priceChanges[stock.code.toLowerCase()];
-      const priceChangeDirection = contextPriceChange || localPriceChange || null;
+      // 获取价格变动方向（实时价格由 StockCard 自行订阅）
+      const priceChangeDirection = priceChanges[stock.code.toLowerCase()] || null;
 
       return {
         id: stock._id,
@@ -135,31 +130,6 @@ const StockOverview: React.FC<StockOverviewProps> = ({
     fetchStockData();
   }, [limit]);
 
-  // 监听Context价格变化，更新股票数据（如果Context开始支持股票价格）
-  useEffect(() => {
-    if (Object.keys(contextPrices).length > 0 && stocks.length > 0) {
-      setStocks(prevStocks => prevStocks.map(stock => {
-        const contextPrice = getPrice(stock.name.toLowerCase());
-        const contextPriceChange = getPriceChange(stock.name.toLowerCase());
-        
-        if (contextPrice) {
-          return {
-            ...stock,
-            price: `$${contextPrice.toLocaleString('en-US', {
-              minimumFractionDigits: 2,
-              maximumFractionDigits: 2
-            })}`,
-            priceChangeDirection: contextPriceChange
-          };
-        }
-        return {
-          ...stock,
-          priceChangeDirection: contextPriceChange || stock.priceChangeDirection
-        };
-      }));
-    }
-  }, [contextPrices, contextPriceChanges]);
-
   // 组件卸载时清理
   useEffect(() => {
     return () => {
@@ -0,0 +1,165 @@
+import React, { useRef, useState, useMemo } from 'react';
+import { View, Animated, PanResponder, StyleSheet } from 'react-native';
+
+interface DraggableListProps<T> {
+  data: T[];
+  keyExtractor: (item: T) => string;
+  // 每行固定高度，用于根据拖动距离计算目标位置
+  itemHeight: number;
+  // dragHandle 需要放在行内作为拖动把手
+  renderItem: (item: T, dragHandle: React.ReactNode, isActive: boolean) => React.ReactNode;
+  renderHandle: () => React.ReactNode;
+  onReorder: (data: T[]) => void;
+  // 拖动开始/结束，外层 ScrollView 可据此禁用滚动
+  onDragStart?: () => void;
+  onDragEnd?: () => void;
+}
+
+interface DraggableRowProps {
+  index: number;
+  itemHeight: number;
+  activeIndex: number | null;
+  hoverIndex: number | null;
+  dragY: Animated.Value;
+  onStart: (index: number) => void;
+  onMove: (index: number, dy: number) => void;
+  onEnd: (index: number, dy: number) => void;
+  renderContent: (dragHandle: React.ReactNode) => React.ReactNode;
+  renderHandle: () => React.ReactNode;
+}
+
+const DraggableRow: React.FC<DraggableRowProps> = ({
+  index,
+  itemHeight,
+  activeIndex,
+  hoverIndex,
+  dragY,
+  onStart,
+  onMove,
+  onEnd,
+  renderContent,
+  renderHandle,
+}) => {
+  // PanResponder 只创建一次，通过 ref 读取最新的 index 和回调
+  const latest = useRef({ index, onStart, onMove, onEnd });
+  latest.current = { index, onStart, onMove, onEnd };
+
+  const panResponder = useMemo(
+    () =>
+      PanResponder.create({
+        onStartShouldSetPanResponder: () => true,
+        onMoveShouldSetPanResponder: () => true,
+        onPanResponderTerminationRequest: () => false,
+        onPanResponderGrant: () => latest.current.onStart(latest.current.index),
+        onPanResponderMove: (_, gesture) => latest.current.onMove(latest.current.index, gesture.dy),
+        onPanResponderRelease: (_, gesture) => latest.current.onEnd(latest.current.index, gesture.dy),
+        onPanResponderTerminate: (_, gesture) => latest.current.onEnd(latest.current.index, gesture.dy),
+      }),
+    []
+  );
+
+  const isActive = activeIndex === index;
+  // 被拖动行经过时，中间的行让出位置
+  let offset = 0;
+  if (activeIndex !== null && hoverIndex !== null && !isActive) {
+    if (activeIndex < index && index <= hoverIndex) offset = -itemHeight;
+    if (hoverIndex <= index && index < activeIndex) offset = itemHeight;
+  }
+
+  const handle = <View {...panResponder.panHandlers}>{renderHandle()}</View>;
+
+  return (
+    <Animated.View
+      style={[
+        { height: itemHeight },
+        isActive
+          ? [styles.activeRow, { transform: [{ translateY: dragY }] }]
+          : { transform: [{ translateY: offset }] },
+      ]}
+    >
+      {renderContent(handle)}
+    </Animated.View>
+  );
+};
+
+/**
+ * 可拖动排序的列表
+ * 按住行内的拖动把手上下移动，松手后通过 onReorder 返回新顺序
+ */
+function DraggableList<T>({
+  data,
+  keyExtractor,
+  itemHeight,
+  renderItem,
+  renderHandle,
+  onReorder,
+  onDragStart,
+  onDragEnd,
+}: DraggableListProps<T>) {
+  const dragY = useRef(new Animated.Value(0)).current;
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  const getTargetIndex = (index: number, dy: number) =>
+    Math.max(0, Math.min(data.length - 1, index + Math.round(dy / itemHeight)));
+
+  const handleStart = (index: number) => {
+    dragY.setValue(0);
+    setActiveIndex(index);
+    setHoverIndex(index);
+    onDragStart?.();
+  };
+
+  const handleMove = (index: number, dy: number) => {
+    dragY.setValue(dy);
+    const target = getTargetIndex(index, dy);
+    setHoverIndex(current => (current === target ? current : target));
+  };
+
+  const handleEnd = (index: number, dy: number) => {
+    const target = getTargetIndex(index, dy);
+    dragY.setValue(0);
+    setActiveIndex(null);
+    setHoverIndex(null);
+    onDragEnd?.();
+    if (target !== index) {
+      const reordered = [...data];
+      const [moved] = reordered.splice(index, 1);
+      reordered.splice(target, 0, moved);
+      onReorder(reordered);
+    }
+  };
+
+  return (
+    <View>
+      {data.map((item, index) => (
+        <DraggableRow
+          key={keyExtractor(item)}
+          index={index}
+          itemHeight={itemHeight}
+          activeIndex={activeIndex}
+          hoverIndex={hoverIndex}
+          dragY={dragY}
+          onStart={handleStart}
+          onMove={handleMove}
+          onEnd={handleEnd}
+          renderContent={dragHandle => renderItem(item, dragHandle, activeIndex === index)}
+          renderHandle={renderHandle}
+        />
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  activeRow: {
+    zIndex: 10,
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+  },
+});
+
+export default DraggableList;
@@ -4,6 +4,7 @@ import { Ionicons } from '@expo/vector-icons';
 import stockLogoService from '../../services/StockLogoService';
 import userStockService from '../../services/UserStockService';
 import { useUser } from '../../contexts/UserContext';
+import { useStockPrice } from '../../contexts/USStockRealTimePriceContext';
 // 导入图表组件
 import SVGMiniPriceChart from '../charts/SVGMiniPriceChart';
 
@@ -61,6 +62,7 @@ interface StockCardProps {
   onFavoritePress?: (stockSymbol: string, isAdding: boolean) => void; // 自选按钮回调
   onLoginRequired?: () => void; // 需要登录时的回调
   showChart?: boolean; // 是否显示24小时价格图表
+  realTime?: boolean; // 是否订阅该股票的实时价格，默认订阅
 }
 
 const StockCard: React.FC<StockCardProps> = ({
@@ -77,6 +79,7 @@ const StockCard: React.FC<StockCardProps> = ({
   onFavoritePress,
   onLoginRequired,
   showChart = true, // 默认显示图表，包括首页
+  realTime = true,
 }) => {
   const [imageError, setImageError] = useState(false);
   const [currentLogoUrl, setCurrentLogoUrl] = useState(data.logo || '');
@@ -86,6 +89,13 @@ const StockCard: React.FC<StockCardProps> = ({
   
   const { currentUser } = useUser();
 
+  // 只订阅本卡片的股票，其他股票价格变化不会触发重新渲染
+  const { price: realTimePrice, change: realTimeChange } = useStockPrice(realTime ? data.name : null);
+  const displayPrice = realTimePrice !== null
+    ? `$${realTimePrice.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+    : data.price;
+  const priceChangeDirection = realTimeChange || data.priceChangeDirection;
+
   // 图标加载逻辑
   React.useEffect(() => {
     const loadIcon = async () => {
@@ -335,11 +345,11 @@ const StockCard: React.FC<StockCardProps> = ({
             {data.symbol || data.name}
           </Text>
           {/* 实时价格变动箭头 */}
-          {data.priceChangeDirection && (
+          {priceChangeDirection && (
             <Ionicons
-              name={data.priceChangeDirection === 'up' ? 'arrow-up' : 'arrow-down'}
+              name={priceChangeDirection === 'up' ? 'arrow-up' : 'arrow-down'}
               size={14}
-              color={data.priceChangeDirection === 'up' ? UI_COLORS.success : UI_COLORS.danger}
+              color={priceChangeDirection === 'up' ? UI_COLORS.success : UI_COLORS.danger}
               style={styles.realTimeArrow}
             />
           )}
@@ -351,7 +361,7 @@ const StockCard: React.FC<StockCardProps> = ({
           variant === 'compact' ? styles.compactPrice : {},
           variant === 'large' ? styles.largePrice : {}
         ]}>
-          {data.price}
+          {displayPrice}
         </Text>
       </View>
       
@@ -739,4 +749,4 @@ const styles = StyleSheet.create({
   },
 });
 
-export default StockCard;
+export default React.memo(StockCard);
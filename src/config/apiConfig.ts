@@ -4,6 +4,7 @@
  */
 
 import Constants from 'expo-constants';
+import { StorageAdapter } from '../services/TokenService';
 
 // API接入点配置
 export interface APIEndpoint {
@@ -13,6 +14,47 @@ export interface APIEndpoint {
   timeout?: number;
 }
 
+// 接入点健康状态
+export interface EndpointHealth {
+  url: string;
+  name: string;
+  priority: number;
+  // 平均延迟（毫秒，指数加权），尚无数据时为 null
+  latency: number | null;
+  // 最近若干次请求/探测的失败率（0-1）
+  errorRate: number;
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastProbeAt: number | null;
+  healthy: boolean;
+  // 综合评分，越小越好；不健康时为 Infinity
+  score: number;
+  isCurrent: boolean;
+}
+
+// 单个接入点的内部统计
+interface EndpointStats {
+  latency: number | null;
+  // 最近的请求结果，true 为成功
+  results: boolean[];
+  consecutiveFailures: number;
+  lastSuccessAt: number | null;
+  lastFailureAt: number | null;
+  lastProbeAt: number | null;
+}
+
+// 健康评分参数
+const HEALTH_WINDOW = 20; // 失败率统计的请求次数
+const LATENCY_SMOOTHING = 0.3; // 延迟指数加权系数
+const UNHEALTHY_CONSECUTIVE_FAILURES = 2;
+const UNHEALTHY_ERROR_RATE = 0.5;
+const DEFAULT_LATENCY = 1000; // 没有延迟数据时按 1 秒计算
+const PRIORITY_PENALTY = 300; // 每降低一级优先级增加的评分（毫秒），避免延迟接近时在接入点间来回切换
+const PROBE_INTERVAL = 60 * 1000; // 不健康接入点的探测间隔
+const SELECTION_STORAGE_KEY = 'apiEndpointSelection';
+const SELECTION_MAX_AGE = 24 * 60 * 60 * 1000; // 保存的接入点选择24小时内有效
+
 // 读取环境变量，判断是否为测试环境
 // 支持多种环境变量检测方式
 const IS_TEST = 
@@ -48,6 +90,9 @@ export const resourceURLs = {
 class APIConfigManager {
   private static instance: APIConfigManager;
   private currentEndpointIndex = 0;
+  private stats = new Map<string, EndpointStats>();
+  private healthListeners = new Set<(health: EndpointHealth[]) => void>();
+  private probeTimer: ReturnType<typeof setTimeout> | null = null;
   
   // 主要API接入点列表（按优先级排序）
   private readonly endpoints: APIEndpoint[] = IS_TEST
@@ -86,6 +131,7 @@ class APIConfigManager {
     // 按优先级排序
     this.endpoints.sort((a, b) => a.priority - b.priority);
     console.log(`🔧 API: 当前环境: ${IS_TEST ? '测试' : '生产'}，使用接入点: ${this.getCurrentEndpoint().name}`);
+    this.restoreSelection();
   }
 
   static getInstance(): APIConfigManager {
@@ -184,8 +230,7 @@ class APIConfigManager {
    */
   switchToNextEndpoint(): boolean {
     if (this.currentEndpointIndex < this.endpoints.length - 1) {
-      this.currentEndpointIndex++;
-      console.log(`🔄 API: 切换到接入点: ${this.getCurrentEndpoint().name} (${this.getCurrentEndpoint().url})`);
+      this.setCurrentEndpoint(this.currentEndpointIndex + 1);
       return true;
     }
     console.log('⚠️ API: 已经是最后一个接入点');
@@ -196,8 +241,7 @@ class APIConfigManager {
    * 重置到第一个接入点
    */
   resetToFirstEndpoint(): void {
-    this.currentEndpointIndex = 0;
-    console.log(`🔄 API: 重置到第一个接入点: ${this.getCurrentEndpoint().name} (${this.getCurrentEndpoint().url})`);
+    this.setCurrentEndpoint(0);
   }
 
   /**
@@ -223,6 +267,7 @@ class APIConfigManager {
       
       const controller = new AbortController();
       const timeoutId = setTimeout(() => controller.abort(), 5000); // 5秒超时
+      const startTime = Date.now();
       
       const response = await fetch(`${endpoint.url}/`, {
         method: 'HEAD',
@@ -234,9 +279,11 @@ class APIConfigManager {
       const isHealthy = response.ok || response.status === 404; // 404也算正常，说明服务器在响应
       console.log(`${isHealthy ? '✅' : '❌'} API: 接入点 ${endpoint.name} ${isHealthy ? '正常' : '异常'}`);
       
+      this.recordResult(endpoint, isHealthy, isHealthy ? Date.now() - startTime : null, true);
       return isHealthy;
     } catch (error) {
       console.log(`❌ API: 接入点 ${endpoint.name} 连接失败:`, error.message);
+      this.recordResult(endpoint, false, null, true);
       return false;
     }
   }
@@ -247,19 +294,16 @@ class APIConfigManager {
   async selectBestEndpoint(): Promise<void> {
     console.log('🔍 API: 开始自动选择最佳接入点...');
     
-    for (let i = 0; i < this.endpoints.length; i++) {
-      const endpoint = this.endpoints[i];
-      const isHealthy = await this.testEndpoint(endpoint);
-      
-      if (isHealthy) {
-        this.currentEndpointIndex = i;
-        console.log(`✅ API: 选择接入点: ${endpoint.name} (${endpoint.url})`);
-        return;
-      }
+    await this.probeEndpoints(this.endpoints);
+    const bestIndex = this.findBestEndpointIndex();
+    if (bestIndex !== -1) {
+      this.setCurrentEndpoint(bestIndex);
+      console.log(`✅ API: 选择接入点: ${this.getCurrentEndpoint().name} (${this.getCurrentEndpoint().url})`);
+      return;
     }
     
     // 如果所有接入点都不可用，使用第一个
-    this.currentEndpointIndex = 0;
+    this.setCurrentEndpoint(0);
     console.log(`⚠️ API: 所有接入点都不可用，使用默认接入点: ${this.getCurrentEndpoint().name}`);
   }
 
@@ -268,25 +312,253 @@ class APIConfigManager {
    */
   async handleRequestFailure(): Promise<boolean> {
     console.log('❌ API: 检测到请求失败，尝试切换接入点...');
-    
-    const switched = this.switchToNextEndpoint();
-    if (switched) {
-      // 测试新接入点
-      const isHealthy = await this.testEndpoint(this.getCurrentEndpoint());
+    const failedEndpoint = this.getCurrentEndpoint();
+    this.recordFailure(failedEndpoint);
+
+    // 按评分依次尝试其他接入点，已知不健康的接入点放在最后
+    const candidates = this.endpoints
+      .map((endpoint, index) => ({ index, score: this.getScore(endpoint) }))
+      .filter(({ index }) => index !== this.currentEndpointIndex)
+      .sort((a, b) => a.score - b.score || a.index - b.index);
+
+    for (const { index } of candidates) {
+      const isHealthy = await this.testEndpoint(this.endpoints[index]);
       if (isHealthy) {
+        this.setCurrentEndpoint(index);
         console.log('✅ API: 成功切换到可用接入点');
+        this.scheduleProbe();
         return true;
-      } else {
-        // 继续尝试下一个
-        return await this.handleRequestFailure();
       }
     }
     
-    // 所有接入点都尝试过了，重置到第一个
+    // 所有接入点都不可用，回到优先级最高的接入点，由定时探测负责恢复
     this.resetToFirstEndpoint();
     console.log('⚠️ API: 所有接入点都不可用，已重置到第一个接入点');
+    this.scheduleProbe();
     return false;
   }
+
+  /**
+   * 记录请求成功及其延迟
+   * @param endpoint 发送请求时使用的接入点
+   * @param latency 请求耗时（毫秒）
+   */
+  recordSuccess(endpoint: APIEndpoint, latency: number): void {
+    this.recordResult(endpoint, true, latency, false);
+  }
+
+  /**
+   * 记录请求失败
+   * @param endpoint 发送请求时使用的接入点
+   */
+  recordFailure(endpoint: APIEndpoint): void {
+    this.recordResult(endpoint, false, null, false);
+  }
+
+  /**
+   * 获取所有接入点的健康状态
+   */
+  getEndpointHealth(): EndpointHealth[] {
+    const current = this.getCurrentEndpoint();
+    return this.endpoints.map(endpoint => {
+      const stats = this.getStats(endpoint);
+      return {
+        url: endpoint.url,
+        name: endpoint.name,
+        priority: endpoint.priority,
+        latency: stats.latency === null ? null : Math.round(stats.latency),
+        errorRate: this.getErrorRate(stats),
+        consecutiveFailures: stats.consecutiveFailures,
+        lastSuccessAt: stats.lastSuccessAt,
+        lastFailureAt: stats.lastFailureAt,
+        lastProbeAt: stats.lastProbeAt,
+        healthy: this.isHealthy(stats),
+        score: this.getScore(endpoint),
+        isCurrent: endpoint === current,
+      };
+    });
+  }
+
+  /**
+   * 订阅接入点健康状态变化
+   * @returns 取消订阅函数
+   */
+  subscribeHealth(listener: (health: EndpointHealth[]) => void): () => void {
+    this.healthListeners.add(listener);
+    return () => {
+      this.healthListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 探测所有接入点并切换到评分最好的接入点（用于诊断页面手动检测）
+   */
+  async probeAllEndpoints(): Promise<EndpointHealth[]> {
+    await this.probeEndpoints(this.endpoints);
+    this.failbackIfBetter();
+    return this.getEndpointHealth();
+  }
+
+  private getStats(endpoint: APIEndpoint): EndpointStats {
+    let stats = this.stats.get(endpoint.url);
+    if (!stats) {
+      stats = {
+        latency: null,
+        results: [],
+        consecutiveFailures: 0,
+        lastSuccessAt: null,
+        lastFailureAt: null,
+        lastProbeAt: null,
+      };
+      this.stats.set(endpoint.url, stats);
+    }
+    return stats;
+  }
+
+  private recordResult(endpoint: APIEndpoint, success: boolean, latency: number | null, isProbe: boolean): void {
+    const stats = this.getStats(endpoint);
+    const now = Date.now();
+    stats.results = [...stats.results, success].slice(-HEALTH_WINDOW);
+    if (isProbe) {
+      stats.lastProbeAt = now;
+    }
+    if (success) {
+      stats.consecutiveFailures = 0;
+      stats.lastSuccessAt = now;
+      if (latency !== null) {
+        stats.latency = stats.latency === null
+          ? latency
+          : stats.latency * (1 - LATENCY_SMOOTHING) + latency * LATENCY_SMOOTHING;
+      }
+    } else {
+      stats.consecutiveFailures++;
+      stats.lastFailureAt = now;
+    }
+    this.notifyHealth();
+  }
+
+  private getErrorRate(stats: EndpointStats): number {
+    if (stats.results.length === 0) {
+      return 0;
+    }
+    return stats.results.filter(result => !result).length / stats.results.length;
+  }
+
+  private isHealthy(stats: EndpointStats): boolean {
+    return stats.consecutiveFailures < UNHEALTHY_CONSECUTIVE_FAILURES && this.getErrorRate(stats) < UNHEALTHY_ERROR_RATE;
+  }
+
+  /**
+   * 综合评分：延迟 ×（1 + 4 × 失败率）+ 优先级惩罚，越小越好
+   */
+  private getScore(endpoint: APIEndpoint): number {
+    const stats = this.getStats(endpoint);
+    if (!this.isHealthy(stats)) {
+      return Infinity;
+    }
+    const latency = stats.latency === null ? DEFAULT_LATENCY : stats.latency;
+    const rank = this.endpoints.indexOf(endpoint);
+    return latency * (1 + 4 * this.getErrorRate(stats)) + rank * PRIORITY_PENALTY;
+  }
+
+  private findBestEndpointIndex(): number {
+    let bestIndex = -1;
+    let bestScore = Infinity;
+    this.endpoints.forEach((endpoint, index) => {
+      const score = this.getScore(endpoint);
+      if (score < bestScore) {
+        bestScore = score;
+        bestIndex = index;
+      }
+    });
+    return bestIndex;
+  }
+
+  private async probeEndpoints(endpoints: APIEndpoint[]): Promise<void> {
+    await Promise.all(endpoints.map(endpoint => this.testEndpoint(endpoint)));
+  }
+
+  /**
+   * 评分更好的接入点恢复后切回（通常是切回主服务器）
+   */
+  private failbackIfBetter(): void {
+    const bestIndex = this.findBestEndpointIndex();
+    if (bestIndex === -1 || bestIndex === this.currentEndpointIndex) {
+      return;
+    }
+    const current = this.getCurrentEndpoint();
+    if (this.getScore(this.endpoints[bestIndex]) < this.getScore(current)) {
+      console.log(`🔙 API: 接入点 ${this.endpoints[bestIndex].name} 已恢复，从 ${current.name} 切回`);
+      this.setCurrentEndpoint(bestIndex);
+    }
+  }
+
+  /**
+   * 当前不是首选接入点或存在不健康的接入点时，定时探测不健康和优先级更高的接入点
+   */
+  private scheduleProbe(): void {
+    if (this.probeTimer) {
+      return;
+    }
+    this.probeTimer = setTimeout(async () => {
+      this.probeTimer = null;
+      const targets = this.endpoints.filter((endpoint, index) =>
+        index < this.currentEndpointIndex || !this.isHealthy(this.getStats(endpoint))
+      );
+      if (targets.length === 0) {
+        return;
+      }
+      await this.probeEndpoints(targets);
+      this.failbackIfBetter();
+      this.scheduleProbe();
+    }, PROBE_INTERVAL);
+  }
+
+  private setCurrentEndpoint(index: number): void {
+    if (index === this.currentEndpointIndex) {
+      return;
+    }
+    this.currentEndpointIndex = index;
+    console.log(`🔄 API: 切换到接入点: ${this.getCurrentEndpoint().name} (${this.getCurrentEndpoint().url})`);
+    this.persistSelection();
+    this.notifyHealth();
+  }
+
+  private notifyHealth(): void {
+    if (this.healthListeners.size === 0) {
+      return;
+    }
+    const health = this.getEndpointHealth();
+    this.healthListeners.forEach(listener => listener(health));
+  }
+
+  private persistSelection(): void {
+    const selection = { url: this.getCurrentEndpoint().url, savedAt: Date.now() };
+    StorageAdapter.setItem(SELECTION_STORAGE_KEY, JSON.stringify(selection)).catch(() => undefined);
+  }
+
+  /**
+   * 恢复上次会话选择的接入点，非首选接入点时启动探测以便主服务器恢复后切回
+   */
+  private async restoreSelection(): Promise<void> {
+    try {
+      const stored = await StorageAdapter.getItem(SELECTION_STORAGE_KEY);
+      if (!stored) {
+        return;
+      }
+      const { url, savedAt } = JSON.parse(stored);
+      const index = this.endpoints.findIndex(endpoint => endpoint.url === url);
+      if (index <= 0 || Date.now() - savedAt > SELECTION_MAX_AGE) {
+        return;
+      }
+      console.log(`📌 API: 恢复上次使用的接入点: ${this.endpoints[index].name}`);
+      this.currentEndpointIndex = index;
+      this.notifyHealth();
+      this.scheduleProbe();
+    } catch (error) {
+      console.warn('⚠️ API: 恢复接入点选择失败:', error);
+    }
+  }
 }
 
 // 创建单例实例
@@ -0,0 +1,134 @@
+/**
+ * API缓存策略配置
+ * 按 RPC 方法和参数匹配缓存规则，规则按顺序匹配，第一条命中的规则生效；
+ * 可通过远程配置 API_CACHE_POLICIES 覆盖（见 CachePolicyRegistry）
+ */
+
+// 缓存策略
+export interface CachePolicy {
+  // 新鲜期（毫秒）：在此期间直接使用缓存，0 表示不缓存
+  ttl: number;
+  // 过期后仍可先返回旧数据、同时在后台刷新的时长（毫秒）
+  staleWhileRevalidate: number;
+  // 网络不可用时允许展示的持久化数据最长年龄（毫秒），0 表示不持久化
+  maxAge: number;
+  // 失效标签，调用 apiService.invalidateTag(tag) 可清除同一标签下的所有缓存
+  tags: string[];
+  // 相同方法和参数的请求正在进行时是否复用该请求
+  dedupe: boolean;
+}
+
+// 参数匹配：键为参数位置，值为允许的取值（字符串或字符串数组）
+export type CacheParamPattern = Record<number, string | string[]>;
+
+// 缓存规则
+export interface CachePolicyRule {
+  // 规则标识，用于远程覆盖和统计
+  id: string;
+  method: string;
+  params?: CacheParamPattern;
+  policy: Partial<CachePolicy>;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// 未匹配任何规则时的默认策略：仅内存缓存2分钟
+export const DEFAULT_CACHE_POLICY: CachePolicy = {
+  ttl: 2 * MINUTE,
+  staleWhileRevalidate: 0,
+  maxAge: 0,
+  tags: [],
+  dedupe: true,
+};
+
+// 允许缓存的 listData 数据类型（第二个参数）
+const CACHEABLE_LIST_DATA_TYPES = [
+  'ETF_MARKET_CAP_AND_VOLUME',
+  'ALTCOIN_INDEX',
+  'BTCD',
+  'GREEDY_INDEX',
+  'DXY',
+  'US_BOND_10YR',
+  'US_BOND_2YR',
+  'US_BOND_5YR',
+  'US_BOND_30YR',
+  'FED_FUNDS_RATE',
+  'VIX',
+  'USDJPY',
+  'ETHD',
+  'STABLERANK_DAILY',
+  'COIN_MARKET_CAP_AND_VOLUME',
+];
+
+export const CACHE_POLICY_RULES: CachePolicyRule[] = [
+  // 登录请求不缓存，也不合并
+  { id: 'googleLogin', method: 'googleLogin', policy: { ttl: 0, dedupe: false } },
+  { id: 'getMultipleCoinsInfo', method: 'getMultipleCoinsInfo', policy: { ttl: 0 } },
+
+  // 美股实时价格：短时间内存缓存，多个页面同时轮询时复用同一次请求结果
+  {
+    id: 'listData:realtime',
+    method: 'listData',
+    params: { 1: 'REAL-TIME-DATA-USSTOCK' },
+    policy: { ttl: 5 * SECOND, tags: ['realtime'] },
+  },
+  {
+    id: 'listData:macro',
+    method: 'listData',
+    params: { 1: CACHEABLE_LIST_DATA_TYPES },
+    policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 10 * MINUTE, maxAge: 7 * DAY, tags: ['macro'] },
+  },
+  // 财经日历
+  {
+    id: 'listData:calendar',
+    method: 'listData',
+    params: { 1: 'ECONOMIC_CALENDAR' },
+    policy: { ttl: 5 * MINUTE, staleWhileRevalidate: 30 * MINUTE, maxAge: 7 * DAY, tags: ['calendar'] },
+  },
+  // 其他 listData 类型不缓存
+  { id: 'listData', method: 'listData', policy: { ttl: 0 } },
+
+  // 美股行情
+  {
+    id: 'listUsstocks',
+    method: 'listUsstocks',
+    policy: { ttl: 30 * SECOND, staleWhileRevalidate: 5 * MINUTE, maxAge: 7 * DAY, tags: ['stocks'] },
+  },
+  {
+    id: 'getUsstockInfo',
+    method: 'getUsstockInfo',
+    policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 5 * MINUTE, maxAge: 7 * DAY, tags: ['stocks'] },
+  },
+  {
+    id: 'getMultipleUsstocksInfo',
+    method: 'getMultipleUsstocksInfo',
+    policy: { ttl: MINUTE, staleWhileRevalidate: 2 * MINUTE, maxAge: DAY, tags: ['stocks'] },
+  },
+  {
+    id: 'getUsstock24hByCode',
+    method: 'getUsstock24hByCode',
+    policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 5 * MINUTE, maxAge: DAY, tags: ['stocks'] },
+  },
+
+  // 资讯
+  {
+    id: 'listChainalertContent',
+    method: 'listChainalertContent',
+    policy: { ttl: 2 * MINUTE, staleWhileRevalidate: 10 * MINUTE, maxAge: 7 * DAY, tags: ['news'] },
+  },
+  {
+    id: 'getChainalertContent',
+    method: 'getChainalertContent',
+    policy: { ttl: 5 * MINUTE, staleWhileRevalidate: HOUR, maxAge: 30 * DAY, tags: ['news'] },
+  },
+
+  // 远程配置
+  {
+    id: 'listConfig',
+    method: 'listConfig',
+    policy: { ttl: 5 * MINUTE, staleWhileRevalidate: HOUR, maxAge: 30 * DAY, tags: ['config'] },
+  },
+];
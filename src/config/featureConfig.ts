@@ -0,0 +1,41 @@
+/**
+ * 功能开关配置
+ *
+ * 依赖后端新数据的功能在数据发布前默认关闭：关闭时隐藏入口，页面保持注册并显示即将上线的占位。
+ * 数据发布后在远程配置中把对应的键设为 "true" 即可打开，无需发版。
+ */
+
+export interface FeatureFlagConfig {
+  // 远程配置键
+  configKey: string;
+  defaultEnabled: boolean;
+  // 依赖的后端数据：RPC 方法或 listData 数据类型，结构见 services/rpc/contracts.ts
+  dataSources: string[];
+}
+
+export type FeatureName = 'economicCalendar';
+
+export const FEATURE_FLAGS: Record<FeatureName, FeatureFlagConfig> = {
+  // 财经日历：数据页日历卡片、EconomicCalendar、EconomicEventDetail
+  economicCalendar: {
+    configKey: 'FEATURE_ECONOMIC_CALENDAR_ENABLE',
+    defaultEnabled: false,
+    dataSources: ['listData:ECONOMIC_CALENDAR'],
+  },
+};
+
+export type FeatureFlags = Record<FeatureName, boolean>;
+
+export const getDefaultFeatureFlags = (): FeatureFlags =>
+  Object.fromEntries(
+    Object.entries(FEATURE_FLAGS).map(([name, flag]) => [name, flag.defaultEnabled])
+  ) as FeatureFlags;
+
+/**
+ * 解析远程配置中的开关值，兼容 "true"/"1"，配置缺失时使用默认值
+ */
+export const parseFeatureFlag = (raw: string, defaultEnabled: boolean): boolean => {
+  const value = raw.trim().toLowerCase();
+  if (!value) return defaultEnabled;
+  return value === 'true' || value === '1';
+};
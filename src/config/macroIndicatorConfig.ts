@@ -0,0 +1,392 @@
+/**
+ * 宏观指标配置
+ *
+ * 每个指标是一条配置：listData 数据类型、数值字段、单位、小数位和区间颜色。
+ * 首页/数据页卡片、详情页和路由都由配置生成，新增指标（VIX、BTC、布伦特原油、欧元美元等）
+ * 只需在远程配置 MACRO_INDICATORS 中添加条目，无需修改代码。
+ */
+
+// 数值区间（从高到低排列，取第一个 value >= min 的区间；min 缺省表示兜底区间）
+export interface MacroIndicatorLevel {
+  min?: number;
+  color: string;
+  // 区间名称，如 "强势"
+  label: string;
+  // 区间范围文字，如 "100-105"
+  range?: string;
+  description?: string;
+  // 处于该区间时的分析/策略
+  advice?: string;
+}
+
+// 详情页的影响因素/成分条目
+export interface MacroIndicatorFactor {
+  // 左侧标签，如权重 "57.6%" 或代码 "AAPL"
+  tag: string;
+  title: string;
+  description: string;
+}
+
+// 详情页中的相关页面入口
+export interface MacroIndicatorLink {
+  label: string;
+  // 导航路由名
+  route: string;
+  description?: string;
+}
+
+export interface MacroIndicatorConfig {
+  // 唯一标识，用于 DATA_CARDS_CONFIG 和路由参数
+  id: string;
+  // 完整名称（详情页标题）
+  name: string;
+  // 卡片标题
+  shortName: string;
+  // listData 数据类型
+  dataType: string;
+  // 记录 data 字段中的数值字段名
+  valueField: string;
+  // 卡片上数值下方的单位说明
+  unit: string;
+  decimals: number;
+  // 数值后缀，如收益率的 "%"
+  suffix?: string;
+  // 是否显示千分位
+  thousandsSeparator?: boolean;
+  // 图表主色
+  chartColor?: string;
+  levels?: MacroIndicatorLevel[];
+  levelsTitle?: string;
+  description?: string;
+  factorsTitle?: string;
+  factorsIntro?: string;
+  factors?: MacroIndicatorFactor[];
+  adviceTitle?: string;
+  tips?: string[];
+  links?: MacroIndicatorLink[];
+  // 兼容旧的卡片标题配置键，如 DATA_TITLE_DXY
+  titleConfigKey?: string;
+}
+
+export const DEFAULT_CHART_COLOR = '#FF6B35';
+
+const YIELD_CURVE_LINK: MacroIndicatorLink = {
+  label: '美债收益率曲线',
+  route: 'YieldCurve',
+  description: '对比当前、1个月前和1年前的收益率曲线及2年-10年期利差',
+};
+
+export const DEFAULT_MACRO_INDICATORS: MacroIndicatorConfig[] = [
+  {
+    id: 'DXY',
+    name: '美元指数',
+    shortName: '美元指数',
+    dataType: 'DXY',
+    valueField: 'dxy',
+    unit: '指数',
+    decimals: 2,
+    titleConfigKey: 'DATA_TITLE_DXY',
+    description: '美元指数（DXY）衡量美元相对于一篮子主要货币的强弱程度。该指数由美元对欧元、日元、英镑、加拿大元、瑞典克朗和瑞士法郎的汇率加权计算得出，是衡量美元整体强弱的重要指标。',
+    levels: [
+      { min: 105, color: '#FF3B30', label: '强势', range: '105+', description: '美元处于强势地位，通常对风险资产构成压力', advice: '美元指数处于强势区间，建议降低风险资产配置，关注美联储政策变化对市场的影响。' },
+      { min: 100, color: '#FF9500', label: '偏强', range: '100-105', description: '美元相对强势，可能对股票市场形成阻力', advice: '美元指数偏强，可能对股票市场形成阻力，建议保持谨慎态度并关注技术面支撑。' },
+      { min: 95, color: '#007AFF', label: '中性', range: '95-100', description: '美元强弱适中，对市场影响相对中性', advice: '美元指数处于中性区间，建议关注其他基本面因素，如市场情绪和技术指标。' },
+      { min: 90, color: '#34C759', label: '偏弱', range: '90-95', description: '美元相对偏弱，通常有利于风险资产表现', advice: '美元指数偏弱，通常有利于风险资产表现，可适当关注股票投资机会。' },
+      { color: '#8E8E93', label: '弱势', range: '90以下', description: '美元处于弱势，历史上往往有利于股票上涨', advice: '美元指数处于弱势，历史上往往有利于股票等风险资产上涨，建议积极关注投资机会。' },
+    ],
+    factorsTitle: '组成因素',
+    factorsIntro: '美元指数的计算基于美元对以下主要货币的汇率，各货币按其在国际贸易中的重要性分配权重：',
+    factors: [
+      { tag: '57.6%', title: '欧元 (EUR)', description: '占据最大权重，是影响美元指数的主要因素' },
+      { tag: '13.6%', title: '日元 (JPY)', description: '第二大权重，日本经济政策对指数影响显著' },
+      { tag: '11.9%', title: '英镑 (GBP)', description: '英国经济状况和货币政策是重要影响因素' },
+      { tag: '9.1%', title: '加拿大元 (CAD)', description: '商品价格和加拿大央行政策影响其走势' },
+      { tag: '4.2%', title: '瑞典克朗 (SEK)', description: '北欧经济状况的代表性货币' },
+      { tag: '3.6%', title: '瑞士法郎 (CHF)', description: '避险货币，在市场动荡时影响力增强' },
+    ],
+    tips: [
+      '美元指数强势时，关注黄金、比特币等避险资产',
+      '美元指数弱势时，可增加对风险资产的配置',
+      '密切关注美联储货币政策会议和经济数据',
+      '结合技术分析和其他基本面指标进行决策',
+    ],
+  },
+  {
+    id: 'USBond10YR',
+    name: '美债10年期',
+    shortName: '美债10年期',
+    dataType: 'US_BOND_10YR',
+    valueField: 'us10yrbond',
+    unit: '收益率',
+    decimals: 3,
+    suffix: '%',
+    chartColor: '#007AFF',
+    titleConfigKey: 'DATA_TITLE_US_BOND_10YR',
+    levelsTitle: '收益率说明',
+    description: '美国十年期国债收益率是衡量长期利率水平的重要指标，反映了市场对未来经济增长和通胀预期。该收益率对全球金融市场，包括股票、债券和股票市场都有重要影响。',
+    levels: [
+      { min: 5.0, color: '#FF3B30', label: '极高', range: '5.0%+', description: '收益率极高，通常伴随高通胀或紧缩货币政策', advice: '收益率极高，债券价格承压，可能对股市和股票构成挑战' },
+      { min: 4.5, color: '#FF9500', label: '高位', range: '4.5-5.0%', description: '收益率处于高位，可能对利率敏感资产构成压力', advice: '收益率处于高位，建议关注利率敏感性资产的风险' },
+      { min: 3.5, color: '#FFCC00', label: '偏高', range: '3.5-4.5%', description: '收益率偏高，需关注对股市和风险资产的影响', advice: '收益率偏高，可能影响风险资产表现，需密切观察' },
+      { min: 2.5, color: '#007AFF', label: '中性', range: '2.5-3.5%', description: '收益率处于中性区间，市场影响相对平衡', advice: '收益率处于中性区间，对市场影响相对平衡' },
+      { min: 1.5, color: '#34C759', label: '偏低', range: '1.5-2.5%', description: '收益率偏低，通常有利于风险资产表现', advice: '收益率偏低，通常有利于风险资产和成长性投资' },
+      { color: '#8E8E93', label: '极低', range: '1.5%以下', description: '收益率极低，可能推动资金流向风险资产', advice: '收益率极低，可能推动资金流向风险资产寻求更高收益' },
+    ],
+    factorsTitle: '影响因素',
+    factorsIntro: '美国十年期国债收益率受到多种宏观经济因素的影响，主要包括：',
+    factors: [
+      { tag: '1', title: '联邦基金利率', description: '美联储的货币政策直接影响短期利率，进而影响长期债券收益率' },
+      { tag: '2', title: '通胀预期', description: '通胀预期上升会推高债券收益率，以补偿投资者的购买力损失' },
+      { tag: '3', title: '经济增长预期', description: '强劲的经济增长预期通常会推高债券收益率' },
+      { tag: '4', title: '市场风险偏好', description: '避险情绪会推动资金流入债券，压低收益率' },
+      { tag: '5', title: '财政政策', description: '政府债务发行量和财政赤字规模影响债券供需关系' },
+    ],
+    tips: [
+      '收益率上升时，关注利率敏感行业的影响',
+      '收益率下降时，风险资产通常表现更好',
+      '密切关注美联储政策会议和经济数据',
+      '考虑债券收益率对股票的溢出效应',
+      '结合通胀数据进行综合分析判断',
+    ],
+    links: [YIELD_CURVE_LINK],
+  },
+  {
+    id: 'SP500',
+    name: '标普500指数',
+    shortName: '标普500',
+    dataType: 'INX',
+    valueField: 'inx',
+    unit: '指数',
+    decimals: 2,
+    titleConfigKey: 'DATA_TITLE_SP500',
+    description: '标普500指数（S&P 500）追踪美国证券市场中规模最大、流动性最高的500家上市公司的表现，是衡量美国股市及宏观经济健康度的重要指标。',
+  },
+  {
+    id: 'Nasdaq',
+    name: '纳斯达克指数',
+    shortName: '纳斯达克',
+    dataType: 'IXIC',
+    valueField: 'ixic',
+    unit: '指数',
+    decimals: 2,
+    thousandsSeparator: true,
+    chartColor: '#34C759',
+    titleConfigKey: 'DATA_TITLE_NASDAQ',
+    description: '纳斯达克综合指数（IXIC）是以在纳斯达克证券市场上市的所有股票为基础计算的综合指数，反映纳斯达克市场整体表现。该指数以技术股为主，包含苹果、微软、谷歌等全球知名科技公司，是衡量科技股和成长股表现的重要指标。',
+    levels: [
+      { min: 20000, color: '#FF3B30', label: '历史高位', range: '20,000点以上', description: '历史高位，市场情绪极度乐观', advice: '纳斯达克指数处于历史高位，建议谨慎操作，关注高估值风险和潜在的市场调整。' },
+      { min: 15000, color: '#FF9500', label: '高位', range: '15,000-20,000点', description: '高位区间，市场相对活跃', advice: '纳斯达克指数处于高位区间，科技股表现强劲，但需警惕估值过高风险。' },
+      { min: 12000, color: '#007AFF', label: '正常', range: '12,000-15,000点', description: '正常区间，市场相对稳定', advice: '纳斯达克指数处于正常区间，市场相对稳定，可关注优质成长股的投资机会。' },
+      { min: 8000, color: '#34C759', label: '偏低', range: '8,000-12,000点', description: '偏低区间，可能存在投资机会', advice: '纳斯达克指数偏低，科技股可能出现较好的投资机会，建议分批布局优质标的。' },
+      { color: '#8E8E93', label: '低位', range: '8,000点以下', description: '低位区间，市场情绪偏悲观', advice: '纳斯达克指数处于低位，历史上往往是投资科技股的好时机，建议积极关注。' },
+    ],
+    factorsTitle: '主要成分',
+    factorsIntro: '纳斯达克综合指数包含在纳斯达克交易所上市的所有股票，以下是主要的权重股票：',
+    factors: [
+      { tag: 'AAPL', title: '苹果公司 (Apple Inc.)', description: '全球最大的科技公司之一，权重最高' },
+      { tag: 'MSFT', title: '微软公司 (Microsoft Corp.)', description: '全球领先的软件和云服务提供商' },
+      { tag: 'GOOGL', title: '字母表公司 (Alphabet Inc.)', description: '谷歌母公司，搜索和广告业务巨头' },
+      { tag: 'AMZN', title: '亚马逊公司 (Amazon.com Inc.)', description: '全球最大的电子商务和云服务公司' },
+      { tag: 'TSLA', title: '特斯拉公司 (Tesla Inc.)', description: '电动汽车和清洁能源领域的领导者' },
+      { tag: 'META', title: 'Meta平台公司 (Meta Platforms Inc.)', description: '社交媒体和元宇宙技术公司' },
+    ],
+    tips: [
+      '关注纳斯达克100 ETF或相关指数基金',
+      '重点关注大型科技股的财报和业绩表现',
+      '密切跟踪美联储货币政策对科技股的影响',
+      '结合技术分析判断趋势和支撑阻力位',
+      '注意分散投资，不要过度集中于科技股',
+    ],
+  },
+  {
+    id: 'DJI',
+    name: '道琼斯指数',
+    shortName: '道琼斯',
+    dataType: 'DJI',
+    valueField: 'dji',
+    unit: '指数',
+    decimals: 2,
+    titleConfigKey: 'DATA_TITLE_DJI',
+    description: '道琼斯工业平均指数（DJIA）由30家具有代表性的美国大型上市公司构成，是最具历史意义的股市指数之一，用于衡量美国股市整体表现。',
+  },
+  {
+    id: 'XAUUSD',
+    name: '黄金价格',
+    shortName: '黄金',
+    dataType: 'XAUUSD',
+    valueField: 'xauusd',
+    unit: '美元/盎司',
+    decimals: 2,
+    titleConfigKey: 'DATA_TITLE_XAUUSD',
+    description: '黄金（XAUUSD）价格代表一盎司黄金以美元计价的现货市场价格，是衡量避险需求与全球通胀预期的重要指标。',
+  },
+  {
+    id: 'USCL',
+    name: '原油价格',
+    shortName: '原油',
+    dataType: 'USCL',
+    valueField: 'uscl',
+    unit: '美元/桶',
+    decimals: 2,
+    titleConfigKey: 'DATA_TITLE_USCL',
+    description: '原油（USCL）价格代表全球能源市场的重要基准，是衡量通胀预期、经济活动与地缘政治风险的重要指标。',
+  },
+  {
+    id: 'USDCNH',
+    name: '离岸人民币汇率',
+    shortName: '离岸人民币',
+    dataType: 'USDCNH',
+    valueField: 'usdcnh',
+    unit: 'USD/CNH',
+    decimals: 4,
+    titleConfigKey: 'DATA_TITLE_USDCNH',
+    description: '离岸人民币（USDCNH）汇率反映美元兑离岸人民币（在香港等离岸市场交易）价格，是衡量国际市场对人民币供需和政策预期的重要指标。',
+  },
+  {
+    id: 'USDJPY',
+    name: '美元日元汇率',
+    shortName: '美元日元',
+    dataType: 'USDJPY',
+    valueField: 'usdjpy',
+    unit: '汇率',
+    decimals: 2,
+    chartColor: '#007AFF',
+    levelsTitle: '汇率说明',
+    description: '美元日元汇率（USD/JPY）表示1美元可以兑换多少日元。这是全球交易量最大的货币对之一，反映了美国和日本两大经济体的相对实力，对全球金融市场具有重要影响。',
+    levels: [
+      { min: 155, color: '#FF3B30', label: '极高', range: '155+', description: '日元大幅贬值，美元极度强势，通常伴随央行干预风险', advice: '日元大幅贬值，美元强势明显，通常伴随着日本央行干预风险。' },
+      { min: 150, color: '#FF9500', label: '偏高', range: '150-155', description: '日元显著贬值，美元相对强势，需关注政策动向', advice: '日元显著贬值，美元相对强势，需关注央行政策动向。' },
+      { min: 140, color: '#007AFF', label: '正常', range: '140-150', description: '汇率处于正常波动区间，反映两国经济基本面平衡', advice: '汇率处于正常波动区间，反映两国经济基本面相对平衡。' },
+      { min: 130, color: '#34C759', label: '偏低', range: '130-140', description: '日元相对强势，美元偏弱，可能受避险情绪影响', advice: '日元相对强势，美元偏弱，可能受避险情绪或日本经济改善影响。' },
+      { color: '#8E8E93', label: '极低', range: '130以下', description: '日元大幅升值，通常在全球市场动荡时出现', advice: '日元大幅升值，通常在全球市场动荡时出现，日元作为避险货币受到青睐。' },
+    ],
+    factorsTitle: '影响因素',
+    factorsIntro: '美元日元汇率受多种因素影响，了解这些因素有助于更好地理解汇率走势：',
+    factors: [
+      { tag: '1', title: '货币政策', description: '美联储和日本央行的利率政策是影响汇率的主要因素' },
+      { tag: '2', title: '经济数据', description: 'GDP、通胀、就业等数据反映两国经济健康状况' },
+      { tag: '3', title: '避险情绪', description: '市场动荡时，日元作为避险货币通常会升值' },
+      { tag: '4', title: '贸易关系', description: '美日贸易往来和双边关系影响汇率预期' },
+      { tag: '5', title: '央行干预', description: '日本央行可能在汇率过度波动时进行市场干预' },
+    ],
+    adviceTitle: '市场分析',
+    tips: [
+      '关注美联储和日本央行政策会议',
+      '注意避险情绪对日元的影响',
+      '密切关注经济数据发布',
+      '警惕极端汇率水平的央行干预',
+      '结合技术分析确定入场时机',
+    ],
+  },
+  {
+    id: 'VIX',
+    name: 'VIX恐慌指数',
+    shortName: 'VIX',
+    dataType: 'VIX',
+    valueField: 'vix',
+    unit: '波动率',
+    decimals: 2,
+    chartColor: '#AF52DE',
+    levelsTitle: '指数说明',
+    description: 'VIX指数由芝加哥期权交易所根据标普500指数期权价格计算，反映市场对未来30天波动率的预期，常被称为"恐慌指数"。VIX上升通常伴随股市下跌和避险情绪升温。',
+    levels: [
+      { min: 40, color: '#FF3B30', label: '极度恐慌', range: '40+', description: '市场剧烈波动，通常出现在危机或大幅下跌期间', advice: '市场处于极度恐慌，波动剧烈，避免追涨杀跌；历史上极端恐慌往往伴随阶段性底部，可分批关注优质资产。' },
+      { min: 30, color: '#FF9500', label: '恐慌', range: '30-40', description: '避险情绪明显，股市承压', advice: '恐慌情绪较重，建议控制仓位和杠杆，关注对冲工具。' },
+      { min: 20, color: '#FFCC00', label: '警惕', range: '20-30', description: '波动高于平均水平，市场存在分歧', advice: '波动率高于平均水平，注意控制风险，关注宏观数据和财报事件。' },
+      { min: 12, color: '#007AFF', label: '平稳', range: '12-20', description: '市场情绪正常，波动处于常见区间', advice: '市场情绪平稳，可按计划配置，关注个股基本面。' },
+      { color: '#34C759', label: '极度乐观', range: '12以下', description: '市场极度平静，可能低估潜在风险', advice: '波动率处于低位，市场可能过度乐观，注意防范突发事件带来的回调。' },
+    ],
+    tips: [
+      'VIX与标普500通常呈反向关系',
+      'VIX快速飙升时往往伴随市场恐慌性抛售',
+      'VIX长期处于低位时需警惕风险积累',
+      '结合成交量和市场宽度综合判断市场情绪',
+    ],
+  },
+  {
+    id: 'FedFunds',
+    name: '联邦基金有效利率',
+    shortName: '联邦基金利率',
+    dataType: 'FED_FUNDS_RATE',
+    valueField: 'fedfunds',
+    unit: '有效利率',
+    decimals: 2,
+    suffix: '%',
+    chartColor: '#5856D6',
+    levelsTitle: '利率说明',
+    description: '联邦基金有效利率（EFFR）是美国银行间隔夜拆借的加权平均利率，由美联储通过设定目标区间进行调控，是美国货币政策最直接的体现，影响整条收益率曲线和全球资产定价。',
+    factorsTitle: '影响因素',
+    factorsIntro: '联邦基金利率主要由美联储货币政策决定：',
+    factors: [
+      { tag: '1', title: 'FOMC议息会议', description: '每年8次会议决定联邦基金目标利率区间' },
+      { tag: '2', title: '通胀数据', description: 'CPI、PCE等通胀指标是加息或降息的核心依据' },
+      { tag: '3', title: '就业市场', description: '非农就业和失业率反映经济是否过热或转弱' },
+      { tag: '4', title: '金融稳定', description: '市场流动性紧张时美联储可能调整政策节奏' },
+    ],
+    tips: [
+      '利率上行周期中，高估值成长股通常承压',
+      '降息预期升温时，利率敏感资产往往先行反应',
+      '关注点阵图和美联储官员讲话对利率路径的指引',
+    ],
+    links: [YIELD_CURVE_LINK],
+  },
+  {
+    id: 'USBond2YR',
+    name: '美债2年期',
+    shortName: '美债2年期',
+    dataType: 'US_BOND_2YR',
+    valueField: 'us2yrbond',
+    unit: '收益率',
+    decimals: 3,
+    suffix: '%',
+    chartColor: '#007AFF',
+    levelsTitle: '收益率说明',
+    description: '美国两年期国债收益率对美联储政策预期最为敏感，通常领先于联邦基金利率变化。2年期与10年期收益率之差是观察经济衰退风险的重要指标。',
+    links: [YIELD_CURVE_LINK],
+  },
+  {
+    id: 'USBond5YR',
+    name: '美债5年期',
+    shortName: '美债5年期',
+    dataType: 'US_BOND_5YR',
+    valueField: 'us5yrbond',
+    unit: '收益率',
+    decimals: 3,
+    suffix: '%',
+    chartColor: '#007AFF',
+    levelsTitle: '收益率说明',
+    description: '美国五年期国债收益率位于收益率曲线中段，同时反映中期政策利率预期和通胀预期，是房贷、企业融资等中期利率的重要参考。',
+    links: [YIELD_CURVE_LINK],
+  },
+  {
+    id: 'USBond30YR',
+    name: '美债30年期',
+    shortName: '美债30年期',
+    dataType: 'US_BOND_30YR',
+    valueField: 'us30yrbond',
+    unit: '收益率',
+    decimals: 3,
+    suffix: '%',
+    chartColor: '#007AFF',
+    levelsTitle: '收益率说明',
+    description: '美国三十年期国债收益率反映市场对长期经济增长、通胀和财政可持续性的预期，对养老金、保险等长期资金配置影响显著。',
+    links: [YIELD_CURVE_LINK],
+  },
+];
+
+// 收益率曲线的期限（按期限从短到长）
+export interface YieldCurveTenor {
+  indicatorId: string;
+  label: string;
+  years: number;
+}
+
+export const YIELD_CURVE_TENORS: YieldCurveTenor[] = [
+  { indicatorId: 'USBond2YR', label: '2Y', years: 2 },
+  { indicatorId: 'USBond5YR', label: '5Y', years: 5 },
+  { indicatorId: 'USBond10YR', label: '10Y', years: 10 },
+  { indicatorId: 'USBond30YR', label: '30Y', years: 30 },
+];
+
+// 首页/数据页默认展示的指标卡片
+export const DEFAULT_INDICATOR_CARDS = ['DXY', 'USBond10YR', 'SP500', 'Nasdaq', 'DJI', 'VIX', 'XAUUSD', 'USCL', 'USDCNH', 'FedFunds'];
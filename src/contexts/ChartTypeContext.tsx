@@ -1,12 +1,41 @@
-import React, { createContext, useState, useContext, ReactNode } from 'react';
+import React, { createContext, useState, useContext, useEffect, ReactNode } from 'react';
+import { StorageAdapter } from '../services/TokenService';
+import { useUser } from './UserContext';
 
-// 图表类型的类型定义
-type ChartType = 'price' | 'rank';
+// 图表类型的类型定义：价格曲线、排名曲线、K线
+export type ChartType = 'price' | 'rank' | 'candle';
+
+// 副图指标
+export type SubIndicatorType = 'none' | 'rsi' | 'macd';
+
+// 技术指标设置（叠加在主图上的均线/布林带 + 副图指标）
+export interface IndicatorSettings {
+  sma: boolean;
+  smaPeriod: number;
+  ema: boolean;
+  emaPeriod: number;
+  bollinger: boolean;
+  subIndicator: SubIndicatorType;
+}
+
+export const DEFAULT_INDICATOR_SETTINGS: IndicatorSettings = {
+  sma: false,
+  smaPeriod: 20,
+  ema: false,
+  emaPeriod: 10,
+  bollinger: false,
+  subIndicator: 'none'
+};
+
+// 指标设置按用户保存，未登录时使用访客配置
+const INDICATOR_STORAGE_KEY_PREFIX = 'chartIndicatorSettings_';
 
 // 图表类型上下文接口定义
 interface ChartTypeContextProps {
   getChartType: (coinName: string) => ChartType;
   setChartType: (coinName: string, type: ChartType) => void;
+  indicatorSettings: IndicatorSettings;
+  updateIndicatorSettings: (changes: Partial<IndicatorSettings>) => void;
 }
 
 // 创建上下文
@@ -27,8 +56,37 @@ interface ChartTypeProviderProps {
 
 // 上下文提供者组件
 export const ChartTypeProvider: React.FC<ChartTypeProviderProps> = ({ children }) => {
+  const { currentUser } = useUser();
   // 使用状态来存储各币种的图表类型选择
   const [chartTypeMap, setChartTypeMap] = useState<Record<string, ChartType>>({});
+  const [indicatorSettings, setIndicatorSettings] = useState<IndicatorSettings>(DEFAULT_INDICATOR_SETTINGS);
+
+  const indicatorStorageKey = INDICATOR_STORAGE_KEY_PREFIX + (currentUser?.email || 'guest');
+
+  // 用户切换时加载该用户的指标设置
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadIndicatorSettings = async () => {
+      try {
+        const stored = await StorageAdapter.getItem(indicatorStorageKey);
+        if (cancelled) return;
+        setIndicatorSettings(stored
+          ? { ...DEFAULT_INDICATOR_SETTINGS, ...JSON.parse(stored) }
+          : DEFAULT_INDICATOR_SETTINGS);
+      } catch (error) {
+        console.error('❌ ChartTypeContext: 读取指标设置失败:', error);
+        if (!cancelled) {
+          setIndicatorSettings(DEFAULT_INDICATOR_SETTINGS);
+        }
+      }
+    };
+
+    loadIndicatorSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [indicatorStorageKey]);
 
   // 获取币种的图表类型
   const getChartType = (coinName: string): ChartType => {
@@ -43,9 +101,22 @@ export const ChartTypeProvider: React.FC<ChartTypeProviderProps> = ({ children }
     }));
   };
 
+  // 更新指标设置并持久化
+  const updateIndicatorSettings = (changes: Partial<IndicatorSettings>) => {
+    setIndicatorSettings(prev => {
+      const next = { ...prev, ...changes };
+      StorageAdapter.setItem(indicatorStorageKey, JSON.stringify(next)).catch(error => {
+        console.error('❌ ChartTypeContext: 保存指标设置失败:', error);
+      });
+      return next;
+    });
+  };
+
   const value = {
     getChartType,
-    setChartType
+    setChartType,
+    indicatorSettings,
+    updateIndicatorSettings
   };
 
   return (
@@ -0,0 +1,147 @@
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import priceAlertService, {
+  PriceAlertRule,
+  PriceAlertRuleInput,
+  TriggeredPriceAlert,
+} from '../services/PriceAlertService';
+import { useUser } from './UserContext';
+import { useUSStockRealTimePrice } from './USStockRealTimePriceContext';
+import { StockPriceMap } from '../services/USStockRealTimePriceService';
+import PriceAlertBanner from '../components/common/PriceAlertBanner';
+
+// Context的值类型
+interface PriceAlertContextType {
+  // 当前用户的提醒规则
+  rules: PriceAlertRule[];
+
+  // 触发历史（新的在前）
+  history: TriggeredPriceAlert[];
+
+  // 未读提醒数量
+  unreadCount: number;
+
+  addRule: (input: PriceAlertRuleInput) => Promise<PriceAlertRule>;
+  removeRule: (ruleId: string) => Promise<void>;
+  setRuleEnabled: (ruleId: string, enabled: boolean) => Promise<void>;
+  markAllRead: () => Promise<void>;
+  clearHistory: () => Promise<void>;
+}
+
+// 创建Context
+const PriceAlertContext = createContext<PriceAlertContextType | undefined>(undefined);
+
+interface PriceAlertProviderProps {
+  children: ReactNode;
+}
+
+// Provider组件：复用实时价格Context的轮询结果评估提醒规则
+export const PriceAlertProvider: React.FC<PriceAlertProviderProps> = ({ children }) => {
+  const { currentUser } = useUser();
+  const { realTimePrices, startPolling, stopPolling, subscribeSymbols } = useUSStockRealTimePrice();
+  const [rules, setRules] = useState<PriceAlertRule[]>([]);
+  const [history, setHistory] = useState<TriggeredPriceAlert[]>([]);
+  const [bannerAlerts, setBannerAlerts] = useState<TriggeredPriceAlert[]>([]);
+  const evaluatingRef = useRef(false);
+  // 评估进行中到达的价格，按股票保留最新一笔，本轮结束后再评估
+  const pendingPricesRef = useRef<StockPriceMap>({});
+
+  // 订阅服务变化
+  useEffect(() => {
+    const unsubscribe = priceAlertService.subscribe(({ rules, history, triggered }) => {
+      setRules(rules);
+      setHistory(history);
+      if (triggered.length > 0) {
+        setBannerAlerts(prev => [...prev, ...triggered]);
+      }
+    });
+    return unsubscribe;
+  }, []);
+
+  // 用户切换时加载对应的规则
+  useEffect(() => {
+    priceAlertService.loadForUser(currentUser?.email || null);
+    setBannerAlerts([]);
+  }, [currentUser?.email]);
+
+  // 存在启用的规则时保持实时价格轮询
+  const hasActiveRules = rules.some(rule => rule.enabled);
+  useEffect(() => {
+    if (!hasActiveRules) {
+      return;
+    }
+    startPolling();
+    return () => {
+      stopPolling();
+    };
+  }, [hasActiveRules]);
+
+  // 订阅启用规则涉及的股票，推送模式下只会收到已订阅股票的价格
+  const activeRuleSymbols = Array.from(new Set(rules.filter(rule => rule.enabled).map(rule => rule.symbol))).sort().join(',');
+  useEffect(() => {
+    if (!activeRuleSymbols) {
+      return;
+    }
+    return subscribeSymbols(activeRuleSymbols.split(','));
+  }, [activeRuleSymbols]);
+
+  // 每次价格更新时评估规则，上一轮未结束时先合并到待评估价格中
+  useEffect(() => {
+    if (!hasActiveRules || Object.keys(realTimePrices).length === 0) {
+      return;
+    }
+    pendingPricesRef.current = { ...pendingPricesRef.current, ...realTimePrices };
+    if (evaluatingRef.current) {
+      return;
+    }
+
+    evaluatingRef.current = true;
+    const evaluatePending = async () => {
+      try {
+        while (Object.keys(pendingPricesRef.current).length > 0) {
+          const prices = pendingPricesRef.current;
+          pendingPricesRef.current = {};
+          try {
+            await priceAlertService.evaluateTicks(prices);
+          } catch (error) {
+            console.error('❌ PriceAlertContext: Failed to evaluate alerts:', error);
+          }
+        }
+      } finally {
+        evaluatingRef.current = false;
+      }
+    };
+    evaluatePending();
+  }, [realTimePrices, hasActiveRules]);
+
+  const value: PriceAlertContextType = {
+    rules,
+    history,
+    unreadCount: history.filter(item => !item.read).length,
+    addRule: input => priceAlertService.addRule(input),
+    removeRule: ruleId => priceAlertService.removeRule(ruleId),
+    setRuleEnabled: (ruleId, enabled) => priceAlertService.setRuleEnabled(ruleId, enabled),
+    markAllRead: () => priceAlertService.markHistoryRead(),
+    clearHistory: () => priceAlertService.clearHistory(),
+  };
+
+  return (
+    <PriceAlertContext.Provider value={value}>
+      {children}
+      <PriceAlertBanner
+        alert={bannerAlerts[0] || null}
+        onDismiss={() => setBannerAlerts(prev => prev.slice(1))}
+      />
+    </PriceAlertContext.Provider>
+  );
+};
+
+// Hook for using the context
+export const usePriceAlerts = (): PriceAlertContextType => {
+  const context = useContext(PriceAlertContext);
+  if (context === undefined) {
+    throw new Error('usePriceAlerts must be used within a PriceAlertProvider');
+  }
+  return context;
+};
+
+export default PriceAlertProvider;
@@ -0,0 +1,160 @@
+// 价格变动方向类型
+export type PriceDirection = 'up' | 'down' | null;
+
+// 单只股票的价格快照，同一只股票没有变化时保持同一个对象引用
+export interface StockPriceSnapshot {
+  price: number | null;
+  change: PriceDirection;
+}
+
+// 全部股票的价格快照
+export interface AllPricesSnapshot {
+  prices: { [key: string]: number };
+  changes: { [key: string]: PriceDirection };
+}
+
+type Listener = () => void;
+
+const EMPTY_SNAPSHOT: StockPriceSnapshot = { price: null, change: null };
+
+// 价格变动方向的显示时长
+const PRICE_CHANGE_DURATION = 3000;
+
+/**
+ * 美股实时价格存储
+ * 按股票代码（小写）分别通知订阅者，配合 useSyncExternalStore 使用：
+ * 某只股票价格变化时只有订阅了该股票的组件会重新渲染
+ */
+export class USStockPriceStore {
+  private snapshot: AllPricesSnapshot = { prices: {}, changes: {} };
+  private symbolSnapshots = new Map<string, StockPriceSnapshot>();
+  private symbolListeners = new Map<string, Set<Listener>>();
+  private allListeners = new Set<Listener>();
+  private changeTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  /**
+   * 获取全部股票的价格快照
+   */
+  getAllSnapshot = (): AllPricesSnapshot => this.snapshot;
+
+  /**
+   * 获取单只股票的价格快照
+   */
+  getSnapshot = (stockSymbol: string): StockPriceSnapshot => {
+    return this.symbolSnapshots.get(stockSymbol.toLowerCase()) || EMPTY_SNAPSHOT;
+  };
+
+  /**
+   * 订阅单只股票的价格变化
+   * @returns 取消订阅函数
+   */
+  subscribe = (stockSymbol: string, listener: Listener): (() => void) => {
+    const key = stockSymbol.toLowerCase();
+    let listeners = this.symbolListeners.get(key);
+    if (!listeners) {
+      listeners = new Set();
+      this.symbolListeners.set(key, listeners);
+    }
+    listeners.add(listener);
+
+    return () => {
+      listeners!.delete(listener);
+      if (listeners!.size === 0) {
+        this.symbolListeners.delete(key);
+      }
+    };
+  };
+
+  /**
+   * 订阅任意股票的价格变化
+   * @returns 取消订阅函数
+   */
+  subscribeAll = (listener: Listener): (() => void) => {
+    this.allListeners.add(listener);
+    return () => {
+      this.allListeners.delete(listener);
+    };
+  };
+
+  /**
+   * 合并新价格，检测涨跌方向并只通知价格有变化的股票
+   * @param priceMap { nvda: 178.08, ... }
+   */
+  applyPrices(priceMap: { [key: string]: number }): void {
+    const previousPrices = this.snapshot.prices;
+    // 首次收到价格时不显示涨跌方向
+    const hasHistory = Object.keys(previousPrices).length > 0;
+    const prices = { ...previousPrices };
+    const changedSymbols: string[] = [];
+    const newChanges: { [key: string]: PriceDirection } = {};
+
+    Object.keys(priceMap).forEach(stock => {
+      const key = stock.toLowerCase();
+      const currentPrice = priceMap[stock];
+      const previousPrice = previousPrices[key];
+      if (currentPrice === previousPrice) {
+        return;
+      }
+      prices[key] = currentPrice;
+      changedSymbols.push(key);
+      if (hasHistory && previousPrice) {
+        newChanges[key] = currentPrice > previousPrice ? 'up' : 'down';
+      }
+    });
+
+    if (changedSymbols.length === 0) {
+      return;
+    }
+
+    this.snapshot = {
+      prices,
+      changes: { ...this.snapshot.changes, ...newChanges },
+    };
+
+    changedSymbols.forEach(key => {
+      this.updateSymbolSnapshot(key);
+      if (newChanges[key]) {
+        this.scheduleChangeReset(key);
+      }
+    });
+    this.notify(changedSymbols);
+  }
+
+  /**
+   * 清理定时器（Provider卸载时调用）
+   */
+  dispose(): void {
+    this.changeTimers.forEach(timer => clearTimeout(timer));
+    this.changeTimers.clear();
+  }
+
+  private updateSymbolSnapshot(key: string): void {
+    const price = this.snapshot.prices[key];
+    this.symbolSnapshots.set(key, {
+      price: price !== undefined ? price : null,
+      change: this.snapshot.changes[key] || null,
+    });
+  }
+
+  // 涨跌方向显示一段时间后清除
+  private scheduleChangeReset(key: string): void {
+    const existing = this.changeTimers.get(key);
+    if (existing) {
+      clearTimeout(existing);
+    }
+    this.changeTimers.set(key, setTimeout(() => {
+      this.changeTimers.delete(key);
+      const { [key]: _removed, ...changes } = this.snapshot.changes;
+      this.snapshot = { ...this.snapshot, changes };
+      this.updateSymbolSnapshot(key);
+      this.notify([key]);
+    }, PRICE_CHANGE_DURATION));
+  }
+
+  private notify(keys: string[]): void {
+    keys.forEach(key => {
+      this.symbolListeners.get(key)?.forEach(listener => listener());
+    });
+    this.allListeners.forEach(listener => listener());
+  }
+}
@@ -1,10 +1,9 @@
-import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useMemo, useCallback, useSyncExternalStore, ReactNode } from 'react';
 import usStockRealTimePriceService from '../services/USStockRealTimePriceService';
+import usStockPriceStreamService, { PriceStreamStatus, PriceStreamTransport } from '../services/USStockPriceStreamService';
+import { USStockPriceStore, PriceDirection, StockPriceSnapshot } from './USStockPriceStore';
 
-// 价格变动方向类型
-type PriceDirection = 'up' | 'down' | null;
-
-// Context的值类型
+// useUSStockRealTimePrice 的返回值类型
 interface USStockRealTimePriceContextType {
   // 实时价格数据 { nvda: 178.08, aapl: 212.39, ... }
   realTimePrices: { [key: string]: number };
@@ -12,15 +11,21 @@ interface USStockRealTimePriceContextType {
   // 价格变动方向 { nvda: 'up', aapl: 'down', ... }
   priceChanges: { [key: string]: PriceDirection };
   
-  // 是否正在轮询
+  // 是否正在获取实时价格（推送或轮询）
   isPolling: boolean;
   
+  // 推送连接状态，推送不可用时为 polling
+  streamStatus: PriceStreamStatus;
+  
   // 启动轮询（当组件需要实时价格时调用）
   startPolling: () => void;
   
   // 停止轮询（当组件不再需要实时价格时调用）
   stopPolling: () => void;
   
+  // 订阅当前屏幕上显示的股票，推送通道只推送已订阅的股票；返回取消订阅函数
+  subscribeSymbols: (stockSymbols: string[]) => () => void;
+  
   // 获取特定股票的实时价格
   getPrice: (stockSymbol: string) => number | null;
   
@@ -28,8 +33,18 @@ interface USStockRealTimePriceContextType {
   getPriceChange: (stockSymbol: string) => PriceDirection;
 }
 
+// Context的值类型：价格保存在 store 中，Context 本身只在轮询状态变化时更新
+interface USStockRealTimePriceStoreContextType {
+  store: USStockPriceStore;
+  isPolling: boolean;
+  streamStatus: PriceStreamStatus;
+  startPolling: () => void;
+  stopPolling: () => void;
+  subscribeSymbols: (stockSymbols: string[]) => () => void;
+}
+
 // 创建Context
-const USStockRealTimePriceContext = createContext<USStockRealTimePriceContextType | undefined>(undefined);
+const USStockRealTimePriceContext = createContext<USStockRealTimePriceStoreContextType | undefined>(undefined);
 
 // Provider组件的Props
 interface USStockRealTimePriceProviderProps {
@@ -43,53 +58,41 @@ export const USStockRealTimePriceProvider: React.FC<USStockRealTimePriceProvider
   children,
   pollingInterval = 10000 // 默认10秒间隔
 }) => {
-  const [realTimePrices, setRealTimePrices] = useState<{ [key: string]: number }>({});
-  const [priceChanges, setPriceChanges] = useState<{ [key: string]: PriceDirection }>({});
+  const [store] = useState(() => new USStockPriceStore());
   const [isPolling, setIsPolling] = useState(false);
+  const [streamStatus, setStreamStatus] = useState<PriceStreamStatus>('idle');
   
   // 使用ref来跟踪轮询状态和订阅者数量
   const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const subscribersRef = useRef(0);
-  const previousPricesRef = useRef<{ [key: string]: number }>({});
+  const refreshTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  // 等待补取价格的新订阅股票
+  const pendingSymbolsRef = useRef<Set<string>>(new Set());
+  
+  // 推送通道相关状态
+  const transportRef = useRef<PriceStreamTransport | null>(null);
+  const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  // 股票代码（大写） -> 订阅次数
+  const symbolCountsRef = useRef<Map<string, number>>(new Map());
+
+  // 获取当前订阅的股票列表
+  const getSubscribedSymbols = (): string[] => Array.from(symbolCountsRef.current.keys());
 
   // 获取实时价格数据
   const fetchRealTimePrices = async () => {
     try {
       // console.log('🔄 USStockRealTimePriceContext: Fetching US stock prices...');
       
-      // 调用美股实时价格服务
-      const priceMap = await usStockRealTimePriceService.getAllRealTimePricesAsMap();
+      // 有订阅的股票时只请求这些股票，否则请求全量数据
+      const symbols = getSubscribedSymbols();
+      const priceMap = symbols.length > 0
+        ? await usStockRealTimePriceService.getRealTimePricesForSymbols(symbols)
+        : await usStockRealTimePriceService.getAllRealTimePricesAsMap();
       
       // console.log(`✅ USStockRealTimePriceContext: Received ${Object.keys(priceMap).length} stock prices`);
       
-      // 检测价格变动
-      const newPriceChanges: { [key: string]: PriceDirection } = {};
-      const previousPrices = previousPricesRef.current;
-      
-      // 只有当有历史价格时才检测变动
-      if (Object.keys(previousPrices).length > 0) {
-        Object.keys(priceMap).forEach(stock => {
-          const currentPrice = priceMap[stock];
-          const previousPrice = previousPrices[stock];
-          
-          if (previousPrice && currentPrice !== previousPrice) {
-            newPriceChanges[stock] = currentPrice > previousPrice ? 'up' : 'down';
-            // console.log(`💰 ${stock}: ${previousPrice} → ${currentPrice} (${newPriceChanges[stock]})`);
-          }
-        });
-      }
-      
-      // 更新价格数据
-      setRealTimePrices(priceMap);
-      previousPricesRef.current = { ...priceMap };
-      
-      // 如果有价格变动，设置变动状态并在3秒后清除
-      if (Object.keys(newPriceChanges).length > 0) {
-        setPriceChanges(newPriceChanges);
-        setTimeout(() => {
-          setPriceChanges({});
-        }, 3000);
-      }
+      store.applyPrices(priceMap);
       
     } catch (error) {
       console.error('❌ USStockRealTimePriceContext: Failed to fetch stock prices:', error);
@@ -97,26 +100,135 @@ export const USStockRealTimePriceProvider: React.FC<USStockRealTimePriceProvider
     }
   };
 
+  // 开始定时轮询（未配置推送、推送连接中或推送断开时使用）
+  const startIntervalPolling = () => {
+    if (pollingIntervalRef.current) {
+      return;
+    }
+    pollingIntervalRef.current = setInterval(fetchRealTimePrices, pollingInterval);
+    console.log(`🚀 USStockRealTimePriceContext: US stock price polling started (interval: ${pollingInterval}ms)`);
+  };
+
+  // 停止定时轮询
+  const stopIntervalPolling = () => {
+    if (pollingIntervalRef.current) {
+      clearInterval(pollingIntervalRef.current);
+      pollingIntervalRef.current = null;
+    }
+  };
+
+  // 新增订阅时尽快补取这些股票的价格：轮询时不必等到下一个周期，推送只包含后续变化
+  // 尚未启动时由 startPolling 的首次请求覆盖
+  const scheduleRefresh = (symbols: string[]) => {
+    if (subscribersRef.current === 0) {
+      return;
+    }
+    symbols.forEach(symbol => pendingSymbolsRef.current.add(symbol));
+    if (refreshTimeoutRef.current) {
+      return;
+    }
+    refreshTimeoutRef.current = setTimeout(async () => {
+      refreshTimeoutRef.current = null;
+      const pending = Array.from(pendingSymbolsRef.current);
+      pendingSymbolsRef.current.clear();
+      try {
+        const priceMap = await usStockRealTimePriceService.getRealTimePricesForSymbols(pending);
+        store.applyPrices(priceMap);
+      } catch (error) {
+        console.error('❌ USStockRealTimePriceContext: Failed to fetch prices for new subscriptions:', error);
+      }
+    }, 300);
+  };
+
+  // 推送断开后按指数退避重连
+  const scheduleReconnect = () => {
+    if (reconnectTimeoutRef.current || subscribersRef.current === 0) {
+      return;
+    }
+    const delay = usStockPriceStreamService.getReconnectDelay(reconnectAttemptRef.current);
+    reconnectAttemptRef.current += 1;
+    reconnectTimeoutRef.current = setTimeout(() => {
+      reconnectTimeoutRef.current = null;
+      openStream();
+    }, delay);
+  };
+
+  // 建立推送连接，推送可用后停止定时轮询
+  const openStream = async () => {
+    if (transportRef.current) {
+      return;
+    }
+    const transport = await usStockPriceStreamService.createTransport();
+    // 等待配置期间所有订阅者都已离开，或其他调用已建立连接
+    if (subscribersRef.current === 0 || transportRef.current) {
+      return;
+    }
+    if (!transport) {
+      setStreamStatus('polling');
+      return;
+    }
+
+    transportRef.current = transport;
+    setStreamStatus('connecting');
+    transport.connect(getSubscribedSymbols(), {
+      onOpen: () => {
+        reconnectAttemptRef.current = 0;
+        stopIntervalPolling();
+        setStreamStatus('open');
+        console.log(`📡 USStockRealTimePriceContext: Price stream connected (${transport.kind}), polling paused`);
+      },
+      onPrices: (prices) => {
+        store.applyPrices(prices);
+      },
+      onClose: (reason) => {
+        transportRef.current = null;
+        if (subscribersRef.current === 0) {
+          return;
+        }
+        console.warn(`⚠️ USStockRealTimePriceContext: Price stream dropped (${reason}), falling back to polling`);
+        setStreamStatus('polling');
+        fetchRealTimePrices();
+        startIntervalPolling();
+        scheduleReconnect();
+      },
+    });
+  };
+
+  // 关闭推送连接并取消重连
+  const closeStream = () => {
+    if (reconnectTimeoutRef.current) {
+      clearTimeout(reconnectTimeoutRef.current);
+      reconnectTimeoutRef.current = null;
+    }
+    reconnectAttemptRef.current = 0;
+    if (transportRef.current) {
+      transportRef.current.close();
+      transportRef.current = null;
+    }
+  };
+
   // 启动轮询
   const startPolling = () => {
     subscribersRef.current += 1;
     
     // console.log(`📈 USStockRealTimePriceContext: Start polling requested (${subscribersRef.current} subscribers)`);
     
-    if (pollingIntervalRef.current) {
-      // 已经在轮询，无需重复启动
+    // 已有订阅者时轮询或推送已经启动，无需重复启动
+    // 推送连接成功后会清除轮询定时器，不能用它判断是否已启动
+    if (subscribersRef.current > 1) {
       return;
     }
     
     setIsPolling(true);
     
-    // 立即获取一次数据
-    fetchRealTimePrices();
-    
-    // 开始定期轮询
-    pollingIntervalRef.current = setInterval(fetchRealTimePrices, pollingInterval);
-    
-    console.log(`🚀 USStockRealTimePriceContext: US stock price polling started (interval: ${pollingInterval}ms)`);
+    if (!transportRef.current) {
+      // 立即获取一次全量数据，推送只包含后续变化
+      fetchRealTimePrices();
+      
+      // 先开始定期轮询，推送连接成功后再停止
+      startIntervalPolling();
+    }
+    openStream();
   };
 
   // 停止轮询
@@ -126,44 +238,73 @@ export const USStockRealTimePriceProvider: React.FC<USStockRealTimePriceProvider
     // console.log(`📉 USStockRealTimePriceContext: Stop polling requested (${subscribersRef.current} subscribers)`);
     
     // 只有当没有订阅者时才停止轮询
-    if (subscribersRef.current === 0 && pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
+    if (subscribersRef.current === 0 && (pollingIntervalRef.current || transportRef.current || reconnectTimeoutRef.current)) {
+      stopIntervalPolling();
+      closeStream();
       setIsPolling(false);
+      setStreamStatus('idle');
       console.log('⏹️ USStockRealTimePriceContext: US stock price polling stopped');
     }
   };
 
-  // 获取特定股票的实时价格
-  const getPrice = (stockSymbol: string): number | null => {
-    const price = realTimePrices[stockSymbol.toLowerCase()];
-    return price !== undefined ? price : null;
-  };
+  // 订阅股票，订阅列表变化时同步给推送通道
+  const subscribeSymbols = (stockSymbols: string[]): (() => void) => {
+    const symbols = Array.from(new Set(stockSymbols.filter(Boolean).map(symbol => symbol.toUpperCase())));
+    const counts = symbolCountsRef.current;
+    const added: string[] = [];
+    symbols.forEach(symbol => {
+      const count = counts.get(symbol) || 0;
+      counts.set(symbol, count + 1);
+      if (count === 0) {
+        added.push(symbol);
+      }
+    });
+    if (added.length > 0) {
+      transportRef.current?.updateSymbols(getSubscribedSymbols());
+      scheduleRefresh(added);
+    }
 
-  // 获取特定股票的价格变动方向
-  const getPriceChange = (stockSymbol: string): PriceDirection => {
-    return priceChanges[stockSymbol.toLowerCase()] || null;
+    return () => {
+      let removed = false;
+      symbols.forEach(symbol => {
+        const count = counts.get(symbol) || 0;
+        if (count <= 1) {
+          counts.delete(symbol);
+          removed = true;
+        } else {
+          counts.set(symbol, count - 1);
+        }
+      });
+      if (removed) {
+        transportRef.current?.updateSymbols(getSubscribedSymbols());
+      }
+    };
   };
 
-  // 组件卸载时清理轮询
+  // 组件卸载时清理轮询和推送连接
   useEffect(() => {
     return () => {
       if (pollingIntervalRef.current) {
         clearInterval(pollingIntervalRef.current);
         console.log('🧹 USStockRealTimePriceContext: Cleanup - polling stopped');
       }
+      if (refreshTimeoutRef.current) {
+        clearTimeout(refreshTimeoutRef.current);
+      }
+      closeStream();
+      store.dispose();
     };
   }, []);
 
-  const value: USStockRealTimePriceContextType = {
-    realTimePrices,
-    priceChanges,
+  // 操作函数只依赖ref，Context值只需随轮询状态更新
+  const value = useMemo<USStockRealTimePriceStoreContextType>(() => ({
+    store,
     isPolling,
+    streamStatus,
     startPolling,
     stopPolling,
-    getPrice,
-    getPriceChange,
-  };
+    subscribeSymbols,
+  }), [isPolling, streamStatus]);
 
   return (
     <USStockRealTimePriceContext.Provider value={value}>
@@ -172,15 +313,70 @@ export const USStockRealTimePriceProvider: React.FC<USStockRealTimePriceProvider
   );
 };
 
-// Hook for using the context
-export const useUSStockRealTimePrice = (): USStockRealTimePriceContextType => {
+const useRealTimePriceStoreContext = (hookName: string): USStockRealTimePriceStoreContextType => {
   const context = useContext(USStockRealTimePriceContext);
   if (context === undefined) {
-    throw new Error('useUSStockRealTimePrice must be used within a USStockRealTimePriceProvider');
+    throw new Error(`${hookName} must be used within a USStockRealTimePriceProvider`);
   }
   return context;
 };
 
+// Hook for using the context
+// 返回全部股票的价格，任意股票价格变化都会重新渲染；只关心单只股票时请使用 useStockPrice
+export const useUSStockRealTimePrice = (): USStockRealTimePriceContextType => {
+  const context = useRealTimePriceStoreContext('useUSStockRealTimePrice');
+  const { prices, changes } = useSyncExternalStore(context.store.subscribeAll, context.store.getAllSnapshot);
+
+  return {
+    realTimePrices: prices,
+    priceChanges: changes,
+    isPolling: context.isPolling,
+    streamStatus: context.streamStatus,
+    startPolling: context.startPolling,
+    stopPolling: context.stopPolling,
+    subscribeSymbols: context.subscribeSymbols,
+    getPrice: (stockSymbol: string) => {
+      const price = prices[stockSymbol.toLowerCase()];
+      return price !== undefined ? price : null;
+    },
+    getPriceChange: (stockSymbol: string) => changes[stockSymbol.toLowerCase()] || null,
+  };
+};
+
+/**
+ * 订阅单只股票的实时价格
+ * 自动启动实时价格并订阅该股票，只有该股票的价格或涨跌方向变化时才会重新渲染
+ * @param stockSymbol 股票代码（不区分大小写），为空时不订阅
+ * @example const { price, change } = useStockPrice('NVDA');
+ */
+export const useStockPrice = (stockSymbol?: string | null): StockPriceSnapshot => {
+  const { store, startPolling, stopPolling, subscribeSymbols } = useRealTimePriceStoreContext('useStockPrice');
+  const key = (stockSymbol || '').toLowerCase();
+
+  useEffect(() => {
+    if (!key) {
+      return;
+    }
+    // 先订阅再启动，首次请求即包含该股票
+    const unsubscribe = subscribeSymbols([key]);
+    startPolling();
+    return () => {
+      unsubscribe();
+      stopPolling();
+    };
+  }, [key]);
+
+  const subscribe = useCallback(
+    (listener: () => void) => (key ? store.subscribe(key, listener) : () => {}),
+    [store, key]
+  );
+  const getSnapshot = useCallback(() => store.getSnapshot(key), [store, key]);
+
+  return useSyncExternalStore(subscribe, getSnapshot);
+};
+
+export type { PriceDirection, StockPriceSnapshot };
+
 // 默认导出Provider
 export default USStockRealTimePriceProvider;
 
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import apiConfig, { EndpointHealth } from '../config/apiConfig';
+
+/**
+ * 接入点健康状态 Hook
+ * 返回所有接入点的延迟、失败率和当前使用的接入点，状态变化时自动更新
+ */
+export const useEndpointHealth = (): EndpointHealth[] => {
+  const [health, setHealth] = useState<EndpointHealth[]>(apiConfig.getEndpointHealth());
+
+  useEffect(() => {
+    // 订阅前状态可能已经变化
+    setHealth(apiConfig.getEndpointHealth());
+    return apiConfig.subscribeHealth(setHealth);
+  }, []);
+
+  return health;
+};
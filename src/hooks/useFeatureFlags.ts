@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import featureFlagService from '../services/FeatureFlagService';
+import { FeatureFlags } from '../config/featureConfig';
+
+/**
+ * 功能开关 Hook
+ * 返回当前开关，远程配置加载完成后自动更新
+ */
+export const useFeatureFlags = (): FeatureFlags => {
+  const [flags, setFlags] = useState<FeatureFlags>(featureFlagService.getFlags());
+
+  useEffect(() => {
+    setFlags(featureFlagService.getFlags());
+    const unsubscribe = featureFlagService.subscribe(setFlags);
+    featureFlagService.loadRemoteFlags();
+    return unsubscribe;
+  }, []);
+
+  return flags;
+};
@@ -0,0 +1,20 @@
+import { useState, useEffect } from 'react';
+import macroIndicatorRegistry from '../services/data/MacroIndicatorRegistry';
+import { MacroIndicatorConfig } from '../config/macroIndicatorConfig';
+
+/**
+ * 宏观指标列表 Hook
+ * 返回内置与远程配置合并后的指标，远程配置加载完成后自动更新
+ */
+export const useMacroIndicators = (): MacroIndicatorConfig[] => {
+  const [indicators, setIndicators] = useState<MacroIndicatorConfig[]>(macroIndicatorRegistry.getIndicators());
+
+  useEffect(() => {
+    setIndicators(macroIndicatorRegistry.getIndicators());
+    const unsubscribe = macroIndicatorRegistry.subscribe(setIndicators);
+    macroIndicatorRegistry.loadRemoteIndicators();
+    return unsubscribe;
+  }, []);
+
+  return indicators;
+};
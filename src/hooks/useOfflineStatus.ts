@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+import apiService, { OfflineStatus } from '../services/APIService';
+
+/**
+ * 离线状态 Hook
+ * 请求失败并展示了持久化缓存数据时返回 isOffline: true 和数据时间
+ */
+export const useOfflineStatus = (): OfflineStatus => {
+  const [status, setStatus] = useState<OfflineStatus>(apiService.getOfflineStatus());
+
+  useEffect(() => {
+    // 订阅前状态可能已经变化
+    setStatus(apiService.getOfflineStatus());
+    return apiService.subscribeOfflineStatus(setStatus);
+  }, []);
+
+  return status;
+};
@@ -8,24 +8,27 @@ import { Platform } from 'react-native';
 import HomeScreen from '../screens/Home/HomeScreen';
 import MarketScreen from '../screens/Market/MarketScreen';
 import USStockDetailScreen from '../screens/Market/USStockDetailScreen';
+import StockComparisonScreen from '../screens/Market/StockComparisonScreen';
+import StockScreenerScreen from '../screens/Market/StockScreenerScreen';
 import ArticleDetailScreen from '../screens/Articles/ArticleDetailScreen';
 import ArticleScreen from '../screens/Articles/ArticleScreen';
 import DataScreen from '../screens/Data/DataScreen';
 import DataDetailScreen from '../screens/Data/DataDetailScreen';
-import DXYDetail from '../screens/Data/DXYDetail';
-import USBond10YRDetail from '../screens/Data/USBond10YRDetail';
-import USDJPYDetail from '../screens/Data/USDJPYDetail';
+import MacroIndicatorDetail from '../screens/Data/MacroIndicatorDetail';
+import YieldCurveScreen from '../screens/Data/YieldCurveScreen';
+import EconomicCalendarScreen from '../screens/Data/EconomicCalendarScreen';
+import EconomicEventDetailScreen from '../screens/Data/EconomicEventDetailScreen';
 import UserStatusScreen from '../screens/Profile/UserStatusScreen';
 import UserProfileScreen from '../screens/Profile/UserProfileScreen';
 import UserStockScreen from '../screens/Profile/UserStockScreen';
+import PriceAlertScreen from '../screens/Profile/PriceAlertScreen';
+import PortfolioScreen from '../screens/Profile/PortfolioScreen';
+import TradeImportScreen from '../screens/Profile/TradeImportScreen';
+import DividendCalendarScreen from '../screens/Profile/DividendCalendarScreen';
+import WatchlistManageScreen from '../screens/Profile/WatchlistManageScreen';
+import WatchlistTransferScreen from '../screens/Profile/WatchlistTransferScreen';
 import TermsOfServiceScreen from '../screens/Profile/TermsOfServiceScreen';
 import AboutUsScreen from '../screens/Profile/AboutUsScreen';
-import SP500Detail from '../screens/Data/SP500Detail';
-import NasdaqDetail from '../screens/Data/NasdaqDetail';
-import DJIDetail from '../screens/Data/DJIDetail';
-import XAUUSDDetail from '../screens/Data/XAUUSDDetail';
-import USCLDetail from '../screens/Data/USCLDetail';
-import USDCNHDetail from '../screens/Data/USDCNHDetail'; // added
 
 // Create navigators
 const Tab = createBottomTabNavigator();
@@ -47,19 +50,16 @@ const HomeStackNavigator = React.forwardRef((props, ref) => {
       <HomeStack.Screen name="CoinDetail" component={USStockDetailScreen} />
       {/* 新增: 股票详情路由别名，兼容使用 USStockDetail 名称的导航调用 */}
       <HomeStack.Screen name="USStockDetail" component={USStockDetailScreen} />
+      <HomeStack.Screen name="StockComparison" component={StockComparisonScreen} />
       {/* 允许从首页内栈直接打开文章详情，返回可回到股票详情 */}
       <HomeStack.Screen name="ArticleDetail" component={ArticleDetailScreen} />
       <HomeStack.Screen name="Data" component={DataScreen} />
       <HomeStack.Screen name="DataDetail" component={DataDetailScreen} />
-      <HomeStack.Screen name="DXYDetail" component={DXYDetail} />
-      <HomeStack.Screen name="USBond10YRDetail" component={USBond10YRDetail} />
-      <HomeStack.Screen name="USDJPYDetail" component={USDJPYDetail} />
-      <HomeStack.Screen name="SP500Detail" component={SP500Detail} />
-      <HomeStack.Screen name="NasdaqDetail" component={NasdaqDetail} />
-      <HomeStack.Screen name="DJIDetail" component={DJIDetail} />
-      <HomeStack.Screen name="XAUUSDDetail" component={XAUUSDDetail} />
-      <HomeStack.Screen name="USCLDetail" component={USCLDetail} />
-      <HomeStack.Screen name="USDCNHDetail" component={USDCNHDetail} />
+      <HomeStack.Screen name="IndicatorDetail" component={MacroIndicatorDetail} />
+      <HomeStack.Screen name="YieldCurve" component={YieldCurveScreen} />
+      {/* 财经日历始终注册，功能开关关闭时页面显示占位，见 featureConfig */}
+      <HomeStack.Screen name="EconomicCalendar" component={EconomicCalendarScreen} />
+      <HomeStack.Screen name="EconomicEventDetail" component={EconomicEventDetailScreen} />
       <HomeStack.Screen name="UserStatus" component={UserStatusScreen} />
       <HomeStack.Screen name="UserProfile" component={UserProfileScreen} />
       <HomeStack.Screen name="TermsOfService" component={TermsOfServiceScreen} />
@@ -105,6 +105,24 @@ const MarketStackNavigator = () => {
           })
         }}
       />
+      <MarketStack.Screen 
+        name="StockComparison" 
+        component={StockComparisonScreen}
+        options={{
+          ...(Platform.OS === 'web' && {
+            title: '走势对比'
+          })
+        }}
+      />
+      <MarketStack.Screen 
+        name="StockScreener" 
+        component={StockScreenerScreen}
+        options={{
+          ...(Platform.OS === 'web' && {
+            title: '选股器'
+          })
+        }}
+      />
       {/* 允许在行情内栈直接打开文章详情，返回可回到股票详情 */}
       <MarketStack.Screen name="ArticleDetail" component={ArticleDetailScreen} />
       <MarketStack.Screen name="UserStatus" component={UserStatusScreen} />
@@ -152,6 +170,19 @@ const UserStockStackNavigator = () => {
           })
         }}
       />
+      {/* 走势对比：自选股与宏观指数的涨跌幅对比 */}
+      <UserStockStack.Screen name="StockComparison" component={StockComparisonScreen} />
+      {/* 价格提醒：规则管理与触发记录 */}
+      <UserStockStack.Screen name="PriceAlerts" component={PriceAlertScreen} />
+      {/* 持仓：成本、盈亏与行业分布 */}
+      <UserStockStack.Screen name="Portfolio" component={PortfolioScreen} />
+      <UserStockStack.Screen name="TradeImport" component={TradeImportScreen} />
+      {/* 股息：持仓股息收入、自选股股息率与股息调整 */}
+      <UserStockStack.Screen name="DividendCalendar" component={DividendCalendarScreen} />
+      {/* 自选分组管理 */}
+      <UserStockStack.Screen name="WatchlistManage" component={WatchlistManageScreen} />
+      {/* 自选导入导出，也用于打开他人分享的自选列表 */}
+      <UserStockStack.Screen name="WatchlistTransfer" component={WatchlistTransferScreen} />
       {/* 允许从自选栈直接打开文章详情，支持收藏文章功能 */}
       <UserStockStack.Screen name="ArticleDetail" component={ArticleDetailScreen} />
       <UserStockStack.Screen name="UserStatus" component={UserStatusScreen} />
@@ -168,6 +199,8 @@ const ArticlesStackNavigator = () => {
     <ArticlesStack.Navigator screenOptions={{ headerShown: false }}>
       <ArticlesStack.Screen name="ArticlesMain" component={ArticleScreen} />
       <ArticlesStack.Screen name="ArticleDetail" component={ArticleDetailScreen} />
+      {/* 文章中提及的股票可直接打开股票详情 */}
+      <ArticlesStack.Screen name="USStockDetail" component={USStockDetailScreen} />
       <ArticlesStack.Screen name="UserStatus" component={UserStatusScreen} />
       <ArticlesStack.Screen name="UserProfile" component={UserProfileScreen} />
       <ArticlesStack.Screen name="TermsOfService" component={TermsOfServiceScreen} />
@@ -182,15 +215,13 @@ const DataStackNavigator = () => {
     <DataStack.Navigator screenOptions={{ headerShown: false }}>
       <DataStack.Screen name="DataMain" component={DataScreen} />
       <DataStack.Screen name="DataDetail" component={DataDetailScreen} />
-      <DataStack.Screen name="DXYDetail" component={DXYDetail} />
-      <DataStack.Screen name="USBond10YRDetail" component={USBond10YRDetail} />
-      <DataStack.Screen name="USDJPYDetail" component={USDJPYDetail} />
-      <DataStack.Screen name="SP500Detail" component={SP500Detail} />
-      <DataStack.Screen name="NasdaqDetail" component={NasdaqDetail} />
-      <DataStack.Screen name="DJIDetail" component={DJIDetail} />
-      <DataStack.Screen name="XAUUSDDetail" component={XAUUSDDetail} />
-      <DataStack.Screen name="USCLDetail" component={USCLDetail} />
-      <DataStack.Screen name="USDCNHDetail" component={USDCNHDetail} />
+      <DataStack.Screen name="IndicatorDetail" component={MacroIndicatorDetail} />
+      <DataStack.Screen name="YieldCurve" component={YieldCurveScreen} />
+      <DataStack.Screen name="EconomicCalendar" component={EconomicCalendarScreen} />
+      <DataStack.Screen name="EconomicEventDetail" component={EconomicEventDetailScreen} />
+      <DataStack.Screen name="ArticleDetail" component={ArticleDetailScreen} />
+      {/* 文章中提及的股票可直接打开股票详情 */}
+      <DataStack.Screen name="USStockDetail" component={USStockDetailScreen} />
       <DataStack.Screen name="UserStatus" component={UserStatusScreen} />
       <DataStack.Screen name="UserProfile" component={UserProfileScreen} />
       <DataStack.Screen name="TermsOfService" component={TermsOfServiceScreen} />
@@ -3,31 +3,239 @@
  * 支持URL路由到对应的页面
  */
 
-import { LinkingOptions } from '@react-navigation/native';
+import { LinkingOptions, NavigatorScreenParams, getStateFromPath } from '@react-navigation/native';
 
-// 定义路由参数类型
+// 各个Tab下共用的个人中心页面
+type ProfileScreenParamList = {
+  UserStatus: undefined;
+  UserProfile: undefined;
+  TermsOfService: undefined;
+  AboutUs: undefined;
+};
+
+// 币种/股票详情参数，name 来自URL，其余为页面内跳转时传递
+type AssetDetailParams = {
+  name: string;
+  fullName?: string;
+  stockCode?: string;
+  returnTo?: string;
+  fromMarketScreen?: boolean;
+};
+
+type ArticleDetailParams = {
+  articleId: string;
+  article?: any;
+  returnTo?: string;
+  selectedCategory?: string;
+  searchText?: string;
+  isSearchMode?: boolean;
+  fromArticleScreen?: boolean;
+};
+
+// 走势对比参数，symbols 为逗号分隔的代码列表
+type StockComparisonParams = {
+  symbols?: string;
+  period?: string;
+} | undefined;
+
+export type HomeStackParamList = ProfileScreenParamList & {
+  HomeMain: object | undefined;
+  CoinDetail: AssetDetailParams;
+  USStockDetail: AssetDetailParams;
+  StockComparison: StockComparisonParams;
+  ArticleDetail: ArticleDetailParams;
+  Data: undefined;
+  DataDetail: { id: string };
+  IndicatorDetail: { indicatorId: string };
+  YieldCurve: undefined;
+  EconomicCalendar: undefined;
+  EconomicEventDetail: { event?: any };
+};
+
+export type MarketStackParamList = ProfileScreenParamList & {
+  MarketMain: object | undefined;
+  CoinDetail: AssetDetailParams;
+  USStockDetail: AssetDetailParams;
+  StockComparison: StockComparisonParams;
+  StockScreener: undefined;
+  ArticleDetail: ArticleDetailParams;
+};
+
+export type UserStockStackParamList = ProfileScreenParamList & {
+  UserStockMain: undefined;
+  CoinDetail: AssetDetailParams;
+  USStockDetail: AssetDetailParams;
+  StockComparison: StockComparisonParams;
+  PriceAlerts: { symbol?: string } | undefined;
+  Portfolio: undefined;
+  TradeImport: undefined;
+  DividendCalendar: undefined;
+  WatchlistManage: undefined;
+  // 分享链接中的自选列表，见 encodeWatchlistShare
+  WatchlistTransfer: { list?: string } | undefined;
+  ArticleDetail: ArticleDetailParams;
+};
+
+export type ArticlesStackParamList = ProfileScreenParamList & {
+  ArticlesMain: object | undefined;
+  ArticleDetail: ArticleDetailParams;
+  USStockDetail: AssetDetailParams;
+};
+
+export type DataStackParamList = ProfileScreenParamList & {
+  DataMain: undefined;
+  DataDetail: { id: string };
+  IndicatorDetail: { indicatorId: string };
+  YieldCurve: undefined;
+  EconomicCalendar: undefined;
+  EconomicEventDetail: { event?: any };
+  ArticleDetail: ArticleDetailParams;
+  USStockDetail: AssetDetailParams;
+};
+
+// 定义路由参数类型，每个Tab是一个嵌套的Stack
 export type RootStackParamList = {
-  Home: {
-    screen?: string;
-    params?: any;
-  };
-  Market: {
-    screen?: string;
-    params?: any;
-  };
-  Data: {
-    screen?: string;
-    params?: any;
-  };
-  Articles: {
-    screen?: string;
-    params?: any;
-  };
+  Home: NavigatorScreenParams<HomeStackParamList> | undefined;
+  Market: NavigatorScreenParams<MarketStackParamList> | undefined;
+  Data: NavigatorScreenParams<DataStackParamList> | undefined;
+  Articles: NavigatorScreenParams<ArticlesStackParamList> | undefined;
+  UserStock: NavigatorScreenParams<UserStockStackParamList> | undefined;
 };
 
 // 从API配置获取前端URL
 import { getWebAppURL } from '../config/apiConfig';
 
+// 旧版指标详情页路径（/data/dxy 等）对应的宏观指标ID，这些链接改由 IndicatorDetail 打开
+const LEGACY_INDICATOR_PATHS: Record<string, string> = {
+  dxy: 'DXY',
+  usbond: 'USBond10YR',
+  usdjpy: 'USDJPY',
+  sp500: 'SP500',
+  nasdaq: 'Nasdaq',
+  dji: 'DJI',
+  xauusd: 'XAUUSD',
+  uscl: 'USCL',
+  usdcnh: 'USDCNH',
+};
+
+const LEGACY_INDICATOR_PATH_PATTERN = /^(\/?data\/)([^/?#]+)\/?(?=[?#]|$)/i;
+
+/**
+ * 将旧版指标详情页路径改写为 /data/indicator/:indicatorId，其他路径原样返回
+ */
+export const rewriteLegacyIndicatorPath = (path: string): string =>
+  path.replace(LEGACY_INDICATOR_PATH_PATTERN, (matched, prefix: string, slug: string) => {
+    const indicatorId = LEGACY_INDICATOR_PATHS[slug.toLowerCase()];
+    return indicatorId ? `${prefix}indicator/${indicatorId}` : matched;
+  });
+
+// 各页面的路径配置
+const config: LinkingOptions<RootStackParamList>['config'] = {
+  screens: {
+    // 首页路由
+    Home: {
+      path: '/',
+      screens: {
+        HomeMain: '',
+        CoinDetail: {
+          path: 'coin/:name',
+          parse: {
+            name: (name: string) => name,
+            fullName: (fullName: string) => fullName ? decodeURIComponent(fullName) : undefined,
+          },
+        },
+        UserStatus: 'user',
+        UserProfile: 'profile',
+        TermsOfService: 'terms',
+        AboutUs: 'about',
+      },
+    },
+    
+    // 行情页面路由
+    Market: {
+      path: '/market',
+      parse: {
+        label: (label: string) => label, // 解析label参数
+      },
+      screens: {
+        MarketMain: '',
+        // 走势对比，如 /market/compare?symbols=NVDA,AMD,SP500&period=30d
+        StockComparison: {
+          path: '/compare',
+          parse: {
+            symbols: (symbols: string) => symbols,
+            period: (period: string) => period,
+          },
+        },
+        StockScreener: '/screener',
+        CoinDetail: {
+          path: '/:name',  // /market/btc 会导航到BTC详情页
+          parse: {
+            name: (name: string) => name,
+            fullName: (fullName: string) => fullName ? decodeURIComponent(fullName) : undefined,
+          },
+        },
+        UserStatus: '/user',
+        UserProfile: '/profile',
+        TermsOfService: '/terms',
+        AboutUs: '/about',
+      },
+    },
+    
+    // 数据页面路由
+    Data: {
+      path: '/data',
+      screens: {
+        DataMain: '',
+        IndicatorDetail: '/indicator/:indicatorId',
+        YieldCurve: '/yield-curve',
+        EconomicCalendar: '/calendar',
+        USStockDetail: '/stock/:name',
+        DataDetail: '/:dataType',
+        UserStatus: '/user',
+        UserProfile: '/profile',
+        TermsOfService: '/terms',
+        AboutUs: '/about',
+      },
+    },
+    
+    // 快讯页面路由
+    Articles: {
+      path: '/articles',
+      screens: {
+        ArticlesMain: '',
+        // 文章中提及的股票，如 /articles/stock/TSLA
+        USStockDetail: '/stock/:name',
+        ArticleDetail: '/:articleId',
+        UserStatus: '/user',
+        UserProfile: '/profile',
+        TermsOfService: '/terms',
+        AboutUs: '/about',
+      },
+    },
+
+    // 自选页面路由
+    UserStock: {
+      path: '/watchlist',
+      screens: {
+        UserStockMain: '',
+        // 自选分享，如 /watchlist/share?list=AI:NVDA,AMD;Banks:JPM
+        WatchlistTransfer: {
+          path: '/share',
+          parse: {
+            list: (list: string) => list,
+          },
+        },
+        WatchlistManage: '/groups',
+        UserStatus: '/user',
+        UserProfile: '/profile',
+        TermsOfService: '/terms',
+        AboutUs: '/about',
+      },
+    },
+  },
+};
+
 // Web路由配置
 const linking: LinkingOptions<RootStackParamList> = {
   prefixes: [
@@ -42,85 +250,8 @@ const linking: LinkingOptions<RootStackParamList> = {
     'http://localhost:8087', // Expo Web备用端口6
     getWebAppURL(), // 生产/测试环境URL
   ],
-  config: {
-    screens: {
-      // 首页路由
-      Home: {
-        path: '/',
-        screens: {
-          HomeMain: '',
-          CoinDetail: {
-            path: 'coin/:name',
-            parse: {
-              name: (name: string) => name,
-              fullName: (fullName: string) => fullName ? decodeURIComponent(fullName) : undefined,
-            },
-          },
-          UserStatus: 'user',
-          UserProfile: 'profile',
-          TermsOfService: 'terms',
-          AboutUs: 'about',
-        },
-      },
-      
-      // 行情页面路由
-      Market: {
-        path: '/market',
-        parse: {
-          label: (label: string) => label, // 解析label参数
-        },
-        screens: {
-          MarketMain: '',
-          CoinDetail: {
-            path: '/:name',  // /market/btc 会导航到BTC详情页
-            parse: {
-              name: (name: string) => name,
-              fullName: (fullName: string) => fullName ? decodeURIComponent(fullName) : undefined,
-            },
-          },
-          UserStatus: '/user',
-          UserProfile: '/profile',
-          TermsOfService: '/terms',
-          AboutUs: '/about',
-        },
-      },
-      
-      // 数据页面路由
-      Data: {
-        path: '/data',
-        screens: {
-          DataMain: '',
-          DataDetail: '/:dataType',
-          DXYDetail: '/dxy',
-          USBond10YRDetail: '/usbond',
-          USDJPYDetail: '/usdjpy',
-          SP500Detail: '/sp500',
-          NasdaqDetail: '/nasdaq',
-          DJIDetail: '/dji',
-          XAUUSDDetail: '/xauusd', // added
-          USCLDetail: '/uscl', // added
-          USDCNHDetail: '/usdcnh', // added
-          UserStatus: '/user',
-          UserProfile: '/profile',
-          TermsOfService: '/terms',
-          AboutUs: '/about',
-        },
-      },
-      
-      // 快讯页面路由
-      Articles: {
-        path: '/articles',
-        screens: {
-          ArticlesMain: '',
-          ArticleDetail: '/:articleId',
-          UserStatus: '/user',
-          UserProfile: '/profile',
-          TermsOfService: '/terms',
-          AboutUs: '/about',
-        },
-      },
-    },
-  },
+  config,
+  getStateFromPath: (path, options) => getStateFromPath(rewriteLegacyIndicatorPath(path), options),
 };
 
 export default linking;
@@ -19,13 +19,20 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 // 新增手势缩放
 import { PinchGestureHandler, State } from 'react-native-gesture-handler';
-import Markdown from 'react-native-markdown-display';
+import Markdown, { RenderRules } from 'react-native-markdown-display';
 
 // Import services
 import { newsService, NewsArticle } from '../../services/NewsService';
 import { configService } from '../../services/ConfigService';
 import { getWebAppURL } from '../../config/apiConfig';
 import userArticleService from '../../services/UserArticleService';
+import stockMentionService, {
+  StockMention,
+  StockMentionMatcher,
+  StockQuoteBase,
+  extractStockMentions,
+  splitStockMentions,
+} from '../../services/StockMentionService';
 
 // Import contexts
 import { useUser } from '../../contexts/UserContext';
@@ -36,6 +43,8 @@ import LoginModal from '../../components/auth/LoginModal';
 import PosterModal from '../../components/common/PosterModal';
 import WebPosterModal from '../../components/common/WebPosterModal';
 import SkeletonBox from '../../components/common/SkeletonBox';
+import StockMentionChip from '../../components/common/StockMentionChip';
+import StockMentionStrip from '../../components/common/StockMentionStrip';
 import TimelineNewsCard from '../../components/news/TimelineNewsCard';
 
 // Fallback data for when API fails
@@ -86,6 +95,11 @@ const ArticleDetailScreen = () => {
   // 新增: 记录内容容器宽度用于按真实宽高比计算图片高度，避免宽屏裁剪
   const [contentWidth, setContentWidth] = useState(0);
   
+  // 文中提及的股票
+  const [mentionMatcher, setMentionMatcher] = useState<StockMentionMatcher | null>(null);
+  const [stockMentions, setStockMentions] = useState<StockMention[]>([]);
+  const [quoteBases, setQuoteBases] = useState<Record<string, StockQuoteBase>>({});
+  
   // 收藏相关状态
   const [isFavorite, setIsFavorite] = useState(false);
   const [isAddingToFavorites, setIsAddingToFavorites] = useState(false);
@@ -345,7 +359,10 @@ const ArticleDetailScreen = () => {
       // 根据当前状态选择API
       const response = isRemoving 
         ? await userArticleService.removeUserArticle(currentUser.email, article.id)
-        : await userArticleService.addUserArticle(currentUser.email, article.id);
+        : await userArticleService.addUserArticle(currentUser.email, article.id, {
+          title: article.title,
+          date: article.date,
+        });
         
       if (response.success && response.data) {
         // 更新本地状态
@@ -356,9 +373,9 @@ const ArticleDetailScreen = () => {
         showMessageModal(
           'success',
           `${actionText}成功`,
-          isRemoving 
+          (isRemoving 
             ? `文章已取消收藏`
-            : `文章已添加到收藏列表`,
+            : `文章已添加到收藏列表`) + (response.pending ? '，网络恢复后自动同步' : ''),
           [{ text: '确定', onPress: () => setModalVisible(false) }]
         );
         
@@ -474,6 +491,88 @@ const ArticleDetailScreen = () => {
     fetchArticleData();
   }, [articleId, passedArticle]);
 
+  // 识别文中提及的股票，并获取昨收用于计算实时涨跌幅
+  useEffect(() => {
+    if (!article) {
+      setStockMentions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadStockMentions = async () => {
+      try {
+        const matcher = await stockMentionService.getMatcher();
+        const texts = [
+          article.title,
+          ...(article.contents && article.contents.length > 0
+            ? article.contents.map(item => item.content || '')
+            : [article.content || ''])
+        ];
+        const mentions = extractStockMentions(texts, matcher);
+        if (cancelled) return;
+        setMentionMatcher(matcher);
+        setStockMentions(mentions);
+        console.log('🏷️ ArticleDetailScreen: 文中提及股票:', mentions.map(item => item.symbol));
+
+        if (mentions.length > 0) {
+          const bases = await stockMentionService.getQuoteBases(mentions.map(item => item.symbol));
+          if (!cancelled) setQuoteBases(bases);
+        }
+      } catch (mentionError) {
+        console.warn('❌ ArticleDetailScreen: 识别文中股票失败:', mentionError);
+      }
+    };
+
+    loadStockMentions();
+    return () => {
+      cancelled = true;
+    };
+  }, [article]);
+
+  const handleStockMentionPress = (symbol: string) => {
+    // @ts-ignore
+    navigation.navigate('USStockDetail', {
+      name: symbol,
+      stockCode: symbol,
+      isStock: true,
+    });
+  };
+
+  // 正文中的股票提及渲染为可点击的行情标签（链接内的文字保持原样）
+  const markdownRules = useMemo<RenderRules | undefined>(() => {
+    if (!mentionMatcher || stockMentions.length === 0) {
+      return undefined;
+    }
+    return {
+      text: (node, children, parent, styles, inheritedStyles = {}) => {
+        const isInLink = parent.some(item => item.type === 'link' || item.type === 'blocklink');
+        const segments = isInLink ? [] : splitStockMentions(node.content, mentionMatcher);
+        if (!segments.some(segment => segment.symbol)) {
+          return (
+            <Text key={node.key} style={[inheritedStyles, styles.text]}>
+              {node.content}
+            </Text>
+          );
+        }
+        return (
+          <Text key={node.key} style={[inheritedStyles, styles.text]}>
+            {segments.map((segment, index) => (
+              segment.symbol ? (
+                <StockMentionChip
+                  key={index}
+                  text={segment.text}
+                  symbol={segment.symbol}
+                  base={quoteBases[segment.symbol]}
+                  onPress={handleStockMentionPress}
+                />
+              ) : segment.text
+            ))}
+          </Text>
+        );
+      },
+    };
+  }, [mentionMatcher, stockMentions, quoteBases]);
+
   // 监听用户状态和文章状态变化，检查收藏状态
   useEffect(() => {
     if (currentUser && article) {
@@ -815,13 +914,20 @@ const ArticleDetailScreen = () => {
           <View style={styles.articleCard}>
             <Text style={styles.title}>{article.title}</Text>
             
+            {/* 文中提及的股票 */}
+            <StockMentionStrip
+              mentions={stockMentions}
+              quoteBases={quoteBases}
+              onPress={handleStockMentionPress}
+            />
+            
             {/* 循环渲染contents数组中的每个内容项 */}
             {article.contents && article.contents.length > 0 ? (
               article.contents.map((contentItem, index) => (
                 <View key={contentItem._id || index} style={styles.contentItem}>
                   {/* 渲染文本内容 */}
                   {contentItem.content && (
-                    <Markdown style={markdownStyles}>
+                    <Markdown style={markdownStyles} rules={markdownRules}>
                       {contentItem.content}
                     </Markdown>
                   )}
@@ -856,7 +962,7 @@ const ArticleDetailScreen = () => {
                   {/* 渲染嵌入内容 */}
                   {contentItem.embed && (
                     <View style={styles.embedContainer}>
-                      <Markdown style={markdownStyles}>
+                      <Markdown style={markdownStyles} rules={markdownRules}>
                         {contentItem.embed}
                       </Markdown>
                     </View>
@@ -865,7 +971,7 @@ const ArticleDetailScreen = () => {
               ))
             ) : (
               // 如果没有contents数组，使用原来的content字段
-              <Markdown style={markdownStyles}>
+              <Markdown style={markdownStyles} rules={markdownRules}>
                 {article.content}
               </Markdown>
             )}
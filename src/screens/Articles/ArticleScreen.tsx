@@ -30,6 +30,7 @@ import MessageModal from '../../components/common/MessageModal';
 import LoginModal from '../../components/auth/LoginModal';
 import SkeletonBox from '../../components/common/SkeletonBox';
 import TimelineNewsCard from '../../components/common/TimelineNewsCard';
+import NewsCard from '../../components/common/NewsCard';
 import CommonSearchBar from '../../components/common/CommonSearchBar';
 import { useDebounce } from '../../hooks/useDebounce';
 
@@ -561,17 +562,10 @@ const ArticleScreen = () => {
       // 不设置loading状态，避免重新渲染导致焦点丢失
       setError(null);
 
-      console.log('🔍 ArticleScreen: Making single search API call');
+      console.log('🔍 ArticleScreen: Making smart search call');
       
-      // 使用单次API调用获取所有搜索结果，不使用progressive loading
-      const searchResults = await newsService.callAPIDirectly([
-        "",
-        "",
-        "", // 搜索时分类参数为空，搜索所有分类
-        "0", // skip从0开始
-        "1000", // 获取更多结果，但不是progressive loading
-        debouncedSearchText.trim()
-      ]);
+      // 智能搜索：扩展股票别名，结合本地索引按相关度排序，离线时搜索已缓存的资讯
+      const searchResults = await newsService.smartSearchNews(debouncedSearchText.trim(), 1000, 0);
 
       console.log('🔍 ArticleScreen: Search API response:', {
         resultsCount: searchResults?.length || 0,
@@ -779,8 +773,10 @@ const ArticleScreen = () => {
       searchTrimmed: debouncedSearchText.trim()
     });
     
+    // 搜索结果已由本地索引匹配（包括别名），只对尚未刷新的普通列表按原词过滤
     const filtered = articles.filter(article => {
       const matchesSearch = debouncedSearchText.trim() === '' || 
+        article.isSearchResult ||
         article.title.toLowerCase().includes(debouncedSearchText.toLowerCase()) ||
         (article.summary && article.summary.toLowerCase().includes(debouncedSearchText.toLowerCase()));
       
@@ -815,6 +811,11 @@ const ArticleScreen = () => {
       filteredArticlesLength: filteredArticles.length
     });
     
+    // 搜索结果按相关度排序，不按日期分组
+    if (debouncedSearchText.trim()) {
+      return filteredArticles.length > 0 ? [{ date: '搜索结果', articles: filteredArticles }] : [];
+    }
+    
     const groups: { [key: string]: NewsArticle[] } = {};
     
     filteredArticles.forEach(article => {
@@ -906,7 +907,7 @@ const ArticleScreen = () => {
         if (b.date === '昨天') return 1;
         return b.date.localeCompare(a.date);
       });
-  }, [filteredArticles]);
+  }, [filteredArticles, debouncedSearchText]);
 
   const handleArticlePress = (article: NewsArticle) => {
     console.log('🔗 ArticleScreen: 导航到文章详情:', article.title);
@@ -1175,7 +1176,27 @@ const ArticleScreen = () => {
     );
   };
 
+  const renderSearchResults = (results: NewsArticle[]) => (
+    <View style={styles.searchResultsContainer}>
+      <Text style={styles.searchResultsTitle}>
+        共 {results.length} 条相关结果，按相关度排序
+      </Text>
+      {results.map((article, index) => (
+        <NewsCard
+          key={article.id || index}
+          article={article}
+          onPress={() => handleArticlePress(article)}
+          variant="search"
+        />
+      ))}
+    </View>
+  );
+
   const renderArticleItem = ({ item }: { item: { date: string; articles: NewsArticle[] } }) => {
+    if (debouncedSearchText.trim()) {
+      return renderSearchResults(item.articles);
+    }
+
     // 使用分组的第一篇文章的 groupDate 作为日期头部的数据源
     const firstArticle = item.articles[0];
     const headerDateSource = firstArticle?.groupDate || firstArticle?.originalDate || firstArticle?.date || new Date().toISOString();
@@ -1404,6 +1425,17 @@ const styles = StyleSheet.create({
     paddingBottom: 20,
   },
 
+  searchResultsContainer: {
+    paddingHorizontal: 16,
+    paddingTop: 12,
+  },
+
+  searchResultsTitle: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+
   headerContainer: {
     backgroundColor: '#FFFFFF',
     paddingTop: 12,
@@ -15,9 +15,11 @@ import { Ionicons } from '@expo/vector-icons';
 
 // Import contexts
 import { useUser } from '../../contexts/UserContext';
+import { useFeatureFlags } from '../../hooks/useFeatureFlags';
 
 // Import components
 import ConfigurableDataGrid from '../../components/common/ConfigurableDataGrid';
+import EconomicCalendarWidget from '../../components/common/EconomicCalendarWidget';
 import { getMainURL } from '../../config/apiConfig';
 import TodayHeader from '../../components/common/TodayHeader';
 import LoginModal from '../../components/auth/LoginModal';
@@ -31,6 +33,7 @@ const DataScreen = () => {
   
   // 使用用户Context
   const { currentUser } = useUser();
+  const features = useFeatureFlags();
   
   const [refreshing, setRefreshing] = useState(false);
 
@@ -204,6 +207,13 @@ const DataScreen = () => {
           {/* Market Indicators Grid - Configurable Layout */}
           <ConfigurableDataGrid />
         </View>
+
+        {/* 财经日历 Section */}
+        {features.economicCalendar && (
+          <View style={styles.sectionContainer}>
+            <EconomicCalendarWidget />
+          </View>
+        )}
       </ScrollView>
       
       {/* MessageModal */}
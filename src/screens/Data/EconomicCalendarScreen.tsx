@@ -0,0 +1,546 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import economicCalendarService, {
+  EconomicEvent,
+  EventImportance,
+  COUNTRY_NAMES,
+  SURPRISE_COLORS,
+} from '../../services/EconomicCalendarService';
+import ImportanceStars from '../../components/common/ImportanceStars';
+import { useFeatureFlags } from '../../hooks/useFeatureFlags';
+import { DateUtils } from '../../utils/dateUtils';
+
+const WEEKDAY_NAMES = ['周日', '周一', '周二', '周三', '周四', '周五', '周六'];
+
+// 重要性筛选
+const IMPORTANCE_FILTERS: Array<{ label: string; value: EventImportance }> = [
+  { label: '全部', value: 1 },
+  { label: '中高', value: 2 },
+  { label: '高', value: 3 },
+];
+
+/**
+ * 财经日历页
+ * 按周展示经济事件，支持切换周和按重要性筛选；功能开关关闭时显示即将上线的占位
+ */
+const EconomicCalendarScreen = () => {
+  const navigation = useNavigation();
+  const { economicCalendar: enabled } = useFeatureFlags();
+  const [weekStart, setWeekStart] = useState(() => economicCalendarService.getWeekStart());
+  const [events, setEvents] = useState<EconomicEvent[]>([]);
+  const [minImportance, setMinImportance] = useState<EventImportance>(2);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    if (!enabled) {
+      return;
+    }
+    setLoading(true);
+    fetchData();
+  }, [weekStart, enabled]);
+
+  const fetchData = async () => {
+    if (!enabled) {
+      setRefreshing(false);
+      return;
+    }
+    try {
+      setError(null);
+      setEvents(await economicCalendarService.getWeekEvents(weekStart));
+    } catch (err) {
+      console.error('❌ EconomicCalendarScreen: Error fetching events:', err);
+      setError('财经日历加载失败');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchData();
+  }, [weekStart]);
+
+  const changeWeek = (offset: number) => {
+    setWeekStart(economicCalendarService.shiftWeek(weekStart, offset));
+  };
+
+  const openEvent = (event: EconomicEvent) => {
+    // @ts-ignore
+    navigation.navigate('EconomicEventDetail', { event });
+  };
+
+  const today = DateUtils.formatDate(new Date());
+  const isCurrentWeek = weekStart.getTime() === economicCalendarService.getWeekStart().getTime();
+  const weekDays = economicCalendarService.groupByDay(
+    economicCalendarService.filterByImportance(events, minImportance),
+    weekStart
+  );
+  const days = weekDays.filter(day => day.events.length > 0);
+
+  const renderWeekSelector = () => (
+    <View style={styles.weekSelector}>
+      <TouchableOpacity style={styles.weekArrow} onPress={() => changeWeek(-1)}>
+        <Ionicons name="chevron-back" size={22} color="#007AFF" />
+      </TouchableOpacity>
+      <View style={styles.weekLabelContainer}>
+        <Text style={styles.weekLabel}>
+          {weekDays[0].date.slice(5)} ~ {weekDays[6].date.slice(5)}
+        </Text>
+        {isCurrentWeek ? (
+          <Text style={styles.weekHint}>本周</Text>
+        ) : (
+          <TouchableOpacity onPress={() => setWeekStart(economicCalendarService.getWeekStart())}>
+            <Text style={[styles.weekHint, styles.weekHintLink]}>回到本周</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <TouchableOpacity style={styles.weekArrow} onPress={() => changeWeek(1)}>
+        <Ionicons name="chevron-forward" size={22} color="#007AFF" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  const renderFilters = () => (
+    <View style={styles.filterContainer}>
+      <Text style={styles.filterLabel}>重要性</Text>
+      <View style={styles.filterButtons}>
+        {IMPORTANCE_FILTERS.map(filter => (
+          <TouchableOpacity
+            key={filter.value}
+            style={[styles.filterButton, minImportance === filter.value && styles.selectedFilterButton]}
+            onPress={() => setMinImportance(filter.value)}
+          >
+            <Text style={[styles.filterText, minImportance === filter.value && styles.selectedFilterText]}>
+              {filter.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+
+  const renderEvent = (event: EconomicEvent) => {
+    const surprise = economicCalendarService.getSurprise(event);
+    const actualColor = SURPRISE_COLORS[surprise ? surprise.direction : 'inline'];
+
+    return (
+      <TouchableOpacity
+        key={event.id}
+        style={styles.eventItem}
+        onPress={() => openEvent(event)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.eventTimeColumn}>
+          <Text style={styles.eventTime}>{event.time}</Text>
+          <Text style={styles.eventCountry}>{COUNTRY_NAMES[event.country] || event.country}</Text>
+        </View>
+        <View style={styles.eventContent}>
+          <View style={styles.eventTitleRow}>
+            <Text style={styles.eventTitle} numberOfLines={2}>{event.title}</Text>
+            <ImportanceStars importance={event.importance} style={styles.eventStars} />
+          </View>
+          <View style={styles.eventValues}>
+            <Text style={styles.eventValueLabel}>
+              公布 <Text style={[styles.eventValue, { color: actualColor }]}>{event.actual || '--'}</Text>
+            </Text>
+            <Text style={styles.eventValueLabel}>
+              预期 <Text style={styles.eventValue}>{event.forecast || '--'}</Text>
+            </Text>
+            <Text style={styles.eventValueLabel}>
+              前值 <Text style={styles.eventValue}>{event.previous || '--'}</Text>
+            </Text>
+          </View>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderPlaceholder = () => (
+    <View style={styles.stateContainer}>
+      <Ionicons name="calendar-outline" size={48} color="#C7C7CC" />
+      <Text style={styles.emptyText}>财经日历即将上线</Text>
+      <Text style={styles.placeholderHint}>数据接入完成后将在这里展示每周的重要经济事件</Text>
+    </View>
+  );
+
+  const renderDays = () => {
+    if (!enabled) {
+      return renderPlaceholder();
+    }
+
+    if (loading) {
+      return (
+        <View style={styles.stateContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>加载财经日历...</Text>
+        </View>
+      );
+    }
+
+    if (error) {
+      return (
+        <View style={styles.stateContainer}>
+          <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchData()}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    if (days.length === 0) {
+      return (
+        <View style={styles.stateContainer}>
+          <Ionicons name="calendar-outline" size={48} color="#C7C7CC" />
+          <Text style={styles.emptyText}>本周暂无符合条件的事件</Text>
+        </View>
+      );
+    }
+
+    return days.map(day => {
+      const weekday = WEEKDAY_NAMES[new Date(`${day.date}T00:00:00`).getDay()];
+      return (
+        <View key={day.date} style={styles.sectionContainer}>
+          <View style={styles.dayHeader}>
+            <Text style={[styles.dayTitle, day.date === today && styles.todayTitle]}>
+              {weekday} {day.date.slice(5)}
+            </Text>
+            {day.date === today && <Text style={styles.todayBadge}>今天</Text>}
+          </View>
+          {day.events.map(renderEvent)}
+        </View>
+      );
+    });
+  };
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#1A1A1A" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>财经日历</Text>
+        <TouchableOpacity
+          style={styles.refreshButton}
+          onPress={() => fetchData()}
+        >
+          <Ionicons name="refresh" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {enabled && renderWeekSelector()}
+      {enabled && renderFilters()}
+
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {renderDays()}
+        <View style={styles.bottomSpacer} />
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  refreshButton: {
+    padding: 8,
+    marginRight: -8,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  // Week selector
+  weekSelector: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    backgroundColor: '#FFFFFF',
+  },
+
+  weekArrow: {
+    padding: 6,
+  },
+
+  weekLabelContainer: {
+    alignItems: 'center',
+  },
+
+  weekLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  weekHint: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+
+  weekHintLink: {
+    color: '#007AFF',
+  },
+
+  // Importance filter
+  filterContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+
+  filterLabel: {
+    fontSize: 14,
+    color: '#6C757D',
+  },
+
+  filterButtons: {
+    flexDirection: 'row',
+    backgroundColor: '#F1F1F6',
+    borderRadius: 12,
+    padding: 4,
+  },
+
+  filterButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 8,
+  },
+
+  selectedFilterButton: {
+    backgroundColor: '#007AFF',
+  },
+
+  filterText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+
+  selectedFilterText: {
+    color: '#FFFFFF',
+  },
+
+  // Day sections
+  sectionContainer: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+
+  dayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingBottom: 8,
+  },
+
+  dayTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+
+  todayTitle: {
+    color: '#007AFF',
+  },
+
+  todayBadge: {
+    marginLeft: 8,
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    overflow: 'hidden',
+  },
+
+  // Event rows
+  eventItem: {
+    flexDirection: 'row',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+
+  eventTimeColumn: {
+    width: 52,
+  },
+
+  eventTime: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  eventCountry: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+
+  eventContent: {
+    flex: 1,
+  },
+
+  eventTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+  },
+
+  eventTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginRight: 8,
+  },
+
+  eventStars: {
+    marginTop: 3,
+  },
+
+  eventValues: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 6,
+  },
+
+  eventValueLabel: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+
+  eventValue: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  // States
+  stateContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 80,
+    paddingHorizontal: 32,
+  },
+
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6C757D',
+  },
+
+  emptyText: {
+    marginTop: 12,
+    fontSize: 15,
+    color: '#8E8E93',
+  },
+
+  placeholderHint: {
+    marginTop: 6,
+    fontSize: 13,
+    color: '#C7C7CC',
+    textAlign: 'center',
+  },
+
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+
+  retryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  bottomSpacer: {
+    height: 24,
+  },
+});
+
+export default EconomicCalendarScreen;
@@ -0,0 +1,583 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import economicCalendarService, {
+  EconomicEvent,
+  MarketReaction,
+  COUNTRY_NAMES,
+  IMPORTANCE_LABELS,
+  IMPORTANCE_COLORS,
+  SURPRISE_COLORS,
+  SURPRISE_LABELS,
+} from '../../services/EconomicCalendarService';
+import macroIndicatorRegistry from '../../services/data/MacroIndicatorRegistry';
+import { MacroIndicatorPoint } from '../../services/data/MacroIndicatorService';
+import { getDataErrorMessage } from '../../services/data/DataService';
+import { NewsArticle } from '../../services/NewsService';
+import ImportanceStars from '../../components/common/ImportanceStars';
+import { useFeatureFlags } from '../../hooks/useFeatureFlags';
+
+const formatChange = (change: number | null): string => {
+  if (change === null) return '--';
+  return `${change >= 0 ? '+' : ''}${change.toFixed(2)}%`;
+};
+
+const getChangeColor = (change: number | null): string => {
+  if (change === null || change === 0) return '#8E8E93';
+  return change > 0 ? '#34C759' : '#FF3B30';
+};
+
+/**
+ * 财经事件详情页
+ * 展示公布值/预期值/前值、SP500 与 DXY 在公布前后的表现以及相关资讯
+ */
+const EconomicEventDetailScreen = () => {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { event } = (route.params || {}) as { event?: EconomicEvent };
+  const { economicCalendar: enabled } = useFeatureFlags();
+
+  const [reactions, setReactions] = useState<MarketReaction[]>([]);
+  const [news, setNews] = useState<NewsArticle[]>([]);
+  const [reactionsLoading, setReactionsLoading] = useState(true);
+  const [reactionsError, setReactionsError] = useState<string | null>(null);
+  const [newsLoading, setNewsLoading] = useState(true);
+  const [newsError, setNewsError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [event?.id, enabled]);
+
+  const fetchReactions = async (target: EconomicEvent) => {
+    setReactionsLoading(true);
+    setReactionsError(null);
+    try {
+      setReactions(await economicCalendarService.getMarketReactions(target));
+    } catch (err) {
+      console.error('❌ EconomicEventDetailScreen: Error fetching market reactions:', err);
+      setReactionsError(getDataErrorMessage(err));
+      setReactions([]);
+    } finally {
+      setReactionsLoading(false);
+    }
+  };
+
+  const fetchNews = async (target: EconomicEvent) => {
+    setNewsLoading(true);
+    setNewsError(null);
+    try {
+      setNews(await economicCalendarService.getRelatedNews(target));
+    } catch (err) {
+      console.error('❌ EconomicEventDetailScreen: Error fetching related news:', err);
+      setNewsError('获取相关资讯失败，请稍后重试');
+      setNews([]);
+    } finally {
+      setNewsLoading(false);
+    }
+  };
+
+  const fetchData = async () => {
+    if (!event || !enabled) {
+      setRefreshing(false);
+      return;
+    }
+    await Promise.all([fetchReactions(event), fetchNews(event)]);
+    setRefreshing(false);
+  };
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchData();
+  }, [event?.id]);
+
+  const openArticle = (article: NewsArticle) => {
+    const articleId = article.id ? article.id.replace(/^articles\//, '') : article.id;
+    // @ts-ignore
+    navigation.navigate('ArticleDetail', { articleId, article });
+  };
+
+  const renderDataCard = (target: EconomicEvent) => {
+    const surprise = economicCalendarService.getSurprise(target);
+
+    return (
+      <View style={styles.dataCard}>
+        <View style={styles.dataMeta}>
+          <Text style={styles.dataMetaText}>
+            {COUNTRY_NAMES[target.country] || target.country} · {target.date} {target.time}
+          </Text>
+          <View style={styles.importanceBadge}>
+            <ImportanceStars importance={target.importance} size={12} />
+            <Text style={[styles.importanceText, { color: IMPORTANCE_COLORS[target.importance] }]}>
+              {IMPORTANCE_LABELS[target.importance]}
+            </Text>
+          </View>
+        </View>
+        <Text style={styles.dataTitle}>{target.title}</Text>
+
+        <View style={styles.valueRow}>
+          {[
+            { label: '公布值', value: target.actual, color: SURPRISE_COLORS[surprise ? surprise.direction : 'inline'] },
+            { label: '预期值', value: target.forecast, color: '#1A1A1A' },
+            { label: '前值', value: target.previous, color: '#1A1A1A' },
+          ].map(item => (
+            <View key={item.label} style={styles.valueItem}>
+              <Text style={styles.valueLabel}>{item.label}</Text>
+              <Text style={[styles.value, { color: item.color }]}>{item.value || '--'}</Text>
+            </View>
+          ))}
+        </View>
+
+        {!target.actual ? (
+          <Text style={styles.pendingText}>尚未公布</Text>
+        ) : surprise && (
+          <Text style={[styles.surpriseText, { color: SURPRISE_COLORS[surprise.direction] }]}>
+            {SURPRISE_LABELS[surprise.direction]}
+          </Text>
+        )}
+        {!!target.unit && <Text style={styles.unitText}>单位：{target.unit}</Text>}
+      </View>
+    );
+  };
+
+  const renderPointRow = (label: string, point: MacroIndicatorPoint | null, indicatorId: string, change?: number | null) => {
+    const service = macroIndicatorRegistry.getService(indicatorId);
+    return (
+      <View style={styles.reactionRow}>
+        <Text style={styles.reactionLabel}>{label}</Text>
+        <Text style={styles.reactionDate}>{point ? point.date.slice(5) : '--'}</Text>
+        <Text style={styles.reactionValue}>
+          {point && service ? service.formatValue(point.value) : '--'}
+        </Text>
+        <Text style={[styles.reactionChange, { color: getChangeColor(change ?? null) }]}>
+          {change === undefined ? '' : formatChange(change)}
+        </Text>
+      </View>
+    );
+  };
+
+  const renderReactions = (target: EconomicEvent) => (
+    <View style={styles.sectionContainer}>
+      <Text style={styles.sectionTitle}>市场反应</Text>
+      <Text style={styles.descriptionText}>以公布前一交易日收盘为基准，对比公布当日和次日的表现</Text>
+
+      {reactionsLoading ? (
+        <ActivityIndicator style={styles.sectionLoading} color="#007AFF" />
+      ) : reactionsError ? (
+        <View style={styles.sectionErrorContainer}>
+          <Text style={styles.errorText}>{reactionsError}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchReactions(target)}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      ) : reactions.length === 0 ? (
+        <Text style={styles.emptyText}>暂无行情数据</Text>
+      ) : (
+        reactions.map(reaction => (
+          <View key={reaction.indicatorId} style={styles.reactionBlock}>
+            <View style={styles.reactionHeader}>
+              <Text style={styles.reactionName}>{reaction.name}</Text>
+              {!reaction.release && <Text style={styles.pendingText}>公布后更新</Text>}
+            </View>
+            {renderPointRow('公布前', reaction.before, reaction.indicatorId)}
+            {renderPointRow('公布当日', reaction.release, reaction.indicatorId, reaction.releaseChange)}
+            {renderPointRow('次日', reaction.after, reaction.indicatorId, reaction.afterChange)}
+          </View>
+        ))
+      )}
+    </View>
+  );
+
+  const renderNews = (target: EconomicEvent) => (
+    <View style={styles.sectionContainer}>
+      <Text style={styles.sectionTitle}>相关资讯</Text>
+
+      {newsLoading ? (
+        <ActivityIndicator style={styles.sectionLoading} color="#007AFF" />
+      ) : newsError ? (
+        <View style={styles.sectionErrorContainer}>
+          <Text style={styles.errorText}>{newsError}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchNews(target)}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      ) : news.length === 0 ? (
+        <Text style={styles.emptyText}>暂无相关资讯</Text>
+      ) : (
+        news.map(article => (
+          <TouchableOpacity
+            key={article.id}
+            style={styles.newsItem}
+            onPress={() => openArticle(article)}
+          >
+            <View style={styles.newsContent}>
+              <Text style={styles.newsTitle} numberOfLines={2}>{article.title}</Text>
+              <Text style={styles.newsDate}>{article.date || '刚刚'}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#999" />
+          </TouchableOpacity>
+        ))
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#1A1A1A" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>事件详情</Text>
+        <TouchableOpacity
+          style={styles.refreshButton}
+          onPress={() => fetchData()}
+        >
+          <Ionicons name="refresh" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      {!enabled ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="calendar-outline" size={48} color="#C7C7CC" />
+          <Text style={styles.placeholderText}>财经日历即将上线</Text>
+        </View>
+      ) : !event ? (
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+          <Text style={styles.errorText}>未找到该事件</Text>
+        </View>
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          refreshControl={
+            <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+          }
+          showsVerticalScrollIndicator={false}
+        >
+          {/* 公布数据 */}
+          {renderDataCard(event)}
+
+          {/* 市场反应 */}
+          {renderReactions(event)}
+
+          {/* 相关资讯 */}
+          {renderNews(event)}
+
+          <View style={styles.bottomSpacer} />
+        </ScrollView>
+      )}
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  refreshButton: {
+    padding: 8,
+    marginRight: -8,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  // Data card
+  dataCard: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#1976D2',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E3F2FD',
+  },
+
+  dataMeta: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  dataMetaText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+
+  importanceBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  importanceText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 4,
+  },
+
+  dataTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginBottom: 20,
+  },
+
+  valueRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+
+  valueItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+
+  valueLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 6,
+  },
+
+  value: {
+    fontSize: 22,
+    fontWeight: '800',
+  },
+
+  surpriseText: {
+    fontSize: 14,
+    fontWeight: '600',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+
+  pendingText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+
+  unitText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+
+  // Sections
+  sectionContainer: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+
+  descriptionText: {
+    fontSize: 13,
+    lineHeight: 18,
+    color: '#6C757D',
+    marginBottom: 12,
+  },
+
+  sectionLoading: {
+    paddingVertical: 24,
+  },
+
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+
+  // Market reaction
+  reactionBlock: {
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+
+  reactionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+
+  reactionName: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#1A1A1A',
+  },
+
+  reactionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 4,
+  },
+
+  reactionLabel: {
+    width: 72,
+    fontSize: 13,
+    color: '#6C757D',
+  },
+
+  reactionDate: {
+    width: 56,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+
+  reactionValue: {
+    flex: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    textAlign: 'right',
+  },
+
+  reactionChange: {
+    width: 72,
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'right',
+  },
+
+  // Related news
+  newsItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+
+  newsContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+
+  newsTitle: {
+    fontSize: 15,
+    fontWeight: '500',
+    color: '#1A1A1A',
+    lineHeight: 21,
+  },
+
+  newsDate: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+
+  sectionErrorContainer: {
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+
+  // Error states
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FAFAFA',
+    paddingHorizontal: 32,
+  },
+
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+
+  placeholderText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+    marginTop: 16,
+  },
+
+  retryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+
+  bottomSpacer: {
+    height: 24,
+  },
+});
+
+export default EconomicEventDetailScreen;
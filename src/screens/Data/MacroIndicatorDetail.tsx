@@ -0,0 +1,573 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import macroIndicatorRegistry from '../../services/data/MacroIndicatorRegistry';
+import { MacroIndicatorPoint } from '../../services/data/MacroIndicatorService';
+import { getDataErrorMessage } from '../../services/data/DataService';
+import { useMacroIndicators } from '../../hooks/useMacroIndicators';
+import MacroIndicatorChart from '../../components/charts/MacroIndicatorChart';
+
+/**
+ * 宏观指标详情页
+ * 内容全部来自指标配置：数值卡片、历史图表、区间说明、影响因素和策略建议
+ */
+const MacroIndicatorDetail = () => {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { indicatorId } = (route.params || {}) as { indicatorId?: string };
+  // 订阅指标列表，远程新增的指标加载完成后可以显示
+  const indicators = useMacroIndicators();
+  const service = indicatorId ? macroIndicatorRegistry.getService(indicatorId) : null;
+
+  const [current, setCurrent] = useState<MacroIndicatorPoint | null>(null);
+  const [history, setHistory] = useState<MacroIndicatorPoint[]>([]);
+  const [selectedDays, setSelectedDays] = useState(30);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, [service, selectedDays]);
+
+  const fetchData = async () => {
+    if (!service) {
+      setError(`未找到指标 ${indicatorId || ''}`);
+      setLoading(false);
+      return;
+    }
+    try {
+      setError(null);
+      const [currentPoint, historyPoints] = await Promise.all([
+        service.getCurrent(),
+        service.getHistory(selectedDays),
+      ]);
+      setCurrent(currentPoint);
+      setHistory(historyPoints);
+      if (!currentPoint) {
+        setError(`无法获取${service.config.name}数据`);
+      }
+    } catch (err) {
+      console.error(`❌ MacroIndicatorDetail[${indicatorId}]: Error fetching data:`, err);
+      setError(getDataErrorMessage(err));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchData();
+  }, [service, selectedDays]);
+
+  const renderDataCard = () => {
+    if (!service || !current) return null;
+
+    const level = service.getLevel(current.value);
+    // 与上一条历史数据比较
+    const previous = history.find(point => point.date < current.date);
+    const change = previous && previous.value !== 0
+      ? ((current.value - previous.value) / previous.value) * 100
+      : null;
+
+    return (
+      <View style={styles.dataCard}>
+        <Text style={styles.dataTitle}>{service.config.name}</Text>
+        <Text style={[styles.dataValue, level && { color: level.color }]}>{service.formatValue(current.value)}</Text>
+        <Text style={styles.dataLabel}>{level ? level.label : service.config.unit}</Text>
+        {change !== null && (
+          <Text style={[styles.dataChange, { color: change >= 0 ? '#34C759' : '#FF3B30' }]}>
+            较上期 {change >= 0 ? '+' : ''}{change.toFixed(2)}%
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderLevelExplanation = () => {
+    if (!service) return null;
+    const { description, levels, levelsTitle } = service.config;
+    if (!description && !levels?.length) return null;
+
+    return (
+      <View style={styles.sectionContainer}>
+        <Text style={styles.sectionTitle}>{levelsTitle || '指数说明'}</Text>
+        {!!description && <Text style={styles.descriptionText}>{description}</Text>}
+
+        {!!levels?.length && (
+          <View style={styles.levelList}>
+            {levels.map(level => (
+              <View key={level.label} style={styles.levelItem}>
+                <View style={[styles.levelDot, { backgroundColor: level.color }]} />
+                <View style={styles.levelContent}>
+                  <Text style={styles.levelRange}>{level.range ? `${level.range}：${level.label}` : level.label}</Text>
+                  {!!level.description && <Text style={styles.levelDescription}>{level.description}</Text>}
+                </View>
+              </View>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const openLink = (route: string) => {
+    // @ts-ignore
+    navigation.navigate(route);
+  };
+
+  const renderLinks = () => {
+    if (!service?.config.links?.length) return null;
+
+    return (
+      <View style={styles.sectionContainer}>
+        {service.config.links.map(link => (
+          <TouchableOpacity
+            key={link.route}
+            style={styles.linkItem}
+            onPress={() => openLink(link.route)}
+            activeOpacity={0.7}
+          >
+            <View style={styles.linkContent}>
+              <Text style={styles.linkTitle}>{link.label}</Text>
+              {!!link.description && <Text style={styles.linkDescription}>{link.description}</Text>}
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderFactors = () => {
+    if (!service?.config.factors?.length) return null;
+    const { factors, factorsTitle, factorsIntro } = service.config;
+
+    return (
+      <View style={styles.sectionContainer}>
+        <Text style={styles.sectionTitle}>{factorsTitle || '影响因素'}</Text>
+        {!!factorsIntro && <Text style={styles.descriptionText}>{factorsIntro}</Text>}
+
+        <View style={styles.factorList}>
+          {factors.map(factor => (
+            <View key={factor.title} style={styles.factorItem}>
+              <View style={styles.factorNumber}>
+                <Text style={styles.factorNumberText}>{factor.tag}</Text>
+              </View>
+              <View style={styles.factorContent}>
+                <Text style={styles.factorTitle}>{factor.title}</Text>
+                <Text style={styles.factorDescription}>{factor.description}</Text>
+              </View>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderStrategy = () => {
+    if (!service || !current) return null;
+    const level = service.getLevel(current.value);
+    const { tips, adviceTitle } = service.config;
+    if (!level?.advice && !tips?.length) return null;
+
+    return (
+      <View style={styles.sectionContainer}>
+        <Text style={styles.sectionTitle}>{adviceTitle || '投资策略'}</Text>
+        {!!level?.advice && (
+          <View style={[styles.strategyCard, { borderLeftColor: level.color }]}>
+            <Text style={styles.strategyText}>{level.advice}</Text>
+          </View>
+        )}
+
+        {!!tips?.length && (
+          <View style={styles.strategiesList}>
+            <Text style={styles.strategiesTitle}>一般性建议：</Text>
+            {tips.map(tip => (
+              <Text key={tip} style={styles.strategyItem}>• {tip}</Text>
+            ))}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>加载{service?.config.name || ''}数据...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !service) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchData()}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#1A1A1A" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{service.config.name}</Text>
+        <TouchableOpacity
+          style={styles.refreshButton}
+          onPress={() => fetchData()}
+        >
+          <Ionicons name="refresh" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {/* 指标数值 */}
+        {renderDataCard()}
+
+        {/* 历史数据图表 */}
+        <MacroIndicatorChart
+          service={service}
+          historicalData={history}
+          selectedDays={selectedDays}
+          onPeriodChange={setSelectedDays}
+        />
+
+        {/* 相关页面 */}
+        {renderLinks()}
+
+        {/* 指标说明 */}
+        {renderLevelExplanation()}
+
+        {/* 影响因素 */}
+        {renderFactors()}
+
+        {/* 投资策略 */}
+        {renderStrategy()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  refreshButton: {
+    padding: 8,
+    marginRight: -8,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  // Data card styles
+  dataCard: { 
+    backgroundColor: '#FFFFFF', 
+    marginHorizontal: 16, 
+    marginTop: 16, 
+    borderRadius: 16, 
+    padding: 24, 
+    alignItems: 'center',
+    shadowColor: '#1976D2', 
+    shadowOffset: { width: 0, height: 2 }, 
+    shadowOpacity: 0.08, 
+    shadowRadius: 8, 
+    elevation: 4, 
+    borderWidth: 1, 
+    borderColor: '#E3F2FD' 
+  },
+  dataTitle: { 
+    fontSize: 16, 
+    fontWeight: '600', 
+    color: '#1976D2', 
+    marginBottom: 12 
+  },
+  dataValue: { 
+    fontSize: 36, 
+    fontWeight: '800', 
+    color: '#1A1A1A', 
+    marginBottom: 4 
+  },
+  dataLabel: { 
+    fontSize: 14, 
+    color: '#8E8E93', 
+    fontWeight: '500' 
+  },
+  dataChange: {
+    fontSize: 13,
+    fontWeight: '600',
+    marginTop: 8,
+  },
+
+  // Sections
+  sectionContainer: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+
+  descriptionText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#4A4A4A',
+    marginBottom: 16,
+  },
+
+  // Level items
+  levelList: {
+    gap: 12,
+  },
+
+  levelItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+
+  levelDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    marginTop: 4,
+    marginRight: 12,
+  },
+
+  levelContent: {
+    flex: 1,
+  },
+
+  levelRange: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 2,
+  },
+
+  levelDescription: {
+    fontSize: 13,
+    color: '#6C757D',
+    lineHeight: 18,
+  },
+
+  // Related links
+  linkItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+
+  linkContent: {
+    flex: 1,
+  },
+
+  linkTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginBottom: 2,
+  },
+
+  linkDescription: {
+    fontSize: 13,
+    color: '#6C757D',
+    lineHeight: 18,
+  },
+
+  // Factor items
+  factorList: {
+    gap: 16,
+  },
+
+  factorItem: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+
+  factorNumber: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 8,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    marginRight: 12,
+    minWidth: 50,
+    alignItems: 'center',
+  },
+
+  factorNumberText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+
+  factorContent: {
+    flex: 1,
+  },
+
+  factorTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 2,
+  },
+
+  factorDescription: {
+    fontSize: 13,
+    color: '#6C757D',
+    lineHeight: 18,
+  },
+
+  // Strategy section
+  strategyCard: {
+    backgroundColor: '#F8F9FA',
+    borderRadius: 12,
+    padding: 16,
+    borderLeftWidth: 4,
+    marginBottom: 16,
+  },
+
+  strategyText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#1A1A1A',
+    fontWeight: '500',
+  },
+
+  strategiesList: {
+    gap: 8,
+  },
+
+  strategiesTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1A1A1A',
+    marginBottom: 8,
+  },
+
+  strategyItem: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#4A4A4A',
+  },
+
+  // Loading and error states
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FAFAFA',
+  },
+
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6C757D',
+  },
+
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FAFAFA',
+    paddingHorizontal: 32,
+  },
+
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+
+  retryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default MacroIndicatorDetail;
@@ -0,0 +1,462 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  SafeAreaView,
+  StatusBar,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import yieldCurveService, { YieldCurveData, YieldCurveSnapshot } from '../../services/data/YieldCurveService';
+import { getDataErrorMessage } from '../../services/data/DataService';
+import YieldCurveChart from '../../components/charts/YieldCurveChart';
+
+const INVERTED_COLOR = '#FF3B30';
+const NORMAL_COLOR = '#34C759';
+
+const formatYield = (value: number | null): string => {
+  return value === null ? '--' : `${value.toFixed(3)}%`;
+};
+
+const formatSpread = (spread: number | null): string => {
+  if (spread === null) return '--';
+  return `${spread > 0 ? '+' : ''}${spread} bp`;
+};
+
+/**
+ * 美债收益率曲线页
+ * 对比当前、1个月前和1年前的收益率曲线，突出显示2年-10年期利差是否倒挂
+ */
+const YieldCurveScreen = () => {
+  const navigation = useNavigation();
+  const [curve, setCurve] = useState<YieldCurveData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setError(null);
+      const data = await yieldCurveService.getYieldCurve();
+      setCurve(data);
+      if (!data.snapshots.some(snapshot => snapshot.yields.some(value => value !== null))) {
+        setError('无法获取美债收益率数据');
+      }
+    } catch (err) {
+      console.error('❌ YieldCurveScreen: Error fetching yield curve:', err);
+      setError(getDataErrorMessage(err));
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    fetchData();
+  }, []);
+
+  const openIndicator = (indicatorId: string) => {
+    // @ts-ignore
+    navigation.navigate('IndicatorDetail', { indicatorId });
+  };
+
+  const renderSpreadCard = () => {
+    if (!curve) return null;
+    const [current, ...previous] = curve.snapshots;
+    const inverted = current.spread !== null && current.spread < 0;
+    const color = current.spread === null ? '#8E8E93' : inverted ? INVERTED_COLOR : NORMAL_COLOR;
+
+    return (
+      <View style={[styles.spreadCard, inverted && styles.spreadCardInverted]}>
+        <Text style={styles.spreadTitle}>2年-10年期利差</Text>
+        <Text style={[styles.spreadValue, { color }]}>{formatSpread(current.spread)}</Text>
+        {current.spread !== null && (
+          <View style={[styles.spreadBadge, { backgroundColor: color }]}>
+            <Text style={styles.spreadBadgeText}>{inverted ? '收益率曲线倒挂' : '收益率曲线正常'}</Text>
+          </View>
+        )}
+
+        <View style={styles.spreadHistory}>
+          {previous.map(snapshot => (
+            <View key={snapshot.key} style={styles.spreadHistoryItem}>
+              <Text style={styles.spreadHistoryLabel}>{snapshot.label}</Text>
+              <Text style={[
+                styles.spreadHistoryValue,
+                snapshot.spread !== null && snapshot.spread < 0 && { color: INVERTED_COLOR }
+              ]}>
+                {formatSpread(snapshot.spread)}
+              </Text>
+            </View>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderYieldTable = () => {
+    if (!curve) return null;
+    const [current, month] = curve.snapshots;
+
+    // 较1个月前的变化（基点）
+    const changeOf = (index: number, snapshot: YieldCurveSnapshot) => {
+      const now = current.yields[index];
+      const before = snapshot.yields[index];
+      return now === null || before === null ? null : Math.round((now - before) * 100);
+    };
+
+    return (
+      <View style={styles.sectionContainer}>
+        <Text style={styles.sectionTitle}>各期限收益率</Text>
+        <View style={[styles.tableRow, styles.tableHeader]}>
+          <Text style={[styles.tableCell, styles.tenorCell, styles.tableHeaderText]}>期限</Text>
+          {curve.snapshots.map(snapshot => (
+            <Text key={snapshot.key} style={[styles.tableCell, styles.tableHeaderText]}>{snapshot.label}</Text>
+          ))}
+          <Text style={[styles.tableCell, styles.tableHeaderText]}>月变化</Text>
+        </View>
+
+        {curve.tenors.map((tenor, index) => {
+          const change = changeOf(index, month);
+          return (
+            <TouchableOpacity
+              key={tenor.indicatorId}
+              style={styles.tableRow}
+              onPress={() => openIndicator(tenor.indicatorId)}
+              activeOpacity={0.7}
+            >
+              <Text style={[styles.tableCell, styles.tenorCell]}>{tenor.label}</Text>
+              {curve.snapshots.map(snapshot => (
+                <Text key={snapshot.key} style={styles.tableCell}>{formatYield(snapshot.yields[index])}</Text>
+              ))}
+              <Text style={[
+                styles.tableCell,
+                change !== null && { color: change >= 0 ? NORMAL_COLOR : INVERTED_COLOR }
+              ]}>
+                {formatSpread(change)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    );
+  };
+
+  const renderExplanation = () => (
+    <View style={styles.sectionContainer}>
+      <Text style={styles.sectionTitle}>曲线解读</Text>
+      <Text style={styles.descriptionText}>
+        正常情况下长期国债收益率高于短期，曲线向上倾斜。当2年期收益率高于10年期时，利差为负，称为收益率曲线倒挂。
+      </Text>
+      <Text style={styles.strategyItem}>• 倒挂通常反映市场预期未来降息，历史上常领先经济衰退6-24个月</Text>
+      <Text style={styles.strategyItem}>• 倒挂解除（利差由负转正）往往出现在衰退临近或降息周期开始时</Text>
+      <Text style={styles.strategyItem}>• 曲线整体上移意味着融资成本上升，对成长股估值形成压力</Text>
+      <Text style={styles.strategyItem}>• 点击期限可查看该期限收益率的历史走势</Text>
+    </View>
+  );
+
+  if (loading) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+        <View style={styles.loadingContainer}>
+          <ActivityIndicator size="large" color="#007AFF" />
+          <Text style={styles.loadingText}>加载收益率曲线...</Text>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  if (error || !curve) {
+    return (
+      <SafeAreaView style={styles.container}>
+        <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+        <View style={styles.errorContainer}>
+          <Ionicons name="alert-circle-outline" size={48} color="#FF3B30" />
+          <Text style={styles.errorText}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={() => fetchData()}>
+            <Text style={styles.retryButtonText}>重试</Text>
+          </TouchableOpacity>
+        </View>
+      </SafeAreaView>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#FAFAFA" />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity
+          style={styles.backButton}
+          onPress={() => navigation.goBack()}
+        >
+          <Ionicons name="arrow-back" size={24} color="#1A1A1A" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>美债收益率曲线</Text>
+        <TouchableOpacity
+          style={styles.refreshButton}
+          onPress={() => fetchData()}
+        >
+          <Ionicons name="refresh" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {/* 2年-10年期利差 */}
+        {renderSpreadCard()}
+
+        {/* 收益率曲线 */}
+        <YieldCurveChart curve={curve} />
+
+        {/* 各期限收益率 */}
+        {renderYieldTable()}
+
+        {/* 曲线解读 */}
+        {renderExplanation()}
+      </ScrollView>
+    </SafeAreaView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FAFAFA',
+  },
+
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    backgroundColor: '#FFFFFF',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+
+  backButton: {
+    padding: 8,
+    marginLeft: -8,
+  },
+
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  refreshButton: {
+    padding: 8,
+    marginRight: -8,
+  },
+
+  scrollView: {
+    flex: 1,
+  },
+
+  // Spread card
+  spreadCard: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 16,
+    padding: 24,
+    alignItems: 'center',
+    shadowColor: '#1976D2',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.08,
+    shadowRadius: 8,
+    elevation: 4,
+    borderWidth: 1,
+    borderColor: '#E3F2FD',
+  },
+
+  spreadCardInverted: {
+    borderColor: '#FFD6D3',
+    backgroundColor: '#FFF8F7',
+  },
+
+  spreadTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1976D2',
+    marginBottom: 12,
+  },
+
+  spreadValue: {
+    fontSize: 36,
+    fontWeight: '800',
+    marginBottom: 8,
+  },
+
+  spreadBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 4,
+  },
+
+  spreadBadgeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+
+  spreadHistory: {
+    flexDirection: 'row',
+    alignSelf: 'stretch',
+    justifyContent: 'space-around',
+    marginTop: 20,
+    paddingTop: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#F0F0F0',
+  },
+
+  spreadHistoryItem: {
+    alignItems: 'center',
+  },
+
+  spreadHistoryLabel: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+
+  spreadHistoryValue: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1A1A1A',
+  },
+
+  // Sections
+  sectionContainer: {
+    backgroundColor: '#FFFFFF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 16,
+    padding: 20,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.06,
+    shadowRadius: 8,
+    elevation: 3,
+    borderWidth: 1,
+    borderColor: '#F0F0F0',
+  },
+
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1A1A1A',
+    marginBottom: 12,
+  },
+
+  descriptionText: {
+    fontSize: 15,
+    lineHeight: 22,
+    color: '#4A4A4A',
+    marginBottom: 16,
+  },
+
+  strategyItem: {
+    fontSize: 14,
+    lineHeight: 20,
+    color: '#4A4A4A',
+    marginBottom: 8,
+  },
+
+  // Yield table
+  tableRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F0F0',
+  },
+
+  tableHeader: {
+    paddingVertical: 8,
+  },
+
+  tableHeaderText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#8E8E93',
+  },
+
+  tableCell: {
+    flex: 1,
+    fontSize: 14,
+    color: '#1A1A1A',
+    textAlign: 'right',
+  },
+
+  tenorCell: {
+    flex: 0.7,
+    fontWeight: '600',
+    color: '#007AFF',
+    textAlign: 'left',
+  },
+
+  // Loading and error states
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FAFAFA',
+  },
+
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#6C757D',
+  },
+
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: '#FAFAFA',
+    paddingHorizontal: 32,
+  },
+
+  errorText: {
+    fontSize: 16,
+    color: '#FF3B30',
+    textAlign: 'center',
+    marginTop: 16,
+    marginBottom: 24,
+  },
+
+  retryButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 24,
+    paddingVertical: 12,
+    borderRadius: 8,
+  },
+
+  retryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default YieldCurveScreen;
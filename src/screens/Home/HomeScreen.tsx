@@ -12,22 +12,19 @@ import { Ionicons } from '@expo/vector-icons';
 
 // Import custom components
 import TodayHeader from '../../components/common/TodayHeader';
+import OfflineBanner from '../../components/common/OfflineBanner';
 import StockOverview from '../../components/common/StockOverview';
 import LatestNews from '../../components/common/LatestNews';
 import NewsCard from '../../components/common/NewsCard';
-import DXYWidget from '../../components/common/DXYWidget';
-import USBond10YRWidget from '../../components/common/USBond10YRWidget';
-import SP500Widget from '../../components/common/SP500Widget';
-import NasdaqWidget from '../../components/common/NasdaqWidget';
-import DJIWidget from '../../components/common/DJIWidget'; // imported
-import XAUUSDWidget from '../../components/common/XAUUSDWidget'; // added
-import USCLWidget from '../../components/common/USCLWidget'; // added
-import USDCNHWidget from '../../components/common/USDCNHWidget'; // added
+import MacroIndicatorWidget from '../../components/common/MacroIndicatorWidget';
 import SkeletonBox from '../../components/common/SkeletonBox';
 // Import services
 import { newsService, NewsArticle } from '../../services/NewsService';
 import userCoinService from '../../services/UserCoinService';
 import configService from '../../services/ConfigService';
+import macroIndicatorRegistry from '../../services/data/MacroIndicatorRegistry';
+import { useMacroIndicators } from '../../hooks/useMacroIndicators';
+import { DEFAULT_INDICATOR_CARDS, DEFAULT_MACRO_INDICATORS } from '../../config/macroIndicatorConfig';
 
 // Import auth components and context
 import LoginModal from '../../components/auth/LoginModal';
@@ -41,18 +38,6 @@ import versionService from '../../services/VersionService';
 import { useUser } from '../../contexts/UserContext';
 import { useUSStockRealTimePrice } from '../../contexts/USStockRealTimePriceContext';
 
-// 首页数据卡片组件映射 - 去除GreedyIndex
-const DATA_WIDGET_COMPONENTS = {
-  DXY: DXYWidget,
-  USBond10YR: USBond10YRWidget,
-  SP500: SP500Widget,
-  Nasdaq: NasdaqWidget,
-  DJI: DJIWidget, // added
-  XAUUSD: XAUUSDWidget, // added
-  USCL: USCLWidget, // added
-  USDCNH: USDCNHWidget, // added
-};
-
 // 简化的备用数据
 const FALLBACK_ARTICLES = [
   {
@@ -83,6 +68,8 @@ const HomeScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
   const { currentUser, login, logout } = useUser();
+  // 远程新增的指标加载完成后重新渲染数据卡片
+  useMacroIndicators();
 
   const [refreshing, setRefreshing] = useState(false);
   const [searchText, setSearchText] = useState('');
@@ -133,7 +120,7 @@ const HomeScreen = () => {
   const [latestNewsCount, setLatestNewsCount] = useState(5);
 
   // 数据卡片配置状态 - 仅显示美股相关指标
-  const [dataCardsConfig, setDataCardsConfig] = useState('DXY,USBond10YR,SP500,Nasdaq,DJI,XAUUSD,USCL,USDCNH');
+  const [dataCardsConfig, setDataCardsConfig] = useState(DEFAULT_INDICATOR_CARDS.join(','));
 
   // 加载配置
   const loadConfigs = async () => {
@@ -155,7 +142,7 @@ const HomeScreen = () => {
       const latestNewsCountConfig = await configService.getConfig('HOME_LATEST_NEWS_COUNT', 5);
       
       // 获取数据卡片配置 - 默认为美股相关指标
-      const dataCardsConfig = await configService.getConfig('HOME_DATA_CARDS_CONFIG', 'DXY,USBond10YR,SP500,Nasdaq,DJI,XAUUSD,USCL,USDCNH');
+      const dataCardsConfig = await configService.getConfig('HOME_DATA_CARDS_CONFIG', DEFAULT_INDICATOR_CARDS.join(','));
       
       // 获取启动广告配置
       const adEnableRaw = await configService.getConfig('HOME_MODAL_AD_ENABLE', false);
@@ -226,111 +213,69 @@ const HomeScreen = () => {
       // 设置数量默认值
       setFeaturedNewsCount(3);
       setLatestNewsCount(5);
-      setDataCardsConfig('DXY,USBond10YR,SP500,Nasdaq,DJI,XAUUSD,USCL,USDCNH');
+      setDataCardsConfig(DEFAULT_INDICATOR_CARDS.join(','));
       setViewMoreText('查看全部 >');
       setSearchPlaceholder('搜索资讯...');
     }
   };
 
+  // 将卡片分组为行（每行2个）渲染
+  const renderDataCardRows = (widgetNames: string[]) => {
+    const rows = [];
+    for (let i = 0; i < widgetNames.length; i += 2) {
+      const row = widgetNames.slice(i, i + 2);
+      rows.push(row);
+    }
+    
+    return rows.map((row, rowIndex) => (
+      <View key={rowIndex} style={styles.indicatorRow}>
+        {row.map((widgetName, cardIndex) => (
+          <View key={`${widgetName}-${rowIndex}-${cardIndex}`} style={styles.indicatorCard}>
+            <MacroIndicatorWidget 
+              indicatorId={widgetName}
+              style={styles.widgetEmbedded}
+              themeColors={{
+                background: '#F8FAFE',
+                titleColor: '#1565C0',
+                valueColor: '#0D47A1',
+                labelColor: '#42A5F5',
+              }}
+              fontSizes={{
+                title: 11,
+                value: 18,
+                label: 10,
+              }}
+            />
+          </View>
+        ))}
+      </View>
+    ));
+  };
+
   // 根据配置动态渲染数据卡片
   const renderDataCards = () => {
     try {
-      // 解析配置字符串为数组
+      // 解析配置字符串为数组，只保留已注册的指标
       let widgetNames: string[] = [];
       if (typeof dataCardsConfig === 'string' && dataCardsConfig.trim()) {
         widgetNames = dataCardsConfig.split(',')
           .map(name => name.trim())
-          .filter(name => name && DATA_WIDGET_COMPONENTS.hasOwnProperty(name));
+          .filter(name => name && macroIndicatorRegistry.getIndicator(name));
       }
       
       // 如果解析失败，使用默认配置
       if (widgetNames.length === 0) {
-        widgetNames = ['DXY', 'USBond10YR', 'SP500', 'Nasdaq', 'DJI', 'XAUUSD', 'USCL', 'USDCNH'];
+        widgetNames = DEFAULT_INDICATOR_CARDS;
         console.warn('⚠️ HomeScreen: Failed to parse data cards config, using default');
       }
       
-      // 将卡片分组为行（每行2个）
-      const rows = [];
-      for (let i = 0; i < widgetNames.length; i += 2) {
-        const row = widgetNames.slice(i, i + 2);
-        rows.push(row);
-      }
-      
-      return rows.map((row, rowIndex) => (
-        <View key={rowIndex} style={styles.indicatorRow}>
-          {row.map((widgetName, cardIndex) => {
-            const WidgetComponent = DATA_WIDGET_COMPONENTS[widgetName];
-            
-            if (!WidgetComponent) {
-              console.warn(`⚠️ HomeScreen: Widget component ${widgetName} not found`);
-              return (
-                <View key={`empty-${rowIndex}-${cardIndex}`} style={styles.indicatorCard}>
-                  <View style={styles.widgetEmbedded} />
-                </View>
-              );
-            }
-            
-            return (
-              <View key={`${widgetName}-${rowIndex}-${cardIndex}`} style={styles.indicatorCard}>
-                <WidgetComponent 
-                  style={styles.widgetEmbedded}
-                  themeColors={{
-                    background: '#F8FAFE',
-                    titleColor: '#1565C0',
-                    valueColor: '#0D47A1',
-                    labelColor: '#42A5F5',
-                  }}
-                  fontSizes={{
-                    title: 11,
-                    value: 18,
-                    label: 10,
-                  }}
-                />
-              </View>
-            );
-          })}
-        </View>
-      ));
+      return renderDataCardRows(widgetNames);
       
     } catch (error) {
       console.error('❌ HomeScreen: Error rendering data cards:', error);
-      // 如果渲染失败，使用美股相关的默认布局
-      return (
-        <>
-          <View style={styles.indicatorRow}>
-            <View style={styles.indicatorCard}>
-              <DXYWidget style={styles.widgetEmbedded} />
-            </View>
-            <View style={styles.indicatorCard}>
-              <USBond10YRWidget style={styles.widgetEmbedded} />
-            </View>
-          </View>
-          <View style={styles.indicatorRow}>
-            <View style={styles.indicatorCard}>
-              <SP500Widget style={styles.widgetEmbedded} />
-            </View>
-            <View style={styles.indicatorCard}>
-              <NasdaqWidget style={styles.widgetEmbedded} />
-            </View>
-          </View>
-          <View style={styles.indicatorRow}>
-            <View style={styles.indicatorCard}>
-              <DJIWidget style={styles.widgetEmbedded} />
-            </View>
-            <View style={styles.indicatorCard}>
-              <XAUUSDWidget style={styles.widgetEmbedded} />
-            </View>
-          </View>
-          <View style={styles.indicatorRow}>
-            <View style={styles.indicatorCard}>
-              <USCLWidget style={styles.widgetEmbedded} />
-            </View>
-            <View style={styles.indicatorCard}>
-              <USDCNHWidget style={styles.widgetEmbedded} />
-            </View>
-          </View>
-        </>
-      );
+      // 如果渲染失败，使用内置指标的默认布局（不依赖远程注册表）
+      const builtInIds = new Set(DEFAULT_MACRO_INDICATORS.map(indicator => indicator.id));
+      return renderDataCardRows(DEFAULT_INDICATOR_CARDS.filter(id => builtInIds.has(id)));
     }
   };
 
@@ -828,6 +773,7 @@ const HomeScreen = () => {
         onUserPress={handleUserPress}
         title={homeTitle}
       />
+      <OfflineBanner onRetry={onRefresh} />
       {renderHomeTab()}
       
       {/* 登录模态框 */}
@@ -17,6 +17,8 @@ import { useNavigation, useFocusEffect, useRoute } from '@react-navigation/nativ
 import { Ionicons } from '@expo/vector-icons';
 import StockCard, { StockCardData } from '../../components/ui/StockCard';
 import CommonSearchBar from '../../components/common/CommonSearchBar';
+import OfflineBanner from '../../components/common/OfflineBanner';
+import SectorHeatmap from '../../components/common/SectorHeatmap';
 import { useDebounce } from '../../hooks/useDebounce';
 
 // 骨架屏组件 - 带动画效果
@@ -74,7 +76,6 @@ import stockLogoService from '../../services/StockLogoService';
 import userStockService from '../../services/UserStockService';
 import configService from '../../services/ConfigService';
 import apiService from '../../services/APIService';
-import { useUSStockRealTimePrice } from '../../contexts/USStockRealTimePriceContext';
 import { useUser } from '../../contexts/UserContext';
 import MessageModal from '../../components/common/MessageModal';
 import LoginModal from '../../components/auth/LoginModal';
@@ -150,6 +151,36 @@ const styles = StyleSheet.create({
   filtersWrapper: {
     position: 'relative',
   },
+  filtersRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  filtersWrapperFlex: {
+    flex: 1,
+  },
+  screenerButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginLeft: 12,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: UI_COLORS.primary,
+    backgroundColor: UI_COLORS.cardBackground,
+  },
+  screenerButtonText: {
+    fontSize: 13,
+    color: UI_COLORS.primary,
+    marginLeft: 4,
+    fontWeight: '500',
+  },
+  heatmapButtonActive: {
+    backgroundColor: UI_COLORS.primary,
+  },
+  heatmapButtonTextActive: {
+    color: 'white',
+  },
   sortOptionsList: {
     paddingHorizontal: 16,
     paddingRight: 40, // 为右侧指示器留出空间
@@ -461,14 +492,11 @@ const MarketScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
   
-  // 使用实时价格Context
-  // 实时价格Hook - 美股
-  const { realTimePrices: stockRealTimePrices, priceChanges: stockPriceChanges, startPolling: startStockPolling, stopPolling: stopStockPolling } = useUSStockRealTimePrice();
-  
   // 使用用户Context
   const { currentUser, logout } = useUser();
   
   const [searchText, setSearchText] = useState('');
+  const [isHeatmapMode, setIsHeatmapMode] = useState(false); // 行业热力图/列表切换
   const [refreshing, setRefreshing] = useState(false);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState(false);
@@ -647,10 +675,6 @@ const MarketScreen = () => {
         maximumFractionDigits: 6
       })}`;
 
-      // 获取价格变动方向 - 使用美股价格变动
-      const stockKey = (stock.name || stock.code).toLowerCase();
-      const priceChangeDirection = stockPriceChanges[stockKey] || null;
-
       return {
         id: `${stock.code || stock.name}_${stock.rank}`, // 使用股票代码和rank的组合
         name: stock.code || stock.name, // 优先使用code字段（英文代码）
@@ -664,8 +688,8 @@ const MarketScreen = () => {
         volume: stock.volume || stock.baseinfo?.volume || '',
         // 修复：使用英文股票代码获取logo，与symbols数组保持一致
         logo: logos[stock.code || stock.symbol || stock.name],
-        // 添加价格变动标志
-        priceChangeDirection,
+        // 价格变动标志由 StockCard 通过实时价格订阅获取
+        priceChangeDirection: null,
         // 添加24小时价格数据 - 处理两种可能的数据格式
         stock24h: stock.stock24h || stock.usstock24h?.map(item => ({
           price: parseFloat(item.price) || 0,
@@ -1471,121 +1495,7 @@ const MarketScreen = () => {
     }
   }, [configsLoaded]);
 
-  // 管理实时价格轮询
-  useEffect(() => {
-    if (usStocks.length > 0) {
-      // 美股APP：启动美股价格轮询
-      startStockPolling();
-    } else {
-      stopStockPolling();
-    }
-
-    // 清理函数
-    return () => {
-      stopStockPolling();
-    };
-  }, [usStocks.length]);
-
-  // 组件卸载时清理
-  useEffect(() => {
-    return () => {
-      stopStockPolling();
-    };
-  }, []);
-
-  // 监听实时价格变化，更新币种列表的价格显示
-  useEffect(() => {
-    // 美股APP：使用美股实时价格
-    const hasStockPrices = Object.keys(stockRealTimePrices).length > 0;
-    
-    if (hasStockPrices && (usStocks.length > 0 || favoriteStocksData.length > 0)) {
-      // 使用防抖机制来减少频繁的状态更新
-      const timeoutId = setTimeout(() => {
-        // 更新美股价格
-        if (usStocks.length > 0 && hasStockPrices) {
-          setUsStocks(prevStocks => prevStocks.map(stock => {
-            const stockKey = stock.name.toLowerCase();
-            const realTimePrice = stockRealTimePrices[stockKey];
-            const priceDirection = stockPriceChanges[stockKey];
-            
-            if (realTimePrice) {
-              return {
-                ...stock,
-                price: `$${realTimePrice.toLocaleString('en-US', {
-                  minimumFractionDigits: 2,
-                  maximumFractionDigits: 6
-                })}`,
-                priceChangeDirection: priceDirection || stock.priceChangeDirection
-              };
-            }
-            
-            return {
-              ...stock,
-              priceChangeDirection: priceDirection || stock.priceChangeDirection
-            };
-          }));
-        }
-
-        // 更新自选币种价格（美股）
-        if (favoriteStocksData.length > 0) {
-          setFavoriteStocksData(prevFavorites => prevFavorites.map(item => {
-            const itemKey = item.name.toLowerCase();
-            
-            // 使用美股实时价格
-            const stockRealTimePrice = stockRealTimePrices[itemKey];
-            const stockPriceDirection = stockPriceChanges[itemKey];
-            
-            if (stockRealTimePrice) {
-              return {
-                ...item,
-                price: `$${stockRealTimePrice.toLocaleString('en-US', {
-                  minimumFractionDigits: 2,
-                  maximumFractionDigits: 6
-                })}`,
-                priceChangeDirection: stockPriceDirection || item.priceChangeDirection
-              };
-            }
-            
-            // 只更新价格变动方向
-            return {
-              ...item,
-              priceChangeDirection: stockPriceDirection || item.priceChangeDirection
-            };
-          }));
-        }
-
-        // 同时更新搜索结果的价格
-        if (searchResults.length > 0) {
-          setSearchResults(prevResults => prevResults.map(item => {
-            const itemKey = item.name.toLowerCase();
-            
-            // 使用美股实时价格
-            const stockRealTimePrice = stockRealTimePrices[itemKey];
-            const stockPriceDirection = stockPriceChanges[itemKey];
-            
-            if (stockRealTimePrice) {
-              return {
-                ...item,
-                price: `$${stockRealTimePrice.toLocaleString('en-US', {
-                  minimumFractionDigits: 2,
-                  maximumFractionDigits: 6
-                })}`,
-                priceChangeDirection: stockPriceDirection || item.priceChangeDirection
-              };
-            }
-            
-            // 只更新价格变动方向
-            return {
-              ...item,
-              priceChangeDirection: stockPriceDirection || item.priceChangeDirection
-            };
-          }));
-        }
-      }, 100); // 100ms防抖，避免过于频繁的价格更新
-      
-      return () => clearTimeout(timeoutId);
-    }
-  }, [stockRealTimePrices, stockPriceChanges, searchResults.length, usStocks.length, favoriteStocksData.length]);
+  // 实时价格由 StockCard 通过 useStockPrice 按股票单独订阅，价格变化时只重新渲染对应的卡片
 
   // 排序验证和修正 - 确保usStocks数据始终正确排序
   useEffect(() => {
@@ -2235,6 +2145,9 @@ const MarketScreen = () => {
         onSharePress={handleShare}
       />
 
+      {/* 离线提示 */}
+      <OfflineBanner onRetry={onRefresh} />
+
       {/* Search Bar */}
       <CommonSearchBar
         placeholder={searchPlaceholder}
@@ -2245,70 +2158,108 @@ const MarketScreen = () => {
 
       {/* Filter Options - 只在非搜索状态显示 */}
       {!searchText && (
-        <View style={styles.filtersContainer}>
-          <View style={styles.filtersWrapper}>
-            <FlatList
-              ref={sortListRef}
-              data={availableFilters}
-              renderItem={({ item }) => (
-                <TouchableOpacity
-                  style={[
-                    styles.sortOption,
-                    item.isSelected && styles.selectedSortOption
-                  ]}
-                  onPress={() => handleFilterPress(item.key)}
-                  activeOpacity={0.7}
+        <View style={[styles.filtersContainer, styles.filtersRow]}>
+          {/* 选股器入口 */}
+          <TouchableOpacity
+            style={styles.screenerButton}
+            onPress={() => navigation.navigate('StockScreener' as never)}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="funnel-outline" size={16} color={UI_COLORS.primary} />
+            <Text style={styles.screenerButtonText}>选股</Text>
+          </TouchableOpacity>
+          {/* 热力图/列表切换 */}
+          <TouchableOpacity
+            style={[styles.screenerButton, isHeatmapMode && styles.heatmapButtonActive]}
+            onPress={() => setIsHeatmapMode(!isHeatmapMode)}
+            activeOpacity={0.7}
+          >
+            <Ionicons
+              name={isHeatmapMode ? 'list-outline' : 'grid-outline'}
+              size={16}
+              color={isHeatmapMode ? 'white' : UI_COLORS.primary}
+            />
+            <Text style={[styles.screenerButtonText, isHeatmapMode && styles.heatmapButtonTextActive]}>
+              {isHeatmapMode ? '列表' : '热力图'}
+            </Text>
+          </TouchableOpacity>
+          {!isHeatmapMode && (
+            <View style={[styles.filtersWrapper, styles.filtersWrapperFlex]}>
+              <FlatList
+                ref={sortListRef}
+                data={availableFilters}
+                renderItem={({ item }) => (
+                  <TouchableOpacity
+                    style={[
+                      styles.sortOption,
+                      item.isSelected && styles.selectedSortOption
+                    ]}
+                    onPress={() => handleFilterPress(item.key)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.sortOptionContent}>
+                      <Text
+                        style={[
+                          styles.sortOptionText,
+                          item.isSelected && styles.selectedSortOptionText
+                        ]}
+                      >
+                        {item.label}
+                      </Text>
+                      {item.isSelected && item.sortOrder !== 'none' && (
+                        <Ionicons
+                          name={
+                            item.key === 'rank' 
+                              ? 'chevron-down' // rank字段：从大市值到小市值，箭头向下
+                              : item.sortOrder === 'desc' 
+                                ? 'chevron-down' // 其他字段：desc（从大到小）用向下箭头
+                                : 'chevron-up'   // 其他字段：asc（从小到大）用向上箭头
+                          }
+                          size={14}
+                          color="white"
+                          style={styles.sortArrow}
+                        />
+                      )}
+                    </View>
+                  </TouchableOpacity>
+                )}
+                keyExtractor={item => item.key}
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.sortOptionsList}
+                onScroll={handleSortScroll}
+                scrollEventThrottle={16}
+              />
+            
+              {/* 滚动指示器 */}
+              {showScrollIndicator && (
+                <TouchableOpacity 
+                  style={styles.scrollIndicator}
+                  onPress={handleScrollIndicatorPress}
+                  activeOpacity={0.8}
                 >
-                  <View style={styles.sortOptionContent}>
-                    <Text
-                      style={[
-                        styles.sortOptionText,
-                        item.isSelected && styles.selectedSortOptionText
-                      ]}
-                    >
-                      {item.label}
-                    </Text>
-                    {item.isSelected && item.sortOrder !== 'none' && (
-                      <Ionicons
-                        name={
-                          item.key === 'rank' 
-                            ? 'chevron-down' // rank字段：从大市值到小市值，箭头向下
-                            : item.sortOrder === 'desc' 
-                              ? 'chevron-down' // 其他字段：desc（从大到小）用向下箭头
-                              : 'chevron-up'   // 其他字段：asc（从小到大）用向上箭头
-                        }
-                        size={14}
-                        color="white"
-                        style={styles.sortArrow}
-                      />
-                    )}
-                  </View>
+                  <Text style={styles.scrollIndicatorText}>{scrollIndicatorText}</Text>
                 </TouchableOpacity>
               )}
-              keyExtractor={item => item.key}
-              horizontal
-              showsHorizontalScrollIndicator={false}
-              style={styles.sortOptionsList}
-              onScroll={handleSortScroll}
-              scrollEventThrottle={16}
-            />
-            
-            {/* 滚动指示器 */}
-            {showScrollIndicator && (
-              <TouchableOpacity 
-                style={styles.scrollIndicator}
-                onPress={handleScrollIndicatorPress}
-                activeOpacity={0.8}
-              >
-                <Text style={styles.scrollIndicatorText}>{scrollIndicatorText}</Text>
-              </TouchableOpacity>
-            )}
-          </View>
+            </View>
+          )}
         </View>
       )}
 
       {/* Coins List */}
-      {(loading || usStocksLoading) ? (
+      {!searchText && isHeatmapMode ? (
+        <SectorHeatmap
+          onStockPress={stock => {
+            // @ts-ignore
+            navigation.navigate('CoinDetail', {
+              name: stock.code,
+              fullName: stock.name,
+              fromMarketScreen: true,
+              isStock: true,
+            });
+          }}
+        />
+      ) : (loading || usStocksLoading) ? (
         renderLoading()
       ) : (
         <FlatList
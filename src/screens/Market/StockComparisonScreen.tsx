@@ -0,0 +1,505 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+  Share,
+  Dimensions,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import CommonSearchBar from '../../components/common/CommonSearchBar';
+import MessageModal from '../../components/common/MessageModal';
+import ComparisonChart, { COMPARISON_COLORS } from '../../components/charts/ComparisonChart';
+import comparisonService, {
+  ComparisonResult,
+  MACRO_COMPARISON_SERIES,
+  MAX_COMPARISON_SYMBOLS,
+  getMacroSeries,
+  parseComparisonSymbols,
+} from '../../services/ComparisonService';
+import stockService, { TransformedStockData } from '../../services/StockService';
+import { getWebAppURL } from '../../config/apiConfig';
+
+type StockComparisonRouteParams = {
+  StockComparison: {
+    // 逗号分隔的代码列表，如 "NVDA,AMD,SP500"
+    symbols?: string;
+    period?: string;
+  };
+};
+
+// 时间周期 -> 天数
+const PERIOD_DAYS: Record<string, number> = {
+  '7d': 7,
+  '30d': 30,
+  '90d': 90,
+  '1y': 365,
+};
+const PERIODS = Object.keys(PERIOD_DAYS);
+const DEFAULT_PERIOD = '30d';
+
+// 图表卡片左右外边距与内边距之和
+const CHART_WIDTH = Dimensions.get('window').width - 48;
+
+// 搜索结果项：宏观指数或股票
+interface PickerOption {
+  symbol: string;
+  label: string;
+  description: string;
+}
+
+const formatPercent = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const StockComparisonScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<StockComparisonRouteParams, 'StockComparison'>>();
+
+  const initialSymbols = parseComparisonSymbols(route.params?.symbols);
+  const [symbols, setSymbols] = useState<string[]>(initialSymbols.length > 0 ? initialSymbols : ['SP500']);
+  const [period, setPeriod] = useState<string>(
+    route.params?.period && PERIOD_DAYS[route.params.period] ? route.params.period : DEFAULT_PERIOD
+  );
+  const [result, setResult] = useState<ComparisonResult | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const [searchQuery, setSearchQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<PickerOption[]>([]);
+  const [searching, setSearching] = useState(false);
+  const searchTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; title: string; text: string } | null>(null);
+
+  // 加载对比数据，并同步路由参数以便分享当前链接
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadComparison = async () => {
+      if (symbols.length === 0) {
+        setResult(null);
+        return;
+      }
+      setLoading(true);
+      try {
+        const data = await comparisonService.compare(symbols, PERIOD_DAYS[period]);
+        if (!cancelled) {
+          setResult(data);
+        }
+      } catch (error) {
+        console.error('❌ StockComparisonScreen: 加载对比数据失败:', error);
+        if (!cancelled) {
+          setMessage({ type: 'error', title: '加载失败', text: '对比数据加载失败，请稍后重试' });
+        }
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadComparison();
+    navigation.setParams({ symbols: symbols.join(','), period } as never);
+
+    return () => {
+      cancelled = true;
+    };
+  }, [symbols, period]);
+
+  // 搜索股票（防抖），宏观指数在本地匹配
+  useEffect(() => {
+    if (searchTimerRef.current) {
+      clearTimeout(searchTimerRef.current);
+    }
+
+    const query = searchQuery.trim();
+    if (!query) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const macroMatches: PickerOption[] = MACRO_COMPARISON_SERIES
+      .filter(series => series.id.includes(query.toUpperCase()) || series.label.includes(query))
+      .map(series => ({ symbol: series.id, label: series.label, description: '指数' }));
+    setSearchResults(macroMatches);
+    setSearching(true);
+
+    searchTimerRef.current = setTimeout(async () => {
+      try {
+        const stocks: TransformedStockData[] = await stockService.searchUSStocks(query, 10);
+        const stockOptions = stocks
+          .filter(stock => stock.code)
+          .map(stock => ({
+            symbol: stock.code.toUpperCase(),
+            label: stock.code.toUpperCase(),
+            description: stock.fullName || stock.name,
+          }));
+        setSearchResults([...macroMatches, ...stockOptions]);
+      } catch (error) {
+        console.error('❌ StockComparisonScreen: 搜索股票失败:', error);
+      } finally {
+        setSearching(false);
+      }
+    }, 400);
+
+    return () => {
+      if (searchTimerRef.current) {
+        clearTimeout(searchTimerRef.current);
+      }
+    };
+  }, [searchQuery]);
+
+  const handleAddSymbol = (symbol: string) => {
+    if (symbols.includes(symbol)) {
+      setSearchQuery('');
+      return;
+    }
+    if (symbols.length >= MAX_COMPARISON_SYMBOLS) {
+      setMessage({ type: 'error', title: '无法添加', text: `最多同时对比 ${MAX_COMPARISON_SYMBOLS} 个标的` });
+      return;
+    }
+    setSymbols([...symbols, symbol]);
+    setSearchQuery('');
+  };
+
+  const handleRemoveSymbol = (symbol: string) => {
+    setSymbols(symbols.filter(item => item !== symbol));
+  };
+
+  const handleShare = async () => {
+    const shareUrl = getWebAppURL(`market/compare?symbols=${encodeURIComponent(symbols.join(','))}&period=${period}`);
+    try {
+      if (Platform.OS === 'web' && typeof navigator !== 'undefined' && navigator.clipboard?.writeText) {
+        await navigator.clipboard.writeText(shareUrl);
+        setMessage({ type: 'success', title: '成功', text: '链接已复制到剪贴板' });
+        return;
+      }
+      await Share.share({
+        message: `走势对比 ${symbols.join(' vs ')}：${shareUrl}`,
+        url: shareUrl,
+        title: '走势对比 - 小目标',
+      });
+    } catch (error) {
+      console.error('❌ StockComparisonScreen: 分享失败:', error);
+      setMessage({ type: 'error', title: '分享失败', text: '无法分享链接，请稍后重试' });
+    }
+  };
+
+  // 与图表颜色一致：按结果中的顺序取色
+  const colorOfSymbol = (symbol: string) => {
+    const index = result?.series.findIndex(item => item.symbol === symbol) ?? -1;
+    return index >= 0 ? COMPARISON_COLORS[index % COMPARISON_COLORS.length] : '#ccc';
+  };
+
+  const getLatestChange = (symbol: string) => result?.series.find(item => item.symbol === symbol)?.latestChange;
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>走势对比</Text>
+        <TouchableOpacity style={styles.backButton} onPress={handleShare} disabled={symbols.length === 0}>
+          <Ionicons name="share-outline" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+        {/* 代码选择 */}
+        <View style={styles.section}>
+          <CommonSearchBar
+            placeholder="搜索股票代码或指数，如 AMD、标普500"
+            value={searchQuery}
+            onValueChange={setSearchQuery}
+            containerStyle={styles.searchBar}
+          />
+          {searchQuery.trim().length > 0 && (
+            <View style={styles.card}>
+              {searchResults.map(option => (
+                <TouchableOpacity
+                  key={option.symbol}
+                  style={styles.resultRow}
+                  onPress={() => handleAddSymbol(option.symbol)}
+                >
+                  <View style={styles.resultLeft}>
+                    <Text style={styles.resultSymbol}>{option.label}</Text>
+                    <Text style={styles.resultDescription} numberOfLines={1}>{option.description}</Text>
+                  </View>
+                  <Ionicons
+                    name={symbols.includes(option.symbol) ? 'checkmark-circle' : 'add-circle-outline'}
+                    size={22}
+                    color="#007AFF"
+                  />
+                </TouchableOpacity>
+              ))}
+              {searching && <ActivityIndicator style={styles.searchLoading} color="#007AFF" />}
+              {!searching && searchResults.length === 0 && (
+                <Text style={styles.placeholderText}>未找到匹配的股票或指数</Text>
+              )}
+            </View>
+          )}
+          {searchQuery.trim().length === 0 && (
+            <View style={styles.quickAddRow}>
+              {MACRO_COMPARISON_SERIES.filter(series => !symbols.includes(series.id)).map(series => (
+                <TouchableOpacity
+                  key={series.id}
+                  style={styles.quickAddChip}
+                  onPress={() => handleAddSymbol(series.id)}
+                >
+                  <Ionicons name="add" size={14} color="#007AFF" />
+                  <Text style={styles.quickAddText}>{series.label}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* 已选代码 */}
+        <View style={styles.selectedRow}>
+          {symbols.map(symbol => {
+            const latestChange = getLatestChange(symbol);
+            return (
+              <View key={symbol} style={styles.selectedChip}>
+                <View style={[styles.colorDot, { backgroundColor: colorOfSymbol(symbol) }]} />
+                <Text style={styles.selectedText}>{getMacroSeries(symbol)?.label || symbol}</Text>
+                {latestChange !== undefined && (
+                  <Text style={[styles.selectedChange, { color: latestChange >= 0 ? '#34C759' : '#FF3B30' }]}>
+                    {formatPercent(latestChange)}
+                  </Text>
+                )}
+                <TouchableOpacity onPress={() => handleRemoveSymbol(symbol)} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+                  <Ionicons name="close" size={14} color="#999" />
+                </TouchableOpacity>
+              </View>
+            );
+          })}
+        </View>
+
+        {/* 时间周期 */}
+        <View style={styles.periodRow}>
+          {PERIODS.map(item => (
+            <TouchableOpacity
+              key={item}
+              style={[styles.periodButton, period === item && styles.selectedPeriodButton]}
+              onPress={() => setPeriod(item)}
+            >
+              <Text style={[styles.periodText, period === item && styles.selectedPeriodText]}>{item}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        {/* 对比图 */}
+        <View style={styles.chartCard}>
+          {loading ? (
+            <ActivityIndicator style={styles.chartLoading} color="#007AFF" />
+          ) : symbols.length === 0 ? (
+            <Text style={styles.placeholderText}>请添加要对比的股票或指数</Text>
+          ) : (
+            <ComparisonChart dates={result?.dates || []} series={result?.series || []} width={CHART_WIDTH} />
+          )}
+          {!loading && result && result.dates.length > 0 && (
+            <Text style={styles.chartNote}>
+              以 {result.dates[0]} 为基准的涨跌幅
+            </Text>
+          )}
+          {!loading && result && result.missingSymbols.length > 0 && (
+            <Text style={styles.missingText}>
+              以下代码暂无数据：{result.missingSymbols.join(', ')}
+            </Text>
+          )}
+        </View>
+      </ScrollView>
+
+      <MessageModal
+        visible={!!message}
+        type={message?.type || 'error'}
+        title={message?.title || ''}
+        message={message?.text || ''}
+        buttons={[{ text: '确定', onPress: () => setMessage(null) }]}
+        onClose={() => setMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    marginTop: 12,
+  },
+  searchBar: {
+    marginHorizontal: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    marginTop: 8,
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  resultLeft: {
+    flex: 1,
+    marginRight: 12,
+  },
+  resultSymbol: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  resultDescription: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  searchLoading: {
+    marginVertical: 8,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 16,
+  },
+  quickAddRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  quickAddChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  quickAddText: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginLeft: 2,
+  },
+  selectedRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    paddingHorizontal: 16,
+    marginTop: 8,
+  },
+  selectedChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    marginRight: 8,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+  },
+  colorDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 6,
+  },
+  selectedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#333',
+    marginRight: 6,
+  },
+  selectedChange: {
+    fontSize: 12,
+    fontWeight: '500',
+    marginRight: 6,
+  },
+  periodRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginHorizontal: 16,
+    marginTop: 4,
+  },
+  periodButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 5,
+    borderRadius: 15,
+  },
+  selectedPeriodButton: {
+    backgroundColor: '#E8F0FE',
+  },
+  periodText: {
+    fontSize: 14,
+    color: '#666',
+  },
+  selectedPeriodText: {
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  chartCard: {
+    backgroundColor: '#fff',
+    margin: 16,
+    borderRadius: 12,
+    padding: 8,
+  },
+  chartLoading: {
+    marginVertical: 100,
+  },
+  chartNote: {
+    fontSize: 12,
+    color: '#999',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  missingText: {
+    fontSize: 12,
+    color: '#FF9500',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+});
+
+export default StockComparisonScreen;
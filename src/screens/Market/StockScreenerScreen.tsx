@@ -0,0 +1,531 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import StockCard, { StockCardData } from '../../components/ui/StockCard';
+import MessageModal from '../../components/common/MessageModal';
+import { StockData } from '../../services/StockService';
+import stockLogoService from '../../services/StockLogoService';
+import stockScreenerService, {
+  BUILT_IN_SCREENS,
+  EMPTY_SCREENER_FILTERS,
+  SCREENER_RANGE_FIELDS,
+  SavedScreen,
+  ScreenerFilters,
+  ScreenerRangeField,
+  countActiveFilters,
+  screenStocks,
+} from '../../services/StockScreenerService';
+
+// 每次展示的结果数量
+const RESULT_PAGE_SIZE = 50;
+
+// 区间输入框的文本状态：允许用户输入过程中出现不完整的数字
+type RangeInputs = Record<ScreenerRangeField, { min: string; max: string }>;
+
+const EMPTY_RANGE_INPUTS = SCREENER_RANGE_FIELDS.reduce((acc, field) => {
+  acc[field.key] = { min: '', max: '' };
+  return acc;
+}, {} as RangeInputs);
+
+const parseInput = (value: string): number | undefined => {
+  if (!value.trim()) return undefined;
+  const num = Number(value);
+  return isFinite(num) ? num : undefined;
+};
+
+const filtersToInputs = (filters: ScreenerFilters): RangeInputs =>
+  SCREENER_RANGE_FIELDS.reduce((acc, field) => {
+    const range = filters[field.key];
+    acc[field.key] = {
+      min: range?.min !== undefined ? String(range.min) : '',
+      max: range?.max !== undefined ? String(range.max) : '',
+    };
+    return acc;
+  }, {} as RangeInputs);
+
+// 转换为 StockCard 展示数据
+const toStockCardData = (stock: StockData): StockCardData => {
+  const price = parseFloat(stock.currentPrice) || 0;
+  const change = stock.priceChangePercent || '0%';
+  return {
+    id: `${stock.code}_${stock.rank}`,
+    name: stock.code,
+    fullName: stock.name,
+    symbol: stock.code,
+    price: `$${price.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 6 })}`,
+    change,
+    isPositive: !change.startsWith('-'),
+    rank: stock.rank,
+    marketCap: stock.baseinfo?.marketCap || stock.marketCap || '',
+    volume: stock.baseinfo?.volume || stock.volume || '',
+    logo: stockLogoService.getLogoUrlSync(stock.code),
+    peRatio: stock.baseinfo?.peRatio || stock.peRatio || '',
+    stock24h: (stock.usstock24h || []).map(item => ({
+      price: parseFloat(item.price) || 0,
+      createdAt: item.createdAt,
+    })),
+  };
+};
+
+const StockScreenerScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentUser } = useUser();
+
+  const [universe, setUniverse] = useState<StockData[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [savedScreens, setSavedScreens] = useState<SavedScreen[]>([]);
+
+  const [sectors, setSectors] = useState<string[]>([]);
+  const [exchanges, setExchanges] = useState<string[]>([]);
+  const [rangeInputs, setRangeInputs] = useState<RangeInputs>(EMPTY_RANGE_INPUTS);
+  const [activeScreenId, setActiveScreenId] = useState<string | null>(null);
+  const [screenName, setScreenName] = useState('');
+  const [visibleCount, setVisibleCount] = useState(RESULT_PAGE_SIZE);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; title: string; text: string } | null>(null);
+
+  useEffect(() => {
+    const loadUniverse = async () => {
+      try {
+        setLoading(true);
+        setUniverse(await stockScreenerService.loadUniverse());
+      } catch (error) {
+        console.error('❌ StockScreenerScreen: 加载股票池失败:', error);
+        setMessage({ type: 'error', title: '加载失败', text: '股票数据加载失败，请稍后重试' });
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadUniverse();
+  }, []);
+
+  useEffect(() => {
+    if (!currentUser) {
+      setSavedScreens([]);
+      return;
+    }
+    stockScreenerService.getSavedScreens(currentUser.email).then(setSavedScreens);
+  }, [currentUser?.email]);
+
+  const filterOptions = useMemo(() => stockScreenerService.getFilterOptions(universe), [universe]);
+
+  const filters: ScreenerFilters = useMemo(() => {
+    const result: ScreenerFilters = { sectors, exchanges };
+    SCREENER_RANGE_FIELDS.forEach(field => {
+      const min = parseInput(rangeInputs[field.key].min);
+      const max = parseInput(rangeInputs[field.key].max);
+      if (min !== undefined || max !== undefined) {
+        result[field.key] = { min, max };
+      }
+    });
+    return result;
+  }, [sectors, exchanges, rangeInputs]);
+
+  const results = useMemo(() => screenStocks(universe, filters), [universe, filters]);
+  const activeFilterCount = countActiveFilters(filters);
+
+  useEffect(() => {
+    setVisibleCount(RESULT_PAGE_SIZE);
+  }, [filters]);
+
+  const applyFilters = (next: ScreenerFilters, screenId: string | null) => {
+    setSectors(next.sectors);
+    setExchanges(next.exchanges);
+    setRangeInputs(filtersToInputs(next));
+    setActiveScreenId(screenId);
+  };
+
+  const toggleValue = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value];
+
+  const updateRangeInput = (key: ScreenerRangeField, bound: 'min' | 'max', value: string) => {
+    setRangeInputs(prev => ({ ...prev, [key]: { ...prev[key], [bound]: value } }));
+    setActiveScreenId(null);
+  };
+
+  const handleSaveScreen = async () => {
+    if (!currentUser) {
+      setMessage({ type: 'error', title: '需要登录', text: '登录后才能保存选股方案' });
+      return;
+    }
+    try {
+      const updated = await stockScreenerService.saveScreen(currentUser.email, screenName, filters);
+      setSavedScreens(updated);
+      setActiveScreenId(updated.find(screen => screen.name === screenName.trim())?.id || null);
+      setScreenName('');
+      setMessage({ type: 'success', title: '已保存', text: '选股方案已保存' });
+    } catch (error) {
+      setMessage({ type: 'error', title: '保存失败', text: error instanceof Error ? error.message : '保存失败' });
+    }
+  };
+
+  const handleDeleteScreen = async (screenId: string) => {
+    if (!currentUser) return;
+    setSavedScreens(await stockScreenerService.deleteScreen(currentUser.email, screenId));
+    if (activeScreenId === screenId) {
+      setActiveScreenId(null);
+    }
+  };
+
+  const handleStockPress = (name: string, fullName?: string) => {
+    const params: any = { name, isStock: true };
+    if (fullName) {
+      params.fullName = fullName;
+    }
+    // @ts-ignore
+    navigation.navigate('CoinDetail', params);
+  };
+
+  const renderChips = (options: string[], selected: string[], onToggle: (value: string) => void) => (
+    <View style={styles.chipRow}>
+      {options.map(option => (
+        <TouchableOpacity
+          key={option}
+          style={[styles.chip, selected.includes(option) && styles.selectedChip]}
+          onPress={() => onToggle(option)}
+        >
+          <Text style={[styles.chipText, selected.includes(option) && styles.selectedChipText]}>{option}</Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+          <Ionicons name="arrow-back" size={24} color="#007AFF" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>选股器</Text>
+        <TouchableOpacity style={styles.backButton} onPress={() => applyFilters(EMPTY_SCREENER_FILTERS, null)}>
+          <Text style={styles.resetText}>重置</Text>
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.scrollView} keyboardShouldPersistTaps="handled">
+        {/* 选股方案 */}
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.screenRow}>
+          {BUILT_IN_SCREENS.map(screen => (
+            <TouchableOpacity
+              key={screen.id}
+              style={[styles.screenChip, activeScreenId === screen.id && styles.selectedScreenChip]}
+              onPress={() => applyFilters(screen.filters, screen.id)}
+            >
+              <Text style={[styles.screenChipText, activeScreenId === screen.id && styles.selectedScreenChipText]}>
+                {screen.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {savedScreens.map(screen => (
+            <View
+              key={screen.id}
+              style={[styles.screenChip, styles.savedScreenChip, activeScreenId === screen.id && styles.selectedScreenChip]}
+            >
+              <TouchableOpacity onPress={() => applyFilters(screen.filters, screen.id)}>
+                <Text style={[styles.screenChipText, activeScreenId === screen.id && styles.selectedScreenChipText]}>
+                  {screen.name}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => handleDeleteScreen(screen.id)}
+                hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+              >
+                <Ionicons name="close" size={14} color={activeScreenId === screen.id ? '#fff' : '#999'} />
+              </TouchableOpacity>
+            </View>
+          ))}
+        </ScrollView>
+
+        {/* 筛选条件 */}
+        <View style={styles.card}>
+          <Text style={styles.filterLabel}>行业</Text>
+          {renderChips(filterOptions.sectors, sectors, value => {
+            setSectors(toggleValue(sectors, value));
+            setActiveScreenId(null);
+          })}
+
+          <Text style={styles.filterLabel}>交易所</Text>
+          {renderChips(filterOptions.exchanges, exchanges, value => {
+            setExchanges(toggleValue(exchanges, value));
+            setActiveScreenId(null);
+          })}
+
+          {SCREENER_RANGE_FIELDS.map(field => (
+            <View key={field.key} style={styles.rangeRow}>
+              <Text style={styles.rangeLabel}>
+                {field.label}{field.unit ? `(${field.unit})` : ''}
+              </Text>
+              <TextInput
+                style={styles.rangeInput}
+                value={rangeInputs[field.key].min}
+                onChangeText={value => updateRangeInput(field.key, 'min', value)}
+                placeholder="最小"
+                placeholderTextColor="#bbb"
+                keyboardType="numbers-and-punctuation"
+              />
+              <Text style={styles.rangeSeparator}>~</Text>
+              <TextInput
+                style={styles.rangeInput}
+                value={rangeInputs[field.key].max}
+                onChangeText={value => updateRangeInput(field.key, 'max', value)}
+                placeholder="最大"
+                placeholderTextColor="#bbb"
+                keyboardType="numbers-and-punctuation"
+              />
+            </View>
+          ))}
+
+          <View style={styles.saveRow}>
+            <TextInput
+              style={styles.saveInput}
+              value={screenName}
+              onChangeText={setScreenName}
+              placeholder="方案名称"
+              placeholderTextColor="#bbb"
+            />
+            <TouchableOpacity
+              style={[styles.saveButton, activeFilterCount === 0 && styles.disabledButton]}
+              onPress={handleSaveScreen}
+              disabled={activeFilterCount === 0}
+            >
+              <Text style={styles.saveButtonText}>保存方案</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* 筛选结果 */}
+        <Text style={styles.resultTitle}>
+          {loading ? '正在加载股票池...' : `符合条件 ${results.length} 只（共 ${universe.length} 只）`}
+        </Text>
+        {loading ? (
+          <ActivityIndicator style={styles.loading} color="#007AFF" />
+        ) : (
+          <>
+            {results.slice(0, visibleCount).map(stock => (
+              <StockCard
+                key={`${stock.code}_${stock.rank}`}
+                data={toStockCardData(stock)}
+                variant="default"
+                context="market"
+                onPress={handleStockPress}
+                showRank={true}
+                showChart={true}
+              />
+            ))}
+            {results.length > visibleCount && (
+              <TouchableOpacity
+                style={styles.moreButton}
+                onPress={() => setVisibleCount(visibleCount + RESULT_PAGE_SIZE)}
+              >
+                <Text style={styles.moreButtonText}>显示更多</Text>
+              </TouchableOpacity>
+            )}
+            {results.length === 0 && (
+              <Text style={styles.emptyText}>没有符合条件的股票，试试放宽筛选条件</Text>
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <MessageModal
+        visible={!!message}
+        type={message?.type || 'error'}
+        title={message?.title || ''}
+        message={message?.text || ''}
+        buttons={[{ text: '确定', onPress: () => setMessage(null) }]}
+        onClose={() => setMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  resetText: {
+    fontSize: 15,
+    color: '#007AFF',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  screenRow: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  screenChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#fff',
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+  },
+  savedScreenChip: {
+    borderColor: '#007AFF',
+  },
+  selectedScreenChip: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  screenChipText: {
+    fontSize: 13,
+    color: '#333',
+    marginRight: 4,
+  },
+  selectedScreenChipText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+  },
+  filterLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 5,
+    borderRadius: 14,
+    backgroundColor: '#f1f3f5',
+    marginRight: 6,
+    marginBottom: 6,
+  },
+  selectedChip: {
+    backgroundColor: '#E8F0FE',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#666',
+  },
+  selectedChipText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  rangeLabel: {
+    width: 96,
+    fontSize: 14,
+    color: '#333',
+  },
+  rangeInput: {
+    flex: 1,
+    height: 36,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    fontSize: 14,
+    color: '#333',
+  },
+  rangeSeparator: {
+    marginHorizontal: 8,
+    color: '#999',
+  },
+  saveRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  saveInput: {
+    flex: 1,
+    height: 36,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    fontSize: 14,
+    color: '#333',
+    marginRight: 8,
+  },
+  saveButton: {
+    backgroundColor: '#007AFF',
+    paddingHorizontal: 14,
+    paddingVertical: 9,
+    borderRadius: 8,
+  },
+  disabledButton: {
+    backgroundColor: '#b0c4de',
+  },
+  saveButtonText: {
+    color: '#fff',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  resultTitle: {
+    fontSize: 14,
+    color: '#666',
+    marginHorizontal: 16,
+    marginTop: 16,
+    marginBottom: 8,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  moreButton: {
+    alignItems: 'center',
+    paddingVertical: 14,
+  },
+  moreButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    marginVertical: 32,
+  },
+});
+
+export default StockScreenerScreen;
@@ -17,7 +17,7 @@ import { useNavigation, useRoute } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import stockService, { TransformedStockData } from '../../services/StockService';
 import stockLogoService from '../../services/StockLogoService';
-import { useUSStockRealTimePrice } from '../../contexts/USStockRealTimePriceContext';
+import { useStockPrice } from '../../contexts/USStockRealTimePriceContext';
 import { newsService, NewsArticle } from '../../services/NewsService';
 import userStockService from '../../services/UserStockService';
 import { useUser } from '../../contexts/UserContext';
@@ -35,6 +35,8 @@ import MessageModal from '../../components/common/MessageModal';
 import LoginModal from '../../components/auth/LoginModal';
 import TodayHeader from '../../components/common/TodayHeader';
 import CoinPosterModal from '../../components/common/CoinPosterModal';
+import EarningsSection from '../../components/common/EarningsSection';
+import DividendSection from '../../components/common/DividendSection';
 
 // 美股详情页面组件
 
@@ -42,9 +44,6 @@ const USStockDetailScreen = () => {
   const navigation = useNavigation();
   const route = useRoute();
   
-  // 使用实时价格Context
-  const { getPrice, getPriceChange, startPolling, stopPolling } = useUSStockRealTimePrice();
-  
   // 使用用户Context
   const { currentUser } = useUser();
   
@@ -101,9 +100,8 @@ const USStockDetailScreen = () => {
   // 分享相关状态
   const [showShareModal, setShowShareModal] = useState(false);
   
-  // 获取实时价格数据
-  const realTimePrice = getPrice(stockCode);
-  const realTimePriceChange = getPriceChange(stockCode);
+  // 订阅当前股票的实时价格
+  const { price: realTimePrice, change: realTimePriceChange } = useStockPrice(stockCode);
   
   // 相关资讯状态
   const [relatedNews, setRelatedNews] = useState<NewsArticle[]>([]);
@@ -353,17 +351,6 @@ const USStockDetailScreen = () => {
     loadCoreData();
   }, [stockCode, selectedTimePeriod]);
 
-  // 管理实时价格轮询
-  useEffect(() => {
-    // 当组件挂载时启动轮询
-    startPolling();
-    
-    // 组件卸载时停止轮询
-    return () => {
-      stopPolling();
-    };
-  }, []);
-
   // 并行加载股票图标（独立状态管理）
   useEffect(() => {
     const loadLogo = async () => {
@@ -706,6 +693,9 @@ const USStockDetailScreen = () => {
           <View style={styles.actionButtonCompact}>
             <SkeletonBox width={20} height={20} borderRadius={10} />
           </View>
+          <View style={styles.actionButtonCompact}>
+            <SkeletonBox width={20} height={20} borderRadius={10} />
+          </View>
         </View>
       </View>
     </View>
@@ -799,6 +789,14 @@ const USStockDetailScreen = () => {
     setShowShareModal(true);
   };
 
+  // 打开走势对比，默认与标普500对比
+  const handleComparePress = () => {
+    // @ts-ignore
+    navigation.navigate('StockComparison', {
+      symbols: `${stockCode.toUpperCase()},SP500`
+    });
+  };
+
   return (
     <View style={styles.container}>
       {/* Header */}
@@ -903,7 +901,6 @@ const USStockDetailScreen = () => {
               stockSymbol={stockCode}
               currentPrice={(() => {
                 // 优先使用实时价格，如果没有则使用API返回的价格
-                const realTimePrice = getPrice(stockCode);
                 if (realTimePrice) {
                   return `$${realTimePrice.toLocaleString('en-US', {
                     minimumFractionDigits: 2,
@@ -915,7 +912,7 @@ const USStockDetailScreen = () => {
               priceChange24h={formatPriceChange(stockData.priceChange24h)}
               isPositive={isPricePositive(stockData.priceChange24h)}
               logoUrl={logoLoading ? '' : logoUrl}
-              priceChangeDirection={getPriceChange(stockCode)}
+              priceChangeDirection={realTimePriceChange}
               renderActionButtons={() => (
                 <View style={styles.actionButtonsHorizontal}>
                   <TouchableOpacity 
@@ -947,6 +944,14 @@ const USStockDetailScreen = () => {
                     />
                   </TouchableOpacity>
                   
+                  <TouchableOpacity 
+                    style={styles.actionButtonCompact}
+                    onPress={handleComparePress}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons name="git-compare-outline" size={22} color="#007AFF" />
+                  </TouchableOpacity>
+                  
                   <TouchableOpacity 
                     style={styles.actionButtonCompact}
                     onPress={handleSharePress}
@@ -1006,6 +1011,12 @@ const USStockDetailScreen = () => {
           )}
         </View>
         
+        {/* 财报 */}
+        <EarningsSection stockCode={stockCode} />
+
+        {/* 股息 */}
+        <DividendSection stockCode={stockCode} dividendYield={stockData?.dividendYield} />
+
         {/* 相关资讯 */}
         <View style={styles.newsSection}>
           <Text style={styles.sectionTitle}>相关资讯</Text>
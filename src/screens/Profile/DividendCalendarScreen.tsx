@@ -0,0 +1,460 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  RefreshControl,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import userStockService from '../../services/UserStockService';
+import portfolioService from '../../services/PortfolioService';
+import dividendService, {
+  DividendChange,
+  DividendIncomeSummary,
+  DividendWatchItem,
+} from '../../services/DividendService';
+
+const UI_COLORS = {
+  primary: '#007AFF',
+  text: '#333',
+  secondaryText: '#999',
+  success: '#34C759',
+};
+
+type DividendChangeType = 'start' | 'raise' | 'cut' | 'stop';
+
+const CHANGE_LABELS: Record<DividendChangeType, string> = {
+  start: '开始派息',
+  raise: '增派',
+  cut: '减派',
+  stop: '停止派息',
+};
+
+const CHANGE_COLORS: Record<DividendChangeType, string> = {
+  start: '#34C759',
+  raise: '#34C759',
+  cut: '#FF9500',
+  stop: '#FF3B30',
+};
+
+const getChangeType = (change: DividendChange): DividendChangeType => {
+  if (change.previousDividend <= 0) return 'start';
+  if (change.dividend <= 0) return 'stop';
+  return change.dividend > change.previousDividend ? 'raise' : 'cut';
+};
+
+const formatMoney = (value: number): string =>
+  `$${value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const EMPTY_INCOME: DividendIncomeSummary = { items: [], totalAnnualIncome: 0, yieldOnCost: 0, currentYield: 0 };
+
+/**
+ * 股息
+ * 持仓的预计股息收入与成本股息率，自选股和持仓的股息率及最近一年的股息调整
+ * 行情不提供除息日和派息日，收入按年度每股股息估算
+ */
+const DividendCalendarScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentUser } = useUser();
+
+  const [income, setIncome] = useState<DividendIncomeSummary>(EMPTY_INCOME);
+  const [stocks, setStocks] = useState<DividendWatchItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDividends = useCallback(async () => {
+    if (!currentUser) {
+      setIncome(EMPTY_INCOME);
+      setStocks([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      setError(null);
+      const [stockResult, holdings] = await Promise.all([
+        userStockService.getUserStocks(currentUser.email),
+        portfolioService.getHoldings(currentUser.email),
+      ]);
+      const watchlist: string[] = stockResult.success && stockResult.data
+        ? ((stockResult.data as any).stocks || []).map((item: { stock: string }) => item.stock)
+        : [];
+
+      const [holdingsIncome, watchItems] = await Promise.all([
+        dividendService.getHoldingsIncome(holdings),
+        dividendService.getWatchlistDividends([...watchlist, ...holdings.map(holding => holding.symbol)]),
+      ]);
+      setIncome(holdingsIncome);
+      setStocks(watchItems);
+    } catch (err) {
+      console.error('❌ DividendCalendarScreen: 加载股息数据失败:', err);
+      setError('加载股息数据失败');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [currentUser]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadDividends();
+    }, [loadDividends])
+  );
+
+  // 最近一年的股息调整，按日期倒序
+  const changes = useMemo(
+    () =>
+      stocks
+        .map(item => item.lastChange)
+        .filter((change): change is DividendChange => change !== null)
+        .sort((a, b) => b.date.localeCompare(a.date)),
+    [stocks]
+  );
+
+  const handleStockPress = (code: string) => {
+    // @ts-ignore
+    navigation.navigate('CoinDetail', {
+      name: code,
+      stockCode: code,
+      returnTo: 'UserStock',
+      isStock: true,
+    });
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>股息</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  const renderChange = (change: DividendChange) => {
+    const type = getChangeType(change);
+    return (
+      <TouchableOpacity
+        key={`${change.code}-${change.date}`}
+        style={styles.eventRow}
+        onPress={() => handleStockPress(change.code)}
+        activeOpacity={0.7}
+      >
+        <View style={[styles.typeBadge, { backgroundColor: CHANGE_COLORS[type] }]}>
+          <Text style={styles.typeBadgeText}>{CHANGE_LABELS[type]}</Text>
+        </View>
+        <View style={styles.eventContent}>
+          <Text style={styles.eventCode}>{change.code}</Text>
+          <Text style={styles.eventMeta}>{change.date}</Text>
+        </View>
+        <View style={styles.eventRight}>
+          <Text style={styles.eventValue}>{dividendService.formatAmount(change.dividend)}/股</Text>
+          <Text style={styles.eventMeta}>
+            原 {dividendService.formatAmount(change.previousDividend)}
+            {change.change !== null ? `（${change.change >= 0 ? '+' : ''}${change.change.toFixed(1)}%）` : ''}
+          </Text>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  if (!currentUser) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyContainer}>
+          <Ionicons name="cash-outline" size={64} color="#999" />
+          <Text style={styles.emptyText}>请先登录后查看股息</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8f9fa" />
+      {renderHeader()}
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadDividends();
+            }}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" color={UI_COLORS.primary} />
+        ) : error ? (
+          <View style={styles.errorContainer}>
+            <Text style={styles.errorText}>{error}</Text>
+            <TouchableOpacity style={styles.retryButton} onPress={loadDividends}>
+              <Text style={styles.retryButtonText}>重试</Text>
+            </TouchableOpacity>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>持仓股息收入</Text>
+              <View style={styles.card}>
+                <Text style={styles.summaryLabel}>预计年收入</Text>
+                <Text style={styles.summaryValue}>{formatMoney(income.totalAnnualIncome)}</Text>
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryLabel}>月均</Text>
+                    <Text style={styles.summaryItemValue}>{formatMoney(income.totalAnnualIncome / 12)}</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryLabel}>成本股息率</Text>
+                    <Text style={styles.summaryItemValue}>{dividendService.formatYield(income.yieldOnCost)}</Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryLabel}>当前股息率</Text>
+                    <Text style={styles.summaryItemValue}>{dividendService.formatYield(income.currentYield)}</Text>
+                  </View>
+                </View>
+                {income.items.map(item => (
+                  <TouchableOpacity
+                    key={item.symbol}
+                    style={styles.eventRow}
+                    onPress={() => handleStockPress(item.symbol)}
+                    activeOpacity={0.7}
+                  >
+                    <View style={styles.eventContent}>
+                      <Text style={styles.eventCode}>{item.symbol}</Text>
+                      <Text style={styles.eventMeta}>
+                        {dividendService.formatAmount(item.annualDividend)}/股 × {item.shares} 股
+                      </Text>
+                    </View>
+                    <View style={styles.eventRight}>
+                      <Text style={styles.eventIncome}>{formatMoney(item.annualIncome)}</Text>
+                      <Text style={styles.eventMeta}>成本股息率 {dividendService.formatYield(item.yieldOnCost)}</Text>
+                    </View>
+                  </TouchableOpacity>
+                ))}
+                <Text style={styles.summaryHint}>按行情中的年度每股股息估算，暂不提供除息日和派息日</Text>
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>近一年股息调整</Text>
+              {changes.length === 0 ? (
+                <Text style={styles.placeholderText}>自选股和持仓近一年内暂无股息调整</Text>
+              ) : (
+                <View style={styles.card}>{changes.map(renderChange)}</View>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>股息率</Text>
+              {stocks.length === 0 ? (
+                <Text style={styles.placeholderText}>自选股和持仓暂无派息股票</Text>
+              ) : (
+                <View style={styles.card}>
+                  {stocks.map(item => (
+                    <TouchableOpacity
+                      key={item.code}
+                      style={styles.eventRow}
+                      onPress={() => handleStockPress(item.code)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.eventContent}>
+                        <Text style={styles.eventCode}>{item.code}</Text>
+                        <Text style={styles.eventMeta}>
+                          年度股息 {item.annualDividend > 0 ? dividendService.formatAmount(item.annualDividend) : '已停止'}
+                        </Text>
+                      </View>
+                      <View style={styles.eventRight}>
+                        <Text style={styles.eventValue}>{dividendService.formatYield(item.dividendYield)}</Text>
+                      </View>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 16,
+  },
+  errorContainer: {
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  errorText: {
+    fontSize: 14,
+    color: '#FF6B6B',
+  },
+  retryButton: {
+    marginTop: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 6,
+  },
+  retryButtonText: {
+    color: 'white',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+    paddingHorizontal: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  summaryItem: {
+    flex: 1,
+  },
+  summaryItemValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  summaryHint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 32,
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  typeBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 3,
+    borderRadius: 4,
+    marginRight: 12,
+  },
+  typeBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  eventContent: {
+    flex: 1,
+  },
+  eventCode: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  eventMeta: {
+    fontSize: 12,
+    color: '#999',
+  },
+  eventRight: {
+    alignItems: 'flex-end',
+  },
+  eventValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  eventIncome: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: UI_COLORS.success,
+    marginBottom: 2,
+  },
+});
+
+export default DividendCalendarScreen;
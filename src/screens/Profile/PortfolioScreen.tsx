@@ -0,0 +1,693 @@
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  RefreshControl,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import { useUSStockRealTimePrice } from '../../contexts/USStockRealTimePriceContext';
+import portfolioService, {
+  Holding,
+  PortfolioQuote,
+  calculatePortfolioSummary,
+} from '../../services/PortfolioService';
+import stockService, { TransformedStockData } from '../../services/StockService';
+import dividendService, { calculateDividendIncome, getAnnualDividends } from '../../services/DividendService';
+import MessageModal from '../../components/common/MessageModal';
+import { parseAbbreviatedNumber } from '../../utils/numberUtils';
+
+const UI_COLORS = {
+  primary: '#007AFF',
+  text: '#333',
+  secondaryText: '#999',
+  success: '#34C759',
+  danger: '#FF3B30',
+};
+
+// 行业分布条颜色
+const SECTOR_COLORS = ['#1976D2', '#43A047', '#FB8C00', '#8E24AA', '#E53935', '#00ACC1', '#6D4C41', '#546E7A'];
+
+const formatMoney = (value: number): string => {
+  const sign = value < 0 ? '-' : '';
+  return `${sign}$${Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+};
+
+const formatSignedMoney = (value: number): string => `${value >= 0 ? '+' : ''}${formatMoney(value)}`;
+
+const formatSignedPercent = (value: number): string => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`;
+
+const pnlColor = (value: number) => (value >= 0 ? UI_COLORS.success : UI_COLORS.danger);
+
+const PortfolioScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentUser } = useUser();
+  const { getPrice, startPolling, stopPolling, subscribeSymbols } = useUSStockRealTimePrice();
+
+  const [holdings, setHoldings] = useState<Holding[]>([]);
+  const [stockInfo, setStockInfo] = useState<Record<string, TransformedStockData>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [expandedSymbol, setExpandedSymbol] = useState<string | null>(null);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 新增持仓表单
+  const [symbol, setSymbol] = useState('');
+  const [shares, setShares] = useState('');
+  const [cost, setCost] = useState('');
+  const [buyDate, setBuyDate] = useState(new Date().toISOString().split('T')[0]);
+
+  const loadStockInfo = async (symbols: string[]) => {
+    if (symbols.length === 0) {
+      setStockInfo({});
+      return;
+    }
+    const stocks = await stockService.fetchMultipleStocks(symbols);
+    const infoMap: Record<string, TransformedStockData> = {};
+    stocks.forEach(stock => {
+      infoMap[stock.code.toUpperCase()] = stock;
+    });
+    setStockInfo(infoMap);
+  };
+
+  const loadPortfolio = useCallback(async () => {
+    if (!currentUser) {
+      setHoldings([]);
+      setLoading(false);
+      return;
+    }
+    try {
+      const data = await portfolioService.getHoldings(currentUser.email);
+      setHoldings(data);
+      await loadStockInfo(data.map(holding => holding.symbol));
+    } catch (error: any) {
+      console.error('❌ PortfolioScreen: 加载持仓失败:', error);
+      setErrorMessage(error.message || '加载持仓失败');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [currentUser]);
+
+  // 页面获得焦点时刷新（例如从交易导入页返回）
+  useFocusEffect(
+    useCallback(() => {
+      loadPortfolio();
+    }, [loadPortfolio])
+  );
+
+  // 页面显示期间使用实时价格
+  useEffect(() => {
+    startPolling();
+    return () => {
+      stopPolling();
+    };
+  }, []);
+
+  // 订阅持仓股票的实时推送
+  useEffect(() => subscribeSymbols(holdings.map(holding => holding.symbol)), [holdings]);
+
+  const quotes = useMemo(() => {
+    const result: Record<string, PortfolioQuote> = {};
+    holdings.forEach(holding => {
+      const info = stockInfo[holding.symbol];
+      const realTimePrice = getPrice(holding.symbol);
+      result[holding.symbol] = {
+        price: realTimePrice ?? parseAbbreviatedNumber(info?.currentPrice),
+        previousClose: parseAbbreviatedNumber(info?.previousClose),
+        sector: info?.sector,
+      };
+    });
+    return result;
+  }, [holdings, stockInfo, getPrice]);
+
+  const summary = useMemo(() => calculatePortfolioSummary(holdings, quotes), [holdings, quotes]);
+
+  // 年度每股股息取自行情 baseinfo.dividend
+  const dividendIncome = useMemo(
+    () => calculateDividendIncome(summary.positions, getAnnualDividends(Object.values(stockInfo))),
+    [summary, stockInfo]
+  );
+
+  const handleAddLot = async () => {
+    if (!currentUser) return;
+    try {
+      const updated = await portfolioService.addLot(currentUser.email, {
+        symbol,
+        shares: parseFloat(shares),
+        costPerShare: parseFloat(cost),
+        buyDate,
+      });
+      setHoldings(updated);
+      setSymbol('');
+      setShares('');
+      setCost('');
+      await loadStockInfo(updated.map(holding => holding.symbol));
+    } catch (error: any) {
+      setErrorMessage(error.message || '添加持仓失败');
+    }
+  };
+
+  const handleRemoveLot = async (holdingSymbol: string, lotId: string) => {
+    if (!currentUser) return;
+    const updated = await portfolioService.removeLot(currentUser.email, holdingSymbol, lotId);
+    setHoldings(updated);
+  };
+
+  const handleStockPress = (stockSymbol: string) => {
+    // @ts-ignore
+    navigation.navigate('CoinDetail', {
+      name: stockSymbol,
+      stockCode: stockSymbol,
+      returnTo: 'UserStock',
+      isStock: true,
+    });
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>我的持仓</Text>
+      {currentUser ? (
+        <TouchableOpacity style={styles.backButton} onPress={() => navigation.navigate('TradeImport' as never)}>
+          <Ionicons name="cloud-upload-outline" size={22} color="#007AFF" />
+        </TouchableOpacity>
+      ) : (
+        <View style={styles.headerPlaceholder} />
+      )}
+    </View>
+  );
+
+  if (!currentUser) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyContainer}>
+          <Ionicons name="briefcase-outline" size={64} color="#999" />
+          <Text style={styles.emptyText}>请先登录后管理持仓</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8f9fa" />
+      {renderHeader()}
+
+      <ScrollView
+        style={styles.scrollView}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={() => {
+              setRefreshing(true);
+              loadPortfolio();
+            }}
+          />
+        }
+        showsVerticalScrollIndicator={false}
+      >
+        {loading ? (
+          <ActivityIndicator style={styles.loading} size="large" color={UI_COLORS.primary} />
+        ) : (
+          <>
+            {/* 组合汇总 */}
+            <View style={styles.section}>
+              <View style={styles.card}>
+                <Text style={styles.summaryLabel}>总市值</Text>
+                <Text style={styles.summaryValue}>{formatMoney(summary.totalMarketValue)}</Text>
+                <View style={styles.summaryRow}>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryLabel}>持仓盈亏</Text>
+                    <Text style={[styles.summaryItemValue, { color: pnlColor(summary.totalUnrealizedPnL) }]}>
+                      {formatSignedMoney(summary.totalUnrealizedPnL)}
+                    </Text>
+                    <Text style={[styles.summaryPercent, { color: pnlColor(summary.totalUnrealizedPnL) }]}>
+                      {formatSignedPercent(summary.totalUnrealizedPnLPercent)}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryLabel}>当日盈亏</Text>
+                    <Text style={[styles.summaryItemValue, { color: pnlColor(summary.totalDailyPnL) }]}>
+                      {formatSignedMoney(summary.totalDailyPnL)}
+                    </Text>
+                    <Text style={[styles.summaryPercent, { color: pnlColor(summary.totalDailyPnL) }]}>
+                      {formatSignedPercent(summary.totalDailyPnLPercent)}
+                    </Text>
+                  </View>
+                  <View style={styles.summaryItem}>
+                    <Text style={styles.summaryLabel}>总成本</Text>
+                    <Text style={styles.summaryItemValue}>{formatMoney(summary.totalCostBasis)}</Text>
+                  </View>
+                </View>
+              </View>
+            </View>
+
+            {/* 行业分布 */}
+            {summary.sectorAllocation.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>行业分布</Text>
+                <View style={styles.card}>
+                  <View style={styles.allocationBar}>
+                    {summary.sectorAllocation.map((item, index) => (
+                      <View
+                        key={item.sector}
+                        style={{ flex: item.weight, backgroundColor: SECTOR_COLORS[index % SECTOR_COLORS.length] }}
+                      />
+                    ))}
+                  </View>
+                  {summary.sectorAllocation.map((item, index) => (
+                    <View key={item.sector} style={styles.allocationRow}>
+                      <View style={[styles.allocationDot, { backgroundColor: SECTOR_COLORS[index % SECTOR_COLORS.length] }]} />
+                      <Text style={styles.allocationSector}>{item.sector}</Text>
+                      <Text style={styles.allocationSymbols} numberOfLines={1}>{item.symbols.join(', ')}</Text>
+                      <Text style={styles.allocationWeight}>{item.weight.toFixed(1)}%</Text>
+                    </View>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* 股息收入 */}
+            {dividendIncome.items.length > 0 && (
+              <View style={styles.section}>
+                <Text style={styles.sectionTitle}>股息收入</Text>
+                <View style={styles.card}>
+                  <View style={[styles.summaryRow, styles.dividendSummary]}>
+                    <View style={styles.summaryItem}>
+                      <Text style={styles.summaryLabel}>预计年收入</Text>
+                      <Text style={styles.summaryItemValue}>{formatMoney(dividendIncome.totalAnnualIncome)}</Text>
+                    </View>
+                    <View style={styles.summaryItem}>
+                      <Text style={styles.summaryLabel}>成本股息率</Text>
+                      <Text style={styles.summaryItemValue}>{dividendIncome.yieldOnCost.toFixed(2)}%</Text>
+                    </View>
+                    <View style={styles.summaryItem}>
+                      <Text style={styles.summaryLabel}>当前股息率</Text>
+                      <Text style={styles.summaryItemValue}>{dividendIncome.currentYield.toFixed(2)}%</Text>
+                    </View>
+                  </View>
+                  {dividendIncome.items.map(item => (
+                    <View key={item.symbol} style={styles.dividendRow}>
+                      <View style={styles.positionLeft}>
+                        <Text style={styles.dividendSymbol}>{item.symbol}</Text>
+                        <Text style={styles.positionMeta}>
+                          {dividendService.formatAmount(item.annualDividend)}/股 × {item.shares} 股
+                        </Text>
+                      </View>
+                      <View style={styles.positionRight}>
+                        <Text style={styles.dividendIncome}>{formatMoney(item.annualIncome)}</Text>
+                        <Text style={styles.positionMeta}>成本股息率 {item.yieldOnCost.toFixed(2)}%</Text>
+                      </View>
+                    </View>
+                  ))}
+                  <TouchableOpacity
+                    style={styles.detailLink}
+                    onPress={() => navigation.navigate('DividendCalendar' as never)}
+                  >
+                    <Text style={styles.detailLinkText}>股息详情</Text>
+                    <Ionicons name="chevron-forward" size={14} color={UI_COLORS.primary} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+            )}
+
+            {/* 持仓明细 */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>持仓明细（{summary.positions.length}）</Text>
+              <View style={styles.card}>
+                {summary.positions.length === 0 ? (
+                  <Text style={styles.placeholderText}>暂无持仓，在下方添加买入记录</Text>
+                ) : (
+                  summary.positions.map(position => (
+                    <View key={position.symbol} style={styles.positionItem}>
+                      <TouchableOpacity
+                        style={styles.positionRow}
+                        onPress={() => setExpandedSymbol(expandedSymbol === position.symbol ? null : position.symbol)}
+                        onLongPress={() => handleStockPress(position.symbol)}
+                      >
+                        <View style={styles.positionLeft}>
+                          <Text style={styles.positionSymbol}>{position.symbol}</Text>
+                          <Text style={styles.positionMeta}>
+                            {position.shares} 股 · 均价 {formatMoney(position.averageCost)}
+                          </Text>
+                        </View>
+                        <View style={styles.positionRight}>
+                          <Text style={styles.positionValue}>{formatMoney(position.marketValue)}</Text>
+                          <Text style={[styles.positionPnL, { color: pnlColor(position.unrealizedPnL) }]}>
+                            {formatSignedMoney(position.unrealizedPnL)} ({formatSignedPercent(position.unrealizedPnLPercent)})
+                          </Text>
+                          <Text style={[styles.positionMeta, { color: pnlColor(position.dailyPnL) }]}>
+                            当日 {formatSignedMoney(position.dailyPnL)}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                      {expandedSymbol === position.symbol && (
+                        <View style={styles.lotsContainer}>
+                          {position.lots.map(lot => (
+                            <View key={lot.id} style={styles.lotRow}>
+                              <Text style={styles.lotText}>
+                                {lot.buyDate} · {lot.shares} 股 @ {formatMoney(lot.costPerShare)}
+                              </Text>
+                              <TouchableOpacity onPress={() => handleRemoveLot(position.symbol, lot.id)}>
+                                <Ionicons name="trash-outline" size={16} color={UI_COLORS.danger} />
+                              </TouchableOpacity>
+                            </View>
+                          ))}
+                          <TouchableOpacity style={styles.detailLink} onPress={() => handleStockPress(position.symbol)}>
+                            <Text style={styles.detailLinkText}>查看 {position.symbol} 详情</Text>
+                            <Ionicons name="chevron-forward" size={14} color={UI_COLORS.primary} />
+                          </TouchableOpacity>
+                        </View>
+                      )}
+                    </View>
+                  ))
+                )}
+              </View>
+            </View>
+
+            {/* 新增买入记录 */}
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>新增买入记录</Text>
+              <View style={styles.card}>
+                <TextInput
+                  style={styles.input}
+                  value={symbol}
+                  onChangeText={text => setSymbol(text.toUpperCase())}
+                  placeholder="股票代码，如 NVDA"
+                  autoCapitalize="characters"
+                  autoCorrect={false}
+                />
+                <View style={styles.inputRow}>
+                  <TextInput
+                    style={[styles.input, styles.inputHalf]}
+                    value={shares}
+                    onChangeText={setShares}
+                    placeholder="股数"
+                    keyboardType="decimal-pad"
+                  />
+                  <TextInput
+                    style={[styles.input, styles.inputHalf]}
+                    value={cost}
+                    onChangeText={setCost}
+                    placeholder="成本价"
+                    keyboardType="decimal-pad"
+                  />
+                </View>
+                <TextInput
+                  style={styles.input}
+                  value={buyDate}
+                  onChangeText={setBuyDate}
+                  placeholder="买入日期 YYYY-MM-DD"
+                />
+                <TouchableOpacity
+                  style={[styles.addButton, (!symbol || !shares || !cost) && styles.addButtonDisabled]}
+                  onPress={handleAddLot}
+                  disabled={!symbol || !shares || !cost}
+                >
+                  <Ionicons name="add-circle-outline" size={18} color="#fff" />
+                  <Text style={styles.addButtonText}>添加持仓</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </>
+        )}
+      </ScrollView>
+
+      <MessageModal
+        visible={!!errorMessage}
+        type="error"
+        title="操作失败"
+        message={errorMessage || ''}
+        buttons={[{ text: '确定', onPress: () => setErrorMessage(null) }]}
+        onClose={() => setErrorMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  summaryLabel: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 4,
+  },
+  summaryValue: {
+    fontSize: 28,
+    fontWeight: '700',
+    color: '#333',
+    marginBottom: 16,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+  },
+  summaryItem: {
+    flex: 1,
+  },
+  summaryItemValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  summaryPercent: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+  allocationBar: {
+    flexDirection: 'row',
+    height: 12,
+    borderRadius: 6,
+    overflow: 'hidden',
+    marginBottom: 12,
+  },
+  allocationRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  allocationDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 8,
+  },
+  allocationSector: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '500',
+    marginRight: 8,
+  },
+  allocationSymbols: {
+    flex: 1,
+    fontSize: 12,
+    color: '#999',
+  },
+  allocationWeight: {
+    fontSize: 14,
+    color: '#333',
+    fontWeight: '600',
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  dividendSummary: {
+    marginBottom: 8,
+  },
+  dividendRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderTopWidth: 1,
+    borderTopColor: '#f1f3f4',
+  },
+  dividendSymbol: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  dividendIncome: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 2,
+  },
+  positionItem: {
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f4',
+  },
+  positionRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+  },
+  positionLeft: {
+    flex: 1,
+  },
+  positionRight: {
+    alignItems: 'flex-end',
+  },
+  positionSymbol: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 4,
+  },
+  positionMeta: {
+    fontSize: 12,
+    color: '#999',
+  },
+  positionValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+  },
+  positionPnL: {
+    fontSize: 13,
+    marginVertical: 2,
+  },
+  lotsContainer: {
+    backgroundColor: '#f8f9fa',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 12,
+  },
+  lotRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  lotText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  detailLink: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    paddingTop: 6,
+  },
+  detailLinkText: {
+    fontSize: 13,
+    color: '#007AFF',
+    marginRight: 2,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 12,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  inputHalf: {
+    width: '48%',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+});
+
+export default PortfolioScreen;
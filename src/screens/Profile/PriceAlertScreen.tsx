@@ -0,0 +1,382 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  Platform,
+  StatusBar,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import { usePriceAlerts } from '../../contexts/PriceAlertContext';
+import {
+  PriceAlertType,
+  PRICE_ALERT_TYPE_LABELS,
+  describePriceAlertRule,
+} from '../../services/PriceAlertService';
+import MessageModal from '../../components/common/MessageModal';
+import { UserStockStackParamList } from '../../navigation/LinkingConfiguration';
+
+// 各提醒类型的阈值输入提示
+const THRESHOLD_PLACEHOLDERS: Record<PriceAlertType, string> = {
+  price_above: '目标价格，如 180',
+  price_below: '目标价格，如 150',
+  change_percent: '涨跌幅(%)，如 5',
+  volume_spike: '放大倍数，如 2',
+};
+
+const ALERT_TYPES: PriceAlertType[] = ['price_above', 'price_below', 'change_percent', 'volume_spike'];
+
+const PriceAlertScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<UserStockStackParamList, 'PriceAlerts'>>();
+  const { currentUser } = useUser();
+  const { rules, history, unreadCount, addRule, removeRule, setRuleEnabled, markAllRead, clearHistory } = usePriceAlerts();
+
+  const initialSymbol = (route.params?.symbol || '').toUpperCase();
+  const [symbol, setSymbol] = useState(initialSymbol);
+  const [alertType, setAlertType] = useState<PriceAlertType>('price_above');
+  const [threshold, setThreshold] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+
+  // 进入页面即视为已读
+  useEffect(() => {
+    if (unreadCount > 0) {
+      markAllRead();
+    }
+  }, [unreadCount]);
+
+  const handleAddRule = async () => {
+    if (submitting) return;
+    try {
+      setSubmitting(true);
+      await addRule({
+        symbol,
+        type: alertType,
+        threshold: parseFloat(threshold),
+      });
+      setThreshold('');
+    } catch (error: any) {
+      setErrorMessage(error.message || '添加提醒失败');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>价格提醒</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  if (!currentUser) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyContainer}>
+          <Ionicons name="notifications-outline" size={64} color="#999" />
+          <Text style={styles.emptyText}>请先登录后设置价格提醒</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8f9fa" />
+      {renderHeader()}
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* 新建提醒 */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>新建提醒</Text>
+          <View style={styles.card}>
+            <TextInput
+              style={styles.input}
+              value={symbol}
+              onChangeText={text => setSymbol(text.toUpperCase())}
+              placeholder="股票代码，如 NVDA"
+              autoCapitalize="characters"
+              autoCorrect={false}
+            />
+            <View style={styles.typeRow}>
+              {ALERT_TYPES.map(type => (
+                <TouchableOpacity
+                  key={type}
+                  style={[styles.typeOption, alertType === type && styles.typeOptionSelected]}
+                  onPress={() => setAlertType(type)}
+                >
+                  <Text style={[styles.typeOptionText, alertType === type && styles.typeOptionTextSelected]}>
+                    {PRICE_ALERT_TYPE_LABELS[type]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+            <TextInput
+              style={styles.input}
+              value={threshold}
+              onChangeText={setThreshold}
+              placeholder={THRESHOLD_PLACEHOLDERS[alertType]}
+              keyboardType="decimal-pad"
+            />
+            <TouchableOpacity
+              style={[styles.addButton, (!symbol || !threshold || submitting) && styles.addButtonDisabled]}
+              onPress={handleAddRule}
+              disabled={!symbol || !threshold || submitting}
+            >
+              <Ionicons name="add-circle-outline" size={18} color="#fff" />
+              <Text style={styles.addButtonText}>添加提醒</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* 规则列表 */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>我的提醒（{rules.length}）</Text>
+          <View style={styles.card}>
+            {rules.length === 0 ? (
+              <Text style={styles.placeholderText}>暂无提醒规则</Text>
+            ) : (
+              rules.map(rule => (
+                <View key={rule.id} style={styles.row}>
+                  <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle}>{describePriceAlertRule(rule)}</Text>
+                    <Text style={styles.rowSubtitle}>
+                      {rule.lastTriggeredAt
+                        ? `上次触发 ${new Date(rule.lastTriggeredAt).toLocaleString('zh-CN')}`
+                        : '尚未触发'}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={rule.enabled}
+                    onValueChange={enabled => setRuleEnabled(rule.id, enabled)}
+                  />
+                  <TouchableOpacity style={styles.deleteButton} onPress={() => removeRule(rule.id)}>
+                    <Ionicons name="trash-outline" size={18} color="#FF3B30" />
+                  </TouchableOpacity>
+                </View>
+              ))
+            )}
+          </View>
+        </View>
+
+        {/* 触发历史 */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeaderRow}>
+            <Text style={styles.sectionTitle}>触发记录</Text>
+            {history.length > 0 && (
+              <TouchableOpacity onPress={clearHistory}>
+                <Text style={styles.clearText}>清空</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.card}>
+            {history.length === 0 ? (
+              <Text style={styles.placeholderText}>暂无触发记录</Text>
+            ) : (
+              history.map(item => (
+                <View key={item.id} style={styles.row}>
+                  <Ionicons
+                    name="notifications"
+                    size={16}
+                    color={item.read ? '#999' : '#007AFF'}
+                    style={styles.historyIcon}
+                  />
+                  <View style={styles.rowContent}>
+                    <Text style={styles.rowTitle}>{item.message}</Text>
+                    <Text style={styles.rowSubtitle}>{new Date(item.triggeredAt).toLocaleString('zh-CN')}</Text>
+                  </View>
+                </View>
+              ))
+            )}
+          </View>
+        </View>
+      </ScrollView>
+
+      <MessageModal
+        visible={!!errorMessage}
+        type="error"
+        title="添加失败"
+        message={errorMessage || ''}
+        buttons={[{ text: '确定', onPress: () => setErrorMessage(null) }]}
+        onClose={() => setErrorMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingRight: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  clearText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 12,
+  },
+  typeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 12,
+  },
+  typeOption: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#f2f2f7',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  typeOptionSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  typeOptionText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '500',
+  },
+  typeOptionTextSelected: {
+    color: '#fff',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+    marginLeft: 6,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f4',
+  },
+  rowContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  rowTitle: {
+    fontSize: 14,
+    color: '#333',
+    marginBottom: 4,
+  },
+  rowSubtitle: {
+    fontSize: 12,
+    color: '#999',
+  },
+  deleteButton: {
+    padding: 8,
+    marginLeft: 4,
+  },
+  historyIcon: {
+    marginRight: 10,
+  },
+});
+
+export default PriceAlertScreen;
@@ -0,0 +1,492 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import tradeJournalService, {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportPreview,
+  TradeField,
+  TRADE_FIELD_LABELS,
+  detectColumnMapping,
+} from '../../services/TradeJournalService';
+import portfolioService from '../../services/PortfolioService';
+import MessageModal from '../../components/common/MessageModal';
+import { parseCSV, detectDelimiter } from '../../utils/csvUtils';
+import { exportTextFile, pickTextFileOnWeb } from '../../utils/fileExport';
+
+const DATE_FORMATS: CsvDateFormat[] = ['auto', 'YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'YYYYMMDD'];
+const MAPPABLE_FIELDS: TradeField[] = ['symbol', 'side', 'shares', 'price', 'date', 'fee'];
+// 预览最多展示的行数
+const PREVIEW_ROW_LIMIT = 100;
+
+const TradeImportScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentUser } = useUser();
+
+  const [csvText, setCsvText] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<CsvColumnMapping>({});
+  const [dateFormat, setDateFormat] = useState<CsvDateFormat>('auto');
+  const [decimalComma, setDecimalComma] = useState(false);
+  const [syncToPortfolio, setSyncToPortfolio] = useState(true);
+  const [preview, setPreview] = useState<CsvImportPreview | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [transactionCount, setTransactionCount] = useState(0);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; title: string; text: string } | null>(null);
+
+  const refreshCount = async () => {
+    if (!currentUser) return;
+    const transactions = await tradeJournalService.getTransactions(currentUser.email);
+    setTransactionCount(transactions.length);
+  };
+
+  useEffect(() => {
+    refreshCount();
+  }, [currentUser]);
+
+  // CSV内容变化时重新识别表头和列映射
+  useEffect(() => {
+    setPreview(null);
+    if (!csvText.trim()) {
+      setHeaders([]);
+      setMapping({});
+      return;
+    }
+    const [firstRow] = parseCSV(csvText, detectDelimiter(csvText));
+    const detectedHeaders = firstRow || [];
+    setHeaders(detectedHeaders);
+    setMapping(detectColumnMapping(detectedHeaders));
+  }, [csvText]);
+
+  const handlePickFile = async () => {
+    try {
+      const content = await pickTextFileOnWeb();
+      if (content !== null) {
+        setCsvText(content);
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', title: '读取文件失败', text: error.message || '请重试' });
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!currentUser) return;
+    try {
+      setBusy(true);
+      const result = await tradeJournalService.previewImport(currentUser.email, csvText, {
+        mapping,
+        dateFormat,
+        decimalSeparator: decimalComma ? ',' : '.',
+      });
+      setPreview(result);
+    } catch (error: any) {
+      setPreview(null);
+      setMessage({ type: 'error', title: '解析失败', text: error.message || 'CSV解析失败' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!currentUser || !preview) return;
+    try {
+      setBusy(true);
+      const imported = await tradeJournalService.commitImport(currentUser.email, preview);
+      if (syncToPortfolio && imported.length > 0) {
+        await portfolioService.applyTransactions(currentUser.email, imported);
+      }
+      setPreview(null);
+      setCsvText('');
+      await refreshCount();
+      setMessage({
+        type: 'success',
+        title: '导入完成',
+        text: `已导入 ${imported.length} 条交易记录${syncToPortfolio ? '，并同步到持仓' : ''}`,
+      });
+    } catch (error: any) {
+      setMessage({ type: 'error', title: '导入失败', text: error.message || '请稍后重试' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleExport = async () => {
+    if (!currentUser) return;
+    try {
+      const content = await tradeJournalService.exportCSV(currentUser.email);
+      await exportTextFile(`trades-${new Date().toISOString().split('T')[0]}.csv`, content);
+    } catch (error: any) {
+      setMessage({ type: 'error', title: '导出失败', text: error.message || '请稍后重试' });
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>交易记录导入</Text>
+      <TouchableOpacity style={styles.backButton} onPress={handleExport} disabled={transactionCount === 0}>
+        <Ionicons name="download-outline" size={22} color={transactionCount === 0 ? '#ccc' : '#007AFF'} />
+      </TouchableOpacity>
+    </View>
+  );
+
+  if (!currentUser) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyContainer}>
+          <Ionicons name="document-text-outline" size={64} color="#999" />
+          <Text style={styles.emptyText}>请先登录后导入交易记录</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8f9fa" />
+      {renderHeader()}
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <Text style={styles.hint}>已保存 {transactionCount} 条交易记录，点击右上角可导出为CSV</Text>
+
+        {/* CSV内容 */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeaderRow}>
+            <Text style={styles.sectionTitle}>券商CSV</Text>
+            {Platform.OS === 'web' && (
+              <TouchableOpacity onPress={handlePickFile}>
+                <Text style={styles.linkText}>选择文件</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.card}>
+            <TextInput
+              style={styles.textArea}
+              value={csvText}
+              onChangeText={setCsvText}
+              placeholder={'粘贴CSV内容，例如：\nDate,Symbol,Side,Shares,Price,Fee\n2024-03-01,NVDA,buy,10,850.5,1'}
+              multiline
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+          </View>
+        </View>
+
+        {/* 列映射 */}
+        {headers.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>列映射</Text>
+            <View style={styles.card}>
+              {MAPPABLE_FIELDS.map(field => (
+                <View key={field} style={styles.mappingRow}>
+                  <Text style={styles.mappingLabel}>{TRADE_FIELD_LABELS[field]}</Text>
+                  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                    {['', ...headers].map(header => {
+                      const selected = (mapping[field] || '') === header;
+                      return (
+                        <TouchableOpacity
+                          key={header || '__none'}
+                          style={[styles.chip, selected && styles.chipSelected]}
+                          onPress={() => {
+                            setPreview(null);
+                            setMapping(prev => ({ ...prev, [field]: header || undefined }));
+                          }}
+                        >
+                          <Text style={[styles.chipText, selected && styles.chipTextSelected]}>
+                            {header || '无'}
+                          </Text>
+                        </TouchableOpacity>
+                      );
+                    })}
+                  </ScrollView>
+                </View>
+              ))}
+
+              <View style={styles.mappingRow}>
+                <Text style={styles.mappingLabel}>日期格式</Text>
+                <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+                  {DATE_FORMATS.map(format => (
+                    <TouchableOpacity
+                      key={format}
+                      style={[styles.chip, dateFormat === format && styles.chipSelected]}
+                      onPress={() => {
+                        setPreview(null);
+                        setDateFormat(format);
+                      }}
+                    >
+                      <Text style={[styles.chipText, dateFormat === format && styles.chipTextSelected]}>
+                        {format === 'auto' ? '自动' : format}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </View>
+
+              <View style={styles.switchRow}>
+                <Text style={styles.mappingLabel}>逗号作为小数点</Text>
+                <Switch value={decimalComma} onValueChange={value => { setPreview(null); setDecimalComma(value); }} />
+              </View>
+
+              <TouchableOpacity style={styles.primaryButton} onPress={handlePreview} disabled={busy}>
+                {busy ? <ActivityIndicator color="#fff" /> : <Text style={styles.primaryButtonText}>预览导入</Text>}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {/* 预览结果 */}
+        {preview && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>预览（共 {preview.rows.length} 行）</Text>
+            <View style={styles.card}>
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryText, { color: '#34C759' }]}>可导入 {preview.validCount}</Text>
+                <Text style={[styles.summaryText, { color: '#FF9500' }]}>重复 {preview.duplicateCount}</Text>
+                <Text style={[styles.summaryText, { color: '#FF3B30' }]}>错误 {preview.errorCount}</Text>
+              </View>
+
+              {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map(row => (
+                <View key={row.rowNumber} style={styles.previewRow}>
+                  <Text style={styles.rowNumber}>#{row.rowNumber}</Text>
+                  <View style={styles.previewContent}>
+                    {row.transaction ? (
+                      <Text style={[styles.previewText, row.duplicate && styles.duplicateText]}>
+                        {row.transaction.tradeDate} {row.transaction.side === 'buy' ? '买入' : '卖出'} {row.transaction.symbol}{' '}
+                        {row.transaction.shares} 股 @ ${row.transaction.price}
+                        {row.duplicate ? '（重复，将跳过）' : ''}
+                      </Text>
+                    ) : (
+                      row.errors.map((error, index) => (
+                        <Text key={index} style={styles.errorText}>{error}</Text>
+                      ))
+                    )}
+                  </View>
+                </View>
+              ))}
+              {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                <Text style={styles.hint}>仅显示前 {PREVIEW_ROW_LIMIT} 行</Text>
+              )}
+
+              <View style={styles.switchRow}>
+                <Text style={styles.mappingLabel}>同步到持仓</Text>
+                <Switch value={syncToPortfolio} onValueChange={setSyncToPortfolio} />
+              </View>
+
+              <TouchableOpacity
+                style={[styles.primaryButton, preview.validCount === 0 && styles.buttonDisabled]}
+                onPress={handleImport}
+                disabled={busy || preview.validCount === 0}
+              >
+                <Text style={styles.primaryButtonText}>导入 {preview.validCount} 条记录</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      <MessageModal
+        visible={!!message}
+        type={message?.type || 'info'}
+        title={message?.title || ''}
+        message={message?.text || ''}
+        buttons={[{ text: '确定', onPress: () => setMessage(null) }]}
+        onClose={() => setMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 16,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    paddingHorizontal: 16,
+    marginTop: 12,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingRight: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  textArea: {
+    minHeight: 140,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    color: '#333',
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  mappingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 10,
+  },
+  mappingLabel: {
+    width: 90,
+    fontSize: 14,
+    color: '#666',
+  },
+  switchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginVertical: 8,
+  },
+  chip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 14,
+    borderWidth: 1,
+    borderColor: '#e5e5ea',
+    backgroundColor: '#f2f2f7',
+    marginRight: 6,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 12,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    marginTop: 8,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f4',
+  },
+  rowNumber: {
+    width: 40,
+    fontSize: 12,
+    color: '#999',
+  },
+  previewContent: {
+    flex: 1,
+  },
+  previewText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  duplicateText: {
+    color: '#FF9500',
+  },
+  errorText: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+});
+
+export default TradeImportScreen;
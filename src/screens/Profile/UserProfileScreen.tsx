@@ -9,12 +9,15 @@ import {
   RefreshControl,
   Platform,
   StatusBar,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { Ionicons } from '@expo/vector-icons';
 import { useUser } from '../../contexts/UserContext';
 import MessageModal from '../../components/common/MessageModal';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import apiConfig from '../../config/apiConfig';
+import { useEndpointHealth } from '../../hooks/useEndpointHealth';
 
 const UserProfileScreen: React.FC = () => {
   const navigation = useNavigation();
@@ -23,6 +26,8 @@ const UserProfileScreen: React.FC = () => {
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
   const [tokenInfo, setTokenInfo] = useState<any>(null);
   const [storageInfo, setStorageInfo] = useState<any>(null);
+  const endpointHealth = useEndpointHealth();
+  const [probing, setProbing] = useState(false);
 
   // 解析JWT token获取信息
   const parseJWTToken = (token: string) => {
@@ -104,6 +109,16 @@ const UserProfileScreen: React.FC = () => {
     navigation.goBack();
   };
 
+  // 检测所有接入点，评分更好的接入点可用时自动切换
+  const probeEndpoints = async () => {
+    setProbing(true);
+    try {
+      await apiConfig.probeAllEndpoints();
+    } finally {
+      setProbing(false);
+    }
+  };
+
   // 复制到剪贴板
   const copyToClipboard = (text: string, label: string) => {
     // 在React Native中，需要使用Clipboard API
@@ -294,6 +309,49 @@ const UserProfileScreen: React.FC = () => {
           </View>
         )}
 
+        {/* 网络诊断 */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>网络诊断</Text>
+          
+          <View style={styles.infoCard}>
+            {endpointHealth.map(endpoint => {
+              const checked = endpoint.lastSuccessAt !== null || endpoint.lastFailureAt !== null;
+              const statusColor = !checked ? '#999' : endpoint.healthy ? '#4CAF50' : '#FF3B30';
+              return (
+                <View key={endpoint.url} style={styles.endpointRow}>
+                  <View style={styles.endpointHeader}>
+                    <View style={[styles.statusDot, { backgroundColor: statusColor }]} />
+                    <Text style={styles.endpointName}>{endpoint.name}</Text>
+                    {endpoint.isCurrent && (
+                      <View style={styles.currentBadge}>
+                        <Text style={styles.currentBadgeText}>当前</Text>
+                      </View>
+                    )}
+                    <Text style={[styles.endpointStatus, { color: statusColor }]}>
+                      {!checked ? '未检测' : endpoint.healthy ? '正常' : '异常'}
+                    </Text>
+                  </View>
+                  <Text style={styles.endpointUrl}>{endpoint.url}</Text>
+                  <Text style={styles.endpointMetrics}>
+                    延迟 {endpoint.latency !== null ? `${endpoint.latency}ms` : '--'}
+                    {'  ·  '}失败率 {Math.round(endpoint.errorRate * 100)}%
+                    {endpoint.lastProbeAt !== null ? `  ·  探测于 ${new Date(endpoint.lastProbeAt).toLocaleTimeString('zh-CN')}` : ''}
+                  </Text>
+                </View>
+              );
+            })}
+
+            <TouchableOpacity style={styles.probeButton} onPress={probeEndpoints} disabled={probing}>
+              {probing ? (
+                <ActivityIndicator size="small" color="#007AFF" />
+              ) : (
+                <Ionicons name="pulse-outline" size={18} color="#007AFF" />
+              )}
+              <Text style={styles.probeButtonText}>{probing ? '检测中...' : '检测接入点'}</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+
         {/* 操作按钮 */}
         <View style={styles.section}>
           <TouchableOpacity style={styles.refreshButton} onPress={onRefresh}>
@@ -455,6 +513,67 @@ const styles = StyleSheet.create({
     marginLeft: 4,
     fontWeight: '600',
   },
+  endpointRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f4',
+  },
+  endpointHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 8,
+  },
+  endpointName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  currentBadge: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 4,
+    backgroundColor: '#E3F2FD',
+  },
+  currentBadgeText: {
+    fontSize: 11,
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  endpointStatus: {
+    marginLeft: 'auto',
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  endpointUrl: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 4,
+    marginLeft: 16,
+  },
+  endpointMetrics: {
+    fontSize: 12,
+    color: '#666',
+    marginTop: 4,
+    marginLeft: 16,
+  },
+  probeButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingTop: 14,
+  },
+  probeButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginLeft: 6,
+    fontWeight: '500',
+  },
   refreshButton: {
     flexDirection: 'row',
     alignItems: 'center',
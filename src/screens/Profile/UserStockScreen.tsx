@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import { 
   View, 
   Text, 
@@ -11,15 +11,22 @@ import {
 } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useNavigation, useFocusEffect } from '@react-navigation/native';
-import userStockService from '../../services/UserStockService';
+import userStockService, {
+  WatchlistLayout,
+  normalizeWatchlistLayout,
+  getWatchlistStockMeta,
+} from '../../services/UserStockService';
 import userArticleService, { FavoriteArticle } from '../../services/UserArticleService';
+import watchlistSyncService, { SyncQueueState } from '../../services/WatchlistSyncService';
 import { useUser } from '../../contexts/UserContext';
+import { usePriceAlerts } from '../../contexts/PriceAlertContext';
 import StockCard, { StockCardData } from '../../components/ui/StockCard';
 import stockService from '../../services/StockService';
 import stockLogoService from '../../services/StockLogoService';
 import TodayHeader from '../../components/common/TodayHeader';
 import LoginModal from '../../components/auth/LoginModal';
 import MessageModal from '../../components/common/MessageModal';
+import earningsService, { WatchlistEarnings, EARNINGS_STATUS_LABELS } from '../../services/EarningsService';
 
 // UI 颜色常量 - 与 MarketScreen 保持一致
 const UI_COLORS = {
@@ -109,6 +116,7 @@ const SkeletonCard: React.FC = () => (
 const UserStockScreen: React.FC = () => {
   const navigation = useNavigation();
   const { currentUser } = useUser();
+  const { rules: alertRules, unreadCount: unreadAlertCount } = usePriceAlerts();
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const [favoriteStocks, setFavoriteStocks] = useState<FavoriteStockItem[]>([]);
@@ -121,6 +129,17 @@ const UserStockScreen: React.FC = () => {
   const [favoriteArticlesLoading, setFavoriteArticlesLoading] = useState(false);
   const [favoriteArticlesError, setFavoriteArticlesError] = useState<string | null>(null);
   
+  // 自选股本周财报
+  const [weekEarnings, setWeekEarnings] = useState<WatchlistEarnings[]>([]);
+
+  // 自选分组与手动排序，selectedGroupId 为 null 时显示全部
+  const [watchlistLayout, setWatchlistLayout] = useState<WatchlistLayout | null>(null);
+  const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
+
+  // 离线同步：待同步的修改数量、是否在使用本地缓存的列表
+  const [syncState, setSyncState] = useState<SyncQueueState | null>(null);
+  const [isOffline, setIsOffline] = useState(false);
+  
   // 收起/展开状态
   const [favoriteStocksCollapsed, setFavoriteStocksCollapsed] = useState(true);
   const [favoriteArticlesCollapsed, setFavoriteArticlesCollapsed] = useState(true);
@@ -228,15 +247,19 @@ const UserStockScreen: React.FC = () => {
       setLoading(true);
       setError(null);
       
-      // 并行加载自选股票和收藏文章
-      const [stockResult] = await Promise.all([
+      // 并行加载自选股票、分组布局和收藏文章
+      const [stockResult, layoutResult] = await Promise.all([
         userStockService.getUserStocks(currentUser.email),
+        userStockService.getWatchlistLayout(currentUser.email),
         loadFavoriteArticles()
       ]);
       
       if (stockResult.success && stockResult.data && (stockResult.data as any).stocks) {
         const data = (stockResult.data as any).stocks as FavoriteStockItem[];
         setFavoriteStocks(data);
+        setIsOffline(!!stockResult.offline);
+        // 分组加载失败时所有股票归入默认分组，不影响自选列表展示
+        setWatchlistLayout(normalizeWatchlistLayout(layoutResult.data, data.map(i => i.stock.toUpperCase())));
         
         // 获取每个股票的基础信息
         if (data.length > 0) {
@@ -373,6 +396,35 @@ const UserStockScreen: React.FC = () => {
     }
   }, [stockData, selectedSortField, selectedSortOrder, sortStockData]);
 
+  // 按所选分组过滤；默认排序时使用分组内的手动顺序
+  const displayedStockData = useMemo(() => {
+    if (!watchlistLayout) {
+      return sortedStockData;
+    }
+    const groups = selectedGroupId
+      ? watchlistLayout.groups.filter(group => group.id === selectedGroupId)
+      : watchlistLayout.groups;
+    const order = groups.flatMap(group => group.stocks);
+    const visible = sortedStockData.filter(item => order.includes(item.symbol.toUpperCase()));
+    if (selectedSortField !== 'default') {
+      return visible;
+    }
+    return [...visible].sort(
+      (a, b) => order.indexOf(a.symbol.toUpperCase()) - order.indexOf(b.symbol.toUpperCase())
+    );
+  }, [sortedStockData, watchlistLayout, selectedGroupId, selectedSortField]);
+
+  // 订阅离线同步队列
+  useEffect(() => {
+    if (!currentUser) {
+      setSyncState(null);
+      return;
+    }
+    const update = () => setSyncState(watchlistSyncService.getState(currentUser.email));
+    update();
+    return watchlistSyncService.subscribe(update);
+  }, [currentUser]);
+
   // 监听用户状态变化
   useEffect(() => {
     loadFavorites();
@@ -392,7 +444,22 @@ const UserStockScreen: React.FC = () => {
     loadFavorites();
   };
 
-  const handleStockPress = (item: StockCardData) => {
+  // 自选股变化后加载本周财报
+  useEffect(() => {
+    if (favoriteStocks.length === 0) {
+      setWeekEarnings([]);
+      return;
+    }
+    earningsService
+      .getWatchlistEarnings(favoriteStocks.map(item => item.stock))
+      .then(setWeekEarnings)
+      .catch(err => {
+        console.error('❌ UserStockScreen: 加载本周财报失败', err);
+        setWeekEarnings([]);
+      });
+  }, [favoriteStocks]);
+
+  const handleStockPress = (item: Pick<StockCardData, 'symbol' | 'name'>) => {
     console.log('🔄 UserStockScreen: 股票卡片点击', { symbol: item.symbol, name: item.name });
     const params: any = {
       name: item.symbol,
@@ -501,6 +568,56 @@ const UserStockScreen: React.FC = () => {
     </View>
   );
 
+  // 渲染分组选项
+  const renderGroupOptions = () => (
+    <View style={styles.groupOptionsContainer}>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.sortOptionsList}
+      >
+        {[{ id: null, name: '全部' }, ...(watchlistLayout?.groups || [])].map(group => {
+          const isSelected = selectedGroupId === group.id;
+          return (
+            <TouchableOpacity
+              key={group.id || 'all'}
+              style={[styles.groupOption, isSelected && styles.selectedGroupOption]}
+              onPress={() => setSelectedGroupId(group.id)}
+            >
+              <Text style={[styles.groupOptionText, isSelected && styles.selectedGroupOptionText]}>
+                {group.name}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      <TouchableOpacity
+        style={styles.manageGroupButton}
+        onPress={() => navigation.navigate('WatchlistManage' as never)}
+      >
+        <Ionicons name="options-outline" size={16} color={UI_COLORS.primary} />
+        <Text style={styles.manageGroupText}>管理</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  // 渲染股票备注和目标价
+  const renderStockMeta = (item: StockCardData) => {
+    if (!watchlistLayout) return null;
+    const meta = getWatchlistStockMeta(watchlistLayout, item.symbol);
+    if (!meta.note && meta.targetPrice === null) return null;
+    return (
+      <View style={styles.stockMeta}>
+        {meta.targetPrice !== null && (
+          <Text style={styles.stockMetaTarget}>目标价 ${meta.targetPrice}</Text>
+        )}
+        {!!meta.note && (
+          <Text style={styles.stockMetaNote} numberOfLines={2}>{meta.note}</Text>
+        )}
+      </View>
+    );
+  };
+
   const renderItem = ({ item }: { item: StockCardData }) => (
     <StockCard
       data={item}
@@ -719,6 +836,114 @@ const UserStockScreen: React.FC = () => {
           />
         }
       >
+        {/* 离线同步状态 */}
+        {(isOffline || (syncState && syncState.pending > 0)) && (
+          <View style={styles.syncBanner}>
+            <Ionicons name="cloud-offline-outline" size={18} color="#FF9500" />
+            <Text style={styles.syncBannerText}>
+              {isOffline ? '网络不可用，显示的是本地缓存' : ''}
+              {isOffline && syncState && syncState.pending > 0 ? '，' : ''}
+              {syncState && syncState.pending > 0 ? `${syncState.pending} 项修改待同步` : ''}
+            </Text>
+            {syncState && syncState.pending > 0 && (
+              syncState.syncing ? (
+                <ActivityIndicator size="small" color={UI_COLORS.primary} />
+              ) : (
+                <TouchableOpacity onPress={() => watchlistSyncService.flush()}>
+                  <Text style={styles.syncBannerAction}>立即同步</Text>
+                </TouchableOpacity>
+              )
+            )}
+          </View>
+        )}
+
+        {/* 价格提醒入口 */}
+        <TouchableOpacity
+          style={styles.section}
+          onPress={() => navigation.navigate('PriceAlerts' as never)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.sectionHeader, styles.entryHeader]}>
+            <Ionicons name="notifications" size={20} color={UI_COLORS.primary} />
+            <Text style={styles.sectionTitle}>价格提醒</Text>
+            {unreadAlertCount > 0 && (
+              <View style={styles.alertBadge}>
+                <Text style={styles.alertBadgeText}>{unreadAlertCount}</Text>
+              </View>
+            )}
+            <Text style={styles.sectionCount}>{alertRules.length} 条</Text>
+            <Ionicons name="chevron-forward" size={20} color={UI_COLORS.secondaryText} />
+          </View>
+        </TouchableOpacity>
+
+        {/* 持仓入口 */}
+        <TouchableOpacity
+          style={styles.section}
+          onPress={() => navigation.navigate('Portfolio' as never)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.sectionHeader, styles.entryHeader]}>
+            <Ionicons name="briefcase" size={20} color={UI_COLORS.primary} />
+            <Text style={styles.sectionTitle}>我的持仓</Text>
+            <Ionicons name="chevron-forward" size={20} color={UI_COLORS.secondaryText} />
+          </View>
+        </TouchableOpacity>
+
+        {/* 股息入口 */}
+        <TouchableOpacity
+          style={styles.section}
+          onPress={() => navigation.navigate('DividendCalendar' as never)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.sectionHeader, styles.entryHeader]}>
+            <Ionicons name="cash" size={20} color={UI_COLORS.primary} />
+            <Text style={styles.sectionTitle}>股息</Text>
+            <Ionicons name="chevron-forward" size={20} color={UI_COLORS.secondaryText} />
+          </View>
+        </TouchableOpacity>
+
+        {/* 自选导入导出入口 */}
+        <TouchableOpacity
+          style={styles.section}
+          onPress={() => navigation.navigate('WatchlistTransfer' as never)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.sectionHeader, styles.entryHeader]}>
+            <Ionicons name="swap-vertical" size={20} color={UI_COLORS.primary} />
+            <Text style={styles.sectionTitle}>自选导入导出</Text>
+            <Ionicons name="chevron-forward" size={20} color={UI_COLORS.secondaryText} />
+          </View>
+        </TouchableOpacity>
+
+        {/* 自选股本周财报 */}
+        {weekEarnings.length > 0 && (
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Ionicons name="calendar" size={20} color={UI_COLORS.primary} />
+              <Text style={styles.sectionTitle}>本周财报</Text>
+              <Text style={styles.sectionCount}>{weekEarnings.length} 只</Text>
+            </View>
+            {weekEarnings.map(item => (
+              <TouchableOpacity
+                key={`${item.code}-${item.date}`}
+                style={styles.earningsItem}
+                onPress={() => handleStockPress({ symbol: item.code, name: item.code })}
+                activeOpacity={0.7}
+              >
+                <View style={styles.earningsDate}>
+                  <Text style={styles.earningsDateText}>{item.date.slice(5)}</Text>
+                  <Text style={styles.earningsTimeText}>{EARNINGS_STATUS_LABELS[item.status]}</Text>
+                </View>
+                <Text style={styles.earningsCode}>{item.code}</Text>
+                <Text style={styles.earningsEstimate}>
+                  {item.status === 'reported' ? `EPS(TTM) ${earningsService.formatEps(item.eps)}` : '按历史间隔推算'}
+                </Text>
+                <Ionicons name="chevron-forward" size={18} color={UI_COLORS.secondaryText} />
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
         {/* 自选股票部分 */}
         <View style={styles.section}>
           <TouchableOpacity 
@@ -736,6 +961,7 @@ const UserStockScreen: React.FC = () => {
           </TouchableOpacity>
           {!favoriteStocksCollapsed && (
             <View>
+              {renderGroupOptions()}
               {renderSortOptions()}
               {stockData.length === 0 ? (
                 <View style={styles.emptyContainer}>
@@ -745,21 +971,26 @@ const UserStockScreen: React.FC = () => {
                 </View>
               ) : (
                 <View style={styles.stocksContainer}>
-                  {sortedStockData.map((item) => (
-                    <StockCard
-                      key={item.id || item.symbol}
-                      data={item}
-                      context="market"
-                      showFavoriteButton={true}
-                      isFavorited={true}
-                      onPress={() => handleStockPress(item)}
-                      onFavoritePress={(symbol, isAdding) => {
-                        if (!isAdding) {
-                          handleRemoveFavorite(symbol);
-                        }
-                      }}
-                      onLoginRequired={() => setLoginModalVisible(true)}
-                    />
+                  {displayedStockData.length === 0 && (
+                    <Text style={styles.emptySubText}>该分组暂无股票</Text>
+                  )}
+                  {displayedStockData.map((item) => (
+                    <View key={item.id || item.symbol}>
+                      <StockCard
+                        data={item}
+                        context="market"
+                        showFavoriteButton={true}
+                        isFavorited={true}
+                        onPress={() => handleStockPress(item)}
+                        onFavoritePress={(symbol, isAdding) => {
+                          if (!isAdding) {
+                            handleRemoveFavorite(symbol);
+                          }
+                        }}
+                        onLoginRequired={() => setLoginModalVisible(true)}
+                      />
+                      {renderStockMeta(item)}
+                    </View>
                   ))}
                 </View>
               )}
@@ -831,6 +1062,77 @@ const styles = StyleSheet.create({
     color: UI_COLORS.secondaryText,
     fontWeight: '500',
   },
+  entryHeader: {
+    borderBottomWidth: 0,
+  },
+  syncBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginHorizontal: 16,
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    borderRadius: 10,
+    backgroundColor: '#FFF4E5',
+  },
+  syncBannerText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8A5A00',
+    marginLeft: 8,
+  },
+  syncBannerAction: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: UI_COLORS.primary,
+  },
+  alertBadge: {
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 6,
+    backgroundColor: UI_COLORS.danger,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  alertBadgeText: {
+    color: 'white',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  earningsItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: UI_COLORS.border,
+  },
+  earningsDate: {
+    width: 56,
+  },
+  earningsDateText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: UI_COLORS.text,
+  },
+  earningsTimeText: {
+    fontSize: 12,
+    color: UI_COLORS.secondaryText,
+    marginTop: 2,
+  },
+  earningsCode: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: UI_COLORS.text,
+  },
+  earningsEstimate: {
+    fontSize: 13,
+    color: UI_COLORS.secondaryText,
+    marginRight: 8,
+  },
   stocksContainer: {
     // 自选股票容器
   },
@@ -1039,6 +1341,59 @@ const styles = StyleSheet.create({
   sortArrow: {
     marginLeft: 4,
   },
+  groupOptionsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    paddingVertical: 10,
+  },
+  groupOption: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    marginRight: 8,
+    backgroundColor: UI_COLORS.background,
+  },
+  selectedGroupOption: {
+    backgroundColor: '#E3F2FD',
+  },
+  groupOptionText: {
+    fontSize: 13,
+    color: UI_COLORS.text,
+  },
+  selectedGroupOptionText: {
+    color: UI_COLORS.primary,
+    fontWeight: '600',
+  },
+  manageGroupButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+  },
+  manageGroupText: {
+    fontSize: 13,
+    color: UI_COLORS.primary,
+    marginLeft: 4,
+  },
+  stockMeta: {
+    marginHorizontal: 16,
+    marginTop: -4,
+    marginBottom: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: UI_COLORS.background,
+  },
+  stockMetaTarget: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: UI_COLORS.primary,
+  },
+  stockMetaNote: {
+    fontSize: 12,
+    color: UI_COLORS.secondaryText,
+    marginTop: 2,
+  },
 });
 
 export default UserStockScreen;
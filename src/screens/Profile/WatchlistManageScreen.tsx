@@ -0,0 +1,626 @@
+import React, { useState, useCallback, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+} from 'react-native';
+import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import userStockService, {
+  WatchlistLayout,
+  WatchlistLayoutResponse,
+  DEFAULT_WATCHLIST_GROUP_ID,
+  MAX_WATCHLIST_GROUP_NAME_LENGTH,
+  normalizeWatchlistLayout,
+  moveStockInLayout,
+  getWatchlistStockMeta,
+} from '../../services/UserStockService';
+import DraggableList from '../../components/ui/DraggableList';
+import MessageModal from '../../components/common/MessageModal';
+
+const UI_COLORS = {
+  primary: '#007AFF',
+  text: '#333',
+  secondaryText: '#999',
+  danger: '#FF3B30',
+};
+
+const ROW_HEIGHT = 60;
+
+/**
+ * 自选分组管理
+ * 新建/重命名/删除分组，拖动调整组内顺序，设置备注和目标价，在分组间移动股票
+ */
+const WatchlistManageScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const { currentUser } = useUser();
+
+  const [layout, setLayout] = useState<WatchlistLayout | null>(null);
+  const [stocks, setStocks] = useState<string[]>([]);
+  const [selectedGroupId, setSelectedGroupId] = useState(DEFAULT_WATCHLIST_GROUP_ID);
+  const [loading, setLoading] = useState(true);
+  const [errorMessage, setErrorMessage] = useState<string | null>(null);
+  const [scrollEnabled, setScrollEnabled] = useState(true);
+
+  // 新建/重命名分组
+  const [newGroupName, setNewGroupName] = useState('');
+  const [renaming, setRenaming] = useState(false);
+  const [renameText, setRenameText] = useState('');
+
+  // 正在编辑的股票
+  const [editingStock, setEditingStock] = useState<string | null>(null);
+  const [noteText, setNoteText] = useState('');
+  const [targetPriceText, setTargetPriceText] = useState('');
+
+  const loadLayout = useCallback(async () => {
+    if (!currentUser) {
+      setLoading(false);
+      return;
+    }
+    try {
+      const [stockResult, layoutResult] = await Promise.all([
+        userStockService.getUserStocks(currentUser.email),
+        userStockService.getWatchlistLayout(currentUser.email),
+      ]);
+      const followed: string[] = stockResult.success && stockResult.data
+        ? ((stockResult.data as any).stocks || []).map((item: { stock: string }) => item.stock.toUpperCase())
+        : [];
+      setStocks(followed);
+      setLayout(normalizeWatchlistLayout(layoutResult.data, followed));
+      if (!layoutResult.success && layoutResult.error) {
+        setErrorMessage(layoutResult.error);
+      }
+    } catch (error: any) {
+      console.error('❌ WatchlistManageScreen: 加载自选分组失败:', error);
+      setErrorMessage(error.message || '加载自选分组失败');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentUser]);
+
+  useFocusEffect(
+    useCallback(() => {
+      loadLayout();
+    }, [loadLayout])
+  );
+
+  const selectedGroup = useMemo(
+    () => layout?.groups.find(group => group.id === selectedGroupId) || layout?.groups[0] || null,
+    [layout, selectedGroupId]
+  );
+
+  /**
+   * 先更新界面，再保存布局；保存失败时提示并重新加载
+   */
+  const applyChange = async (
+    optimistic: WatchlistLayout | null,
+    request: () => Promise<WatchlistLayoutResponse>
+  ): Promise<boolean> => {
+    if (optimistic) {
+      setLayout(optimistic);
+    }
+    const result = await request();
+    if (result.success) {
+      setLayout(normalizeWatchlistLayout(result.data, stocks));
+      return true;
+    }
+    setErrorMessage(result.error || '操作失败');
+    loadLayout();
+    return false;
+  };
+
+  const handleCreateGroup = async () => {
+    if (!currentUser) return;
+    const name = newGroupName.trim();
+    const success = await applyChange(null, () => userStockService.createWatchlistGroup(currentUser.email, name));
+    if (success) {
+      setNewGroupName('');
+    }
+  };
+
+  const handleRenameGroup = async () => {
+    if (!currentUser || !layout || !selectedGroup) return;
+    const name = renameText.trim();
+    const optimistic = {
+      ...layout,
+      groups: layout.groups.map(group => (group.id === selectedGroup.id ? { ...group, name } : group)),
+    };
+    setRenaming(false);
+    await applyChange(optimistic, () => userStockService.renameWatchlistGroup(currentUser.email, selectedGroup.id, name));
+  };
+
+  const handleRemoveGroup = async () => {
+    if (!currentUser || !layout || !selectedGroup) return;
+    const removed = selectedGroup;
+    const optimistic = {
+      ...layout,
+      groups: layout.groups
+        .filter(group => group.id !== removed.id)
+        .map(group =>
+          group.id === DEFAULT_WATCHLIST_GROUP_ID ? { ...group, stocks: [...group.stocks, ...removed.stocks] } : group
+        ),
+    };
+    setSelectedGroupId(DEFAULT_WATCHLIST_GROUP_ID);
+    await applyChange(optimistic, () => userStockService.removeWatchlistGroup(currentUser.email, removed.id));
+  };
+
+  const handleReorder = async (ordered: string[]) => {
+    if (!currentUser || !layout || !selectedGroup) return;
+    const groupId = selectedGroup.id;
+    const optimistic = {
+      ...layout,
+      groups: layout.groups.map(group => (group.id === groupId ? { ...group, stocks: ordered } : group)),
+    };
+    await applyChange(optimistic, () => userStockService.reorderUserStocks(currentUser.email, groupId, ordered));
+  };
+
+  const handleMoveStock = async (stock: string, groupId: string) => {
+    if (!currentUser || !layout) return;
+    await applyChange(moveStockInLayout(layout, stock, groupId), () =>
+      userStockService.moveUserStock(currentUser.email, stock, groupId)
+    );
+  };
+
+  const startEditing = (stock: string) => {
+    if (!layout) return;
+    const meta = getWatchlistStockMeta(layout, stock);
+    setEditingStock(stock);
+    setNoteText(meta.note);
+    setTargetPriceText(meta.targetPrice === null ? '' : String(meta.targetPrice));
+  };
+
+  const handleSaveMeta = async () => {
+    if (!currentUser || !layout || !editingStock) return;
+    const stock = editingStock;
+    const targetPrice = targetPriceText.trim() ? parseFloat(targetPriceText) : null;
+    const meta = { note: noteText.trim(), targetPrice };
+    // 目标价无效时由 updateUserStockMeta 校验返回错误，不做本地更新
+    const isValid = targetPrice === null || targetPrice > 0;
+    const optimistic = isValid ? { ...layout, meta: { ...layout.meta, [stock]: meta } } : null;
+    const success = await applyChange(optimistic, () => userStockService.updateUserStockMeta(currentUser.email, stock, meta));
+    if (success) {
+      setEditingStock(null);
+    }
+  };
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>自选分组</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  const renderStockRow = (stock: string, dragHandle: React.ReactNode, isActive: boolean) => {
+    const meta = layout ? getWatchlistStockMeta(layout, stock) : null;
+    const summary = [
+      meta?.targetPrice ? `目标价 $${meta.targetPrice}` : '',
+      meta?.note || '',
+    ].filter(Boolean).join(' · ');
+
+    return (
+      <View style={[styles.stockRow, isActive && styles.stockRowActive]}>
+        {dragHandle}
+        <View style={styles.stockInfo}>
+          <Text style={styles.stockSymbol}>{stock}</Text>
+          <Text style={styles.stockMeta} numberOfLines={1}>{summary || '点击右侧按钮添加备注和目标价'}</Text>
+        </View>
+        <TouchableOpacity style={styles.editButton} onPress={() => startEditing(stock)}>
+          <Ionicons name="create-outline" size={20} color={UI_COLORS.primary} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderEditor = () => {
+    if (!editingStock || !layout) return null;
+    const currentGroupId = layout.groups.find(group => group.stocks.includes(editingStock))?.id;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>编辑 {editingStock}</Text>
+        <View style={styles.card}>
+          <TextInput
+            style={styles.input}
+            value={targetPriceText}
+            onChangeText={setTargetPriceText}
+            placeholder="目标价（留空清除）"
+            keyboardType="decimal-pad"
+          />
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={noteText}
+            onChangeText={setNoteText}
+            placeholder="备注，如买入理由、关注点"
+            multiline
+          />
+          <Text style={styles.fieldLabel}>移动到分组</Text>
+          <View style={styles.chipRow}>
+            {layout.groups.map(group => (
+              <TouchableOpacity
+                key={group.id}
+                style={[styles.chip, group.id === currentGroupId && styles.chipSelected]}
+                onPress={() => group.id !== currentGroupId && handleMoveStock(editingStock, group.id)}
+              >
+                <Text style={[styles.chipText, group.id === currentGroupId && styles.chipTextSelected]}>
+                  {group.name}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+          <View style={styles.editorActions}>
+            <TouchableOpacity style={styles.cancelButton} onPress={() => setEditingStock(null)}>
+              <Text style={styles.cancelButtonText}>取消</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.saveButton} onPress={handleSaveMeta}>
+              <Text style={styles.saveButtonText}>保存</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  if (!currentUser) {
+    return (
+      <View style={styles.container}>
+        {renderHeader()}
+        <View style={styles.emptyContainer}>
+          <Ionicons name="folder-open-outline" size={64} color="#999" />
+          <Text style={styles.emptyText}>请先登录后管理自选分组</Text>
+        </View>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8f9fa" />
+      {renderHeader()}
+      {loading || !layout || !selectedGroup ? (
+        <ActivityIndicator style={styles.loading} size="large" color={UI_COLORS.primary} />
+      ) : (
+        <ScrollView style={styles.scrollView} scrollEnabled={scrollEnabled} showsVerticalScrollIndicator={false}>
+          {/* 分组 */}
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>分组</Text>
+            <View style={styles.card}>
+              <View style={styles.chipRow}>
+                {layout.groups.map(group => (
+                  <TouchableOpacity
+                    key={group.id}
+                    style={[styles.chip, group.id === selectedGroup.id && styles.chipSelected]}
+                    onPress={() => {
+                      setSelectedGroupId(group.id);
+                      setRenaming(false);
+                    }}
+                  >
+                    <Text style={[styles.chipText, group.id === selectedGroup.id && styles.chipTextSelected]}>
+                      {group.name} {group.stocks.length}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+              <View style={styles.inputRow}>
+                <TextInput
+                  style={[styles.input, styles.inputFlex]}
+                  value={newGroupName}
+                  onChangeText={setNewGroupName}
+                  placeholder="新分组名称，如 AI、银行"
+                  maxLength={MAX_WATCHLIST_GROUP_NAME_LENGTH}
+                />
+                <TouchableOpacity
+                  style={[styles.addButton, !newGroupName.trim() && styles.addButtonDisabled]}
+                  onPress={handleCreateGroup}
+                  disabled={!newGroupName.trim()}
+                >
+                  <Ionicons name="add" size={20} color="#fff" />
+                </TouchableOpacity>
+              </View>
+            </View>
+          </View>
+
+          {/* 当前分组的股票 */}
+          <View style={styles.section}>
+            <View style={styles.groupHeader}>
+              {renaming ? (
+                <View style={[styles.inputRow, styles.inputFlex]}>
+                  <TextInput
+                    style={[styles.input, styles.inputFlex]}
+                    value={renameText}
+                    onChangeText={setRenameText}
+                    maxLength={MAX_WATCHLIST_GROUP_NAME_LENGTH}
+                    autoFocus
+                  />
+                  <TouchableOpacity style={styles.addButton} onPress={handleRenameGroup}>
+                    <Ionicons name="checkmark" size={20} color="#fff" />
+                  </TouchableOpacity>
+                </View>
+              ) : (
+                <>
+                  <Text style={[styles.sectionTitle, styles.groupTitle]}>{selectedGroup.name}</Text>
+                  {selectedGroup.id !== DEFAULT_WATCHLIST_GROUP_ID && (
+                    <>
+                      <TouchableOpacity
+                        style={styles.groupAction}
+                        onPress={() => {
+                          setRenameText(selectedGroup.name);
+                          setRenaming(true);
+                        }}
+                      >
+                        <Ionicons name="pencil-outline" size={18} color={UI_COLORS.primary} />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.groupAction} onPress={handleRemoveGroup}>
+                        <Ionicons name="trash-outline" size={18} color={UI_COLORS.danger} />
+                      </TouchableOpacity>
+                    </>
+                  )}
+                </>
+              )}
+            </View>
+            <View style={styles.card}>
+              {selectedGroup.stocks.length === 0 ? (
+                <Text style={styles.placeholderText}>
+                  {stocks.length === 0 ? '暂无自选股票' : '该分组暂无股票，编辑股票时可移动到此分组'}
+                </Text>
+              ) : (
+                <>
+                  <Text style={styles.hintText}>按住左侧把手拖动调整顺序</Text>
+                  <DraggableList
+                    data={selectedGroup.stocks}
+                    keyExtractor={stock => stock}
+                    itemHeight={ROW_HEIGHT}
+                    renderItem={renderStockRow}
+                    renderHandle={() => (
+                      <View style={styles.dragHandle}>
+                        <Ionicons name="reorder-three-outline" size={22} color={UI_COLORS.secondaryText} />
+                      </View>
+                    )}
+                    onReorder={handleReorder}
+                    onDragStart={() => setScrollEnabled(false)}
+                    onDragEnd={() => setScrollEnabled(true)}
+                  />
+                </>
+              )}
+            </View>
+          </View>
+
+          {renderEditor()}
+        </ScrollView>
+      )}
+
+      <MessageModal
+        visible={!!errorMessage}
+        type="error"
+        title="操作失败"
+        message={errorMessage || ''}
+        buttons={[{ text: '确定', onPress: () => setErrorMessage(null) }]}
+        onClose={() => setErrorMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  loading: {
+    marginTop: 40,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#999',
+    marginTop: 16,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  inputFlex: {
+    flex: 1,
+  },
+  input: {
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 15,
+    color: '#333',
+    marginBottom: 12,
+  },
+  noteInput: {
+    minHeight: 72,
+    textAlignVertical: 'top',
+  },
+  addButton: {
+    width: 42,
+    height: 42,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  addButtonDisabled: {
+    opacity: 0.5,
+  },
+  groupHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: 16,
+  },
+  groupTitle: {
+    flex: 1,
+  },
+  groupAction: {
+    padding: 6,
+    marginLeft: 4,
+    marginBottom: 12,
+  },
+  hintText: {
+    fontSize: 12,
+    color: '#999',
+    marginBottom: 8,
+  },
+  placeholderText: {
+    fontSize: 14,
+    color: '#999',
+    textAlign: 'center',
+    paddingVertical: 12,
+  },
+  stockRow: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f4',
+  },
+  stockRowActive: {
+    backgroundColor: '#F0F7FF',
+  },
+  dragHandle: {
+    paddingHorizontal: 6,
+    paddingVertical: 12,
+    marginRight: 6,
+  },
+  stockInfo: {
+    flex: 1,
+  },
+  stockSymbol: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+  },
+  stockMeta: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
+  editButton: {
+    padding: 8,
+  },
+  fieldLabel: {
+    fontSize: 13,
+    color: '#666',
+    marginBottom: 8,
+  },
+  editorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 8,
+  },
+  cancelButton: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    marginRight: 8,
+  },
+  cancelButtonText: {
+    fontSize: 15,
+    color: '#666',
+  },
+  saveButton: {
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#fff',
+  },
+});
+
+export default WatchlistManageScreen;
@@ -0,0 +1,556 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+  Platform,
+  StatusBar,
+  Share,
+} from 'react-native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { Ionicons } from '@expo/vector-icons';
+import { useUser } from '../../contexts/UserContext';
+import watchlistTransferService, {
+  WatchlistExportFormat,
+  WatchlistImportPreview,
+  WatchlistImportRow,
+  WatchlistImportStatus,
+  WatchlistConflictStrategy,
+  WATCHLIST_CONFLICT_FIELD_LABELS,
+  WATCHLIST_CONFLICT_STRATEGY_LABELS,
+  parseWatchlistText,
+  parseWatchlistShare,
+} from '../../services/WatchlistTransferService';
+import MessageModal from '../../components/common/MessageModal';
+import LoginModal from '../../components/auth/LoginModal';
+import { exportTextFile, pickTextFileOnWeb } from '../../utils/fileExport';
+
+type WatchlistTransferRouteParams = {
+  WatchlistTransfer: {
+    // 分享链接中的自选列表，见 encodeWatchlistShare
+    list?: string;
+  };
+};
+
+const STATUS_LABELS: Record<WatchlistImportStatus, string> = {
+  new: '新增',
+  existing: '已在自选',
+  invalid: '代码无效',
+  duplicate: '重复',
+  overLimit: '超出上限',
+};
+
+const STATUS_COLORS: Record<WatchlistImportStatus, string> = {
+  new: '#34C759',
+  existing: '#007AFF',
+  invalid: '#FF3B30',
+  duplicate: '#999',
+  overLimit: '#FF9500',
+};
+
+const STRATEGIES: WatchlistConflictStrategy[] = ['skip', 'merge', 'overwrite'];
+// 预览最多展示的行数
+const PREVIEW_ROW_LIMIT = 100;
+
+/**
+ * 自选股导入导出
+ * 导出 CSV/JSON 或分享链接；导入时校验股票代码，并在写入前预览与现有自选的冲突
+ */
+const WatchlistTransferScreen: React.FC = () => {
+  const navigation = useNavigation();
+  const route = useRoute<RouteProp<WatchlistTransferRouteParams, 'WatchlistTransfer'>>();
+  const { currentUser } = useUser();
+
+  const sharedItems = useMemo(() => parseWatchlistShare(route.params?.list), [route.params?.list]);
+  const isSharedList = sharedItems.length > 0;
+
+  const [importText, setImportText] = useState('');
+  const [preview, setPreview] = useState<WatchlistImportPreview | null>(null);
+  const [strategy, setStrategy] = useState<WatchlistConflictStrategy>('merge');
+  const [busy, setBusy] = useState(false);
+  const [loginModalVisible, setLoginModalVisible] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; title: string; text: string } | null>(null);
+
+  // 导入内容变化时清空预览
+  useEffect(() => {
+    setPreview(null);
+  }, [importText, currentUser]);
+
+  const handleExport = async (format: WatchlistExportFormat) => {
+    if (!currentUser) return;
+    try {
+      const content = await watchlistTransferService.exportWatchlist(currentUser.email, format);
+      await exportTextFile(
+        `watchlist-${new Date().toISOString().split('T')[0]}.${format}`,
+        content,
+        format === 'csv' ? 'text/csv' : 'application/json'
+      );
+    } catch (error: any) {
+      setMessage({ type: 'error', title: '导出失败', text: error.message || '请稍后重试' });
+    }
+  };
+
+  const handleShare = async () => {
+    if (!currentUser) return;
+    try {
+      const shareUrl = await watchlistTransferService.getShareUrl(currentUser.email);
+      if (Platform.OS === 'web' && typeof navigator !== 'undefined' && navigator.clipboard?.writeText) {
+        await navigator.clipboard.writeText(shareUrl);
+        setMessage({ type: 'success', title: '成功', text: '分享链接已复制到剪贴板' });
+        return;
+      }
+      await Share.share({
+        message: `我的自选股：${shareUrl}`,
+        url: shareUrl,
+        title: '自选股 - 小目标',
+      });
+    } catch (error: any) {
+      console.error('❌ WatchlistTransferScreen: 分享失败:', error);
+      setMessage({ type: 'error', title: '分享失败', text: error.message || '无法分享链接，请稍后重试' });
+    }
+  };
+
+  const handlePickFile = async () => {
+    try {
+      const content = await pickTextFileOnWeb('.csv,.json,.txt,text/csv,application/json,text/plain');
+      if (content !== null) {
+        setImportText(content);
+      }
+    } catch (error: any) {
+      setMessage({ type: 'error', title: '读取文件失败', text: error.message || '请重试' });
+    }
+  };
+
+  const handlePreview = async () => {
+    if (!currentUser) {
+      setLoginModalVisible(true);
+      return;
+    }
+    try {
+      setBusy(true);
+      const items = isSharedList ? sharedItems : parseWatchlistText(importText);
+      setPreview(await watchlistTransferService.previewImport(currentUser.email, items));
+    } catch (error: any) {
+      setPreview(null);
+      setMessage({ type: 'error', title: '解析失败', text: error.message || '导入内容解析失败' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!currentUser || !preview) return;
+    try {
+      setBusy(true);
+      const result = await watchlistTransferService.commitImport(currentUser.email, preview, strategy);
+      setPreview(null);
+      setImportText('');
+      setMessage({
+        type: result.failed.length > 0 ? 'error' : 'success',
+        title: '导入完成',
+        text: `新增 ${result.added} 只，更新 ${result.updated} 只${
+          result.failed.length > 0 ? `，${result.failed.join('、')} 处理失败` : ''
+        }`,
+      });
+    } catch (error: any) {
+      setMessage({ type: 'error', title: '导入失败', text: error.message || '请稍后重试' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const importableCount = preview
+    ? preview.newCount + (strategy === 'skip' ? 0 : preview.conflictCount)
+    : 0;
+
+  const renderHeader = () => (
+    <View style={styles.header}>
+      <TouchableOpacity style={styles.backButton} onPress={() => navigation.goBack()}>
+        <Ionicons name="arrow-back" size={24} color="#007AFF" />
+      </TouchableOpacity>
+      <Text style={styles.headerTitle}>{isSharedList ? '分享的自选' : '自选导入导出'}</Text>
+      <View style={styles.headerPlaceholder} />
+    </View>
+  );
+
+  const renderPreviewRow = (row: WatchlistImportRow, index: number) => (
+    <View key={`${row.item.symbol}-${index}`} style={styles.previewRow}>
+      <Text style={styles.previewSymbol}>{row.item.symbol}</Text>
+      <View style={styles.previewContent}>
+        <Text style={styles.previewText} numberOfLines={1}>
+          {row.item.group}
+          {row.item.targetPrice !== null ? ` · 目标价 $${row.item.targetPrice}` : ''}
+          {row.item.note ? ` · ${row.item.note}` : ''}
+        </Text>
+        {row.conflicts.length > 0 && row.current && (
+          <Text style={styles.conflictText} numberOfLines={2}>
+            当前：{row.conflicts.map(field => {
+              const value = field === 'group'
+                ? row.current!.group
+                : field === 'note'
+                  ? row.current!.note || '无'
+                  : row.current!.targetPrice !== null ? `$${row.current!.targetPrice}` : '无';
+              return `${WATCHLIST_CONFLICT_FIELD_LABELS[field]} ${value}`;
+            }).join('，')}
+          </Text>
+        )}
+      </View>
+      <Text style={[styles.statusBadge, { color: STATUS_COLORS[row.status] }]}>
+        {row.status === 'existing' && row.conflicts.length > 0 ? '有冲突' : STATUS_LABELS[row.status]}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="dark-content" backgroundColor="#f8f9fa" />
+      {renderHeader()}
+
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* 导出 */}
+        {currentUser && !isSharedList && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>导出</Text>
+            <View style={[styles.card, styles.exportRow]}>
+              <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('csv')}>
+                <Ionicons name="document-text-outline" size={22} color="#007AFF" />
+                <Text style={styles.exportButtonText}>CSV</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.exportButton} onPress={() => handleExport('json')}>
+                <Ionicons name="code-slash-outline" size={22} color="#007AFF" />
+                <Text style={styles.exportButtonText}>JSON</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.exportButton} onPress={handleShare}>
+                <Ionicons name="share-social-outline" size={22} color="#007AFF" />
+                <Text style={styles.exportButtonText}>分享链接</Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.hint}>导出内容包含分组、备注和目标价；分享链接只包含分组和股票代码</Text>
+          </View>
+        )}
+
+        {/* 导入内容 */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeaderRow}>
+            <Text style={styles.sectionTitle}>{isSharedList ? `共 ${sharedItems.length} 只股票` : '导入'}</Text>
+            {!isSharedList && Platform.OS === 'web' && (
+              <TouchableOpacity onPress={handlePickFile}>
+                <Text style={styles.linkText}>选择文件</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+          <View style={styles.card}>
+            {isSharedList ? (
+              <View style={styles.sharedList}>
+                {sharedItems.map((item, index) => (
+                  <View key={`${item.symbol}-${index}`} style={styles.sharedChip}>
+                    <Text style={styles.sharedChipText}>{item.symbol}</Text>
+                    <Text style={styles.sharedChipGroup}>{item.group}</Text>
+                  </View>
+                ))}
+              </View>
+            ) : (
+              <TextInput
+                style={styles.textArea}
+                value={importText}
+                onChangeText={setImportText}
+                placeholder={'粘贴导出的 CSV/JSON，或直接输入股票代码，例如：\nSymbol,Group,Note,TargetPrice\nNVDA,AI,数据中心,1000\nAAPL MSFT JPM'}
+                multiline
+                autoCapitalize="characters"
+                autoCorrect={false}
+              />
+            )}
+            <TouchableOpacity
+              style={[styles.primaryButton, !isSharedList && !importText.trim() && styles.buttonDisabled]}
+              onPress={handlePreview}
+              disabled={busy || (!isSharedList && !importText.trim())}
+            >
+              {busy && !preview ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.primaryButtonText}>
+                  {currentUser ? '校验并预览' : '登录后添加到自选'}
+                </Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </View>
+
+        {/* 预览 */}
+        {preview && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>预览（共 {preview.rows.length} 只）</Text>
+            <View style={styles.card}>
+              <View style={styles.summaryRow}>
+                <Text style={[styles.summaryText, { color: '#34C759' }]}>新增 {preview.newCount}</Text>
+                <Text style={[styles.summaryText, { color: '#007AFF' }]}>冲突 {preview.conflictCount}</Text>
+                <Text style={[styles.summaryText, { color: '#FF3B30' }]}>跳过 {preview.skippedCount}</Text>
+              </View>
+
+              {preview.rows.slice(0, PREVIEW_ROW_LIMIT).map(renderPreviewRow)}
+              {preview.rows.length > PREVIEW_ROW_LIMIT && (
+                <Text style={styles.hint}>仅显示前 {PREVIEW_ROW_LIMIT} 只</Text>
+              )}
+
+              {preview.conflictCount > 0 && (
+                <View style={styles.strategyRow}>
+                  <Text style={styles.strategyLabel}>已在自选中的股票</Text>
+                  <View style={styles.chipRow}>
+                    {STRATEGIES.map(item => (
+                      <TouchableOpacity
+                        key={item}
+                        style={[styles.chip, strategy === item && styles.chipSelected]}
+                        onPress={() => setStrategy(item)}
+                      >
+                        <Text style={[styles.chipText, strategy === item && styles.chipTextSelected]}>
+                          {WATCHLIST_CONFLICT_STRATEGY_LABELS[item]}
+                        </Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                </View>
+              )}
+
+              <TouchableOpacity
+                style={[styles.primaryButton, importableCount === 0 && styles.buttonDisabled]}
+                onPress={handleImport}
+                disabled={busy || importableCount === 0}
+              >
+                {busy ? (
+                  <ActivityIndicator color="#fff" />
+                ) : (
+                  <Text style={styles.primaryButtonText}>确认导入</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+      </ScrollView>
+
+      <LoginModal
+        visible={loginModalVisible}
+        onClose={() => setLoginModalVisible(false)}
+        onLoginSuccess={() => setLoginModalVisible(false)}
+      />
+
+      <MessageModal
+        visible={!!message}
+        type={message?.type || 'info'}
+        title={message?.title || ''}
+        message={message?.text || ''}
+        buttons={[{ text: '确定', onPress: () => setMessage(null) }]}
+        onClose={() => setMessage(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingTop: Platform.OS === 'ios' ? 44 : StatusBar.currentHeight || 0,
+    paddingBottom: 16,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e9ecef',
+  },
+  backButton: {
+    padding: 8,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#333',
+  },
+  headerPlaceholder: {
+    width: 40,
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionHeaderRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingRight: 16,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 12,
+    paddingHorizontal: 16,
+  },
+  card: {
+    backgroundColor: '#fff',
+    marginHorizontal: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  hint: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 8,
+    paddingHorizontal: 16,
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    marginBottom: 12,
+  },
+  exportRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  exportButton: {
+    alignItems: 'center',
+    paddingHorizontal: 12,
+  },
+  exportButtonText: {
+    fontSize: 13,
+    color: '#333',
+    marginTop: 6,
+  },
+  textArea: {
+    minHeight: 140,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    borderRadius: 8,
+    padding: 12,
+    fontSize: 13,
+    color: '#333',
+    textAlignVertical: 'top',
+    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
+  },
+  sharedList: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  sharedChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    borderRadius: 8,
+    backgroundColor: '#F0F7FF',
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  sharedChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  sharedChipGroup: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  primaryButton: {
+    marginTop: 16,
+    backgroundColor: '#007AFF',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  summaryRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    marginBottom: 12,
+  },
+  summaryText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f1f3f4',
+  },
+  previewSymbol: {
+    width: 64,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#333',
+  },
+  previewContent: {
+    flex: 1,
+  },
+  previewText: {
+    fontSize: 13,
+    color: '#666',
+  },
+  conflictText: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
+  statusBadge: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  strategyRow: {
+    marginTop: 16,
+  },
+  strategyLabel: {
+    fontSize: 14,
+    color: '#666',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#e9ecef',
+    marginRight: 8,
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+    borderColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 13,
+    color: '#333',
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: '500',
+  },
+});
+
+export default WatchlistTransferScreen;
@@ -1,5 +1,7 @@
 import { Platform } from 'react-native';
 import apiConfig, { getGeneralURL, getCurrentTimeout } from '../config/apiConfig';
+import persistentCacheService from './PersistentCacheService';
+import cachePolicyRegistry, { CachePolicy, CacheRuleStats, ResolvedCachePolicy } from './CachePolicyRegistry';
 
 // 定义基础请求接口
 interface RPCRequest {
@@ -22,6 +24,18 @@ interface RPCResponse<T = any> {
   id?: number | string;
 }
 
+// 客户端产生的错误码（服务端错误码为正数或JSON-RPC错误码）
+export const API_ERROR_CODES = {
+  TIMEOUT: -2,
+  NETWORK: -3,
+  // 用户未登录或登录已过期
+  AUTH: -4,
+  // 响应结构不符合 RPC 契约
+  INVALID_RESPONSE: -997,
+  INVALID_JSON: -998,
+  ALL_ENDPOINTS_FAILED: -999,
+} as const;
+
 // API错误类
 export class APIError extends Error {
   constructor(
@@ -34,11 +48,49 @@ export class APIError extends Error {
   }
 }
 
+// 响应校验失败的详情
+export interface RPCValidationDetails {
+  method: string;
+  // 出错位置，如 [0].data[0].dxy
+  path: string;
+  expected: string;
+  received: unknown;
+}
+
+// 响应结构不符合 RPC 契约
+export class RPCValidationError extends APIError {
+  constructor(public details: RPCValidationDetails) {
+    super(
+      API_ERROR_CODES.INVALID_RESPONSE,
+      `Invalid ${details.method} response at ${details.path || '(root)'}: expected ${details.expected}`,
+      details
+    );
+    this.name = 'RPCValidationError';
+  }
+}
+
+/**
+ * 是否为暂时性故障（断网、超时、服务端 5xx、响应无法解析），稍后重试可能成功
+ */
+export const isTransientAPIError = (error: any): boolean => {
+  if (!(error instanceof APIError)) {
+    // fetch 断网时抛出 TypeError，超时取消时为 AbortError
+    return error instanceof TypeError || error?.name === 'AbortError';
+  }
+  return error.code === API_ERROR_CODES.TIMEOUT
+    || error.code === API_ERROR_CODES.NETWORK
+    || error.code === API_ERROR_CODES.INVALID_JSON
+    || error.code === API_ERROR_CODES.ALL_ENDPOINTS_FAILED
+    || error.code >= 500;
+};
+
 // 缓存项接口
 interface CacheItem<T = any> {
   data: T;
   timestamp: number;
   expiresAt: number;
+  // 失效标签
+  tags: string[];
 }
 
 // 缓存存储类型
@@ -46,6 +98,38 @@ interface CacheStorage {
   [key: string]: CacheItem;
 }
 
+export type { CachePolicy };
+
+// 离线状态：请求失败并使用了持久化数据时 isOffline 为 true
+export interface OfflineStatus {
+  isOffline: boolean;
+  // 当前展示的最旧数据的写入时间
+  dataTimestamp: number | null;
+}
+
+// 缓存统计信息
+export interface APICacheStats {
+  total: number;
+  expired: number;
+  valid: number;
+  // 各缓存规则的命中统计（见 cachePolicyConfig）
+  rules: Record<string, CacheRuleStats>;
+}
+
+// 响应校验：结构不正确时抛出错误，未通过校验的响应不会写入缓存
+export type ResponseValidator = (result: unknown) => void;
+
+// 单次请求的发送方式：普通请求或加入 JSON-RPC 批量请求
+type RPCTransport = <T>(method: string, params: any[]) => Promise<T>;
+
+// 等待加入批量请求的调用
+interface PendingBatchItem {
+  method: string;
+  params: any[];
+  resolve: (value: any) => void;
+  reject: (error: any) => void;
+}
+
 // API服务配置
 interface APIConfig {
   baseURL: string;
@@ -56,30 +140,15 @@ interface APIConfig {
 class APIService {
   private config: APIConfig;
   private cache: CacheStorage = {};
+  // 正在后台刷新的缓存键
+  private revalidating = new Set<string>();
+  // 正在进行的请求，相同方法和参数的调用复用同一个 Promise
+  private inflight = new Map<string, Promise<any>>();
+  // 接入点不支持 JSON-RPC 批量请求时置为 false，之后的 batchCall 改为并行单独请求
+  private batchSupported = true;
+  private offlineStatus: OfflineStatus = { isOffline: false, dataTimestamp: null };
+  private offlineListeners = new Set<(status: OfflineStatus) => void>();
   
-  // 缓存配置
-  private readonly CACHE_DURATION = 2 * 60 * 1000; // 2分钟
-  private readonly EXCLUDED_METHODS = [
-    // 'listCoins',      // MarketService - 市场数据需要实时更新
-    // 'getCoinInfo',    // CoinInfoService - 币价数据需要实时更新
-    'getMultipleCoinsInfo'
-  ];
-  
-  // listData方法允许缓存的参数类型
-  private readonly CACHEABLE_LIST_DATA_TYPES = [
-    'ETF_MARKET_CAP_AND_VOLUME',
-    'ALTCOIN_INDEX',
-    'BTCD',
-    'GREEDY_INDEX',
-    'DXY',
-    'US_BOND_10YR',
-    'USDJPY',
-    'ETHD',
-    'USDJPY',
-    'STABLERANK_DAILY',
-    'COIN_MARKET_CAP_AND_VOLUME',
-  ];
-
   constructor(config: APIConfig) {
     this.config = {
       timeout: 10000,
@@ -90,6 +159,8 @@ class APIService {
       },
       ...config,
     };
+
+    cachePolicyRegistry.subscribeInvalidation(tag => this.removeCacheByTag(tag));
   }
 
   /**
@@ -103,26 +174,12 @@ class APIService {
   }
 
   /**
-   * 检查方法是否需要缓存
+   * 获取RPC调用的缓存策略（见 cachePolicyConfig）
    * @param method RPC方法名
    * @param params 参数数组
-   * @returns boolean 是否需要缓存
    */
-  private shouldCache(method: string, params: any[] = []): boolean {
-    // 排除的方法不缓存
-    if (this.EXCLUDED_METHODS.includes(method)) {
-      return false;
-    }
-    
-    // 对于listData方法，只有特定参数类型才缓存
-    if (method === 'listData' && params.length > 1) {
-      const dataType = params[1];
-      // 检查第二个参数是否为允许缓存的数据类型
-      return typeof dataType === 'string' && this.CACHEABLE_LIST_DATA_TYPES.includes(dataType);
-    }
-    
-    // 其他方法默认缓存
-    return true;
+  getCachePolicy(method: string, params: any[] = []): ResolvedCachePolicy {
+    return cachePolicyRegistry.resolve(method, params);
   }
 
   /**
@@ -152,12 +209,12 @@ class APIService {
    * @param cacheKey 缓存键
    * @param data 数据
    */
-  private setToCache<T>(cacheKey: string, data: T): void {
-    const now = Date.now();
+  private setToCache<T>(cacheKey: string, data: T, policy: CachePolicy, timestamp: number = Date.now()): void {
     this.cache[cacheKey] = {
       data,
-      timestamp: now,
-      expiresAt: now + this.CACHE_DURATION
+      timestamp,
+      expiresAt: timestamp + policy.ttl,
+      tags: policy.tags,
     };
     console.log(`💾 Cached data for key: ${cacheKey}`);
   }
@@ -188,23 +245,222 @@ class APIService {
    * 执行RPC调用
    * @param method RPC方法名
    * @param params 参数数组
+   * @param validate 响应校验，通过后才写入缓存
    * @returns Promise<T> 返回结果
    */
-  async call<T = any>(method: string, params: any[] = []): Promise<T> {
-    // 检查是否需要缓存
-    const shouldUseCache = this.shouldCache(method, params);
-    let cacheKey: string | null = null;
-    
-    if (shouldUseCache) {
-      cacheKey = this.generateCacheKey(method, params);
-      
-      // 尝试从缓存获取数据
-      const cachedData = this.getFromCache<T>(cacheKey);
-      if (cachedData !== null) {
-        return cachedData;
+  async call<T = any>(method: string, params: any[] = [], validate?: ResponseValidator): Promise<T> {
+    // 后台加载远程缓存策略，本次调用先使用当前策略
+    cachePolicyRegistry.loadRemoteOverrides();
+
+    const policy = this.getCachePolicy(method, params);
+    return this.dedupe<T>(method, params, policy, transport => this.execute<T>(method, params, policy, transport, validate));
+  }
+
+  /**
+   * 合并进行中的相同请求
+   * @param run 实际执行函数，transport 为默认的单独请求
+   */
+  private dedupe<T>(
+    method: string,
+    params: any[],
+    policy: ResolvedCachePolicy,
+    run: (transport: RPCTransport) => Promise<T>,
+    transport: RPCTransport = (m, p) => this.request(m, p)
+  ): Promise<T> {
+    if (!policy.dedupe) {
+      return run(transport);
+    }
+
+    const cacheKey = this.generateCacheKey(method, params);
+    const existing = this.inflight.get(cacheKey);
+    if (existing) {
+      console.log(`🔗 Coalesced in-flight request: ${cacheKey}`);
+      cachePolicyRegistry.record(policy.ruleId, 'coalesced');
+      return existing;
+    }
+
+    const promise = run(transport).finally(() => {
+      this.inflight.delete(cacheKey);
+    });
+    this.inflight.set(cacheKey, promise);
+    return promise;
+  }
+
+  /**
+   * 按缓存策略执行调用：内存缓存 → 持久化缓存 → 网络请求 → 离线数据
+   * @param transport 网络请求的发送方式
+   * @param validate 响应校验，网络请求的结果通过校验后才写入缓存
+   */
+  private async execute<T>(
+    method: string,
+    params: any[],
+    policy: ResolvedCachePolicy,
+    transport: RPCTransport,
+    validate?: ResponseValidator
+  ): Promise<T> {
+    // ttl 为 0 的请求不缓存
+    if (policy.ttl <= 0) {
+      return transport<T>(method, params);
+    }
+
+    const cacheKey = this.generateCacheKey(method, params);
+
+    // 尝试从内存缓存获取数据
+    const cachedData = this.getFromCache<T>(cacheKey);
+    if (cachedData !== null) {
+      cachePolicyRegistry.record(policy.ruleId, 'hit');
+      return cachedData;
+    }
+
+    // 内存中没有时读取持久化缓存（应用重启后内存缓存为空）
+    const persisted = policy.maxAge > 0 ? await persistentCacheService.get<T>(cacheKey) : null;
+    if (persisted) {
+      const age = Date.now() - persisted.timestamp;
+      if (age < policy.ttl) {
+        this.setToCache(cacheKey, persisted.data, policy, persisted.timestamp);
+        cachePolicyRegistry.record(policy.ruleId, 'hit');
+        return persisted.data;
+      }
+      // 过期不久：先返回旧数据，后台刷新
+      if (age < policy.ttl + policy.staleWhileRevalidate) {
+        this.revalidate<T>(method, params, cacheKey, policy, persisted.timestamp, validate);
+        cachePolicyRegistry.record(policy.ruleId, 'stale');
+        return persisted.data;
       }
     }
 
+    cachePolicyRegistry.record(policy.ruleId, 'miss');
+    try {
+      const result = await transport<T>(method, params);
+      if (result) {
+        validate?.(result);
+        this.storeResult(cacheKey, result, policy);
+      }
+      return result;
+    } catch (error) {
+      // 网络不可用时退回到持久化数据
+      if (persisted && Date.now() - persisted.timestamp < policy.maxAge && this.isNetworkError(error)) {
+        console.warn(`📴 API: ${method} 请求失败，使用 ${new Date(persisted.timestamp).toLocaleString()} 的缓存数据`);
+        this.markOffline(persisted.timestamp);
+        cachePolicyRegistry.record(policy.ruleId, 'offline');
+        return persisted.data;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 写入内存缓存和持久化缓存
+   */
+  private storeResult<T>(cacheKey: string, result: T, policy: CachePolicy): void {
+    this.setToCache(cacheKey, result, policy);
+    if (policy.maxAge > 0) {
+      persistentCacheService.set(cacheKey, result, Date.now(), policy.tags);
+    }
+    // 定期清理过期缓存
+    this.cleanupExpiredCache();
+  }
+
+  /**
+   * 后台刷新缓存，同一缓存键同时只刷新一次
+   * @param dataTimestamp 已返回给页面的缓存数据时间，刷新因断网失败时用于离线提示
+   */
+  private revalidate<T>(
+    method: string,
+    params: any[],
+    cacheKey: string,
+    policy: CachePolicy,
+    dataTimestamp: number,
+    validate?: ResponseValidator
+  ): void {
+    if (this.revalidating.has(cacheKey)) {
+      return;
+    }
+    this.revalidating.add(cacheKey);
+    this.request<T>(method, params)
+      .then(result => {
+        if (result) {
+          validate?.(result);
+          this.storeResult(cacheKey, result, policy);
+        }
+      })
+      .catch(error => {
+        console.warn(`⚠️ API: 后台刷新 ${method} 失败:`, error?.message || error);
+        if (this.isNetworkError(error)) {
+          this.markOffline(dataTimestamp);
+        }
+      })
+      .finally(() => {
+        this.revalidating.delete(cacheKey);
+      });
+  }
+
+  /**
+   * 判断是否为网络层错误（超时、断网、所有接入点不可用、服务端5xx）
+   */
+  private isNetworkError(error: any): boolean {
+    if (!(error instanceof APIError)) {
+      return true;
+    }
+    return error.code === API_ERROR_CODES.TIMEOUT
+      || error.code === API_ERROR_CODES.NETWORK
+      || error.code === API_ERROR_CODES.ALL_ENDPOINTS_FAILED
+      || error.code >= 500;
+  }
+
+  /**
+   * 标记为离线
+   * @param dataTimestamp 当前展示的缓存数据时间，保留最旧的一个
+   */
+  private markOffline(dataTimestamp: number | null): void {
+    const current = this.offlineStatus;
+    const timestamps = [current.dataTimestamp, dataTimestamp].filter((value): value is number => value !== null);
+    const next: OfflineStatus = {
+      isOffline: true,
+      dataTimestamp: timestamps.length > 0 ? Math.min(...timestamps) : null,
+    };
+    if (current.isOffline && current.dataTimestamp === next.dataTimestamp) {
+      return;
+    }
+    this.setOfflineStatus(next);
+  }
+
+  private markOnline(): void {
+    if (this.offlineStatus.isOffline) {
+      console.log('📶 API: 网络已恢复');
+      this.setOfflineStatus({ isOffline: false, dataTimestamp: null });
+    }
+  }
+
+  private setOfflineStatus(status: OfflineStatus): void {
+    this.offlineStatus = status;
+    this.offlineListeners.forEach(listener => listener(status));
+  }
+
+  /**
+   * 获取当前离线状态
+   */
+  getOfflineStatus(): OfflineStatus {
+    return this.offlineStatus;
+  }
+
+  /**
+   * 订阅离线状态变化
+   * @returns 取消订阅函数
+   */
+  subscribeOfflineStatus(listener: (status: OfflineStatus) => void): () => void {
+    this.offlineListeners.add(listener);
+    return () => {
+      this.offlineListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 发送RPC请求（不经过缓存），失败时自动切换接入点重试
+   * @param method RPC方法名
+   * @param params 参数数组
+   */
+  private async request<T>(method: string, params: any[]): Promise<T> {
     // 构建标准的JSON-RPC请求格式
     const request: RPCRequest = {
       method,
@@ -222,6 +478,8 @@ class APIService {
 
         const requestBody = JSON.stringify(request);
         const currentURL = getGeneralURL();
+        const endpoint = apiConfig.getCurrentEndpoint();
+        const startTime = Date.now();
 
         const response = await fetch(currentURL, {
           method: 'POST',
@@ -249,39 +507,14 @@ class APIService {
           data = JSON.parse(responseText);
         } catch (parseError) {
           console.error(`❌ JSON Parse Error:`, parseError);
-          throw new APIError(-998, `Invalid JSON response: ${parseError.message}`, { responseText });
-        }
-
-        // 检查是否有错误 - 根据您提供的错误格式调整
-        if (data.error) {
-          const errorCode = typeof data.error.code === 'string' ? parseInt(data.error.code) : data.error.code;
-          const errorMessage = data.error.message || data.error.error || 'Unknown API error';
-          
-          throw new APIError(
-            errorCode,
-            errorMessage,
-            data.error
-          );
+          throw new APIError(API_ERROR_CODES.INVALID_JSON, `Invalid JSON response: ${parseError.message}`, { responseText });
         }
 
-        // 根据API响应格式，result可能直接就是数据
-        let result: T;
-        if (data.result !== undefined) {
-          result = data.result;
-        } else {
-          // 如果没有result字段，可能整个响应就是结果
-          result = data as T;
-        }
-
-        // 如果需要缓存且请求成功，则存储到缓存
-        if (shouldUseCache && cacheKey && result) {
-          this.setToCache(cacheKey, result);
-          
-          // 定期清理过期缓存
-          this.cleanupExpiredCache();
-        }
+        // 收到有效响应说明网络正常
+        this.markOnline();
+        apiConfig.recordSuccess(endpoint, Date.now() - startTime);
 
-        return result;
+        return this.unwrapResponse<T>(data);
         
       } catch (error) {
         lastError = error;
@@ -289,7 +522,7 @@ class APIService {
         
         if (error instanceof APIError) {
           // 如果是服务器错误且还有重试机会，尝试切换接入点
-          if (attempt < maxRetries && (error.code >= 500 || error.code === -3)) {
+          if (attempt < maxRetries && (error.code >= 500 || error.code === API_ERROR_CODES.NETWORK)) {
             console.log(`🔄 尝试切换到备用接入点...`);
             const switched = await apiConfig.handleRequestFailure();
             if (switched) {
@@ -306,7 +539,7 @@ class APIService {
             await apiConfig.handleRequestFailure();
             continue;
           }
-          throw new APIError(-2, `Request timeout after ${getCurrentTimeout()}ms`);
+          throw new APIError(API_ERROR_CODES.TIMEOUT, `Request timeout after ${getCurrentTimeout()}ms`);
         }
 
         if (error instanceof TypeError && error.message.includes('Network request failed')) {
@@ -315,7 +548,7 @@ class APIService {
             await apiConfig.handleRequestFailure();
             continue;
           }
-          throw new APIError(-3, 'Network connection failed. Please check your internet connection.');
+          throw new APIError(API_ERROR_CODES.NETWORK, 'Network connection failed. Please check your internet connection.');
         }
 
         // 其他错误，如果还有重试机会，尝试切换接入点
@@ -333,24 +566,196 @@ class APIService {
     }
 
     throw new APIError(
-      -999,
+      API_ERROR_CODES.ALL_ENDPOINTS_FAILED,
       `All API endpoints failed. Last error: ${lastError?.message}`,
       lastError
     );
   }
 
+  /**
+   * 解析单个JSON-RPC响应
+   */
+  private unwrapResponse<T>(data: RPCResponse<T>): T {
+    // 检查是否有错误 - 根据您提供的错误格式调整
+    if (data.error) {
+      const errorCode = typeof data.error.code === 'string' ? parseInt(data.error.code) : data.error.code;
+      const errorMessage = data.error.message || data.error.error || 'Unknown API error';
+      
+      throw new APIError(
+        errorCode,
+        errorMessage,
+        data.error
+      );
+    }
+
+    // 根据API响应格式，result可能直接就是数据
+    if (data.result !== undefined) {
+      return data.result;
+    }
+    // 如果没有result字段，可能整个响应就是结果
+    return data as T;
+  }
+
   /**
    * 批量调用多个RPC方法
-   * @param calls 调用列表
+   * 缓存未命中的调用合并为一个 JSON-RPC 2.0 批量请求发送，任一调用失败时整体失败
+   * @param calls 调用列表，validate 为可选的响应校验
    * @returns Promise<T[]> 返回结果数组
    */
-  async batchCall<T = any>(calls: Array<{ method: string; params: any[] }>): Promise<T[]> {
+  async batchCall<T = any>(calls: Array<{ method: string; params: any[]; validate?: ResponseValidator }>): Promise<T[]> {
+    const results = await this.batchCallSettled<T>(calls);
+    const failed = results.find((item): item is PromiseRejectedResult => item.status === 'rejected');
+    if (failed) {
+      console.error('❌ Batch API Error:', failed.reason);
+      throw failed.reason;
+    }
+    return results.map(item => (item as PromiseFulfilledResult<T>).value);
+  }
+
+  /**
+   * 批量调用多个RPC方法，分别返回每个调用的结果或错误
+   * 每个调用仍按缓存策略处理（缓存命中、合并进行中的请求、离线数据），
+   * 需要走网络的调用等全部调用都确定后一次性发送
+   * @param calls 调用列表，validate 为可选的响应校验
+   */
+  async batchCallSettled<T = any>(
+    calls: Array<{ method: string; params: any[]; validate?: ResponseValidator }>
+  ): Promise<PromiseSettledResult<T>[]> {
+    if (calls.length <= 1 || !this.batchSupported) {
+      return Promise.allSettled(calls.map(call => this.call<T>(call.method, call.params, call.validate)));
+    }
+
+    cachePolicyRegistry.loadRemoteOverrides();
+
+    const pending: PendingBatchItem[] = [];
+    let remaining = calls.length;
+    // 每个调用要么进入批量队列，要么不需要网络请求（缓存命中或已结束），全部确定后发送
+    const settleOne = () => {
+      remaining--;
+      if (remaining === 0 && pending.length > 0) {
+        this.flushBatch(pending.splice(0));
+      }
+    };
+
+    const promises = calls.map(({ method, params, validate }) => {
+      let reported = false;
+      const report = () => {
+        if (!reported) {
+          reported = true;
+          settleOne();
+        }
+      };
+      const batchTransport: RPCTransport = <R>(m: string, p: any[]) => new Promise<R>((resolve, reject) => {
+        pending.push({ method: m, params: p, resolve, reject });
+        report();
+      });
+
+      const policy = this.getCachePolicy(method, params);
+      const cacheKey = this.generateCacheKey(method, params);
+      const joined = policy.dedupe && this.inflight.has(cacheKey);
+      const promise = this.dedupe<T>(
+        method,
+        params,
+        policy,
+        transport => this.execute<T>(method, params, policy, transport, validate),
+        batchTransport
+      );
+      if (joined) {
+        report();
+      }
+      promise.then(report, report);
+      return promise;
+    });
+
+    return Promise.allSettled(promises);
+  }
+
+  /**
+   * 发送 JSON-RPC 2.0 批量请求，只有一个调用时直接单独请求
+   * 接入点返回非数组响应时视为不支持批量请求，改为并行单独请求
+   */
+  private async flushBatch(items: PendingBatchItem[]): Promise<void> {
+    const sendIndividually = (list: PendingBatchItem[]) => {
+      list.forEach(item => {
+        this.request(item.method, item.params).then(item.resolve, item.reject);
+      });
+    };
+
+    if (items.length === 1 || !this.batchSupported) {
+      sendIndividually(items);
+      return;
+    }
+
+    const payload: RPCRequest[] = items.map((item, index) => ({
+      jsonrpc: '2.0',
+      id: index + 1,
+      method: item.method,
+      params: item.params,
+    }));
+
+    let responses: RPCResponse[];
     try {
-      const promises = calls.map(call => this.call<T>(call.method, call.params));
-      return await Promise.all(promises);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), getCurrentTimeout());
+      const endpoint = apiConfig.getCurrentEndpoint();
+      const startTime = Date.now();
+      const response = await fetch(getGeneralURL(), {
+        method: 'POST',
+        headers: this.config.headers,
+        body: JSON.stringify(payload),
+        signal: controller.signal,
+      });
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        // 4xx 通常表示接入点不接受数组请求体
+        if (response.status < 500) {
+          this.batchSupported = false;
+        }
+        throw new APIError(response.status, `HTTP Error: ${response.status} ${response.statusText}`);
+      }
+
+      const data = JSON.parse(await response.text());
+      if (!Array.isArray(data)) {
+        this.batchSupported = false;
+        throw new APIError(API_ERROR_CODES.INVALID_JSON, 'Batch requests are not supported by the endpoint');
+      }
+      responses = data;
+      apiConfig.recordSuccess(endpoint, Date.now() - startTime);
     } catch (error) {
-      console.error('❌ Batch API Error:', error);
-      throw error;
+      // 批量请求失败时改为单独请求，由单独请求负责重试和切换接入点
+      console.warn(`⚠️ API: 批量请求失败，改为 ${items.length} 个单独请求:`, error?.message || error);
+      sendIndividually(items);
+      return;
+    }
+
+    this.markOnline();
+    console.log(`📦 API: 批量请求完成 (${items.length} 个调用)`);
+
+    const byId = new Map<number | string, RPCResponse>();
+    responses.forEach(item => {
+      if (item && item.id !== undefined) {
+        byId.set(item.id, item);
+      }
+    });
+
+    const missing: PendingBatchItem[] = [];
+    items.forEach((item, index) => {
+      const response = byId.get(index + 1);
+      if (!response) {
+        missing.push(item);
+        return;
+      }
+      try {
+        item.resolve(this.unwrapResponse(response));
+      } catch (error) {
+        item.reject(error);
+      }
+    });
+
+    // 响应中缺少的调用单独重新请求
+    if (missing.length > 0) {
+      sendIndividually(missing);
     }
   }
 
@@ -375,13 +780,36 @@ class APIService {
   clearCache(): void {
     const cacheCount = Object.keys(this.cache).length;
     this.cache = {};
+    persistentCacheService.clear();
     console.log(`🧹 Cleared all cache (${cacheCount} items)`);
   }
 
+  /**
+   * 使某个标签下的所有缓存失效（包括各服务自己的二级缓存）
+   * @param tag 失效标签，见 cachePolicyConfig
+   */
+  invalidateTag(tag: string): void {
+    cachePolicyRegistry.invalidateTag(tag);
+  }
+
+  /**
+   * 删除内存和持久化缓存中带有指定标签的条目
+   */
+  private removeCacheByTag(tag: string): void {
+    const keys = Object.keys(this.cache).filter(key => this.cache[key].tags.includes(tag));
+    keys.forEach(key => {
+      delete this.cache[key];
+    });
+    persistentCacheService.removeByTag(tag);
+    if (keys.length > 0) {
+      console.log(`🧹 Cleared ${keys.length} cache items tagged ${tag}`);
+    }
+  }
+
   /**
    * 获取缓存统计信息
    */
-  getCacheStats(): { total: number; expired: number; valid: number } {
+  getCacheStats(): APICacheStats {
     const now = Date.now();
     let total = 0;
     let expired = 0;
@@ -396,7 +824,7 @@ class APIService {
       }
     }
 
-    return { total, expired, valid };
+    return { total, expired, valid, rules: cachePolicyRegistry.getStats() };
   }
 
   /**
@@ -0,0 +1,281 @@
+import {
+  CACHE_POLICY_RULES,
+  DEFAULT_CACHE_POLICY,
+  CachePolicy,
+  CacheParamPattern,
+  CachePolicyRule,
+} from '../config/cachePolicyConfig';
+
+// 解析后的缓存策略，ruleId 为命中的规则（未命中时为 'default'）
+export interface ResolvedCachePolicy extends CachePolicy {
+  ruleId: string;
+}
+
+// 远程覆盖项：已有规则只需填写要修改的字段；新规则需要提供 method
+export interface CachePolicyOverride extends Partial<CachePolicy> {
+  method?: string;
+  params?: CacheParamPattern;
+}
+
+// 缓存事件：新鲜命中 / 过期数据命中（后台刷新）/ 离线命中 / 合并到进行中的请求 / 未命中
+export type CacheEvent = 'hit' | 'stale' | 'offline' | 'coalesced' | 'miss';
+
+export interface CacheRuleStats {
+  hits: number;
+  staleHits: number;
+  offlineHits: number;
+  coalesced: number;
+  misses: number;
+}
+
+type InvalidationListener = (tag: string) => void;
+
+const DEFAULT_RULE_ID = 'default';
+const REMOTE_CONFIG_KEY = 'API_CACHE_POLICIES';
+
+/**
+ * 缓存策略注册表
+ * APIService 以及各服务自己的二级缓存（资讯文章、实时价格等）统一从这里读取缓存时长，
+ * 同时负责失效标签的广播和命中统计
+ */
+class CachePolicyRegistry {
+  private static instance: CachePolicyRegistry;
+  private readonly REMOTE_REFRESH_INTERVAL = 30 * 60 * 1000; // 30分钟
+
+  private rules: CachePolicyRule[] = CACHE_POLICY_RULES;
+  private overrides: Record<string, CachePolicyOverride> = {};
+  private stats: Record<string, CacheRuleStats> = {};
+  private invalidationListeners = new Set<InvalidationListener>();
+  private remoteLoading: Promise<void> | null = null;
+  private lastRemoteFetch = 0;
+
+  private constructor() {}
+
+  static getInstance(): CachePolicyRegistry {
+    if (!CachePolicyRegistry.instance) {
+      CachePolicyRegistry.instance = new CachePolicyRegistry();
+    }
+    return CachePolicyRegistry.instance;
+  }
+
+  /**
+   * 解析 RPC 调用的缓存策略
+   * @param method RPC方法名
+   * @param params 参数数组
+   */
+  resolve(method: string, params: any[] = []): ResolvedCachePolicy {
+    const rule = this.getEffectiveRules().find(item => item.method === method && this.matchParams(item.params, params));
+    if (!rule) {
+      return { ...DEFAULT_CACHE_POLICY, ruleId: DEFAULT_RULE_ID };
+    }
+    return {
+      ...DEFAULT_CACHE_POLICY,
+      ...rule.policy,
+      tags: rule.policy.tags || DEFAULT_CACHE_POLICY.tags,
+      ruleId: rule.id,
+    };
+  }
+
+  /**
+   * 按规则标识获取缓存策略（用于服务自身的二级缓存）
+   * @param ruleId 规则标识
+   */
+  getPolicy(ruleId: string): ResolvedCachePolicy {
+    const rule = this.getEffectiveRules().find(item => item.id === ruleId);
+    return {
+      ...DEFAULT_CACHE_POLICY,
+      ...rule?.policy,
+      tags: rule?.policy.tags || DEFAULT_CACHE_POLICY.tags,
+      ruleId: rule ? rule.id : DEFAULT_RULE_ID,
+    };
+  }
+
+  /**
+   * 获取当前生效的规则列表（已合并远程覆盖）
+   */
+  getEffectiveRules(): CachePolicyRule[] {
+    if (Object.keys(this.overrides).length === 0) {
+      return this.rules;
+    }
+
+    const merged = this.rules.map(rule => {
+      const override = this.overrides[rule.id];
+      if (!override) {
+        return rule;
+      }
+      const { method: _method, params, ...policy } = override;
+      return { ...rule, params: params || rule.params, policy: { ...rule.policy, ...policy } };
+    });
+
+    // 远程新增的规则放在最前面，优先于内置规则匹配
+    const knownIds = new Set(this.rules.map(rule => rule.id));
+    const added: CachePolicyRule[] = Object.entries(this.overrides)
+      .filter(([id, override]) => !knownIds.has(id) && !!override.method)
+      .map(([id, { method, params, ...policy }]) => ({ id, method: method!, params, policy }));
+
+    return [...added, ...merged];
+  }
+
+  /**
+   * 设置覆盖项（替换之前的全部覆盖）
+   * @param overrides 以规则标识为键的覆盖项
+   */
+  setOverrides(overrides: Record<string, CachePolicyOverride>): void {
+    this.overrides = {};
+    Object.entries(overrides || {}).forEach(([id, override]) => {
+      const sanitized = this.sanitizeOverride(override);
+      if (sanitized) {
+        this.overrides[id] = sanitized;
+      }
+    });
+  }
+
+  /**
+   * 加载远程覆盖配置，每30分钟最多刷新一次
+   * 配置键 API_CACHE_POLICIES，值为 JSON：{"listUsstocks": {"ttl": 60000}, "listData:VIX": {"method": "listData", "params": {"1": "VIX"}, "ttl": 120000}}
+   */
+  loadRemoteOverrides(): Promise<void> {
+    if (this.remoteLoading) {
+      return this.remoteLoading;
+    }
+    if (Date.now() - this.lastRemoteFetch < this.REMOTE_REFRESH_INTERVAL) {
+      return Promise.resolve();
+    }
+
+    // 动态导入，避免 ConfigService -> APIService -> CachePolicyRegistry 的循环依赖
+    this.remoteLoading = (async () => {
+      this.lastRemoteFetch = Date.now();
+      try {
+        const { default: configService } = await import('./ConfigService');
+        const raw = await configService.getConfig(REMOTE_CONFIG_KEY, '');
+        const overrides: Record<string, CachePolicyOverride> = raw ? JSON.parse(raw) : {};
+
+        // 兼容旧的实时价格缓存配置
+        const legacyDuration = parseInt(await configService.getConfig('USSTOCK_REALTIME_PRICE_CACHE_DURATION', ''), 10);
+        const legacyEnabled = await configService.getConfig('USSTOCK_REALTIME_PRICE_ENABLE_CACHE', '');
+        if (!overrides['listData:realtime']) {
+          if (legacyEnabled.toLowerCase() === 'false') {
+            overrides['listData:realtime'] = { ttl: 0 };
+          } else if (!isNaN(legacyDuration)) {
+            overrides['listData:realtime'] = { ttl: legacyDuration };
+          }
+        }
+
+        this.setOverrides(overrides);
+        if (Object.keys(this.overrides).length > 0) {
+          console.log('📋 CachePolicyRegistry: 已应用远程缓存策略:', Object.keys(this.overrides));
+        }
+      } catch (error) {
+        console.warn('⚠️ CachePolicyRegistry: 加载远程缓存策略失败，使用内置策略:', error);
+      } finally {
+        this.remoteLoading = null;
+      }
+    })();
+    return this.remoteLoading;
+  }
+
+  /**
+   * 使某个标签下的所有缓存失效
+   * @param tag 失效标签
+   */
+  invalidateTag(tag: string): void {
+    console.log(`🧹 CachePolicyRegistry: 失效标签 ${tag}`);
+    this.invalidationListeners.forEach(listener => listener(tag));
+  }
+
+  /**
+   * 订阅失效标签
+   * @returns 取消订阅函数
+   */
+  subscribeInvalidation(listener: InvalidationListener): () => void {
+    this.invalidationListeners.add(listener);
+    return () => {
+      this.invalidationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * 记录缓存事件
+   * @param ruleId 规则标识
+   * @param event 缓存事件
+   */
+  record(ruleId: string, event: CacheEvent): void {
+    const stats = this.stats[ruleId] || (this.stats[ruleId] = { hits: 0, staleHits: 0, offlineHits: 0, coalesced: 0, misses: 0 });
+    switch (event) {
+      case 'hit':
+        stats.hits++;
+        break;
+      case 'stale':
+        stats.staleHits++;
+        break;
+      case 'offline':
+        stats.offlineHits++;
+        break;
+      case 'coalesced':
+        stats.coalesced++;
+        break;
+      case 'miss':
+        stats.misses++;
+        break;
+    }
+  }
+
+  /**
+   * 获取各规则的命中统计
+   */
+  getStats(): Record<string, CacheRuleStats> {
+    const result: Record<string, CacheRuleStats> = {};
+    Object.entries(this.stats).forEach(([ruleId, stats]) => {
+      result[ruleId] = { ...stats };
+    });
+    return result;
+  }
+
+  /**
+   * 重置命中统计
+   */
+  resetStats(): void {
+    this.stats = {};
+  }
+
+  private matchParams(pattern: CacheParamPattern | undefined, params: any[]): boolean {
+    if (!pattern) {
+      return true;
+    }
+    return Object.entries(pattern).every(([index, expected]) => {
+      const value = params[Number(index)];
+      return Array.isArray(expected) ? expected.includes(value) : value === expected;
+    });
+  }
+
+  // 过滤远程配置中类型不正确的字段
+  private sanitizeOverride(override: any): CachePolicyOverride | null {
+    if (!override || typeof override !== 'object') {
+      return null;
+    }
+    const sanitized: CachePolicyOverride = {};
+    (['ttl', 'staleWhileRevalidate', 'maxAge'] as const).forEach(field => {
+      const value = override[field];
+      if (typeof value === 'number' && value >= 0) {
+        sanitized[field] = value;
+      }
+    });
+    if (typeof override.dedupe === 'boolean') {
+      sanitized.dedupe = override.dedupe;
+    }
+    if (Array.isArray(override.tags)) {
+      sanitized.tags = override.tags.filter((tag: unknown) => typeof tag === 'string');
+    }
+    if (typeof override.method === 'string') {
+      sanitized.method = override.method;
+    }
+    if (override.params && typeof override.params === 'object') {
+      sanitized.params = override.params;
+    }
+    return sanitized;
+  }
+}
+
+const cachePolicyRegistry = CachePolicyRegistry.getInstance();
+export default cachePolicyRegistry;
+export type { CachePolicy, CachePolicyRule, CacheParamPattern };
@@ -0,0 +1,210 @@
+import stockService from './StockService';
+import macroIndicatorRegistry from './data/MacroIndicatorRegistry';
+import { DateUtils } from '../utils/dateUtils';
+
+// 对比序列中的单个数据点
+export interface ComparisonPoint {
+  // YYYY-MM-DD
+  date: string;
+  value: number;
+}
+
+// 可参与对比的宏观指数
+export interface MacroComparisonSeries {
+  id: string;
+  label: string;
+  fetchHistory: (days: number) => Promise<ComparisonPoint[]>;
+}
+
+// 归一化后的单条对比曲线
+export interface NormalizedSeries {
+  symbol: string;
+  label: string;
+  // 相对起始日的涨跌幅(%)，与 ComparisonResult.dates 一一对应
+  changes: number[];
+  latestChange: number;
+}
+
+export interface ComparisonResult {
+  // 共同起始日之后的所有日期（升序）
+  dates: string[];
+  series: NormalizedSeries[];
+  // 加载失败或没有数据的代码
+  missingSymbols: string[];
+}
+
+// 单次对比最多支持的代码数量
+export const MAX_COMPARISON_SYMBOLS = 5;
+
+// 从宏观指标注册表读取历史数据
+const fetchIndicatorHistory = (indicatorId: string) => async (days: number): Promise<ComparisonPoint[]> => {
+  const service = macroIndicatorRegistry.getService(indicatorId);
+  if (!service) return [];
+  return (await service.getHistory(days)).map(point => ({ date: DateUtils.toDateKey(point.date), value: point.value }));
+};
+
+// 宏观指数数据源，id 同时用于深度链接中的代码
+export const MACRO_COMPARISON_SERIES: MacroComparisonSeries[] = [
+  {
+    id: 'SP500',
+    label: '标普500',
+    fetchHistory: fetchIndicatorHistory('SP500'),
+  },
+  {
+    id: 'NASDAQ',
+    label: '纳斯达克',
+    fetchHistory: fetchIndicatorHistory('Nasdaq'),
+  },
+  {
+    id: 'DJI',
+    label: '道琼斯',
+    fetchHistory: fetchIndicatorHistory('DJI'),
+  },
+];
+
+/**
+ * 判断代码是否为宏观指数
+ */
+export const getMacroSeries = (symbol: string): MacroComparisonSeries | undefined =>
+  MACRO_COMPARISON_SERIES.find(series => series.id === symbol.toUpperCase());
+
+/**
+ * 解析深度链接中的代码列表，如 "NVDA,AMD,SP500"（路由已完成URL解码）
+ */
+export const parseComparisonSymbols = (value?: string | string[]): string[] => {
+  const raw = Array.isArray(value) ? value.join(',') : value || '';
+  const symbols = raw
+    .split(',')
+    .map(symbol => symbol.trim().toUpperCase())
+    .filter(Boolean);
+  return Array.from(new Set(symbols)).slice(0, MAX_COMPARISON_SYMBOLS);
+};
+
+/**
+ * 将多条序列对齐到共同起始日并换算为涨跌幅
+ * 共同起始日取各序列第一个日期中最晚的一个；某日缺数据时沿用前一交易日的值
+ * @param seriesMap 代码 -> 序列（顺序不限）
+ * @param labels 代码 -> 显示名称
+ */
+export const normalizeToPercentChange = (
+  seriesMap: Record<string, ComparisonPoint[]>,
+  labels: Record<string, string> = {}
+): ComparisonResult => {
+  const sortedMap: Record<string, ComparisonPoint[]> = {};
+  const missingSymbols: string[] = [];
+
+  Object.entries(seriesMap).forEach(([symbol, points]) => {
+    const valid = points
+      .filter(point => point.date && isFinite(point.value) && point.value > 0)
+      .sort((a, b) => a.date.localeCompare(b.date));
+    if (valid.length > 0) {
+      sortedMap[symbol] = valid;
+    } else {
+      missingSymbols.push(symbol);
+    }
+  });
+
+  const symbols = Object.keys(sortedMap);
+  if (symbols.length === 0) {
+    return { dates: [], series: [], missingSymbols };
+  }
+
+  const commonStart = symbols
+    .map(symbol => sortedMap[symbol][0].date)
+    .reduce((latest, date) => (date > latest ? date : latest));
+
+  const dates = Array.from(new Set(
+    symbols.flatMap(symbol => sortedMap[symbol].map(point => point.date))
+  ))
+    .filter(date => date >= commonStart)
+    .sort();
+
+  const series: NormalizedSeries[] = symbols.map(symbol => {
+    const points = sortedMap[symbol];
+    const valueByDate = new Map(points.map(point => [point.date, point.value]));
+    // 起始值取共同起始日当天或之前最近的一个值
+    let lastValue = [...points].reverse().find(point => point.date <= commonStart)?.value ?? points[0].value;
+    const base = lastValue;
+
+    const changes = dates.map(date => {
+      const value = valueByDate.get(date);
+      if (value !== undefined) {
+        lastValue = value;
+      }
+      return (lastValue / base - 1) * 100;
+    });
+
+    return {
+      symbol,
+      label: labels[symbol] || symbol,
+      changes,
+      latestChange: changes.length > 0 ? changes[changes.length - 1] : 0,
+    };
+  });
+
+  return { dates, series, missingSymbols };
+};
+
+/**
+ * 多标的走势对比服务
+ * 股票数据来自 StockService.getUsstockInfo，指数数据来自各宏观数据服务
+ */
+class ComparisonService {
+  private static instance: ComparisonService;
+
+  private constructor() {}
+
+  static getInstance(): ComparisonService {
+    if (!ComparisonService.instance) {
+      ComparisonService.instance = new ComparisonService();
+    }
+    return ComparisonService.instance;
+  }
+
+  /**
+   * 获取单个代码的历史序列
+   * @param symbol 股票代码或宏观指数id
+   * @param days 天数
+   */
+  async getHistory(symbol: string, days: number): Promise<ComparisonPoint[]> {
+    const macro = getMacroSeries(symbol);
+    if (macro) {
+      return macro.fetchHistory(days);
+    }
+
+    const records = await stockService.getUsstockInfo(symbol, days);
+    return records.map(record => ({
+      date: DateUtils.toDateKey(record.date),
+      value: Number(record.currentPrice),
+    }));
+  }
+
+  /**
+   * 获取多个代码的归一化对比数据
+   * @param symbols 股票代码或宏观指数id列表
+   * @param days 天数
+   */
+  async compare(symbols: string[], days: number): Promise<ComparisonResult> {
+    const unique = Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).slice(0, MAX_COMPARISON_SYMBOLS);
+    console.log('📊 ComparisonService: 加载对比数据', { symbols: unique, days });
+
+    const entries = await Promise.all(unique.map(async symbol => {
+      try {
+        return [symbol, await this.getHistory(symbol, days)] as const;
+      } catch (error) {
+        console.warn(`⚠️ ComparisonService: 获取 ${symbol} 历史数据失败:`, error);
+        return [symbol, [] as ComparisonPoint[]] as const;
+      }
+    }));
+
+    const labels: Record<string, string> = {};
+    unique.forEach(symbol => {
+      labels[symbol] = getMacroSeries(symbol)?.label || symbol;
+    });
+
+    return normalizeToPercentChange(Object.fromEntries(entries), labels);
+  }
+}
+
+const comparisonService = ComparisonService.getInstance();
+export default comparisonService;
@@ -1,4 +1,4 @@
-import apiService from './APIService';
+import rpcClient from './rpc/RPCClient';
 
 /**
  * 配置项接口
@@ -124,18 +124,9 @@ class ConfigService {
   private async fetchConfigs(): Promise<ConfigItem[]> {
     try {
       console.log('🔄 ConfigService: Fetching app configs...');
-      const response = await apiService.call('listConfig', ['xmb_config']);
-      
-      if (Array.isArray(response)) {
-        console.log(`✅ ConfigService: Loaded ${response.length} configs`);
-        return response;
-      } else if (response && Array.isArray(response.result)) {
-        console.log(`✅ ConfigService: Loaded ${response.result.length} configs`);
-        return response.result;
-      } else {
-        console.warn('⚠️ ConfigService: Unexpected response format:', response);
-        return [];
-      }
+      const configs = await rpcClient.call('listConfig', ['xmb_config']);
+      console.log(`✅ ConfigService: Loaded ${configs.length} configs`);
+      return configs;
     } catch (error) {
       console.error('❌ ConfigService: API call failed:', error);
       throw error;
@@ -0,0 +1,277 @@
+import stockService, { TransformedStockData } from './StockService';
+import { Holding, PortfolioPosition, PortfolioQuote, calculatePortfolioSummary } from './PortfolioService';
+import { DateUtils } from '../utils/dateUtils';
+import { parseAbbreviatedNumber, parsePercent } from '../utils/numberUtils';
+
+// 某个交易日行情 baseinfo 中的股息数据
+export interface DividendPoint {
+  date: string;
+  // 年度每股股息（美元），不派息为 0
+  annualDividend: number;
+  // 股息率(%)，行情未提供时为 null
+  dividendYield: number | null;
+}
+
+// 一次股息调整：年度每股股息发生变化（增派、减派、开始或停止派息）
+export interface DividendChange {
+  code: string;
+  // 行情中股息更新的交易日 YYYY-MM-DD
+  date: string;
+  previousDividend: number;
+  dividend: number;
+  // 变化幅度(%)，此前不派息时为 null
+  change: number | null;
+}
+
+export interface StockDividends {
+  // 最新的股息数据，行情缺失时为 null
+  current: DividendPoint | null;
+  // 每月最后一个交易日的股息数据，按日期升序
+  monthly: DividendPoint[];
+  // 股息调整，按日期倒序
+  changes: DividendChange[];
+}
+
+// 自选股的股息概览
+export interface DividendWatchItem {
+  code: string;
+  annualDividend: number;
+  dividendYield: number | null;
+  // 统计范围内最近一次股息调整
+  lastChange: DividendChange | null;
+}
+
+// 单只持仓的股息收入
+export interface DividendIncomeItem {
+  symbol: string;
+  shares: number;
+  // 年度每股股息
+  annualDividend: number;
+  // 预计年度股息收入
+  annualIncome: number;
+  // 成本股息率(%)：年度股息 / 平均成本
+  yieldOnCost: number;
+  // 当前股息率(%)：年度股息 / 现价
+  currentYield: number;
+}
+
+export interface DividendIncomeSummary {
+  items: DividendIncomeItem[];
+  totalAnnualIncome: number;
+  // 组合成本股息率(%)，按全部持仓成本计算
+  yieldOnCost: number;
+  // 组合当前股息率(%)，按全部持仓市值计算
+  currentYield: number;
+}
+
+// 个股股息走势拉取的日线天数，覆盖约两年
+const STOCK_HISTORY_DAYS = 800;
+// 自选股统计最近一年的股息调整
+const DIVIDEND_WATCH_DAYS = 365;
+// 自选股同时请求的股票数
+const WATCHLIST_CONCURRENCY = 4;
+
+/**
+ * 从行情中取年度每股股息（baseinfo.dividend）
+ * @param stocks 行情快照
+ * @returns { KO: 1.94, ... }，key 为大写股票代码，不派息的股票不包含在内
+ */
+export const getAnnualDividends = (stocks: TransformedStockData[]): Record<string, number> => {
+  const annualDividends: Record<string, number> = {};
+  stocks.forEach(stock => {
+    const dividend = parseAbbreviatedNumber(stock.dividend);
+    if (dividend > 0) {
+      annualDividends[stock.code.toUpperCase()] = dividend;
+    }
+  });
+  return annualDividends;
+};
+
+/**
+ * 根据持仓和年度每股股息计算预计股息收入和成本股息率
+ * @param positions 持仓计算结果（calculatePortfolioSummary 的 positions）
+ * @param annualDividends 年度每股股息 { KO: 1.94, ... }，key 为大写股票代码，不派息的股票可省略
+ */
+export const calculateDividendIncome = (
+  positions: PortfolioPosition[],
+  annualDividends: Record<string, number>
+): DividendIncomeSummary => {
+  const items: DividendIncomeItem[] = positions
+    .filter(position => annualDividends[position.symbol] > 0)
+    .map(position => {
+      const annualDividend = annualDividends[position.symbol];
+      return {
+        symbol: position.symbol,
+        shares: position.shares,
+        annualDividend,
+        annualIncome: position.shares * annualDividend,
+        yieldOnCost: position.averageCost > 0 ? (annualDividend / position.averageCost) * 100 : 0,
+        currentYield: position.price > 0 ? (annualDividend / position.price) * 100 : 0,
+      };
+    })
+    .sort((a, b) => b.annualIncome - a.annualIncome);
+
+  const totalAnnualIncome = items.reduce((sum, item) => sum + item.annualIncome, 0);
+  const totalCostBasis = positions.reduce((sum, position) => sum + position.costBasis, 0);
+  const totalMarketValue = positions.reduce((sum, position) => sum + position.marketValue, 0);
+
+  return {
+    items,
+    totalAnnualIncome,
+    yieldOnCost: totalCostBasis > 0 ? (totalAnnualIncome / totalCostBasis) * 100 : 0,
+    currentYield: totalMarketValue > 0 ? (totalAnnualIncome / totalMarketValue) * 100 : 0,
+  };
+};
+
+/**
+ * 从日线中识别股息调整：年度每股股息发生变化的交易日
+ * @param series 按日期升序的股息数据
+ * @returns 按日期倒序的股息调整
+ */
+export const detectDividendChanges = (code: string, series: DividendPoint[]): DividendChange[] => {
+  const changes: DividendChange[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previousDividend = series[i - 1].annualDividend;
+    const dividend = series[i].annualDividend;
+    if (Math.abs(dividend - previousDividend) < 0.0001) {
+      continue;
+    }
+    changes.push({
+      code,
+      date: series[i].date,
+      previousDividend,
+      dividend,
+      change: previousDividend > 0 ? ((dividend - previousDividend) / previousDividend) * 100 : null,
+    });
+  }
+  return changes.reverse();
+};
+
+/**
+ * 每月取最后一个交易日的股息数据
+ * @param series 按日期升序的股息数据
+ */
+export const sampleMonthlyDividends = (series: DividendPoint[]): DividendPoint[] => {
+  const months = new Map<string, DividendPoint>();
+  series.forEach(point => months.set(point.date.slice(0, 7), point));
+  return Array.from(months.values());
+};
+
+/**
+ * 股息服务
+ * 行情接口不提供除息日和派息记录，股息数据取自 baseinfo 中的年度每股股息（dividend）和股息率（dividendYield）：
+ * 结合持仓计算预计收入和成本股息率，从 getUsstockInfo 日线中识别股息调整
+ */
+class DividendService {
+  private static instance: DividendService;
+
+  private constructor() {}
+
+  static getInstance(): DividendService {
+    if (!DividendService.instance) {
+      DividendService.instance = new DividendService();
+    }
+    return DividendService.instance;
+  }
+
+  /**
+   * 获取单只股票的股息走势和股息调整
+   * @param code 股票代码
+   */
+  async getStockDividends(code: string): Promise<StockDividends> {
+    const symbol = code.toUpperCase();
+    console.log(`🔄 DividendService: Fetching dividends for ${symbol}`);
+    const series = await this.getDailySeries(symbol, STOCK_HISTORY_DAYS);
+    const changes = detectDividendChanges(symbol, series);
+
+    console.log(`✅ DividendService: ${symbol} ${series.length} days, ${changes.length} changes`);
+    return {
+      current: series.length > 0 ? series[series.length - 1] : null,
+      monthly: sampleMonthlyDividends(series),
+      changes,
+    };
+  }
+
+  /**
+   * 获取自选股的股息率和最近一年的股息调整，只返回派息或一年内停止派息的股票，按股息率倒序
+   * @param codes 股票代码
+   */
+  async getWatchlistDividends(codes: string[]): Promise<DividendWatchItem[]> {
+    const symbols = Array.from(new Set(codes.map(code => code.toUpperCase()))).filter(Boolean);
+
+    const results: DividendWatchItem[] = [];
+    for (let i = 0; i < symbols.length; i += WATCHLIST_CONCURRENCY) {
+      const batch = symbols.slice(i, i + WATCHLIST_CONCURRENCY);
+      const items = await Promise.all(batch.map(async (symbol): Promise<DividendWatchItem | null> => {
+        const series = await this.getDailySeries(symbol, DIVIDEND_WATCH_DAYS);
+        const latest = series[series.length - 1];
+        const lastChange = detectDividendChanges(symbol, series)[0] || null;
+        if (!latest || (latest.annualDividend <= 0 && !lastChange)) {
+          return null;
+        }
+        return {
+          code: symbol,
+          annualDividend: latest.annualDividend,
+          dividendYield: latest.dividendYield,
+          lastChange,
+        };
+      }));
+      items.forEach(item => item && results.push(item));
+    }
+
+    return results.sort((a, b) => (b.dividendYield ?? -1) - (a.dividendYield ?? -1) || a.code.localeCompare(b.code));
+  }
+
+  /**
+   * 按最新行情计算持仓的预计股息收入
+   * @param holdings 持仓列表
+   */
+  async getHoldingsIncome(holdings: Holding[]): Promise<DividendIncomeSummary> {
+    const symbols = holdings.filter(holding => holding.lots.length > 0).map(holding => holding.symbol);
+    const stocks = symbols.length > 0 ? await stockService.fetchMultipleStocks(symbols) : [];
+
+    const quotes: Record<string, PortfolioQuote> = {};
+    stocks.forEach(stock => {
+      quotes[stock.code.toUpperCase()] = { price: parseAbbreviatedNumber(stock.currentPrice) };
+    });
+    const summary = calculatePortfolioSummary(holdings, quotes);
+    return calculateDividendIncome(summary.positions, getAnnualDividends(stocks));
+  }
+
+  /**
+   * 格式化每股股息，如 $0.2400
+   */
+  formatAmount(value: number | null): string {
+    if (value === null) return '--';
+    return `$${value.toFixed(value < 1 ? 4 : 2)}`;
+  }
+
+  /**
+   * 格式化股息率，如 2.35%
+   */
+  formatYield(value: number | null): string {
+    if (value === null) return '--';
+    return `${value.toFixed(2)}%`;
+  }
+
+  /**
+   * 获取按日期升序的股息数据，每个交易日取一条有效记录
+   * 股息字段缺失（解析失败）的交易日跳过，避免把缺失识别为停止派息
+   */
+  private async getDailySeries(symbol: string, days: number): Promise<DividendPoint[]> {
+    const records = await stockService.getUsstockInfo(symbol, days);
+    const points = new Map<string, DividendPoint>();
+    records.forEach(record => {
+      const date = DateUtils.toDateKey(record.date);
+      const annualDividend = parseAbbreviatedNumber(record.dividend);
+      const dividendYield = parsePercent(record.dividendYield);
+      if (date && !isNaN(annualDividend) && annualDividend >= 0 && !points.has(date)) {
+        points.set(date, { date, annualDividend, dividendYield: isNaN(dividendYield) ? null : dividendYield });
+      }
+    });
+    return Array.from(points.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+}
+
+const dividendService = DividendService.getInstance();
+export default dividendService;
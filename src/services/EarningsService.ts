@@ -0,0 +1,265 @@
+import stockService from './StockService';
+import economicCalendarService from './EconomicCalendarService';
+import { DateUtils } from '../utils/dateUtils';
+
+// 一次财报：行情数据在财报公布后更新滚动12个月 EPS，按 EPS 的变化识别
+export interface EarningsReport {
+  code: string;
+  // EPS 更新日（财报公布当日或次日），YYYY-MM-DD
+  date: string;
+  // 更新前后的滚动12个月 EPS
+  previousEps: number;
+  eps: number;
+  // EPS 变化幅度（%），前值为 0 时为 null
+  epsChange: number | null;
+}
+
+// 根据历史财报间隔推算的下一次财报
+export interface UpcomingEarnings {
+  code: string;
+  // 预计日期 YYYY-MM-DD
+  date: string;
+  // 上一次财报的 EPS 更新日
+  lastDate: string;
+}
+
+// 财报公布后的股价反应
+export interface EarningsReaction {
+  report: EarningsReport;
+  // 财报前的收盘价及其日期
+  baseDate: string;
+  baseClose: number;
+  // 财报后的收盘价及其日期
+  reactionDate: string;
+  reactionClose: number;
+  // 涨跌幅（%）
+  change: number;
+}
+
+export interface StockEarnings {
+  // 预计的下一次财报，历史记录不足时为 null
+  next: UpcomingEarnings | null;
+  // 已识别的财报，按日期倒序
+  history: EarningsReport[];
+  // 最近几次财报后的股价反应，按日期倒序
+  reactions: EarningsReaction[];
+}
+
+// 自选股本周财报：已公布（本周 EPS 已更新）或按间隔推算预计在本周公布
+export type WatchlistEarningsStatus = 'reported' | 'estimated';
+
+export interface WatchlistEarnings {
+  code: string;
+  date: string;
+  status: WatchlistEarningsStatus;
+  // 已公布时为更新后的 EPS
+  eps: number | null;
+}
+
+export const EARNINGS_STATUS_LABELS: Record<WatchlistEarningsStatus, string> = {
+  reported: '已公布',
+  estimated: '预计',
+};
+
+// 个股财报拉取的日线天数，覆盖约两年（8 次季报）
+const STOCK_HISTORY_DAYS = 800;
+// 自选股只需推算下一次财报，覆盖最近两次季报即可
+const WATCHLIST_HISTORY_DAYS = 200;
+// 自选股同时请求的股票数
+const WATCHLIST_CONCURRENCY = 4;
+// 价格反应最多统计的财报次数
+const MAX_REACTIONS = 8;
+// 间隔小于该天数的 EPS 变化视为同一次财报的数据修正
+const MIN_REPORT_GAP_DAYS = 30;
+// 只有一次财报时按季报间隔推算
+const DEFAULT_REPORT_GAP_DAYS = 91;
+// EPS 更新日前取基准收盘价的交易日数：盘后公布时更新日可能已是公布后第二个交易日
+const REACTION_BASE_OFFSET = 2;
+const DAY = 24 * 60 * 60 * 1000;
+
+// 按日期升序的日线：收盘价与当日的 EPS
+export interface EarningsDailyPoint {
+  date: string;
+  close: number;
+  eps: number;
+}
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((new Date(to).getTime() - new Date(from).getTime()) / DAY);
+
+const addDays = (date: string, days: number): string =>
+  new Date(new Date(date).getTime() + days * DAY).toISOString().split('T')[0];
+
+/**
+ * 从日线中识别财报：EPS 发生变化的交易日即为财报后的更新日
+ * 间隔不足 MIN_REPORT_GAP_DAYS 的变化合并到前一次财报
+ * @param series 按日期升序的日线
+ * @returns 按日期倒序的财报
+ */
+export const detectEarningsReports = (code: string, series: EarningsDailyPoint[]): EarningsReport[] => {
+  const reports: EarningsReport[] = [];
+  for (let i = 1; i < series.length; i++) {
+    const previousEps = series[i - 1].eps;
+    const eps = series[i].eps;
+    if (Math.abs(eps - previousEps) < 0.005) {
+      continue;
+    }
+
+    const last = reports[reports.length - 1];
+    if (last && daysBetween(last.date, series[i].date) < MIN_REPORT_GAP_DAYS) {
+      last.eps = eps;
+      last.epsChange = last.previousEps === 0 ? null : ((eps - last.previousEps) / Math.abs(last.previousEps)) * 100;
+      continue;
+    }
+    reports.push({
+      code,
+      date: series[i].date,
+      previousEps,
+      eps,
+      epsChange: previousEps === 0 ? null : ((eps - previousEps) / Math.abs(previousEps)) * 100,
+    });
+  }
+  return reports.reverse();
+};
+
+/**
+ * 按历史财报的平均间隔推算下一次财报日期
+ * @param history 按日期倒序的财报
+ */
+export const estimateNextEarnings = (code: string, history: EarningsReport[]): UpcomingEarnings | null => {
+  if (history.length === 0) {
+    return null;
+  }
+  const gaps = history.slice(0, -1).map((report, index) => daysBetween(history[index + 1].date, report.date));
+  const gap = gaps.length > 0
+    ? Math.round(gaps.reduce((sum, value) => sum + value, 0) / gaps.length)
+    : DEFAULT_REPORT_GAP_DAYS;
+  return { code, date: addDays(history[0].date, gap), lastDate: history[0].date };
+};
+
+/**
+ * 财报服务
+ * 行情接口不提供财报日历和预期，从 getUsstockInfo 日线中 EPS 的变化识别历史财报，
+ * 推算下一次财报日期，并计算财报后的股价反应
+ */
+class EarningsService {
+  private static instance: EarningsService;
+
+  private constructor() {}
+
+  static getInstance(): EarningsService {
+    if (!EarningsService.instance) {
+      EarningsService.instance = new EarningsService();
+    }
+    return EarningsService.instance;
+  }
+
+  /**
+   * 获取单只股票的财报数据
+   * @param code 股票代码
+   */
+  async getStockEarnings(code: string): Promise<StockEarnings> {
+    const symbol = code.toUpperCase();
+    console.log(`🔄 EarningsService: Fetching earnings for ${symbol}`);
+    const series = await this.getDailySeries(symbol, STOCK_HISTORY_DAYS);
+    const history = detectEarningsReports(symbol, series);
+    const next = estimateNextEarnings(symbol, history);
+
+    console.log(`✅ EarningsService: ${symbol} ${history.length} reports, next: ${next?.date || 'N/A'}`);
+    return { next, history, reactions: this.getReactions(series, history) };
+  }
+
+  /**
+   * 获取自选股在指定周内已公布或预计公布的财报
+   * @param codes 股票代码
+   * @param weekStart 周一日期，默认为本周
+   */
+  async getWatchlistEarnings(codes: string[], weekStart: Date = economicCalendarService.getWeekStart()): Promise<WatchlistEarnings[]> {
+    const symbols = Array.from(new Set(codes.map(code => code.toUpperCase()))).filter(Boolean);
+    const weekFirst = DateUtils.formatDate(weekStart);
+    const weekLast = DateUtils.formatDate(new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + 6));
+    const inWeek = (date: string) => date >= weekFirst && date <= weekLast;
+
+    const results: WatchlistEarnings[] = [];
+    for (let i = 0; i < symbols.length; i += WATCHLIST_CONCURRENCY) {
+      const batch = symbols.slice(i, i + WATCHLIST_CONCURRENCY);
+      const items = await Promise.all(batch.map(async (symbol): Promise<WatchlistEarnings | null> => {
+        const history = detectEarningsReports(symbol, await this.getDailySeries(symbol, WATCHLIST_HISTORY_DAYS));
+        const latest = history[0];
+        if (latest && inWeek(latest.date)) {
+          return { code: symbol, date: latest.date, status: 'reported', eps: latest.eps };
+        }
+        const next = estimateNextEarnings(symbol, history);
+        if (next && inWeek(next.date)) {
+          return { code: symbol, date: next.date, status: 'estimated', eps: null };
+        }
+        return null;
+      }));
+      items.forEach(item => item && results.push(item));
+    }
+
+    return results.sort((a, b) => a.date.localeCompare(b.date) || a.code.localeCompare(b.code));
+  }
+
+  /**
+   * 格式化 EPS，如 $1.23
+   */
+  formatEps(value: number | null): string {
+    if (value === null) return '--';
+    return `${value < 0 ? '-' : ''}$${Math.abs(value).toFixed(2)}`;
+  }
+
+  /**
+   * 格式化变化幅度，如 +5.2%
+   */
+  formatChange(value: number | null): string {
+    if (value === null) return '--';
+    return `${value >= 0 ? '+' : ''}${value.toFixed(1)}%`;
+  }
+
+  /**
+   * 获取按日期升序的日线，每个交易日取一条有效的收盘价和 EPS
+   */
+  private async getDailySeries(symbol: string, days: number): Promise<EarningsDailyPoint[]> {
+    const records = await stockService.getUsstockInfo(symbol, days);
+    const points = new Map<string, EarningsDailyPoint>();
+    records.forEach(record => {
+      const date = DateUtils.toDateKey(record.date);
+      const close = parseFloat(record.currentPrice);
+      const eps = parseFloat(record.eps || '');
+      if (date && !isNaN(close) && close > 0 && !isNaN(eps) && !points.has(date)) {
+        points.set(date, { date, close, eps });
+      }
+    });
+    return Array.from(points.values()).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  /**
+   * 计算最近几次财报后的股价反应
+   * 公布时间（盘前/盘后）未知，取 EPS 更新日前 REACTION_BASE_OFFSET 个交易日的收盘 → 更新日收盘
+   */
+  private getReactions(series: EarningsDailyPoint[], history: EarningsReport[]): EarningsReaction[] {
+    return history
+      .slice(0, MAX_REACTIONS)
+      .map(report => {
+        const index = series.findIndex(point => point.date === report.date);
+        const base = series[index - REACTION_BASE_OFFSET];
+        if (index < 0 || !base) {
+          return null;
+        }
+        const reaction = series[index];
+        return {
+          report,
+          baseDate: base.date,
+          baseClose: base.close,
+          reactionDate: reaction.date,
+          reactionClose: reaction.close,
+          change: ((reaction.close - base.close) / base.close) * 100,
+        };
+      })
+      .filter((reaction): reaction is EarningsReaction => reaction !== null);
+  }
+}
+
+const earningsService = EarningsService.getInstance();
+export default earningsService;
@@ -0,0 +1,286 @@
+import rpcClient from './rpc/RPCClient';
+import s from './rpc/schema';
+import { EconomicEventItem, economicEventSchema } from './rpc/contracts';
+import newsService, { NewsArticle } from './NewsService';
+import macroIndicatorRegistry from './data/MacroIndicatorRegistry';
+import { MacroIndicatorPoint } from './data/MacroIndicatorService';
+import { DateUtils } from '../utils/dateUtils';
+import { parseAbbreviatedNumber, parsePercent } from '../utils/numberUtils';
+
+export type EventImportance = 1 | 2 | 3;
+
+// 财经日历事件
+export interface EconomicEvent {
+  id: string;
+  title: string;
+  // 国家/地区代码，如 US、CN、EU
+  country: string;
+  importance: EventImportance;
+  // 公布时间（ISO 8601）
+  datetime: string;
+  // 本地日期 YYYY-MM-DD，用于按天分组
+  date: string;
+  // 本地时间 HH:mm
+  time: string;
+  actual: string;
+  forecast: string;
+  previous: string;
+  unit: string;
+  keywords: string;
+}
+
+export interface EconomicCalendarDay {
+  date: string;
+  events: EconomicEvent[];
+}
+
+// 公布值与预期值的比较
+export interface EventSurprise {
+  direction: 'above' | 'below' | 'inline';
+  diff: number;
+}
+
+// 指标在事件公布前后的表现（日线）
+export interface MarketReaction {
+  indicatorId: string;
+  name: string;
+  // 公布日前最后一个交易日
+  before: MacroIndicatorPoint | null;
+  // 公布当日（或之后第一个交易日）
+  release: MacroIndicatorPoint | null;
+  // 公布后下一个交易日
+  after: MacroIndicatorPoint | null;
+  // 相对 before 的涨跌幅（%）
+  releaseChange: number | null;
+  afterChange: number | null;
+}
+
+export const IMPORTANCE_LABELS: Record<EventImportance, string> = {
+  1: '低',
+  2: '中',
+  3: '高',
+};
+
+export const IMPORTANCE_COLORS: Record<EventImportance, string> = {
+  1: '#8E8E93',
+  2: '#FF9500',
+  3: '#FF3B30',
+};
+
+// 公布值与预期的偏差颜色（高于/低于预期对市场的利好利空因指标而异，不用涨跌色）
+export const SURPRISE_COLORS: Record<EventSurprise['direction'], string> = {
+  above: '#FF9500',
+  below: '#007AFF',
+  inline: '#1A1A1A',
+};
+
+export const SURPRISE_LABELS: Record<EventSurprise['direction'], string> = {
+  above: '高于预期',
+  below: '低于预期',
+  inline: '符合预期',
+};
+
+export const COUNTRY_NAMES: Record<string, string> = {
+  US: '美国',
+  CN: '中国',
+  EU: '欧元区',
+  JP: '日本',
+  UK: '英国',
+  GB: '英国',
+  DE: '德国',
+  CA: '加拿大',
+  AU: '澳大利亚',
+};
+
+// listData 数据类型：每条记录为一天的事件列表，已排期的未来日期也会提前发布
+export const ECONOMIC_CALENDAR_DATA_TYPE = 'ECONOMIC_CALENDAR';
+// 按日期倒序拉取的记录条数，覆盖已排期的未来几周和最近约两个月
+const CALENDAR_RECORDS = 90;
+
+// 展示市场反应的指标
+const REACTION_INDICATORS = ['SP500', 'DXY'];
+// 拉取的指标历史条数，覆盖约一年内的事件
+const REACTION_HISTORY_RECORDS = 300;
+
+// 按本地日历加减天数（避免夏令时切换日按 24 小时计算出错）
+const addDays = (date: Date, days: number): Date =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/**
+ * 财经日历服务
+ * 获取 CPI、FOMC、非农等经济事件，并关联相关资讯和 SP500/DXY 的市场反应
+ */
+class EconomicCalendarService {
+  private static instance: EconomicCalendarService;
+
+  private constructor() {}
+
+  static getInstance(): EconomicCalendarService {
+    if (!EconomicCalendarService.instance) {
+      EconomicCalendarService.instance = new EconomicCalendarService();
+    }
+    return EconomicCalendarService.instance;
+  }
+
+  /**
+   * 获取日期所在周的周一（本地时间 00:00）
+   */
+  getWeekStart(date: Date = new Date()): Date {
+    // getDay(): 周日为 0
+    return addDays(date, -((date.getDay() + 6) % 7));
+  }
+
+  /**
+   * 获取一周的事件（周一至周日），按公布时间排序
+   * @param weekStart 周一日期
+   */
+  async getWeekEvents(weekStart: Date): Promise<EconomicEvent[]> {
+    const weekEnd = addDays(weekStart, 6);
+    // 记录按美东日期发布，取回后按本地日期过滤
+    const weekFirst = DateUtils.formatDate(weekStart);
+    const weekLast = DateUtils.formatDate(weekEnd);
+
+    console.log(`🔄 EconomicCalendarService: Fetching events ${weekFirst} ~ ${weekLast}`);
+    const records = await rpcClient.listData(
+      ['', ECONOMIC_CALENDAR_DATA_TYPE, '1', '0', CALENDAR_RECORDS.toString()],
+      s.array(economicEventSchema)
+    );
+    // 同一事件只保留一条（记录按日期倒序，重复时以较新的记录为准）
+    const items = new Map<string, EconomicEventItem>();
+    records.forEach(record => {
+      record.data.forEach(item => {
+        if (!items.has(item.id)) {
+          items.set(item.id, item);
+        }
+      });
+    });
+
+    const events = Array.from(items.values())
+      .map(item => this.toEvent(item))
+      .filter(event => event.date >= weekFirst && event.date <= weekLast)
+      .sort((a, b) => new Date(a.datetime).getTime() - new Date(b.datetime).getTime());
+
+    console.log(`✅ EconomicCalendarService: ${events.length} events`);
+    return events;
+  }
+
+  /**
+   * 切换周
+   * @param offset 相对周数，负数为之前的周
+   */
+  shiftWeek(weekStart: Date, offset: number): Date {
+    return addDays(weekStart, offset * 7);
+  }
+
+  /**
+   * 按重要性过滤
+   * @param minImportance 最低重要性
+   */
+  filterByImportance(events: EconomicEvent[], minImportance: EventImportance): EconomicEvent[] {
+    return events.filter(event => event.importance >= minImportance);
+  }
+
+  /**
+   * 按本地日期分组，包含一周中没有事件的日期
+   */
+  groupByDay(events: EconomicEvent[], weekStart: Date): EconomicCalendarDay[] {
+    return Array.from({ length: 7 }, (_, index) => {
+      const date = DateUtils.formatDate(addDays(weekStart, index));
+      return { date, events: events.filter(event => event.date === date) };
+    });
+  }
+
+  /**
+   * 比较公布值与预期值，任一缺失或无法解析时返回 null
+   */
+  getSurprise(event: EconomicEvent): EventSurprise | null {
+    const actual = this.parseEventValue(event.actual);
+    const forecast = this.parseEventValue(event.forecast);
+    if (isNaN(actual) || isNaN(forecast)) {
+      return null;
+    }
+    const diff = actual - forecast;
+    return {
+      direction: Math.abs(diff) < 1e-9 ? 'inline' : diff > 0 ? 'above' : 'below',
+      diff,
+    };
+  }
+
+  /**
+   * 获取事件相关资讯
+   */
+  getRelatedNews(event: EconomicEvent, limit: number = 10): Promise<NewsArticle[]> {
+    return newsService.smartSearchNews(event.keywords, limit);
+  }
+
+  /**
+   * 获取 SP500 和 DXY 在事件公布前后的表现，未到公布日的事件只有 before
+   */
+  async getMarketReactions(event: EconomicEvent): Promise<MarketReaction[]> {
+    // 指标为美国交易日日线，按 UTC 日期对应公布日
+    const releaseDate = new Date(event.datetime).toISOString().split('T')[0];
+
+    const reactions = await Promise.all(
+      REACTION_INDICATORS.map(async indicatorId => {
+        const service = macroIndicatorRegistry.getService(indicatorId);
+        if (!service) {
+          return null;
+        }
+        // 按日期倒序
+        const history = await service.getHistory(REACTION_HISTORY_RECORDS);
+        const releaseIndex = history.findIndex((point, index) =>
+          point.date >= releaseDate && (index === history.length - 1 || history[index + 1].date < releaseDate)
+        );
+        const before = history.find(point => point.date < releaseDate) || null;
+        const release = releaseIndex >= 0 ? history[releaseIndex] : null;
+        const after = releaseIndex > 0 ? history[releaseIndex - 1] : null;
+
+        return {
+          indicatorId,
+          name: service.config.shortName,
+          before,
+          release,
+          after,
+          releaseChange: this.getChangePercent(before, release),
+          afterChange: this.getChangePercent(before, after),
+        };
+      })
+    );
+    return reactions.filter((reaction): reaction is MarketReaction => reaction !== null);
+  }
+
+  private getChangePercent(from: MacroIndicatorPoint | null, to: MacroIndicatorPoint | null): number | null {
+    if (!from || !to || from.value === 0) {
+      return null;
+    }
+    return ((to.value - from.value) / from.value) * 100;
+  }
+
+  private parseEventValue(value: string): number {
+    return value.includes('%') ? parsePercent(value) : parseAbbreviatedNumber(value);
+  }
+
+  private toEvent(item: EconomicEventItem): EconomicEvent {
+    const importance = Math.min(3, Math.max(1, Math.round(Number(item.importance)))) as EventImportance;
+    const { timeString } = DateUtils.formatDateTime(item.datetime);
+    const toText = (value: string | number | undefined) => (value === undefined ? '' : String(value).trim());
+
+    return {
+      id: item.id,
+      title: item.title,
+      country: item.country.toUpperCase(),
+      importance,
+      datetime: item.datetime,
+      date: DateUtils.formatDate(item.datetime),
+      time: timeString,
+      actual: toText(item.actual),
+      forecast: toText(item.forecast),
+      previous: toText(item.previous),
+      unit: item.unit || '',
+      keywords: item.keywords || item.title,
+    };
+  }
+}
+
+const economicCalendarService = EconomicCalendarService.getInstance();
+export default economicCalendarService;
@@ -0,0 +1,96 @@
+import configService from './ConfigService';
+import {
+  FEATURE_FLAGS,
+  FeatureFlags,
+  FeatureName,
+  getDefaultFeatureFlags,
+  parseFeatureFlag,
+} from '../config/featureConfig';
+
+type FeatureFlagsListener = (flags: FeatureFlags) => void;
+
+/**
+ * 功能开关服务
+ * 从远程配置读取开关，加载完成前使用 featureConfig 中的默认值
+ */
+class FeatureFlagService {
+  private static instance: FeatureFlagService;
+
+  private flags: FeatureFlags = getDefaultFeatureFlags();
+  private listeners = new Set<FeatureFlagsListener>();
+  private loading: Promise<void> | null = null;
+  private loaded = false;
+
+  private constructor() {}
+
+  static getInstance(): FeatureFlagService {
+    if (!FeatureFlagService.instance) {
+      FeatureFlagService.instance = new FeatureFlagService();
+    }
+    return FeatureFlagService.instance;
+  }
+
+  /**
+   * 获取当前全部开关
+   */
+  getFlags(): FeatureFlags {
+    return this.flags;
+  }
+
+  isEnabled(name: FeatureName): boolean {
+    return this.flags[name];
+  }
+
+  /**
+   * 加载远程开关（只加载一次，失败时保持默认值）
+   */
+  loadRemoteFlags(): Promise<void> {
+    if (this.loading) {
+      return this.loading;
+    }
+    if (this.loaded) {
+      return Promise.resolve();
+    }
+
+    this.loading = (async () => {
+      try {
+        const entries = await Promise.all(
+          (Object.keys(FEATURE_FLAGS) as FeatureName[]).map(async name => {
+            const { configKey, defaultEnabled } = FEATURE_FLAGS[name];
+            const raw = await configService.getConfig(configKey, '');
+            return [name, parseFeatureFlag(raw, defaultEnabled)] as const;
+          })
+        );
+        this.loaded = true;
+        this.setFlags(Object.fromEntries(entries) as FeatureFlags);
+      } catch (error) {
+        console.warn('⚠️ FeatureFlagService: 加载功能开关失败，使用默认值:', error);
+      } finally {
+        this.loading = null;
+      }
+    })();
+    return this.loading;
+  }
+
+  private setFlags(flags: FeatureFlags): void {
+    const changed = (Object.keys(flags) as FeatureName[]).some(name => flags[name] !== this.flags[name]);
+    if (!changed) return;
+    this.flags = flags;
+    console.log('🚩 FeatureFlagService: 功能开关已更新', flags);
+    this.listeners.forEach(listener => listener(flags));
+  }
+
+  /**
+   * 订阅开关变化
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: FeatureFlagsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+const featureFlagService = FeatureFlagService.getInstance();
+export default featureFlagService;
@@ -1,4 +1,5 @@
-import apiService, { APIError } from './APIService';
+import { APIError } from './APIService';
+import rpcClient from './rpc/RPCClient';
 import configService from './ConfigService';
 import stockService from './StockService';
 import stockLogoService from './StockLogoService';
@@ -65,17 +66,10 @@ class MarketService {
     sortOrder: SortOrder = 'asc'
   ): Promise<ListCoinsResult> {
     try {
-      const result = await apiService.call<ListCoinsResult>(
+      return await rpcClient.call(
         'listCoins',
         [skip.toString(), limit.toString(), sortBy, sortOrder]
       );
-
-      // 验证返回数据格式
-      if (!result || !Array.isArray(result.coins)) {
-        throw new APIError(-1, 'Invalid response format: missing coins array');
-      }
-
-      return result;
     } catch (error) {
       console.error('Failed to fetch coins list:', error);
       throw error;
@@ -229,8 +223,8 @@ class MarketService {
     try {
       console.log('🔄 MarketService: Searching crypto with getCoinInfo API...', { query, limit });
       
-      // 调用getCoinInfo API - 精确搜索单个币种
-      const result = await apiService.call<CoinData[] | { result: CoinData[] }>(
+      // 调用getCoinInfo API - 精确搜索单个币种，响应格式不正确时回退到本地搜索
+      const coinData = await rpcClient.call(
         'getCoinInfo',
         [
           query.toUpperCase(),  // 币种符号，转为大写
@@ -238,24 +232,6 @@ class MarketService {
         ]
       );
 
-      console.log('✅ MarketService: getCoinInfo API result:', result);
-
-      // 处理两种可能的响应格式：直接数组或包含result属性的对象
-      let coinData: CoinData[] = [];
-      
-      if (Array.isArray(result)) {
-        // 直接返回数组格式
-        coinData = result;
-        console.log('🔄 MarketService: Using direct array format');
-      } else if (result && result.result && Array.isArray(result.result)) {
-        // 包含result属性的对象格式
-        coinData = result.result;
-        console.log('🔄 MarketService: Using result property format');
-      } else {
-        console.warn('⚠️ Invalid getCoinInfo response format, fallback to local crypto search');
-        return this.searchCoinsLocal(query, limit);
-      }
-
       console.log('🔄 MarketService: getCoinInfo returning:', coinData.length, 'coins');
       return coinData.slice(0, limit);
     } catch (error) {
@@ -374,45 +350,10 @@ class MarketService {
       
       console.log('🌐 MarketService: Making API call to getMultipleCoinsInfo...');
       
-      // 调用getMultipleCoinsInfo API
-      const result = await apiService.call<CoinData[] | { result: CoinData[] } | { coins: CoinData[], total: number, skip: number, limit: number }>(
-        'getMultipleCoinsInfo',
-        [formattedCodes, dataCount]
-      );
+      // 调用getMultipleCoinsInfo API，兼容直接数组、{ result: [...] } 和 { coins: [...] } 三种格式
+      const coinData = await rpcClient.call('getMultipleCoinsInfo', [formattedCodes, dataCount]);
 
       console.log('🎉 MarketService: API call completed successfully!');
-      console.log('📊 MarketService: API response received:', typeof result, Array.isArray(result));
-      console.log('📊 MarketService: Raw API response:', JSON.stringify(result, null, 2));
-
-      // 处理三种可能的响应格式：
-      // 1. 直接数组格式 CoinData[]
-      // 2. 包含result属性的对象 { result: CoinData[] }
-      // 3. 包含coins属性的对象（标准ListCoinsResult格式）{ coins: CoinData[], total: number, skip: number, limit: number }
-      let coinData: CoinData[] = [];
-      
-      if (Array.isArray(result)) {
-        // 直接返回数组格式
-        coinData = result;
-        console.log('📊 MarketService: Using direct array format, found', coinData.length, 'items');
-      } else if (result && 'result' in result && Array.isArray(result.result)) {
-        // 包含result属性的对象格式
-        coinData = result.result;
-        console.log('📊 MarketService: Using result property format, found', coinData.length, 'items');
-      } else if (result && 'coins' in result && Array.isArray(result.coins)) {
-        // 包含coins属性的对象格式（与ListCoinsResult相同）
-        coinData = result.coins;
-        console.log('📊 MarketService: Using standard coins array format, found', coinData.length, 'items');
-      } else {
-        console.warn('⚠️ MarketService: Invalid getMultipleCoinsInfo response format:', result);
-        console.warn('⚠️ MarketService: Response structure analysis:', {
-          hasResult: result && 'result' in result,
-          hasCoins: result && 'coins' in result,
-          isArray: Array.isArray(result),
-          resultType: typeof result,
-          keys: result ? Object.keys(result) : 'null'
-        });
-        return [];
-      }
 
       console.log(`✅ MarketService: Successfully fetched ${coinData.length} items info`);
       if (coinData.length > 0) {
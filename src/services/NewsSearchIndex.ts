@@ -0,0 +1,517 @@
+import { StorageAdapter } from './TokenService';
+import { US_STOCK_SYMBOLS, getUSStockAliases } from '../screens/Market/USStockAlias';
+import type { NewsArticle } from './NewsService';
+
+// 索引中保存的文章：去掉正文，只保留搜索和列表展示需要的字段
+export interface IndexedNewsDoc {
+  id: string;
+  title: string;
+  summary: string;
+  tags: string[];
+  category: string;
+  date: string;
+  image: string;
+  articleUrl: string;
+  // 发布时间（毫秒），用于按新近程度加权和淘汰旧文章
+  publishedAt: number;
+}
+
+// 查询中的一个词组：原词及其别名，命中任意一个即可
+export interface QueryGroup {
+  term: string;
+  variants: QueryVariant[];
+}
+
+export interface QueryVariant {
+  text: string;
+  tokens: string[];
+  // 原词为 1，别名匹配略低
+  weight: number;
+}
+
+export interface NewsSearchHit {
+  article: NewsArticle;
+  score: number;
+  // 命中的原词或别名，用于在卡片中高亮
+  matchedTerms: string[];
+}
+
+export interface NewsSearchOptions {
+  // 不传时返回全部命中结果
+  limit?: number;
+  skip?: number;
+  // 服务端已返回的结果：即使标题摘要中没有出现关键词（例如命中正文）也保留，并给予基础分
+  candidates?: NewsArticle[];
+}
+
+export interface HighlightSegment {
+  text: string;
+  highlight: boolean;
+}
+
+// 字段权重：标题 > 标签 > 摘要
+const FIELD_WEIGHTS = { title: 3, tags: 2, summary: 1 };
+const ALIAS_WEIGHT = 0.8;
+const CANDIDATE_BASE_SCORE = 1;
+// 新近度半衰参数（天）
+const RECENCY_DECAY_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TOKEN_PATTERN = /[a-z0-9]+(?:\.[a-z0-9]+)*|[\u3400-\u9fff\uf900-\ufaff]+/g;
+const CJK_PATTERN = /^[\u3400-\u9fff\uf900-\ufaff]/;
+
+/**
+ * 分词：英文和数字按单词切分（转小写），连续中文按相邻两字切分（bigram），单个汉字保留原字
+ */
+export function tokenizeText(text: string): string[] {
+  if (!text) return [];
+  const tokens: string[] = [];
+  const runs: string[] = text.toLowerCase().match(TOKEN_PATTERN) || [];
+  runs.forEach(run => {
+    if (!CJK_PATTERN.test(run)) {
+      tokens.push(run);
+      return;
+    }
+    if (run.length === 1) {
+      tokens.push(run);
+      return;
+    }
+    for (let i = 0; i < run.length - 1; i++) {
+      tokens.push(run.slice(i, i + 2));
+    }
+  });
+  return tokens;
+}
+
+/**
+ * 查找与搜索词对应的股票代码和全部别名（不限数量）
+ */
+export function findAliasVariants(term: string, aliasMap: Record<string, string[]>): string[] {
+  const normalized = term.toLowerCase().trim();
+  if (!normalized) return [];
+
+  for (const [symbol, aliases] of Object.entries(aliasMap)) {
+    const matched = symbol.toLowerCase() === normalized ||
+      aliases.some(alias => alias.toLowerCase() === normalized);
+    if (matched) {
+      return [symbol, ...aliases].filter(item => item.toLowerCase() !== normalized);
+    }
+  }
+  return [];
+}
+
+/**
+ * 把查询拆成词组：整句能匹配到股票别名时作为一个词组，否则按空格拆分，每段单独扩展别名
+ */
+export function buildQueryGroups(query: string, aliasMap: Record<string, string[]>): QueryGroup[] {
+  const trimmed = query.trim();
+  if (!trimmed) return [];
+
+  const toGroup = (term: string): QueryGroup | null => {
+    const variants: QueryVariant[] = [];
+    const seen = new Set<string>();
+    const addVariant = (text: string, weight: number) => {
+      const tokens = tokenizeText(text);
+      const key = tokens.join(' ');
+      if (tokens.length === 0 || seen.has(key)) return;
+      seen.add(key);
+      variants.push({ text, tokens, weight });
+    };
+
+    addVariant(term, 1);
+    findAliasVariants(term, aliasMap).forEach(alias => addVariant(alias, ALIAS_WEIGHT));
+    return variants.length > 0 ? { term, variants } : null;
+  };
+
+  const parts = trimmed.split(/\s+/);
+  if (parts.length > 1 && findAliasVariants(trimmed, aliasMap).length > 0) {
+    const group = toGroup(trimmed);
+    return group ? [group] : [];
+  }
+
+  return parts
+    .map(toGroup)
+    .filter((group): group is QueryGroup => group !== null);
+}
+
+/**
+ * 新近度系数：刚发布为 1，约两周后降到 0.68，之后趋近 0.5
+ */
+export function computeRecencyBoost(publishedAt: number, now: number = Date.now()): number {
+  if (!publishedAt) return 0.5;
+  const ageDays = Math.max(0, (now - publishedAt) / DAY_MS);
+  return 0.5 + 0.5 * Math.exp(-ageDays / RECENCY_DECAY_DAYS);
+}
+
+/**
+ * 按高亮词拆分文本（不区分大小写），重叠时取较长的词
+ */
+export function splitHighlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (!text) return [];
+  const needles = [...new Set(terms.map(term => term.trim().toLowerCase()).filter(Boolean))]
+    .sort((a, b) => b.length - a.length);
+  if (needles.length === 0) return [{ text, highlight: false }];
+
+  const lower = text.toLowerCase();
+  const segments: HighlightSegment[] = [];
+  let plainStart = 0;
+  let index = 0;
+
+  while (index < text.length) {
+    const needle = needles.find(item => lower.startsWith(item, index));
+    if (!needle) {
+      index++;
+      continue;
+    }
+    if (index > plainStart) {
+      segments.push({ text: text.slice(plainStart, index), highlight: false });
+    }
+    segments.push({ text: text.slice(index, index + needle.length), highlight: true });
+    index += needle.length;
+    plainStart = index;
+  }
+
+  if (plainStart < text.length) {
+    segments.push({ text: text.slice(plainStart), highlight: false });
+  }
+  return segments;
+}
+
+// 解析文章发布时间：优先使用原始时间，其次尝试解析展示日期（相对时间无法解析）
+function resolvePublishedAt(article: NewsArticle, fallback: number): number {
+  const sources = [article.publishedAt, article.date];
+  for (const source of sources) {
+    if (!source) continue;
+    const time = new Date(source).getTime();
+    if (!isNaN(time)) return time;
+  }
+  return fallback;
+}
+
+function toIndexedDoc(article: NewsArticle, fallbackTime: number): IndexedNewsDoc {
+  return {
+    id: article.id,
+    title: article.title || '',
+    summary: article.summary || '',
+    tags: article.tags || [],
+    category: article.category || '',
+    date: article.date || '',
+    image: article.image || '',
+    articleUrl: article.articleUrl || '',
+    publishedAt: resolvePublishedAt(article, fallbackTime),
+  };
+}
+
+function toArticle(doc: IndexedNewsDoc): NewsArticle {
+  return {
+    id: doc.id,
+    title: doc.title,
+    summary: doc.summary,
+    content: '',
+    contents: [],
+    date: doc.date,
+    author: '小目标',
+    image: doc.image,
+    category: doc.category,
+    tags: doc.tags,
+    articleUrl: doc.articleUrl,
+    publishedAt: doc.publishedAt ? new Date(doc.publishedAt).toISOString() : undefined,
+  };
+}
+
+// 统计文档中每个词的加权出现次数
+function buildTermWeights(doc: IndexedNewsDoc): Map<string, number> {
+  const weights = new Map<string, number>();
+  const addField = (text: string, weight: number) => {
+    tokenizeText(text).forEach(token => {
+      weights.set(token, (weights.get(token) || 0) + weight);
+    });
+  };
+  addField(doc.title, FIELD_WEIGHTS.title);
+  addField(doc.tags.join(' '), FIELD_WEIGHTS.tags);
+  addField(doc.summary, FIELD_WEIGHTS.summary);
+  return weights;
+}
+
+/**
+ * 资讯本地搜索索引
+ * 缓存过的资讯（标题、摘要、标签）建立倒排索引并持久化，离线时也能搜索；
+ * 按关键词相关度（TF-IDF）和发布时间综合排序，股票代码自动扩展为全部别名
+ */
+class NewsSearchIndex {
+  private static instance: NewsSearchIndex;
+  private readonly STORAGE_KEY = 'newsSearchIndex';
+  private readonly MAX_DOCS = 2000;
+  private readonly SAVE_DELAY = 2000;
+
+  private docs = new Map<string, IndexedNewsDoc>();
+  // 倒排表：词 -> (文章ID -> 加权词频)
+  private postings = new Map<string, Map<string, number>>();
+  // 文章的完整内容（仅内存），用于搜索结果直接打开详情
+  private fullArticles = new Map<string, NewsArticle>();
+  private loadPromise: Promise<void> | null = null;
+  private saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {}
+
+  static getInstance(): NewsSearchIndex {
+    if (!NewsSearchIndex.instance) {
+      NewsSearchIndex.instance = new NewsSearchIndex();
+    }
+    return NewsSearchIndex.instance;
+  }
+
+  /**
+   * 把文章加入索引（同一ID会覆盖旧内容），超过上限时淘汰最早发布的文章
+   */
+  addArticles(articles: NewsArticle[]): void {
+    const now = Date.now();
+    let changed = false;
+
+    articles.forEach(article => {
+      if (!article?.id || article.id === 'unknown') return;
+      const existing = this.docs.get(article.id);
+      const doc = toIndexedDoc(article, existing?.publishedAt || now);
+      if (article.content) {
+        this.fullArticles.set(article.id, article);
+      }
+      if (existing && JSON.stringify(existing) === JSON.stringify(doc)) return;
+      this.putDoc(doc);
+      changed = true;
+    });
+
+    if (!changed) return;
+    this.evictOldest();
+    this.scheduleSave();
+  }
+
+  /**
+   * 本地搜索：每个词组都要命中（原词或任一别名），结果按相关度 × 新近度排序
+   */
+  async search(query: string, options: NewsSearchOptions = {}): Promise<NewsSearchHit[]> {
+    const { limit, skip = 0, candidates = [] } = options;
+    await this.ensureLoaded();
+
+    const groups = buildQueryGroups(query, await this.getAliasMap());
+    if (groups.length === 0) return [];
+
+    const now = Date.now();
+    const candidateArticles = new Map<string, NewsArticle>();
+    const candidateDocs = new Map<string, IndexedNewsDoc>();
+    candidates.forEach(article => {
+      if (article?.id) {
+        candidateArticles.set(article.id, article);
+        candidateDocs.set(article.id, this.docs.get(article.id) || toIndexedDoc(article, now));
+      }
+    });
+
+    const docCount = Math.max(this.docs.size, 1);
+    const textScores = new Map<string, { score: number; matchedTerms: string[] }>();
+
+    groups.forEach((group, groupIndex) => {
+      // 词组得分取最佳变体，命中的变体都记录下来用于高亮
+      const groupScores = new Map<string, { score: number; texts: string[] }>();
+
+      group.variants.forEach(variant => {
+        const matches = this.matchVariant(variant.tokens, docCount, candidateDocs);
+        matches.forEach((score, docId) => {
+          const weighted = score * variant.weight;
+          const match = groupScores.get(docId);
+          if (!match) {
+            groupScores.set(docId, { score: weighted, texts: [variant.text] });
+            return;
+          }
+          match.score = Math.max(match.score, weighted);
+          match.texts.push(variant.text);
+        });
+      });
+
+      if (groupIndex === 0) {
+        groupScores.forEach((match, docId) => {
+          textScores.set(docId, { score: match.score, matchedTerms: [...match.texts] });
+        });
+        return;
+      }
+
+      // 多个词组之间取交集
+      Array.from(textScores.keys()).forEach(docId => {
+        const match = groupScores.get(docId);
+        if (!match) {
+          textScores.delete(docId);
+          return;
+        }
+        const entry = textScores.get(docId)!;
+        entry.score += match.score;
+        entry.matchedTerms.push(...match.texts);
+      });
+    });
+
+    const hits: NewsSearchHit[] = [];
+    const resultIds = new Set<string>([...textScores.keys(), ...candidateDocs.keys()]);
+
+    resultIds.forEach(docId => {
+      const doc = candidateDocs.get(docId) || this.docs.get(docId);
+      if (!doc) return;
+      const text = textScores.get(docId);
+      const relevance = (text?.score || 0) + (candidateDocs.has(docId) ? CANDIDATE_BASE_SCORE : 0);
+      hits.push({
+        article: candidateArticles.get(docId) || this.fullArticles.get(docId) || toArticle(doc),
+        score: relevance * computeRecencyBoost(doc.publishedAt, now),
+        matchedTerms: text?.matchedTerms || [],
+      });
+    });
+
+    hits.sort((a, b) => b.score - a.score);
+    return limit === undefined ? hits.slice(skip) : hits.slice(skip, skip + limit);
+  }
+
+  /**
+   * 获取查询对应的全部高亮词（原词 + 别名）
+   */
+  async getHighlightTerms(query: string): Promise<string[]> {
+    const groups = buildQueryGroups(query, await this.getAliasMap());
+    return groups.flatMap(group => group.variants.map(variant => variant.text));
+  }
+
+  async getSize(): Promise<number> {
+    await this.ensureLoaded();
+    return this.docs.size;
+  }
+
+  async clear(): Promise<void> {
+    this.docs.clear();
+    this.postings.clear();
+    this.fullArticles.clear();
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = null;
+    }
+    try {
+      await StorageAdapter.removeItem(this.STORAGE_KEY);
+    } catch (error) {
+      console.error('❌ NewsSearchIndex: 清除索引失败:', error);
+    }
+  }
+
+  // 一个变体的所有词都出现才算命中，得分为各词 TF-IDF 之和（词频做饱和处理）
+  private matchVariant(
+    tokens: string[],
+    docCount: number,
+    candidateDocs: Map<string, IndexedNewsDoc>
+  ): Map<string, number> {
+    const candidateWeights = new Map<string, Map<string, number>>();
+    const getCandidateWeights = (docId: string) => {
+      let weights = candidateWeights.get(docId);
+      if (!weights) {
+        weights = buildTermWeights(candidateDocs.get(docId)!);
+        candidateWeights.set(docId, weights);
+      }
+      return weights;
+    };
+
+    let result: Map<string, number> | null = null;
+
+    for (const token of [...new Set(tokens)]) {
+      const posting = new Map(this.postings.get(token) || []);
+      candidateDocs.forEach((_, docId) => {
+        if (this.docs.has(docId)) return;
+        const weight = getCandidateWeights(docId).get(token);
+        if (weight) posting.set(docId, weight);
+      });
+      if (posting.size === 0) return new Map();
+
+      const idf = Math.log(1 + docCount / posting.size);
+      const next = new Map<string, number>();
+      posting.forEach((weight, docId) => {
+        if (result && !result.has(docId)) return;
+        const tokenScore = idf * (weight / (weight + 2)) * 3;
+        next.set(docId, (result?.get(docId) || 0) + tokenScore);
+      });
+      result = next;
+      if (result.size === 0) break;
+    }
+
+    return result || new Map();
+  }
+
+  private putDoc(doc: IndexedNewsDoc): void {
+    this.removeDoc(doc.id);
+    this.docs.set(doc.id, doc);
+    buildTermWeights(doc).forEach((weight, token) => {
+      let posting = this.postings.get(token);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(token, posting);
+      }
+      posting.set(doc.id, weight);
+    });
+  }
+
+  private removeDoc(docId: string): void {
+    const doc = this.docs.get(docId);
+    if (!doc) return;
+    buildTermWeights(doc).forEach((_, token) => {
+      const posting = this.postings.get(token);
+      if (!posting) return;
+      posting.delete(docId);
+      if (posting.size === 0) this.postings.delete(token);
+    });
+    this.docs.delete(docId);
+    this.fullArticles.delete(docId);
+  }
+
+  private evictOldest(): void {
+    if (this.docs.size <= this.MAX_DOCS) return;
+    const sorted = Array.from(this.docs.values()).sort((a, b) => a.publishedAt - b.publishedAt);
+    sorted.slice(0, this.docs.size - this.MAX_DOCS).forEach(doc => this.removeDoc(doc.id));
+  }
+
+  private async getAliasMap(): Promise<Record<string, string[]>> {
+    try {
+      return await getUSStockAliases();
+    } catch (error) {
+      console.warn('⚠️ NewsSearchIndex: 获取美股别名失败，使用本地配置:', error);
+      return US_STOCK_SYMBOLS;
+    }
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = StorageAdapter.getItem(this.STORAGE_KEY)
+        .then(stored => {
+          const saved: IndexedNewsDoc[] = stored ? JSON.parse(stored) : [];
+          // 加载期间新加入的文章更新，不被旧数据覆盖
+          saved.forEach(doc => {
+            if (doc?.id && !this.docs.has(doc.id)) this.putDoc(doc);
+          });
+          this.evictOldest();
+          console.log(`📚 NewsSearchIndex: 已加载本地索引 ${this.docs.size} 篇`);
+        })
+        .catch(error => {
+          console.error('❌ NewsSearchIndex: 读取本地索引失败:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  // 合并短时间内的多次写入
+  private scheduleSave(): void {
+    if (this.saveTimer) return;
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = null;
+      this.persist();
+    }, this.SAVE_DELAY);
+  }
+
+  private async persist(): Promise<void> {
+    await this.ensureLoaded();
+    try {
+      await StorageAdapter.setItem(this.STORAGE_KEY, JSON.stringify(Array.from(this.docs.values())));
+    } catch (error) {
+      console.error('❌ NewsSearchIndex: 保存本地索引失败:', error);
+    }
+  }
+}
+
+const newsSearchIndex = NewsSearchIndex.getInstance();
+export default newsSearchIndex;
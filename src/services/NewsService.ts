@@ -1,7 +1,10 @@
 import apiService from './APIService';
+import rpcClient from './rpc/RPCClient';
+import cachePolicyRegistry from './CachePolicyRegistry';
 import { DateUtils } from '../utils/dateUtils';
 import { US_STOCK_SYMBOLS, getUSStockAliases } from '../screens/Market/USStockAlias';
 import { domains, resourceURLs, getMainURL } from '../config/apiConfig';
+import newsSearchIndex from './NewsSearchIndex';
 
 // 定义新闻文章接口
 export interface NewsArticle {
@@ -18,6 +21,8 @@ export interface NewsArticle {
   articleUrl: string;
   searchTerm?: string;
   isSearchResult?: boolean;
+  publishedAt?: string; // 原始发布时间，用于按新近程度排序
+  matchedTerms?: string[]; // 本地索引命中的关键词（含别名），用于高亮
 }
 
 // 定义文章内容项接口
@@ -29,7 +34,7 @@ interface ContentItem {
 }
 
 // 定义API返回的原始数据格式
-interface RawNewsData {
+export interface RawNewsData {
   path: string;
   pathname: string;
   title: string;
@@ -80,10 +85,19 @@ class NewsService {
   private readonly NEWS_CATEGORY = "stockquicknews";
   private readonly DEBUG = false; // 控制调试输出
   
-  // 缓存配置
-  private readonly CACHE_DURATION = 5 * 60 * 1000; // 5分钟缓存
+  // 文章缓存，有效期与 getChainalertContent 缓存规则一致
+  private readonly CACHE_POLICY_ID = 'getChainalertContent';
+  private readonly CACHE_STATS_ID = 'NewsService.articleCache';
   private readonly articleCache: Map<string, CacheItem> = new Map();
 
+  constructor() {
+    cachePolicyRegistry.subscribeInvalidation(tag => {
+      if (cachePolicyRegistry.getPolicy(this.CACHE_POLICY_ID).tags.includes(tag)) {
+        this.clearCache();
+      }
+    });
+  }
+
   // 动态分类映射（来自配置）
   private categoryMapConfig: Record<string, string> | null = null; // api -> label
   private reverseCategoryMapConfig: Record<string, string> | null = null; // label -> api
@@ -141,7 +155,7 @@ class NewsService {
     const { categories = "", skip = 0, limit = 10, searchTerm = "" } = params;
 
     try {
-      const response = await apiService.call('listChainalertContent', [
+      return await rpcClient.call('listChainalertContent', [
         "",
         "",
         categories,
@@ -149,8 +163,6 @@ class NewsService {
         limit.toString(),
         searchTerm
       ]);
-
-      return this.parseAPIResponse(response);
     } catch (error: any) {
       console.error('❌ NewsService: API call failed:', error);
       throw new Error(`API call failed: ${error.message}`);
@@ -167,8 +179,7 @@ class NewsService {
       console.log('🔄 NewsService: Direct API call with params:', params);
       await this.ensureCategoryMapsLoaded();
       
-      const response = await apiService.call('listChainalertContent', params);
-      const rawData = this.parseAPIResponse(response);
+      const rawData = await rpcClient.call('listChainalertContent', params);
       
       // 转换为标准NewsArticle格式
       const transformedArticles = this.transformAndDeduplicate(rawData, false, '');
@@ -181,28 +192,6 @@ class NewsService {
     }
   }
 
-  /**
-   * 解析API响应
-   * @param response API响应
-   * @returns RawNewsData[]
-   */
-  private parseAPIResponse(response: any): RawNewsData[] {
-    if (Array.isArray(response)) {
-      return response;
-    }
-    
-    if (response && Array.isArray(response.result)) {
-      return response.result;
-    }
-    
-    if (response && response.data && Array.isArray(response.data)) {
-      return response.data;
-    }
-    
-    console.warn('⚠️ NewsService: Unexpected API response format:', response);
-    return [];
-  }
-
   /**
    * 转换原始数据为标准格式（支持新API格式）
    * @param rawData 原始数据
@@ -256,7 +245,8 @@ class NewsService {
       image: imageUrl,
       category: category,
       tags: [rawData.type || '', rawData.menu || '', rawData.nav || ''].filter(Boolean),
-      articleUrl: `articles/${articleId}`
+      articleUrl: `articles/${articleId}`,
+      publishedAt: rawData.createdAt || rawData.updatedAt
     };
 
     return transformedArticle;
@@ -277,8 +267,9 @@ class NewsService {
     const articles = rawDataArray.map(rawData => this.transformNewsData(rawData));
     const uniqueArticles = this.removeDuplicatesByTitle(articles);
     
-    // 批量缓存转换后的文章
+    // 批量缓存转换后的文章，并加入本地搜索索引
     this.batchSetToCache(uniqueArticles);
+    newsSearchIndex.addArticles(uniqueArticles);
     
     if (addSearchContext) {
       return uniqueArticles.map(article => ({
@@ -335,29 +326,45 @@ class NewsService {
   }
 
   /**
-   * 搜索新闻
+   * 搜索新闻（服务端不可用时使用本地索引）
    * @param searchTerm 搜索关键词
    * @param limit 获取数量
    * @returns Promise<NewsArticle[]>
    */
   async searchNews(searchTerm: string, limit: number = 100, skip: number = 0): Promise<NewsArticle[]> {
     try {
-      await this.ensureCategoryMapsLoaded();
-      const rawData = await this.callAPI({ 
-        categories: "", 
-        skip, 
-        limit, 
-        searchTerm 
-      });
-      return this.transformAndDeduplicate(rawData, true, searchTerm);
+      return await this.fetchSearchResults(searchTerm, limit, skip);
     } catch (error) {
       console.error('❌ NewsService: Failed to search news:', error);
+      const localResults = await this.searchLocalNews(searchTerm, limit, skip);
+      if (localResults.length > 0) {
+        console.log(`📚 NewsService: 服务端搜索失败，使用本地索引结果 ${localResults.length} 条`);
+        return localResults;
+      }
       throw error;
     }
   }
 
+  /**
+   * 在本地索引中搜索已缓存的资讯（离线可用），按相关度和新近程度排序
+   * @param searchTerm 搜索关键词
+   * @param limit 获取数量
+   * @param skip 跳过数量
+   * @returns Promise<NewsArticle[]>
+   */
+  async searchLocalNews(searchTerm: string, limit: number = 100, skip: number = 0): Promise<NewsArticle[]> {
+    const hits = await newsSearchIndex.search(searchTerm, { limit, skip });
+    return hits.map(hit => ({
+      ...hit.article,
+      searchTerm,
+      isSearchResult: true,
+      matchedTerms: hit.matchedTerms
+    }));
+  }
+
   /**
    * 智能搜索新闻 - 利用美股别名扩展搜索
+   * 服务端结果先加入本地索引，再与本地缓存一起按相关度和新近程度排序；网络不可用时只搜索本地
    * @param searchTerm 搜索关键词
    * @param limit 获取数量
    * @param skip 跳过数量
@@ -381,10 +388,10 @@ class NewsService {
         console.log('⚠️ NewsService: 跳过低识别度股票代码的原始词搜索:', searchTerm);
       }
       
-      // 添加扩展搜索词
+      // 添加扩展搜索词（全部别名）
       const expandedTerms = await this.expandSearchTerms(searchTerm);
       console.log('📝 NewsService: 扩展搜索词:', expandedTerms);
-      searchTerms.push(...expandedTerms.slice(0, 3)); // 限制最多3个扩展词
+      searchTerms.push(...expandedTerms);
       
       if (searchTerms.length === 0) {
         console.log('⚠️ NewsService: 没有可用的搜索词');
@@ -393,45 +400,49 @@ class NewsService {
       
       console.log('🔍 NewsService: 将使用的搜索词:', searchTerms);
       
-      // 汇总所有搜索结果
-      const allResults: NewsArticle[] = [];
-      const usedIds = new Set<string>();
-      
-      // 对每个搜索词进行搜索，并汇总结果
-      for (const term of searchTerms) {
-        console.log(`🔎 NewsService: 搜索词: ${term}`);
+      // 并行请求各搜索词，单个失败不影响其他词
+      const remoteResults = await Promise.all(searchTerms.map(async term => {
         try {
-          // 获取足够多的结果用于汇总和排序
-          const results = await this.searchNews(term, 1000, 0);
-          
-          // 添加不重复的结果
-          for (const article of results) {
-            if (!usedIds.has(article.id)) {
-              allResults.push(article);
-              usedIds.add(article.id);
-            }
-          }
+          return await this.fetchSearchResults(term, 1000, 0);
         } catch (error) {
           console.error(`❌ NewsService: 搜索词 "${term}" 搜索失败:`, error);
+          return null;
         }
+      }));
+      
+      const serverResults: NewsArticle[] = [];
+      const usedIds = new Set<string>();
+      remoteResults.forEach(results => {
+        (results || []).forEach(article => {
+          if (!usedIds.has(article.id)) {
+            serverResults.push(article);
+            usedIds.add(article.id);
+          }
+        });
+      });
+      
+      if (remoteResults.every(results => results === null)) {
+        console.log('📚 NewsService: 服务端搜索不可用，仅搜索本地索引');
       }
       
-      // 应用过滤词过滤
-      const filteredResults = await this.applyNewsFilter(allResults, searchTerm);
+      // 服务端结果作为候选（可能命中正文），与本地缓存中命中标题/摘要/标签的文章统一打分
+      const hits = await newsSearchIndex.search(searchTerm, { candidates: serverResults });
+      const rankedResults = hits.map(hit => ({
+        ...hit.article,
+        searchTerm,
+        isSearchResult: true,
+        matchedTerms: hit.matchedTerms
+      }));
       
-      // 按时间排序（最新的在前）
-      filteredResults.sort((a, b) => {
-        const dateA = new Date(a.date).getTime();
-        const dateB = new Date(b.date).getTime();
-        return dateB - dateA; // 降序排列，最新的在前
-      });
+      // 应用过滤词过滤
+      const filteredResults = await this.applyNewsFilter(rankedResults, searchTerm);
       
       // 应用分页
       const startIndex = skip;
       const endIndex = skip + limit;
       const paginatedResults = filteredResults.slice(startIndex, endIndex);
       
-      console.log(`✅ NewsService: 智能搜索完成，原始结果: ${allResults.length}，过滤后: ${filteredResults.length}，返回: ${paginatedResults.length} (跳过: ${skip})`);
+      console.log(`✅ NewsService: 智能搜索完成，服务端结果: ${serverResults.length}，排序后: ${rankedResults.length}，过滤后: ${filteredResults.length}，返回: ${paginatedResults.length} (跳过: ${skip})`);
       return paginatedResults;
       
     } catch (error) {
@@ -441,6 +452,20 @@ class NewsService {
     }
   }
 
+  /**
+   * 请求服务端搜索接口
+   */
+  private async fetchSearchResults(searchTerm: string, limit: number, skip: number): Promise<NewsArticle[]> {
+    await this.ensureCategoryMapsLoaded();
+    const rawData = await this.callAPI({ 
+      categories: "", 
+      skip, 
+      limit, 
+      searchTerm 
+    });
+    return this.transformAndDeduplicate(rawData, true, searchTerm);
+  }
+
   /**
    * 扩展搜索词 - 根据美股别名（异步版本）
    * @param searchTerm 原始搜索词
@@ -520,8 +545,8 @@ class NewsService {
       });
     }
     
-    // 去重并限制数量
-    return [...new Set(expandedTerms)].slice(0, 5);
+    // 去重
+    return [...new Set(expandedTerms)];
   }
 
   /**
@@ -765,14 +790,19 @@ class NewsService {
    */
   private getFromCache(key: string): NewsArticle | null {
     const cacheItem = this.articleCache.get(key);
-    if (!cacheItem) return null;
+    if (!cacheItem) {
+      cachePolicyRegistry.record(this.CACHE_STATS_ID, 'miss');
+      return null;
+    }
     
     const now = Date.now();
     if (now > cacheItem.expiresAt) {
       this.articleCache.delete(key);
+      cachePolicyRegistry.record(this.CACHE_STATS_ID, 'miss');
       return null;
     }
     
+    cachePolicyRegistry.record(this.CACHE_STATS_ID, 'hit');
     if (this.DEBUG) {
       console.log(`🗄️ NewsService: Cache hit for key: ${key}`);
     }
@@ -784,11 +814,14 @@ class NewsService {
    * @param article 文章对象
    */
   private setToCache(article: NewsArticle): void {
+    const { ttl } = cachePolicyRegistry.getPolicy(this.CACHE_POLICY_ID);
+    if (ttl <= 0) return;
+
     const now = Date.now();
     const cacheItem: CacheItem = {
       article,
       timestamp: now,
-      expiresAt: now + this.CACHE_DURATION
+      expiresAt: now + ttl
     };
     
     // 使用 id (即path) 作为缓存键
@@ -833,8 +866,11 @@ class NewsService {
    */
   getCacheStats(): { totalArticles: number; cacheHitRate?: number } {
     this.cleanupExpiredCache();
+    const stats = cachePolicyRegistry.getStats()[this.CACHE_STATS_ID];
+    const lookups = stats ? stats.hits + stats.misses : 0;
     return {
-      totalArticles: this.articleCache.size
+      totalArticles: this.articleCache.size,
+      cacheHitRate: lookups > 0 ? stats.hits / lookups : undefined
     };
   }
   
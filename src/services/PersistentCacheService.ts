@@ -0,0 +1,270 @@
+import { StorageAdapter } from './TokenService';
+
+// 持久化存储（默认为 TokenService 中的 StorageAdapter：Web 端 localStorage，移动端 AsyncStorage）
+export interface PersistentCacheStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+  removeItem(key: string): Promise<void>;
+}
+
+// 持久化缓存条目
+export interface PersistentCacheEntry<T = any> {
+  data: T;
+  // 数据写入时间
+  timestamp: number;
+}
+
+// 索引中的单个条目，用于容量控制
+interface CacheIndexItem {
+  key: string;
+  timestamp: number;
+  size: number;
+  // 失效标签
+  tags?: string[];
+}
+
+export interface PersistentCacheStats {
+  entries: number;
+  bytes: number;
+  maxEntries: number;
+  maxBytes: number;
+}
+
+// 字符串哈希（djb2），用于生成存储键
+const hashKey = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+/**
+ * API响应持久化缓存
+ * 每个响应单独存储，另有一个索引记录写入时间和大小；超过条目数或总大小时按写入时间淘汰最旧的数据
+ */
+class PersistentCacheService {
+  private static instance: PersistentCacheService;
+  private readonly STORAGE_PREFIX = 'apiCache_';
+  private readonly INDEX_KEY = 'apiCache_index';
+  private readonly MAX_ENTRIES = 200;
+  // Web 端 localStorage 通常只有 5MB，这里限制为 2MB
+  private readonly MAX_BYTES = 2 * 1024 * 1024;
+  // 单个响应超过该大小时不持久化
+  private readonly MAX_ENTRY_BYTES = 512 * 1024;
+
+  private storage: PersistentCacheStorage = StorageAdapter;
+  private index: Record<string, CacheIndexItem> | null = null;
+  private indexLoading: Promise<Record<string, CacheIndexItem>> | null = null;
+  // 写操作串行执行，避免并发写入时索引互相覆盖
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private constructor() {}
+
+  static getInstance(): PersistentCacheService {
+    if (!PersistentCacheService.instance) {
+      PersistentCacheService.instance = new PersistentCacheService();
+    }
+    return PersistentCacheService.instance;
+  }
+
+  /**
+   * 替换存储实现（用于测试）
+   */
+  setStorage(storage: PersistentCacheStorage): void {
+    this.storage = storage;
+    this.index = null;
+    this.indexLoading = null;
+  }
+
+  /**
+   * 读取缓存
+   * @param cacheKey 缓存键（method:params）
+   * @returns 缓存条目，不存在时返回 null
+   */
+  async get<T = any>(cacheKey: string): Promise<PersistentCacheEntry<T> | null> {
+    try {
+      const index = await this.loadIndex();
+      const storageKey = this.getStorageKey(cacheKey);
+      if (!index[storageKey]) {
+        return null;
+      }
+
+      const stored = await this.storage.getItem(storageKey);
+      if (!stored) {
+        return null;
+      }
+      const entry = JSON.parse(stored) as PersistentCacheEntry<T> & { key: string };
+      // 哈希冲突时视为未命中
+      if (entry.key !== cacheKey) {
+        return null;
+      }
+      return { data: entry.data, timestamp: entry.timestamp };
+    } catch (error) {
+      console.warn('⚠️ PersistentCacheService: 读取缓存失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 写入缓存
+   * @param cacheKey 缓存键（method:params）
+   * @param data 响应数据
+   * @param timestamp 数据时间，默认当前时间
+   * @param tags 失效标签
+   */
+  set<T>(cacheKey: string, data: T, timestamp: number = Date.now(), tags: string[] = []): Promise<void> {
+    return this.enqueue(async () => {
+      const serialized = JSON.stringify({ key: cacheKey, data, timestamp });
+      if (serialized.length > this.MAX_ENTRY_BYTES) {
+        console.log(`⚠️ PersistentCacheService: 响应过大，跳过持久化 (${cacheKey.slice(0, 60)})`);
+        return;
+      }
+
+      const index = await this.loadIndex();
+      const storageKey = this.getStorageKey(cacheKey);
+      index[storageKey] = { key: cacheKey, timestamp, size: serialized.length, tags: tags.length > 0 ? tags : undefined };
+      await this.evict(index, storageKey);
+
+      try {
+        await this.storage.setItem(storageKey, serialized);
+      } catch (error) {
+        // 存储空间不足时淘汰一半旧数据，本次不再重试
+        console.warn('⚠️ PersistentCacheService: 写入失败，清理旧缓存:', error);
+        delete index[storageKey];
+        await this.evict(index, null, Math.floor(Object.keys(index).length / 2));
+      }
+      await this.saveIndex(index);
+    });
+  }
+
+  /**
+   * 删除单个缓存
+   */
+  remove(cacheKey: string): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const storageKey = this.getStorageKey(cacheKey);
+      if (index[storageKey]) {
+        delete index[storageKey];
+        await this.storage.removeItem(storageKey);
+        await this.saveIndex(index);
+      }
+    });
+  }
+
+  /**
+   * 删除带有指定标签的缓存
+   */
+  removeByTag(tag: string): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const storageKeys = Object.keys(index).filter(storageKey => index[storageKey].tags?.includes(tag));
+      if (storageKeys.length === 0) {
+        return;
+      }
+      storageKeys.forEach(storageKey => {
+        delete index[storageKey];
+      });
+      await Promise.all(storageKeys.map(storageKey => this.storage.removeItem(storageKey).catch(() => undefined)));
+      await this.saveIndex(index);
+      console.log(`🧹 PersistentCacheService: 已删除标签 ${tag} 的缓存 (${storageKeys.length} 条)`);
+    });
+  }
+
+  /**
+   * 清空所有持久化缓存
+   */
+  clear(): Promise<void> {
+    return this.enqueue(async () => {
+      const index = await this.loadIndex();
+      const keys = Object.keys(index);
+      await Promise.all(keys.map(storageKey => this.storage.removeItem(storageKey).catch(() => undefined)));
+      this.index = {};
+      await this.saveIndex(this.index);
+      console.log(`🧹 PersistentCacheService: 已清空持久化缓存 (${keys.length} 条)`);
+    });
+  }
+
+  /**
+   * 获取缓存统计信息
+   */
+  async getStats(): Promise<PersistentCacheStats> {
+    const index = await this.loadIndex();
+    const items = Object.values(index);
+    return {
+      entries: items.length,
+      bytes: items.reduce((sum, item) => sum + item.size, 0),
+      maxEntries: this.MAX_ENTRIES,
+      maxBytes: this.MAX_BYTES,
+    };
+  }
+
+  private getStorageKey(cacheKey: string): string {
+    return `${this.STORAGE_PREFIX}${hashKey(cacheKey)}`;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const run = this.writeQueue.then(task).catch(error => {
+      console.warn('⚠️ PersistentCacheService: 写入缓存失败:', error);
+    });
+    this.writeQueue = run;
+    return run;
+  }
+
+  private async loadIndex(): Promise<Record<string, CacheIndexItem>> {
+    if (this.index) {
+      return this.index;
+    }
+    if (!this.indexLoading) {
+      this.indexLoading = (async () => {
+        try {
+          const stored = await this.storage.getItem(this.INDEX_KEY);
+          this.index = stored ? JSON.parse(stored) : {};
+        } catch (error) {
+          console.warn('⚠️ PersistentCacheService: 读取缓存索引失败:', error);
+          this.index = {};
+        }
+        return this.index!;
+      })();
+    }
+    return this.indexLoading;
+  }
+
+  private async saveIndex(index: Record<string, CacheIndexItem>): Promise<void> {
+    await this.storage.setItem(this.INDEX_KEY, JSON.stringify(index));
+  }
+
+  /**
+   * 按写入时间淘汰最旧的条目，直到满足条目数和总大小限制
+   * @param keep 不参与淘汰的存储键（刚写入的条目）
+   * @param minRemovals 至少淘汰的条目数
+   */
+  private async evict(index: Record<string, CacheIndexItem>, keep: string | null, minRemovals = 0): Promise<void> {
+    const candidates = Object.entries(index)
+      .filter(([storageKey]) => storageKey !== keep)
+      .sort((a, b) => a[1].timestamp - b[1].timestamp);
+
+    let count = Object.keys(index).length;
+    let bytes = Object.values(index).reduce((sum, item) => sum + item.size, 0);
+    const removed: string[] = [];
+
+    for (const [storageKey, item] of candidates) {
+      if (removed.length >= minRemovals && count <= this.MAX_ENTRIES && bytes <= this.MAX_BYTES) {
+        break;
+      }
+      removed.push(storageKey);
+      delete index[storageKey];
+      count--;
+      bytes -= item.size;
+    }
+
+    if (removed.length > 0) {
+      await Promise.all(removed.map(storageKey => this.storage.removeItem(storageKey).catch(() => undefined)));
+      console.log(`🧹 PersistentCacheService: 淘汰 ${removed.length} 条旧缓存`);
+    }
+  }
+}
+
+const persistentCacheService = PersistentCacheService.getInstance();
+export default persistentCacheService;
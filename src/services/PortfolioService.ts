@@ -0,0 +1,345 @@
+import { StorageAdapter } from './TokenService';
+
+// 持仓批次（一次买入）
+export interface HoldingLot {
+  id: string;
+  shares: number;
+  // 每股成本
+  costPerShare: number;
+  // 买入日期 YYYY-MM-DD
+  buyDate: string;
+}
+
+// 单只股票的持仓
+export interface Holding {
+  symbol: string;
+  lots: HoldingLot[];
+  updatedAt: string;
+}
+
+// 新增批次参数
+export interface HoldingLotInput {
+  symbol: string;
+  shares: number;
+  costPerShare: number;
+  buyDate?: string;
+}
+
+// 计算持仓所需的行情数据
+export interface PortfolioQuote {
+  price: number;
+  previousClose?: number;
+  sector?: string;
+}
+
+// 单只股票的持仓计算结果
+export interface PortfolioPosition {
+  symbol: string;
+  shares: number;
+  // 平均成本
+  averageCost: number;
+  costBasis: number;
+  price: number;
+  marketValue: number;
+  unrealizedPnL: number;
+  unrealizedPnLPercent: number;
+  dailyPnL: number;
+  sector: string;
+  // 占组合市值比例(%)
+  weight: number;
+  lots: HoldingLot[];
+}
+
+// 行业分布
+export interface SectorAllocation {
+  sector: string;
+  marketValue: number;
+  weight: number;
+  symbols: string[];
+}
+
+// 组合汇总
+export interface PortfolioSummary {
+  positions: PortfolioPosition[];
+  totalMarketValue: number;
+  totalCostBasis: number;
+  totalUnrealizedPnL: number;
+  totalUnrealizedPnLPercent: number;
+  totalDailyPnL: number;
+  totalDailyPnLPercent: number;
+  sectorAllocation: SectorAllocation[];
+}
+
+// 持久化存储（默认为 TokenService 中的 StorageAdapter）
+export interface PortfolioStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+const UNKNOWN_SECTOR = '其他';
+
+const generateId = (): string => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+// 本地日期 YYYY-MM-DD（toISOString 为 UTC 日期，东八区早上 8 点前会得到前一天）
+const todayString = (): string => {
+  const now = new Date();
+  const month = String(now.getMonth() + 1).padStart(2, '0');
+  const day = String(now.getDate()).padStart(2, '0');
+  return `${now.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * 根据持仓和行情计算组合市值、盈亏及行业分布
+ * @param holdings 持仓列表
+ * @param quotes 行情 { NVDA: { price, previousClose, sector }, ... }，key 为大写股票代码
+ * @param today 当日日期（YYYY-MM-DD），当日买入的批次按成本计算当日盈亏
+ */
+export const calculatePortfolioSummary = (
+  holdings: Holding[],
+  quotes: Record<string, PortfolioQuote>,
+  today: string = todayString()
+): PortfolioSummary => {
+  const positions: PortfolioPosition[] = holdings
+    .filter(holding => holding.lots.length > 0)
+    .map(holding => {
+      const quote = quotes[holding.symbol];
+      const shares = holding.lots.reduce((sum, lot) => sum + lot.shares, 0);
+      const costBasis = holding.lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0);
+      const averageCost = shares > 0 ? costBasis / shares : 0;
+      // 没有行情时按成本估值，避免组合市值被低估
+      const price = quote && quote.price > 0 ? quote.price : averageCost;
+      const marketValue = shares * price;
+      const unrealizedPnL = marketValue - costBasis;
+
+      const dailyPnL = holding.lots.reduce((sum, lot) => {
+        const reference = lot.buyDate === today
+          ? lot.costPerShare
+          : quote?.previousClose && quote.previousClose > 0 ? quote.previousClose : price;
+        return sum + lot.shares * (price - reference);
+      }, 0);
+
+      return {
+        symbol: holding.symbol,
+        shares,
+        averageCost,
+        costBasis,
+        price,
+        marketValue,
+        unrealizedPnL,
+        unrealizedPnLPercent: costBasis > 0 ? (unrealizedPnL / costBasis) * 100 : 0,
+        dailyPnL,
+        sector: quote?.sector || UNKNOWN_SECTOR,
+        weight: 0,
+        lots: holding.lots,
+      };
+    });
+
+  const totalMarketValue = positions.reduce((sum, p) => sum + p.marketValue, 0);
+  const totalCostBasis = positions.reduce((sum, p) => sum + p.costBasis, 0);
+  const totalUnrealizedPnL = totalMarketValue - totalCostBasis;
+  const totalDailyPnL = positions.reduce((sum, p) => sum + p.dailyPnL, 0);
+  const previousMarketValue = totalMarketValue - totalDailyPnL;
+
+  positions.forEach(position => {
+    position.weight = totalMarketValue > 0 ? (position.marketValue / totalMarketValue) * 100 : 0;
+  });
+  positions.sort((a, b) => b.marketValue - a.marketValue);
+
+  const sectorMap = new Map<string, SectorAllocation>();
+  positions.forEach(position => {
+    const existing = sectorMap.get(position.sector) || {
+      sector: position.sector,
+      marketValue: 0,
+      weight: 0,
+      symbols: [],
+    };
+    existing.marketValue += position.marketValue;
+    existing.symbols.push(position.symbol);
+    sectorMap.set(position.sector, existing);
+  });
+  const sectorAllocation = Array.from(sectorMap.values())
+    .map(item => ({
+      ...item,
+      weight: totalMarketValue > 0 ? (item.marketValue / totalMarketValue) * 100 : 0,
+    }))
+    .sort((a, b) => b.marketValue - a.marketValue);
+
+  return {
+    positions,
+    totalMarketValue,
+    totalCostBasis,
+    totalUnrealizedPnL,
+    totalUnrealizedPnLPercent: totalCostBasis > 0 ? (totalUnrealizedPnL / totalCostBasis) * 100 : 0,
+    totalDailyPnL,
+    totalDailyPnLPercent: previousMarketValue > 0 ? (totalDailyPnL / previousMarketValue) * 100 : 0,
+    sectorAllocation,
+  };
+};
+
+/**
+ * 持仓管理服务
+ * 持仓按用户邮箱保存在本地，按批次记录买入股数、成本和日期
+ */
+class PortfolioService {
+  private static instance: PortfolioService;
+  private readonly STORAGE_KEY_PREFIX = 'portfolioHoldings_';
+  private storage: PortfolioStorage = StorageAdapter;
+
+  private constructor() {}
+
+  static getInstance(): PortfolioService {
+    if (!PortfolioService.instance) {
+      PortfolioService.instance = new PortfolioService();
+    }
+    return PortfolioService.instance;
+  }
+
+  /**
+   * 替换存储实现（用于测试）
+   */
+  setStorage(storage: PortfolioStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * 获取用户持仓
+   * @param email 用户邮箱
+   */
+  async getHoldings(email: string): Promise<Holding[]> {
+    try {
+      const stored = await this.storage.getItem(this.STORAGE_KEY_PREFIX + email);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('❌ PortfolioService: 读取持仓失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存用户持仓（整体覆盖）
+   */
+  async saveHoldings(email: string, holdings: Holding[]): Promise<void> {
+    const cleaned = holdings.filter(holding => holding.lots.length > 0);
+    await this.storage.setItem(this.STORAGE_KEY_PREFIX + email, JSON.stringify(cleaned));
+  }
+
+  /**
+   * 新增买入批次
+   * @returns 更新后的持仓列表
+   */
+  async addLot(email: string, input: HoldingLotInput): Promise<Holding[]> {
+    const symbol = input.symbol.trim().toUpperCase();
+    if (!symbol) {
+      throw new Error('请输入股票代码');
+    }
+    if (!isFinite(input.shares) || input.shares <= 0) {
+      throw new Error('请输入有效的持仓股数');
+    }
+    if (!isFinite(input.costPerShare) || input.costPerShare < 0) {
+      throw new Error('请输入有效的成本价');
+    }
+
+    const lot: HoldingLot = {
+      id: generateId(),
+      shares: input.shares,
+      costPerShare: input.costPerShare,
+      buyDate: input.buyDate || todayString(),
+    };
+
+    const holdings = await this.getHoldings(email);
+    const existing = holdings.find(holding => holding.symbol === symbol);
+    const now = new Date().toISOString();
+    const updated = existing
+      ? holdings.map(holding =>
+          holding.symbol === symbol
+            ? { ...holding, lots: [...holding.lots, lot], updatedAt: now }
+            : holding
+        )
+      : [...holdings, { symbol, lots: [lot], updatedAt: now }];
+
+    await this.saveHoldings(email, updated);
+    console.log('💼 PortfolioService: 新增持仓批次', { symbol, lot });
+    return updated;
+  }
+
+  /**
+   * 删除某个批次
+   */
+  async removeLot(email: string, symbol: string, lotId: string): Promise<Holding[]> {
+    const holdings = await this.getHoldings(email);
+    const updated = holdings
+      .map(holding =>
+        holding.symbol === symbol.toUpperCase()
+          ? { ...holding, lots: holding.lots.filter(lot => lot.id !== lotId), updatedAt: new Date().toISOString() }
+          : holding
+      )
+      .filter(holding => holding.lots.length > 0);
+    await this.saveHoldings(email, updated);
+    return updated;
+  }
+
+  /**
+   * 将交易记录应用到持仓：买入新增批次（成本含手续费），卖出按先进先出扣减批次
+   * @param transactions 交易记录，会按成交日期排序后依次应用
+   * @returns 更新后的持仓列表
+   */
+  async applyTransactions(
+    email: string,
+    transactions: Array<{ symbol: string; side: 'buy' | 'sell'; shares: number; price: number; fee: number; tradeDate: string }>
+  ): Promise<Holding[]> {
+    const holdingMap = new Map<string, Holding>();
+    (await this.getHoldings(email)).forEach(holding => {
+      holdingMap.set(holding.symbol, { ...holding, lots: holding.lots.map(lot => ({ ...lot })) });
+    });
+
+    const now = new Date().toISOString();
+    const sorted = [...transactions].sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+
+    sorted.forEach(trade => {
+      const symbol = trade.symbol.toUpperCase();
+      const holding = holdingMap.get(symbol) || { symbol, lots: [], updatedAt: now };
+
+      if (trade.side === 'buy') {
+        holding.lots.push({
+          id: generateId(),
+          shares: trade.shares,
+          costPerShare: (trade.shares * trade.price + trade.fee) / trade.shares,
+          buyDate: trade.tradeDate,
+        });
+      } else {
+        let remaining = trade.shares;
+        holding.lots.sort((a, b) => a.buyDate.localeCompare(b.buyDate));
+        for (const lot of holding.lots) {
+          if (remaining <= 0) break;
+          const sold = Math.min(lot.shares, remaining);
+          lot.shares -= sold;
+          remaining -= sold;
+        }
+        holding.lots = holding.lots.filter(lot => lot.shares > 0);
+        if (remaining > 0) {
+          console.warn(`⚠️ PortfolioService: ${symbol} 卖出数量超过持仓 ${remaining} 股，已忽略超出部分`);
+        }
+      }
+
+      holding.updatedAt = now;
+      holdingMap.set(symbol, holding);
+    });
+
+    const updated = Array.from(holdingMap.values());
+    await this.saveHoldings(email, updated);
+    return updated.filter(holding => holding.lots.length > 0);
+  }
+
+  /**
+   * 删除整只股票的持仓
+   */
+  async removeHolding(email: string, symbol: string): Promise<Holding[]> {
+    const holdings = await this.getHoldings(email);
+    const updated = holdings.filter(holding => holding.symbol !== symbol.toUpperCase());
+    await this.saveHoldings(email, updated);
+    return updated;
+  }
+}
+
+const portfolioService = PortfolioService.getInstance();
+export default portfolioService;
@@ -0,0 +1,446 @@
+import { StorageAdapter } from './TokenService';
+import usStockRealTimePriceService, { StockPriceMap } from './USStockRealTimePriceService';
+import stockService, { TransformedStockData } from './StockService';
+import { parseAbbreviatedNumber } from '../utils/numberUtils';
+
+// 提醒类型：升破价格 / 跌破价格 / 相对昨收涨跌幅 / 成交量相对10日均量放大倍数
+export type PriceAlertType = 'price_above' | 'price_below' | 'change_percent' | 'volume_spike';
+
+// 提醒规则
+export interface PriceAlertRule {
+  id: string;
+  symbol: string;
+  type: PriceAlertType;
+  // price_above/price_below 为价格；change_percent 为涨跌幅绝对值(%)；volume_spike 为放大倍数
+  threshold: number;
+  enabled: boolean;
+  // 条件满足并触发后解除布防，条件不再满足时重新布防，避免同一次穿越反复提醒
+  armed: boolean;
+  createdAt: string;
+  lastTriggeredAt?: string;
+}
+
+// 新建规则参数
+export interface PriceAlertRuleInput {
+  symbol: string;
+  type: PriceAlertType;
+  threshold: number;
+}
+
+// 已触发的提醒记录
+export interface TriggeredPriceAlert {
+  id: string;
+  ruleId: string;
+  symbol: string;
+  type: PriceAlertType;
+  threshold: number;
+  // 触发时的比较值（价格 / 涨跌幅 / 放大倍数）
+  value: number;
+  price: number;
+  message: string;
+  triggeredAt: string;
+  read: boolean;
+}
+
+// 规则计算所需的参考数据
+export interface PriceAlertReference {
+  previousClose: number;
+  volume: number;
+  avgVolume10d: number;
+}
+
+// 实时价格来源（默认为 USStockRealTimePriceService，测试时可替换为mock）
+export interface PriceAlertPriceSource {
+  getBatchStockPrices(stockSymbols: string[]): Promise<StockPriceMap>;
+}
+
+// 参考数据来源（默认为 StockService）
+export interface PriceAlertReferenceSource {
+  fetchMultipleStocks(codes: string[], options?: { chunkSize?: number; warnThreshold?: number }): Promise<TransformedStockData[]>;
+}
+
+// 持久化存储（默认为 TokenService 中的 StorageAdapter）
+export interface PriceAlertStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+type PriceAlertListener = (event: { rules: PriceAlertRule[]; history: TriggeredPriceAlert[]; triggered: TriggeredPriceAlert[] }) => void;
+
+export const PRICE_ALERT_TYPE_LABELS: Record<PriceAlertType, string> = {
+  price_above: '价格升破',
+  price_below: '价格跌破',
+  change_percent: '涨跌幅超过',
+  volume_spike: '成交量放大',
+};
+
+/**
+ * 计算单条规则在当前行情下是否满足
+ * @param rule 提醒规则
+ * @param price 当前价格
+ * @param reference 参考数据（涨跌幅、成交量规则需要）
+ * @returns { matched, value } value 为用于比较的数值，无法计算时为 NaN
+ */
+export const evaluatePriceAlertRule = (
+  rule: PriceAlertRule,
+  price: number,
+  reference?: PriceAlertReference
+): { matched: boolean; value: number } => {
+  switch (rule.type) {
+    case 'price_above':
+      return { matched: price >= rule.threshold, value: price };
+    case 'price_below':
+      return { matched: price <= rule.threshold, value: price };
+    case 'change_percent': {
+      if (!reference || !(reference.previousClose > 0)) {
+        return { matched: false, value: NaN };
+      }
+      const changePercent = ((price - reference.previousClose) / reference.previousClose) * 100;
+      return { matched: Math.abs(changePercent) >= rule.threshold, value: changePercent };
+    }
+    case 'volume_spike': {
+      if (!reference || !(reference.avgVolume10d > 0) || !(reference.volume > 0)) {
+        return { matched: false, value: NaN };
+      }
+      const ratio = reference.volume / reference.avgVolume10d;
+      return { matched: ratio >= rule.threshold, value: ratio };
+    }
+    default:
+      return { matched: false, value: NaN };
+  }
+};
+
+/**
+ * 生成规则的可读描述
+ */
+export const describePriceAlertRule = (rule: Pick<PriceAlertRule, 'symbol' | 'type' | 'threshold'>): string => {
+  switch (rule.type) {
+    case 'price_above':
+      return `${rule.symbol} 价格升破 $${rule.threshold.toFixed(2)}`;
+    case 'price_below':
+      return `${rule.symbol} 价格跌破 $${rule.threshold.toFixed(2)}`;
+    case 'change_percent':
+      return `${rule.symbol} 相对昨收涨跌幅超过 ${rule.threshold}%`;
+    case 'volume_spike':
+      return `${rule.symbol} 成交量达到10日均量 ${rule.threshold} 倍`;
+    default:
+      return rule.symbol;
+  }
+};
+
+const formatTriggerMessage = (rule: PriceAlertRule, value: number, price: number): string => {
+  switch (rule.type) {
+    case 'price_above':
+      return `${rule.symbol} 升破 $${rule.threshold.toFixed(2)}，当前 $${price.toFixed(2)}`;
+    case 'price_below':
+      return `${rule.symbol} 跌破 $${rule.threshold.toFixed(2)}，当前 $${price.toFixed(2)}`;
+    case 'change_percent':
+      return `${rule.symbol} 相对昨收${value >= 0 ? '上涨' : '下跌'} ${Math.abs(value).toFixed(2)}%，当前 $${price.toFixed(2)}`;
+    case 'volume_spike':
+      return `${rule.symbol} 成交量为10日均量的 ${value.toFixed(1)} 倍，当前 $${price.toFixed(2)}`;
+    default:
+      return rule.symbol;
+  }
+};
+
+const generateId = (): string => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 价格提醒服务
+ * 规则按用户邮箱持久化在本地，基于实时价格行情评估规则并记录触发历史
+ */
+export class PriceAlertService {
+  private readonly RULES_KEY_PREFIX = 'priceAlertRules_';
+  private readonly HISTORY_KEY_PREFIX = 'priceAlertHistory_';
+  private readonly HISTORY_LIMIT = 100;
+  private readonly MAX_RULES = 50;
+  private readonly REFERENCE_DURATION = 5 * 60 * 1000; // 昨收价等参考数据5分钟刷新一次
+
+  private email: string | null = null;
+  private rules: PriceAlertRule[] = [];
+  private history: TriggeredPriceAlert[] = [];
+  private references: Map<string, PriceAlertReference> = new Map();
+  private referencesFetchedAt = 0;
+  private listeners: Set<PriceAlertListener> = new Set();
+
+  constructor(
+    private priceSource: PriceAlertPriceSource = usStockRealTimePriceService,
+    private referenceSource: PriceAlertReferenceSource = stockService,
+    private storage: PriceAlertStorage = StorageAdapter
+  ) {}
+
+  /**
+   * 加载指定用户的规则与历史，传入null时清空
+   * @param email 用户邮箱
+   */
+  async loadForUser(email: string | null): Promise<void> {
+    this.email = email;
+    this.references.clear();
+    this.referencesFetchedAt = 0;
+
+    if (!email) {
+      this.rules = [];
+      this.history = [];
+      this.notify([]);
+      return;
+    }
+
+    try {
+      const [rulesStr, historyStr] = await Promise.all([
+        this.storage.getItem(this.RULES_KEY_PREFIX + email),
+        this.storage.getItem(this.HISTORY_KEY_PREFIX + email),
+      ]);
+      this.rules = rulesStr ? JSON.parse(rulesStr) : [];
+      this.history = historyStr ? JSON.parse(historyStr) : [];
+      console.log(`🔔 PriceAlertService: Loaded ${this.rules.length} rules for ${email}`);
+    } catch (error) {
+      console.error('❌ PriceAlertService: Failed to load rules:', error);
+      this.rules = [];
+      this.history = [];
+    }
+
+    this.notify([]);
+  }
+
+  getRules(): PriceAlertRule[] {
+    return [...this.rules];
+  }
+
+  getHistory(): TriggeredPriceAlert[] {
+    return [...this.history];
+  }
+
+  /**
+   * 获取有启用规则的股票代码
+   */
+  getWatchedSymbols(): string[] {
+    return Array.from(new Set(this.rules.filter(rule => rule.enabled).map(rule => rule.symbol)));
+  }
+
+  /**
+   * 添加提醒规则
+   */
+  async addRule(input: PriceAlertRuleInput): Promise<PriceAlertRule> {
+    if (!this.email) {
+      throw new Error('用户未登录');
+    }
+    const symbol = input.symbol.trim().toUpperCase();
+    if (!symbol) {
+      throw new Error('请输入股票代码');
+    }
+    if (!isFinite(input.threshold) || input.threshold <= 0) {
+      throw new Error('请输入有效的提醒阈值');
+    }
+    if (this.rules.length >= this.MAX_RULES) {
+      throw new Error(`最多只能设置${this.MAX_RULES}条提醒`);
+    }
+
+    const rule: PriceAlertRule = {
+      id: generateId(),
+      symbol,
+      type: input.type,
+      threshold: input.threshold,
+      enabled: true,
+      armed: true,
+      createdAt: new Date().toISOString(),
+    };
+
+    this.rules = [...this.rules, rule];
+    // 新股票的参考数据需要重新拉取
+    this.referencesFetchedAt = 0;
+    await this.persistRules();
+    this.notify([]);
+    return rule;
+  }
+
+  /**
+   * 启用/停用规则，重新启用时恢复布防
+   */
+  async setRuleEnabled(ruleId: string, enabled: boolean): Promise<void> {
+    this.rules = this.rules.map(rule =>
+      rule.id === ruleId ? { ...rule, enabled, armed: enabled ? true : rule.armed } : rule
+    );
+    await this.persistRules();
+    this.notify([]);
+  }
+
+  async removeRule(ruleId: string): Promise<void> {
+    this.rules = this.rules.filter(rule => rule.id !== ruleId);
+    await this.persistRules();
+    this.notify([]);
+  }
+
+  async markHistoryRead(): Promise<void> {
+    this.history = this.history.map(item => (item.read ? item : { ...item, read: true }));
+    await this.persistHistory();
+    this.notify([]);
+  }
+
+  async clearHistory(): Promise<void> {
+    this.history = [];
+    await this.persistHistory();
+    this.notify([]);
+  }
+
+  /**
+   * 根据一批实时价格评估所有启用的规则
+   * @param priceMap 实时价格 { nvda: 178.08, ... }，key 不区分大小写
+   * @returns 本次触发的提醒
+   */
+  async evaluateTicks(priceMap: StockPriceMap): Promise<TriggeredPriceAlert[]> {
+    const activeRules = this.rules.filter(rule => rule.enabled);
+    if (activeRules.length === 0) {
+      return [];
+    }
+
+    if (activeRules.some(rule => rule.type === 'change_percent' || rule.type === 'volume_spike')) {
+      await this.refreshReferences();
+    }
+
+    const triggered: TriggeredPriceAlert[] = [];
+    let rulesChanged = false;
+    const now = new Date().toISOString();
+
+    this.rules = this.rules.map(rule => {
+      if (!rule.enabled) {
+        return rule;
+      }
+      const price = priceMap[rule.symbol.toLowerCase()];
+      if (price === undefined || isNaN(price)) {
+        return rule;
+      }
+
+      const { matched, value } = evaluatePriceAlertRule(rule, price, this.references.get(rule.symbol));
+
+      if (matched && rule.armed) {
+        rulesChanged = true;
+        triggered.push({
+          id: generateId(),
+          ruleId: rule.id,
+          symbol: rule.symbol,
+          type: rule.type,
+          threshold: rule.threshold,
+          value,
+          price,
+          message: formatTriggerMessage(rule, value, price),
+          triggeredAt: now,
+          read: false,
+        });
+        return { ...rule, armed: false, lastTriggeredAt: now };
+      }
+
+      if (!matched && !rule.armed && !isNaN(value)) {
+        rulesChanged = true;
+        return { ...rule, armed: true };
+      }
+
+      return rule;
+    });
+
+    if (triggered.length > 0) {
+      console.log(`🔔 PriceAlertService: ${triggered.length} alerts triggered`, triggered.map(t => t.message));
+      this.history = [...triggered, ...this.history].slice(0, this.HISTORY_LIMIT);
+      await this.persistHistory();
+    }
+    if (rulesChanged) {
+      await this.persistRules();
+    }
+    if (triggered.length > 0 || rulesChanged) {
+      this.notify(triggered);
+    }
+
+    return triggered;
+  }
+
+  /**
+   * 主动拉取规则涉及股票的实时价格并评估
+   */
+  async checkNow(): Promise<TriggeredPriceAlert[]> {
+    const symbols = this.getWatchedSymbols();
+    if (symbols.length === 0) {
+      return [];
+    }
+    const priceMap = await this.priceSource.getBatchStockPrices(symbols);
+    return this.evaluateTicks(priceMap);
+  }
+
+  /**
+   * 订阅规则、历史变化及新触发的提醒
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: PriceAlertListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 刷新昨收价、成交量等参考数据
+   * 昨收价盘中不变，5分钟刷新一次；成交量随盘中变化，存在成交量规则时每次评估都刷新
+   * （行情接口自带约1分钟的缓存，不会每次都发起请求）
+   */
+  private async refreshReferences(): Promise<void> {
+    const now = Date.now();
+    const refreshAll = now - this.referencesFetchedAt >= this.REFERENCE_DURATION;
+    const types: PriceAlertType[] = refreshAll ? ['change_percent', 'volume_spike'] : ['volume_spike'];
+
+    const symbols = Array.from(new Set(
+      this.rules
+        .filter(rule => rule.enabled && types.includes(rule.type))
+        .map(rule => rule.symbol)
+    ));
+    if (symbols.length === 0) {
+      return;
+    }
+
+    try {
+      const stocks = await this.referenceSource.fetchMultipleStocks(symbols);
+      stocks.forEach(stock => {
+        this.references.set(stock.code.toUpperCase(), {
+          previousClose: parseAbbreviatedNumber(stock.previousClose),
+          volume: parseAbbreviatedNumber(stock.volume),
+          avgVolume10d: parseAbbreviatedNumber(stock.avgVolume10d),
+        });
+      });
+      if (refreshAll) {
+        this.referencesFetchedAt = now;
+      }
+    } catch (error) {
+      console.warn('⚠️ PriceAlertService: Failed to refresh reference data:', error);
+    }
+  }
+
+  private async persistRules(): Promise<void> {
+    if (!this.email) return;
+    try {
+      await this.storage.setItem(this.RULES_KEY_PREFIX + this.email, JSON.stringify(this.rules));
+    } catch (error) {
+      console.error('❌ PriceAlertService: Failed to persist rules:', error);
+    }
+  }
+
+  private async persistHistory(): Promise<void> {
+    if (!this.email) return;
+    try {
+      await this.storage.setItem(this.HISTORY_KEY_PREFIX + this.email, JSON.stringify(this.history));
+    } catch (error) {
+      console.error('❌ PriceAlertService: Failed to persist history:', error);
+    }
+  }
+
+  private notify(triggered: TriggeredPriceAlert[]): void {
+    const event = { rules: this.getRules(), history: this.getHistory(), triggered };
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('❌ PriceAlertService: Listener error:', error);
+      }
+    });
+  }
+}
+
+// 创建并导出服务实例
+const priceAlertService = new PriceAlertService();
+export default priceAlertService;
@@ -0,0 +1,147 @@
+import stockService, { StockData } from './StockService';
+import { parseAbbreviatedNumber, parsePercent } from '../utils/numberUtils';
+
+// 热力图中的单只股票
+export interface HeatmapStock {
+  code: string;
+  name: string;
+  sector: string;
+  marketCap: number;
+  price: number;
+  previousClose: number;
+  // 当日涨跌幅（%）
+  changePercent: number;
+}
+
+// 热力图中的行业分组
+export interface HeatmapSector {
+  sector: string;
+  marketCap: number;
+  // 按市值加权的涨跌幅（%）
+  changePercent: number;
+  // 按市值倒序
+  stocks: HeatmapStock[];
+}
+
+const UNKNOWN_SECTOR = '其他';
+
+// 涨跌幅颜色分档（%），参考 finviz 配色
+const CHANGE_COLOR_STEPS: Array<{ min: number; color: string }> = [
+  { min: 3, color: '#30CC5A' },
+  { min: 2, color: '#2F9E4F' },
+  { min: 1, color: '#35764E' },
+  { min: 0.1, color: '#3A5A4B' },
+  { min: -0.1, color: '#414554' },
+  { min: -1, color: '#5E3F4A' },
+  { min: -2, color: '#8B444E' },
+  { min: -3, color: '#BF4045' },
+];
+const CHANGE_COLOR_MIN = '#F63538';
+
+/**
+ * 根据涨跌幅获取方块颜色
+ */
+export const getHeatmapColor = (changePercent: number): string => {
+  if (isNaN(changePercent)) return CHANGE_COLOR_STEPS[4].color;
+  const step = CHANGE_COLOR_STEPS.find(item => changePercent >= item.min);
+  return step ? step.color : CHANGE_COLOR_MIN;
+};
+
+/**
+ * 从股票数据中提取热力图字段，缺少市值时返回 null
+ */
+export const toHeatmapStock = (stock: StockData): HeatmapStock | null => {
+  const marketCap = parseAbbreviatedNumber(stock.baseinfo?.marketCap || stock.marketCap);
+  if (isNaN(marketCap) || marketCap <= 0) {
+    return null;
+  }
+  return {
+    code: (stock.code || '').toUpperCase(),
+    name: stock.name || stock.code || '',
+    sector: stock.sector || UNKNOWN_SECTOR,
+    marketCap,
+    price: parseAbbreviatedNumber(stock.currentPrice),
+    previousClose: parseAbbreviatedNumber(stock.baseinfo?.previousClose || stock.previousClose),
+    changePercent: parsePercent(stock.priceChangePercent),
+  };
+};
+
+/**
+ * 用实时价格更新股票的现价和涨跌幅（相对昨收），没有昨收时只更新现价
+ */
+export const applyRealTimePrice = (stock: HeatmapStock, price: number | null | undefined): HeatmapStock => {
+  if (price === null || price === undefined || !(price > 0)) {
+    return stock;
+  }
+  const changePercent = stock.previousClose > 0
+    ? ((price - stock.previousClose) / stock.previousClose) * 100
+    : stock.changePercent;
+  return { ...stock, price, changePercent };
+};
+
+/**
+ * 按行业分组，行业和组内股票均按市值倒序
+ */
+export const groupBySector = (stocks: HeatmapStock[]): HeatmapSector[] => {
+  const sectorMap = new Map<string, HeatmapStock[]>();
+  stocks.forEach(stock => {
+    sectorMap.set(stock.sector, [...(sectorMap.get(stock.sector) || []), stock]);
+  });
+
+  return Array.from(sectorMap.entries())
+    .map(([sector, sectorStocks]) => {
+      const marketCap = sectorStocks.reduce((sum, stock) => sum + stock.marketCap, 0);
+      const weightedChange = sectorStocks
+        .filter(stock => !isNaN(stock.changePercent))
+        .reduce((sum, stock) => sum + stock.changePercent * stock.marketCap, 0);
+      return {
+        sector,
+        marketCap,
+        changePercent: marketCap > 0 ? weightedChange / marketCap : 0,
+        stocks: [...sectorStocks].sort((a, b) => b.marketCap - a.marketCap),
+      };
+    })
+    .sort((a, b) => b.marketCap - a.marketCap);
+};
+
+/**
+ * 行业热力图服务
+ * 按市值排名拉取股票，用于绘制按行业分组的矩形树图
+ */
+class SectorHeatmapService {
+  private static instance: SectorHeatmapService;
+  private readonly PAGE_SIZE = 100;
+  // 热力图展示的股票数量，过多时小方块无法点击
+  private readonly MAX_STOCKS = 200;
+
+  private constructor() {}
+
+  static getInstance(): SectorHeatmapService {
+    if (!SectorHeatmapService.instance) {
+      SectorHeatmapService.instance = new SectorHeatmapService();
+    }
+    return SectorHeatmapService.instance;
+  }
+
+  /**
+   * 加载市值排名靠前的股票
+   */
+  async loadStocks(): Promise<HeatmapStock[]> {
+    const stocks: HeatmapStock[] = [];
+    for (let skip = 0; skip < this.MAX_STOCKS; skip += this.PAGE_SIZE) {
+      const page = await stockService.getUSStocksList(skip, this.PAGE_SIZE, 'rank', 'asc');
+      page.forEach(stock => {
+        const heatmapStock = toHeatmapStock(stock);
+        if (heatmapStock && heatmapStock.code) {
+          stocks.push(heatmapStock);
+        }
+      });
+      if (page.length < this.PAGE_SIZE) break;
+    }
+    console.log(`📊 SectorHeatmapService: 热力图股票加载完成 ${stocks.length} 只`);
+    return stocks;
+  }
+}
+
+const sectorHeatmapService = SectorHeatmapService.getInstance();
+export default sectorHeatmapService;
@@ -3,7 +3,8 @@
  * 支持通过 RPC 1.0 协议获取股票历史信息
  */
 
-import apiService, { APIError } from './APIService';
+import { APIError } from './APIService';
+import rpcClient from './rpc/RPCClient';
 
 // 交易所信息接口 (保留原有接口名称，但用于股票交易所)
 export interface CexInfo {
@@ -66,31 +67,24 @@ class StockInfoService {
         throw new APIError(-2, 'Invalid day count');
       }
       
-      // 调用 RPC 接口 - 使用共享的 apiService
-      // 构建参数数组，如果提供了 fullName，则添加为第三个参数
-      const params = [
-        stockName.toUpperCase(),
-        dayCount.toString()
-      ];
-      
-      // 如果提供了 fullName，添加到参数中（第三个参数）
+      // 调用 RPC 接口 - 使用类型化的 rpcClient，响应结构不正确时抛出 RPCValidationError
+      // 如果提供了 fullName，添加为第三个参数
       if (fullName && fullName.trim()) {
-        params.push(fullName.trim());
         console.log(`📝 Using fullName parameter to distinguish stock: ${fullName.trim()}`);
       } else {
         console.log(`⚠️ No fullName provided - may return incorrect data for stocks with duplicate symbols`);
       }
       
       // 注意：这里仍然调用 getCoinInfo 因为后端 API 方法名没有改变
-      const response = await apiService.call<StockInfo[]>('getCoinInfo', params);
+      const response = await rpcClient.call(
+        'getCoinInfo',
+        fullName && fullName.trim()
+          ? [stockName.toUpperCase(), dayCount.toString(), fullName.trim()]
+          : [stockName.toUpperCase(), dayCount.toString()]
+      );
       
       console.log(`✅ Got ${response.length} records for ${stockName}`);
       
-      // 验证响应
-      if (!Array.isArray(response)) {
-        throw new APIError(-3, 'Invalid response format');
-      }
-      
       // 处理数据
       const validatedData = response.map((stockInfo, index) => {
         if (!stockInfo.name || !stockInfo.currentPrice || !stockInfo.date) {
@@ -224,49 +218,16 @@ class StockInfoService {
     try {
       console.log('🔄 StockInfoService: Fetching 24h data for stock...', { name, fullName, count });
       
-      // 构建参数数组
-      const params = [name.toUpperCase()];
       if (fullName) {
-        params.push(fullName);
         console.log(`📋 Using fullName in getCoin24hByName: ${fullName}`);
       }
-      params.push(count);
       
       // 注意：这里仍然调用 getCoin24hByName API 因为后端方法名没有改变
-      const result = await apiService.call<{
-        result: Array<{
-          _id: string;
-          rank: number;
-          name: string;
-          price: string;
-          __v: number;
-          createdAt: string;
-          updatedAt: string;
-        }>;
-      }>(
+      const dataArray = await rpcClient.call(
         'getCoin24hByName',
-        params
+        fullName ? [name.toUpperCase(), fullName, count] : [name.toUpperCase(), count]
       );
 
-      console.log('✅ StockInfoService: getCoin24hByName API result:', result);
-      console.log('🔍 StockInfoService: API result type and structure:', {
-        type: typeof result,
-        isArray: Array.isArray(result),
-        hasResult: result && 'result' in result,
-        length: Array.isArray(result) ? result.length : 'N/A',
-        firstItem: Array.isArray(result) && result.length > 0 ? result[0] : 'N/A'
-      });
-
-      // 处理响应格式 - 检查是否是直接的数组或包含result字段的对象
-      let dataArray: any[] = [];
-      if (Array.isArray(result)) {
-        // API 直接返回数组
-        dataArray = result;
-      } else if (result && result.result && Array.isArray(result.result)) {
-        // API 返回包含result字段的对象
-        dataArray = result.result;
-      }
-
       if (dataArray.length > 0) {
         const stockData = dataArray.map(item => ({
           _id: item._id,
@@ -280,8 +241,7 @@ class StockInfoService {
         console.log(`✅ StockInfoService: Successfully fetched ${stockData.length} 24h data points for ${name}`);
         return stockData;
       } else {
-        console.warn('⚠️ StockInfoService: Invalid response format for getCoin24hByName - no valid data array found');
-        console.warn('🔍 Debug - result structure:', JSON.stringify(result, null, 2));
+        console.warn(`⚠️ StockInfoService: No 24h data for ${name}`);
         return [];
       }
     } catch (error) {
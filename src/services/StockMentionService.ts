@@ -0,0 +1,271 @@
+import stockService from './StockService';
+import { US_STOCK_SYMBOLS, getUSStockAliases } from '../screens/Market/USStockAlias';
+import { parseAbbreviatedNumber, parsePercent } from '../utils/numberUtils';
+
+// 文章中提到的一只股票
+export interface StockMention {
+  symbol: string;
+  // 第一次出现时的原文，如 "苹果"、"TSLA"
+  text: string;
+  count: number;
+  firstIndex: number;
+}
+
+// 正文按股票提及拆分后的片段，symbol 为空表示普通文本
+export interface MentionSegment {
+  text: string;
+  symbol: string | null;
+}
+
+// 计算实时涨跌幅所需的基础行情
+export interface StockQuoteBase {
+  symbol: string;
+  name: string;
+  price: number;
+  previousClose: number;
+  // 接口返回的当日涨跌幅（%），没有昨收时使用
+  changePercent: number;
+}
+
+interface MentionPattern {
+  alias: string;
+  lower: string;
+  symbol: string;
+  // 大写股票代码和短英文别名需要大小写一致，避免误匹配普通单词
+  caseSensitive: boolean;
+  // 英文别名前后不能紧跟字母数字
+  wordBoundary: boolean;
+}
+
+// 按首字符（小写）索引的匹配规则，同一首字符下长的别名在前
+export interface StockMentionMatcher {
+  patterns: Map<string, MentionPattern[]>;
+}
+
+interface MentionMatch {
+  start: number;
+  end: number;
+  symbol: string;
+}
+
+const LATIN_PATTERN = /[a-z]/i;
+const WORD_CHAR_PATTERN = /[A-Za-z0-9]/;
+// 短于该长度的英文别名（如 fb、ge）歧义太大，不参与匹配
+const MIN_LATIN_ALIAS_LENGTH = 3;
+// 不超过该长度的英文别名要求大小写一致（如 AWS、Mac）
+const CASE_SENSITIVE_MAX_LENGTH = 3;
+const MIN_CJK_ALIAS_LENGTH = 2;
+// 单字母股票代码（V、T、F 等）不参与匹配
+const MIN_SYMBOL_LENGTH = 2;
+
+/**
+ * 根据美股别名配置生成匹配规则：股票代码按大写匹配，英文别名按整词匹配，中文别名按子串匹配
+ */
+export function buildMentionMatcher(aliasMap: Record<string, string[]>): StockMentionMatcher {
+  const patterns = new Map<string, MentionPattern[]>();
+  const seen = new Set<string>();
+
+  const addPattern = (pattern: MentionPattern) => {
+    const key = pattern.caseSensitive ? pattern.alias : pattern.lower;
+    // 多只股票共用的别名（如 GOOGL/GOOG 的 google）归属第一只
+    if (seen.has(key)) return;
+    seen.add(key);
+    const first = pattern.lower[0];
+    patterns.set(first, [...(patterns.get(first) || []), pattern]);
+  };
+
+  Object.entries(aliasMap).forEach(([rawSymbol, aliases]) => {
+    const symbol = rawSymbol.toUpperCase();
+    if (symbol.length >= MIN_SYMBOL_LENGTH) {
+      addPattern({ alias: symbol, lower: symbol.toLowerCase(), symbol, caseSensitive: true, wordBoundary: true });
+    }
+
+    aliases.forEach(rawAlias => {
+      const alias = rawAlias.trim();
+      if (!alias) return;
+      const isLatin = LATIN_PATTERN.test(alias);
+      if (isLatin && alias.length < MIN_LATIN_ALIAS_LENGTH) return;
+      if (!isLatin && alias.length < MIN_CJK_ALIAS_LENGTH) return;
+      addPattern({
+        alias,
+        lower: alias.toLowerCase(),
+        symbol,
+        caseSensitive: isLatin && alias.length <= CASE_SENSITIVE_MAX_LENGTH,
+        wordBoundary: isLatin,
+      });
+    });
+  });
+
+  patterns.forEach(list => list.sort((a, b) => b.lower.length - a.lower.length));
+  return { patterns };
+}
+
+/**
+ * 查找文本中的股票提及，重叠时取最长的别名
+ */
+export function findStockMentions(text: string, matcher: StockMentionMatcher): MentionMatch[] {
+  const matches: MentionMatch[] = [];
+  if (!text) return matches;
+  const lower = text.toLowerCase();
+  let index = 0;
+
+  while (index < text.length) {
+    const candidates = matcher.patterns.get(lower[index]) || [];
+    const pattern = candidates.find(item => {
+      const matched = item.caseSensitive
+        ? text.startsWith(item.alias, index)
+        : lower.startsWith(item.lower, index);
+      if (!matched || !item.wordBoundary) return matched;
+      const before = index > 0 ? text[index - 1] : '';
+      const after = text[index + item.lower.length] || '';
+      return !WORD_CHAR_PATTERN.test(before) && !WORD_CHAR_PATTERN.test(after);
+    });
+
+    if (!pattern) {
+      index++;
+      continue;
+    }
+    matches.push({ start: index, end: index + pattern.lower.length, symbol: pattern.symbol });
+    index += pattern.lower.length;
+  }
+
+  return matches;
+}
+
+/**
+ * 把文本拆成普通文本和股票提及片段
+ */
+export function splitStockMentions(text: string, matcher: StockMentionMatcher): MentionSegment[] {
+  const segments: MentionSegment[] = [];
+  let lastEnd = 0;
+  findStockMentions(text, matcher).forEach(match => {
+    if (match.start > lastEnd) {
+      segments.push({ text: text.slice(lastEnd, match.start), symbol: null });
+    }
+    segments.push({ text: text.slice(match.start, match.end), symbol: match.symbol });
+    lastEnd = match.end;
+  });
+  if (lastEnd < text.length) {
+    segments.push({ text: text.slice(lastEnd), symbol: null });
+  }
+  return segments;
+}
+
+/**
+ * 汇总多段文本（标题、正文）中提到的股票，按提及次数倒序，次数相同按首次出现顺序
+ */
+export function extractStockMentions(texts: string[], matcher: StockMentionMatcher): StockMention[] {
+  const mentions = new Map<string, StockMention>();
+  let offset = 0;
+
+  texts.forEach(text => {
+    findStockMentions(text || '', matcher).forEach(match => {
+      const existing = mentions.get(match.symbol);
+      if (existing) {
+        existing.count += 1;
+        return;
+      }
+      mentions.set(match.symbol, {
+        symbol: match.symbol,
+        text: text.slice(match.start, match.end),
+        count: 1,
+        firstIndex: offset + match.start,
+      });
+    });
+    offset += (text || '').length + 1;
+  });
+
+  return Array.from(mentions.values())
+    .sort((a, b) => b.count - a.count || a.firstIndex - b.firstIndex);
+}
+
+/**
+ * 用实时价格计算当日涨跌幅（相对昨收），没有实时价格或昨收时使用接口返回的涨跌幅
+ */
+export function computeMentionChangePercent(price: number | null, base?: StockQuoteBase): number | null {
+  if (!base) return null;
+  if (price !== null && price > 0 && base.previousClose > 0) {
+    return ((price - base.previousClose) / base.previousClose) * 100;
+  }
+  return isNaN(base.changePercent) ? null : base.changePercent;
+}
+
+/**
+ * 文章股票提及服务
+ * 根据美股别名识别文章中提到的股票，并提供计算实时涨跌幅所需的昨收等基础行情
+ */
+class StockMentionService {
+  private static instance: StockMentionService;
+  private readonly QUOTE_CACHE_DURATION = 5 * 60 * 1000; // 5分钟
+
+  private matcherPromise: Promise<StockMentionMatcher> | null = null;
+  private quoteCache = new Map<string, { quote: StockQuoteBase; timestamp: number }>();
+
+  private constructor() {}
+
+  static getInstance(): StockMentionService {
+    if (!StockMentionService.instance) {
+      StockMentionService.instance = new StockMentionService();
+    }
+    return StockMentionService.instance;
+  }
+
+  /**
+   * 获取匹配规则（合并远程别名配置，失败时使用本地配置）
+   */
+  getMatcher(): Promise<StockMentionMatcher> {
+    if (!this.matcherPromise) {
+      this.matcherPromise = getUSStockAliases()
+        .catch(error => {
+          console.warn('⚠️ StockMentionService: 获取美股别名失败，使用本地配置:', error);
+          return US_STOCK_SYMBOLS as Record<string, string[]>;
+        })
+        .then(aliasMap => buildMentionMatcher(aliasMap));
+    }
+    return this.matcherPromise;
+  }
+
+  /**
+   * 批量获取股票的基础行情（带缓存），获取失败的股票不在结果中
+   */
+  async getQuoteBases(symbols: string[]): Promise<Record<string, StockQuoteBase>> {
+    const now = Date.now();
+    const result: Record<string, StockQuoteBase> = {};
+    const missing: string[] = [];
+
+    symbols.forEach(symbol => {
+      const cached = this.quoteCache.get(symbol);
+      if (cached && now - cached.timestamp < this.QUOTE_CACHE_DURATION) {
+        result[symbol] = cached.quote;
+      } else {
+        missing.push(symbol);
+      }
+    });
+
+    if (missing.length === 0) return result;
+
+    try {
+      const stocks = await stockService.fetchMultipleStocks(missing);
+      stocks.forEach(stock => {
+        const symbol = (stock.code || '').toUpperCase();
+        if (!symbol) return;
+        const quote: StockQuoteBase = {
+          symbol,
+          name: stock.name || symbol,
+          price: parseAbbreviatedNumber(stock.currentPrice),
+          previousClose: parseAbbreviatedNumber(stock.previousClose),
+          changePercent: parsePercent(stock.priceChangePercent),
+        };
+        this.quoteCache.set(symbol, { quote, timestamp: now });
+        result[symbol] = quote;
+      });
+    } catch (error) {
+      console.error('❌ StockMentionService: 获取股票行情失败:', error);
+    }
+
+    return result;
+  }
+}
+
+const stockMentionService = StockMentionService.getInstance();
+export default stockMentionService;
@@ -0,0 +1,270 @@
+import stockService, { StockData } from './StockService';
+import { StorageAdapter } from './TokenService';
+import { parseAbbreviatedNumber, parsePercent } from '../utils/numberUtils';
+
+// 数值区间，min/max 均可省略
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+// 选股条件，未设置的条件不参与筛选
+export interface ScreenerFilters {
+  sectors: string[];
+  exchanges: string[];
+  // 市值（十亿美元）
+  marketCap?: NumberRange;
+  peRatio?: NumberRange;
+  // 股息率（%）
+  dividendYield?: NumberRange;
+  beta?: NumberRange;
+  // 当前价在52周区间中的位置（0 为52周最低，100 为52周最高）
+  week52Position?: NumberRange;
+  // 当日涨跌幅（%）
+  changePercent?: NumberRange;
+}
+
+export type ScreenerRangeField = Exclude<keyof ScreenerFilters, 'sectors' | 'exchanges'>;
+
+// 从 StockData 解析出的筛选指标，无法解析的字段为 NaN
+export interface ScreenerMetrics {
+  marketCap: number;
+  peRatio: number;
+  dividendYield: number;
+  beta: number;
+  week52Position: number;
+  changePercent: number;
+}
+
+// 用户保存的选股方案
+export interface SavedScreen {
+  id: string;
+  name: string;
+  filters: ScreenerFilters;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// 持久化存储（默认为 TokenService 中的 StorageAdapter）
+export interface ScreenerStorage {
+  getItem(key: string): Promise<string | null>;
+  setItem(key: string, value: string): Promise<void>;
+}
+
+export const EMPTY_SCREENER_FILTERS: ScreenerFilters = {
+  sectors: [],
+  exchanges: [],
+};
+
+// 区间条件的显示名称和单位
+export const SCREENER_RANGE_FIELDS: Array<{ key: ScreenerRangeField; label: string; unit: string }> = [
+  { key: 'marketCap', label: '市值', unit: 'B$' },
+  { key: 'peRatio', label: '市盈率', unit: '' },
+  { key: 'dividendYield', label: '股息率', unit: '%' },
+  { key: 'beta', label: 'Beta', unit: '' },
+  { key: 'week52Position', label: '52周位置', unit: '%' },
+  { key: 'changePercent', label: '涨跌幅', unit: '%' },
+];
+
+// 内置选股方案
+export const BUILT_IN_SCREENS: Array<{ id: string; name: string; filters: ScreenerFilters }> = [
+  {
+    id: 'builtin_high_dividend',
+    name: '高股息',
+    filters: { ...EMPTY_SCREENER_FILTERS, dividendYield: { min: 3 }, marketCap: { min: 10 } },
+  },
+  {
+    id: 'builtin_value',
+    name: '低估值大盘股',
+    filters: { ...EMPTY_SCREENER_FILTERS, peRatio: { min: 0, max: 15 }, marketCap: { min: 50 } },
+  },
+  {
+    id: 'builtin_near_high',
+    name: '接近52周新高',
+    filters: { ...EMPTY_SCREENER_FILTERS, week52Position: { min: 90 } },
+  },
+  {
+    id: 'builtin_low_beta',
+    name: '低波动',
+    filters: { ...EMPTY_SCREENER_FILTERS, beta: { max: 0.8 } },
+  },
+];
+
+const generateId = (): string => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * 解析52周区间字符串，如 "86.62 - 153.13"
+ * @returns [low, high]，无法解析时返回 null
+ */
+export const parseWeek52Range = (value?: string): [number, number] | null => {
+  if (!value) return null;
+  const parts = value.split('-').map(part => parseAbbreviatedNumber(part.trim()));
+  if (parts.length !== 2 || parts.some(part => isNaN(part))) return null;
+  return [Math.min(parts[0], parts[1]), Math.max(parts[0], parts[1])];
+};
+
+/**
+ * 从股票数据中提取筛选指标
+ */
+export const getScreenerMetrics = (stock: StockData): ScreenerMetrics => {
+  const price = parseAbbreviatedNumber(stock.currentPrice);
+  const range = parseWeek52Range(stock.baseinfo?.week52Range);
+  const week52Position = range && !isNaN(price)
+    ? range[1] > range[0] ? ((price - range[0]) / (range[1] - range[0])) * 100 : 100
+    : NaN;
+
+  return {
+    marketCap: parseAbbreviatedNumber(stock.baseinfo?.marketCap || stock.marketCap) / 1e9,
+    peRatio: parseAbbreviatedNumber(stock.baseinfo?.peRatio || stock.peRatio),
+    dividendYield: parsePercent(stock.baseinfo?.dividendYield),
+    beta: parseAbbreviatedNumber(stock.baseinfo?.beta),
+    week52Position,
+    changePercent: parsePercent(stock.priceChangePercent),
+  };
+};
+
+const inRange = (value: number, range?: NumberRange): boolean => {
+  if (!range || (range.min === undefined && range.max === undefined)) return true;
+  // 设置了区间但数据缺失时视为不满足
+  if (isNaN(value)) return false;
+  if (range.min !== undefined && value < range.min) return false;
+  if (range.max !== undefined && value > range.max) return false;
+  return true;
+};
+
+/**
+ * 判断股票是否满足全部选股条件
+ */
+export const matchesScreenerFilters = (stock: StockData, filters: ScreenerFilters): boolean => {
+  if (filters.sectors.length > 0 && !filters.sectors.includes(stock.sector)) return false;
+  if (filters.exchanges.length > 0 && !filters.exchanges.includes(stock.exchange)) return false;
+
+  const metrics = getScreenerMetrics(stock);
+  return SCREENER_RANGE_FIELDS.every(field => inRange(metrics[field.key], filters[field.key]));
+};
+
+/**
+ * 按条件筛选股票，保持原有顺序
+ */
+export const screenStocks = (stocks: StockData[], filters: ScreenerFilters): StockData[] =>
+  stocks.filter(stock => matchesScreenerFilters(stock, filters));
+
+/**
+ * 统计已设置的条件数量
+ */
+export const countActiveFilters = (filters: ScreenerFilters): number =>
+  (filters.sectors.length > 0 ? 1 : 0) +
+  (filters.exchanges.length > 0 ? 1 : 0) +
+  SCREENER_RANGE_FIELDS.filter(field => {
+    const range = filters[field.key];
+    return range && (range.min !== undefined || range.max !== undefined);
+  }).length;
+
+/**
+ * 选股器服务
+ * 股票池来自 listUsstocks 接口，筛选在本地完成；选股方案按用户邮箱保存在本地
+ */
+class StockScreenerService {
+  private static instance: StockScreenerService;
+  private readonly STORAGE_KEY_PREFIX = 'stockScreens_';
+  private readonly PAGE_SIZE = 100;
+  private readonly MAX_UNIVERSE_SIZE = 500;
+  private storage: ScreenerStorage = StorageAdapter;
+
+  private constructor() {}
+
+  static getInstance(): StockScreenerService {
+    if (!StockScreenerService.instance) {
+      StockScreenerService.instance = new StockScreenerService();
+    }
+    return StockScreenerService.instance;
+  }
+
+  /**
+   * 替换存储实现（用于测试）
+   */
+  setStorage(storage: ScreenerStorage): void {
+    this.storage = storage;
+  }
+
+  /**
+   * 加载选股股票池（按排名分页拉取，最多 MAX_UNIVERSE_SIZE 只）
+   */
+  async loadUniverse(): Promise<StockData[]> {
+    const stocks: StockData[] = [];
+    for (let skip = 0; skip < this.MAX_UNIVERSE_SIZE; skip += this.PAGE_SIZE) {
+      const page = await stockService.getUSStocksList(skip, this.PAGE_SIZE, 'rank', 'asc');
+      stocks.push(...page);
+      if (page.length < this.PAGE_SIZE) break;
+    }
+    console.log(`📊 StockScreenerService: 股票池加载完成 ${stocks.length} 只`);
+    return stocks;
+  }
+
+  /**
+   * 获取股票池中出现的行业和交易所，用于生成筛选选项
+   */
+  getFilterOptions(stocks: StockData[]): { sectors: string[]; exchanges: string[] } {
+    const sectors = new Set<string>();
+    const exchanges = new Set<string>();
+    stocks.forEach(stock => {
+      if (stock.sector) sectors.add(stock.sector);
+      if (stock.exchange) exchanges.add(stock.exchange);
+    });
+    return {
+      sectors: Array.from(sectors).sort(),
+      exchanges: Array.from(exchanges).sort(),
+    };
+  }
+
+  /**
+   * 获取用户保存的选股方案
+   */
+  async getSavedScreens(email: string): Promise<SavedScreen[]> {
+    try {
+      const stored = await this.storage.getItem(this.STORAGE_KEY_PREFIX + email);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('❌ StockScreenerService: 读取选股方案失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 保存选股方案，同名方案会被覆盖
+   * @returns 更新后的方案列表
+   */
+  async saveScreen(email: string, name: string, filters: ScreenerFilters): Promise<SavedScreen[]> {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('请输入方案名称');
+    }
+    if (countActiveFilters(filters) === 0) {
+      throw new Error('请至少设置一个筛选条件');
+    }
+
+    const screens = await this.getSavedScreens(email);
+    const now = new Date().toISOString();
+    const existing = screens.find(screen => screen.name === trimmedName);
+    const updated = existing
+      ? screens.map(screen => (screen.id === existing.id ? { ...screen, filters, updatedAt: now } : screen))
+      : [...screens, { id: generateId(), name: trimmedName, filters, createdAt: now, updatedAt: now }];
+
+    await this.storage.setItem(this.STORAGE_KEY_PREFIX + email, JSON.stringify(updated));
+    console.log('💾 StockScreenerService: 已保存选股方案', { name: trimmedName });
+    return updated;
+  }
+
+  /**
+   * 删除选股方案
+   */
+  async deleteScreen(email: string, screenId: string): Promise<SavedScreen[]> {
+    const screens = await this.getSavedScreens(email);
+    const updated = screens.filter(screen => screen.id !== screenId);
+    await this.storage.setItem(this.STORAGE_KEY_PREFIX + email, JSON.stringify(updated));
+    return updated;
+  }
+}
+
+const stockScreenerService = StockScreenerService.getInstance();
+export default stockScreenerService;
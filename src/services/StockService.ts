@@ -1,4 +1,6 @@
-import apiService from './APIService';
+import apiService, { ResponseValidator } from './APIService';
+import rpcClient from './rpc/RPCClient';
+import { UsStock24hPoint } from './rpc/contracts';
 import configService from './ConfigService';
 import stockLogoService from './StockLogoService';
 
@@ -24,9 +26,9 @@ const apiCallMonitor = {
 
 // 重写 apiService.call 以添加监控
 const originalCall = apiService.call.bind(apiService);
-(apiService as any).call = function<T>(method: string, params: any[] = []): Promise<T> {
+(apiService as any).call = function<T>(method: string, params: any[] = [], validate?: ResponseValidator): Promise<T> {
   apiCallMonitor.checkForDangerousCall(method, params);
-  return originalCall(method, params);
+  return originalCall(method, params, validate);
 };
 
 // 股票数据接口 - 基于API返回的数据结构
@@ -132,6 +134,18 @@ export interface TransformedStockData {
   coin_id?: string;
   // 新增: 市盈率 (用于排序显示)
   peRatio?: string;
+  // 昨收价与10日均量（用于价格提醒等计算）
+  previousClose?: string;
+  avgVolume10d?: string;
+  // 滚动12个月每股收益（财报公布后更新，用于识别财报日期）
+  eps?: string;
+  // 年度每股股息与股息率（用于股息收入计算）
+  dividend?: string;
+  dividendYield?: string;
+  // 当日开盘价、最高价、最低价（用于K线图）
+  openPrice?: string;
+  dayHigh?: string;
+  dayLow?: string;
   // 24小时价格数据
   usstock24h?: Array<{
     _id: string;
@@ -149,8 +163,6 @@ export interface TransformedStockData {
  */
 class StockService {
   private static instance: StockService;
-  private cache: Map<string, { data: any; timestamp: number }> = new Map();
-  private readonly CACHE_DURATION = 30 * 1000; // 30秒缓存
 
   constructor() {
     if (StockService.instance) {
@@ -176,15 +188,7 @@ class StockService {
     try {
       console.log('🔄 StockService: Fetching US stocks list...', { skip, limit, sortBy, sortOrder });
 
-      const cacheKey = `stocks_${skip}_${limit}_${sortBy}_${sortOrder}`;
-      const cached = this.cache.get(cacheKey);
-      
-      if (cached && (Date.now() - cached.timestamp) < this.CACHE_DURATION) {
-        console.log('📊 StockService: Using cached stocks data');
-        return cached.data;
-      }
-
-      // 调用listUsstocks API
+      // 调用listUsstocks API（缓存策略见 cachePolicyConfig 中的 listUsstocks 规则）
       const response = await apiService.call<StockListResponse>(
         'listUsstocks',
         [skip.toString(), limit.toString(), sortBy, sortOrder]
@@ -212,12 +216,6 @@ class StockService {
       }
       console.log(`✅ StockService: Successfully fetched ${stocksData.length} stocks`);
 
-      // 缓存数据
-      this.cache.set(cacheKey, {
-        data: stocksData,
-        timestamp: Date.now()
-      });
-
       return stocksData;
 
     } catch (error) {
@@ -297,12 +295,7 @@ class StockService {
     try {
       console.log('🔄 StockService: Fetching stock info using getUsstockInfo API:', { stockCode, days });
 
-      const response = await apiService.call<any[]>('getUsstockInfo', [stockCode.toUpperCase(), days.toString()]);
-      
-      if (!Array.isArray(response)) {
-        console.warn('⚠️ StockService: Invalid response format from getUsstockInfo');
-        return [];
-      }
+      const response = await rpcClient.call('getUsstockInfo', [stockCode.toUpperCase(), days.toString()]);
 
       // 转换数据格式
       const transformedStocks: TransformedStockData[] = response.map(stock => ({
@@ -331,6 +324,14 @@ class StockService {
         updated_at: stock.updated_at || new Date().toISOString(),
         coin_id: stock._id || stock.id || '',
         peRatio: stock.baseinfo?.peRatio || stock.peRatio || '',
+        previousClose: stock.baseinfo?.previousClose || stock.previousClose || '',
+        avgVolume10d: stock.baseinfo?.avgVolume10d || '',
+        eps: stock.baseinfo?.eps || '',
+        dividend: stock.baseinfo?.dividend || '',
+        dividendYield: stock.baseinfo?.dividendYield || '',
+        openPrice: stock.openPrice || stock.baseinfo?.openPrice || '',
+        dayHigh: stock.dayHigh || '',
+        dayLow: stock.dayLow || '',
         usstock24h: stock.usstock24h || []
       }));
 
@@ -392,30 +393,11 @@ class StockService {
    * @param count 数据点数量，通常为 "1000"
    * @returns Promise<Array<{_id: string, rank: number, code: string, name: string, price: string, createdAt: string}>>
    */
-  async getUsstock24hByCode(stockCode: string, count: string = "1000"): Promise<Array<{
-    _id: string;
-    rank: number;
-    code: string;
-    name: string;
-    price: string;
-    createdAt: string;
-  }>> {
+  async getUsstock24hByCode(stockCode: string, count: string = "1000"): Promise<UsStock24hPoint[]> {
     try {
       console.log('🔄 StockService: Fetching 24h data using getUsstock24hByCode API:', { stockCode, count });
 
-      const response = await apiService.call<Array<{
-        _id: string;
-        rank: number;
-        code: string;
-        name: string;
-        price: string;
-        createdAt: string;
-      }>>('getUsstock24hByCode', [stockCode.toUpperCase(), count]);
-
-      if (!Array.isArray(response)) {
-        console.warn('⚠️ StockService: Invalid response format from getUsstock24hByCode');
-        return [];
-      }
+      const response = await rpcClient.call('getUsstock24hByCode', [stockCode.toUpperCase(), count]);
 
       console.log(`✅ StockService: Successfully fetched ${response.length} 24h records for ${stockCode}`);
       return response;
@@ -427,10 +409,10 @@ class StockService {
   }
 
   /**
-   * 清除缓存
+   * 清除美股行情缓存
    */
   clearCache(): void {
-    this.cache.clear();
+    apiService.invalidateTag('stocks');
     console.log('✅ StockService: Cache cleared');
   }
 
@@ -544,6 +526,14 @@ class StockService {
       updated_at: stock.updated_at || new Date().toISOString(),
       coin_id: stock._id || stock.id || '',
       peRatio: stock.baseinfo?.peRatio || stock.peRatio || '',
+      previousClose: stock.baseinfo?.previousClose || stock.previousClose || '',
+      avgVolume10d: stock.baseinfo?.avgVolume10d || '',
+      eps: stock.baseinfo?.eps || '',
+      dividend: stock.baseinfo?.dividend || '',
+      dividendYield: stock.baseinfo?.dividendYield || '',
+      openPrice: stock.openPrice || stock.baseinfo?.openPrice || '',
+      dayHigh: stock.dayHigh || '',
+      dayLow: stock.dayLow || '',
       usstock24h: stock.usstock24h || []
     }));
   }
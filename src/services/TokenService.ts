@@ -394,3 +394,6 @@ class TokenService {
 
 const tokenService = TokenService.getInstance();
 export default tokenService;
+
+// 导出存储适配器，供其他需要本地持久化的服务复用
+export { StorageAdapter };
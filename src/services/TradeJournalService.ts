@@ -0,0 +1,425 @@
+import { StorageAdapter } from './TokenService';
+import stockService from './StockService';
+import { parseCSV, detectDelimiter, toCSV } from '../utils/csvUtils';
+
+// 交易方向
+export type TradeSide = 'buy' | 'sell';
+
+// 交易记录
+export interface TradeTransaction {
+  id: string;
+  symbol: string;
+  side: TradeSide;
+  shares: number;
+  price: number;
+  fee: number;
+  // 成交日期 YYYY-MM-DD
+  tradeDate: string;
+  source: 'csv' | 'manual';
+  createdAt: string;
+}
+
+// CSV中可映射的字段
+export type TradeField = 'symbol' | 'side' | 'shares' | 'price' | 'date' | 'fee';
+
+// 列映射：字段 → CSV表头名
+export type CsvColumnMapping = Partial<Record<TradeField, string>>;
+
+// 日期格式，auto 会依次尝试 ISO、YYYYMMDD、MM/DD/YYYY
+export type CsvDateFormat = 'auto' | 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'YYYYMMDD';
+
+export interface CsvImportOptions {
+  // 不传时根据表头自动识别
+  mapping?: CsvColumnMapping;
+  dateFormat?: CsvDateFormat;
+  // 小数点符号，部分欧洲券商导出为逗号
+  decimalSeparator?: '.' | ',';
+}
+
+// 预览中的单行结果
+export interface CsvImportRow {
+  // 对应CSV中的行号（表头为第1行）
+  rowNumber: number;
+  raw: Record<string, string>;
+  transaction?: TradeTransaction;
+  errors: string[];
+  duplicate: boolean;
+}
+
+// 导入预览（dry-run）
+export interface CsvImportPreview {
+  headers: string[];
+  mapping: CsvColumnMapping;
+  rows: CsvImportRow[];
+  validCount: number;
+  errorCount: number;
+  duplicateCount: number;
+}
+
+// 股票代码校验（默认通过 StockService 查询），返回已知代码集合
+export type SymbolValidator = (symbols: string[]) => Promise<Set<string>>;
+
+export const REQUIRED_TRADE_FIELDS: TradeField[] = ['symbol', 'shares', 'price', 'date'];
+
+export const TRADE_FIELD_LABELS: Record<TradeField, string> = {
+  symbol: '股票代码',
+  side: '买卖方向',
+  shares: '数量',
+  price: '成交价',
+  date: '成交日期',
+  fee: '手续费',
+};
+
+// 常见券商导出的表头别名（小写比较）
+const HEADER_ALIASES: Record<TradeField, string[]> = {
+  symbol: ['symbol', 'ticker', 'code', 'instrument', '代码', '股票代码', '证券代码'],
+  side: ['side', 'action', 'type', 'buy/sell', 'transaction type', '交易类型', '买卖方向', '方向', '操作'],
+  shares: ['shares', 'quantity', 'qty', '数量', '成交数量', '股数'],
+  price: ['price', 'trade price', 't. price', 'fill price', '成交价', '成交价格', '价格'],
+  date: ['date', 'trade date', 'date/time', 'datetime', '成交日期', '交易日期', '日期'],
+  fee: ['fee', 'fees', 'commission', 'comm/fee', 'comm', '佣金', '手续费', '费用'],
+};
+
+const BUY_WORDS = ['buy', 'bot', 'b', 'bought', 'long', '买', '买入'];
+const SELL_WORDS = ['sell', 'sld', 's', 'sold', 'short', '卖', '卖出'];
+
+const EXPORT_HEADERS = ['Date', 'Symbol', 'Side', 'Shares', 'Price', 'Fee'];
+
+const generateId = (): string => `${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+
+const pad = (n: number): string => (n < 10 ? `0${n}` : `${n}`);
+
+/**
+ * 根据表头自动识别列映射
+ * @param headers CSV表头
+ */
+export const detectColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const mapping: CsvColumnMapping = {};
+  const normalized = headers.map(header => header.trim().toLowerCase());
+  (Object.keys(HEADER_ALIASES) as TradeField[]).forEach(field => {
+    const index = normalized.findIndex(header => HEADER_ALIASES[field].includes(header));
+    if (index >= 0) {
+      mapping[field] = headers[index];
+    }
+  });
+  return mapping;
+};
+
+/**
+ * 解析数字，兼容货币符号、千分位、括号负数和逗号小数点
+ * @returns number 无法解析时返回 NaN
+ */
+export const parseTradeNumber = (value: string, decimalSeparator: '.' | ',' = '.'): number => {
+  if (!value) return NaN;
+  let str = value.trim();
+  const negative = /^\(.*\)$/.test(str);
+  str = str.replace(/[()$€£¥\s]/g, '');
+  if (decimalSeparator === ',') {
+    str = str.replace(/\./g, '').replace(',', '.');
+  } else {
+    str = str.replace(/,/g, '');
+  }
+  if (!/^[-+]?\d*\.?\d+$/.test(str)) {
+    return NaN;
+  }
+  const num = parseFloat(str);
+  return negative ? -Math.abs(num) : num;
+};
+
+/**
+ * 解析日期为 YYYY-MM-DD
+ * @returns string | null 无法解析时返回 null
+ */
+export const parseTradeDate = (value: string, format: CsvDateFormat = 'auto'): string | null => {
+  if (!value) return null;
+  // 去掉时间部分，如 "2024-03-01, 09:30:00" 或 "2024-03-01T09:30:00Z"
+  const str = value.trim().split(/[T\s,;]/)[0];
+
+  let year: number | undefined;
+  let month: number | undefined;
+  let day: number | undefined;
+
+  const tryIso = () => {
+    const m = str.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})$/);
+    if (m) [year, month, day] = [parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)];
+    return !!m;
+  };
+  const tryCompact = () => {
+    const m = str.match(/^(\d{4})(\d{2})(\d{2})$/);
+    if (m) [year, month, day] = [parseInt(m[1], 10), parseInt(m[2], 10), parseInt(m[3], 10)];
+    return !!m;
+  };
+  const trySlash = (dayFirst: boolean) => {
+    const m = str.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2,4})$/);
+    if (m) {
+      const first = parseInt(m[1], 10);
+      const second = parseInt(m[2], 10);
+      year = parseInt(m[3], 10);
+      if (year < 100) year += 2000;
+      [month, day] = dayFirst ? [second, first] : [first, second];
+    }
+    return !!m;
+  };
+
+  switch (format) {
+    case 'YYYY-MM-DD':
+      tryIso();
+      break;
+    case 'YYYYMMDD':
+      tryCompact();
+      break;
+    case 'MM/DD/YYYY':
+      trySlash(false);
+      break;
+    case 'DD/MM/YYYY':
+      trySlash(true);
+      break;
+    default:
+      tryIso() || tryCompact() || trySlash(false);
+  }
+
+  if (!year || !month || !day || month < 1 || month > 12 || day < 1 || day > 31) {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCMonth() !== month - 1) {
+    return null;
+  }
+  return `${year}-${pad(month)}-${pad(day)}`;
+};
+
+/**
+ * 解析买卖方向
+ */
+export const parseTradeSide = (value: string): TradeSide | null => {
+  const normalized = (value || '').trim().toLowerCase();
+  if (BUY_WORDS.includes(normalized)) return 'buy';
+  if (SELL_WORDS.includes(normalized)) return 'sell';
+  return null;
+};
+
+/**
+ * 交易去重指纹
+ */
+export const getTradeFingerprint = (trade: Pick<TradeTransaction, 'symbol' | 'side' | 'shares' | 'price' | 'tradeDate'>): string =>
+  `${trade.symbol}|${trade.side}|${trade.shares}|${trade.price}|${trade.tradeDate}`;
+
+const defaultSymbolValidator: SymbolValidator = async (symbols: string[]) => {
+  const stocks = await stockService.fetchMultipleStocks(symbols, { chunkSize: 30, warnThreshold: symbols.length });
+  return new Set(stocks.map(stock => stock.code.toUpperCase()));
+};
+
+/**
+ * 交易记录服务
+ * 负责券商CSV导入（列映射、解析、去重、预览）、交易记录本地持久化与CSV导出
+ */
+class TradeJournalService {
+  private static instance: TradeJournalService;
+  private readonly STORAGE_KEY_PREFIX = 'tradeJournal_';
+  private symbolValidator: SymbolValidator = defaultSymbolValidator;
+
+  private constructor() {}
+
+  static getInstance(): TradeJournalService {
+    if (!TradeJournalService.instance) {
+      TradeJournalService.instance = new TradeJournalService();
+    }
+    return TradeJournalService.instance;
+  }
+
+  /**
+   * 替换股票代码校验实现（用于测试或离线预览）
+   */
+  setSymbolValidator(validator: SymbolValidator): void {
+    this.symbolValidator = validator;
+  }
+
+  /**
+   * 获取用户全部交易记录（按成交日期升序）
+   */
+  async getTransactions(email: string): Promise<TradeTransaction[]> {
+    try {
+      const stored = await StorageAdapter.getItem(this.STORAGE_KEY_PREFIX + email);
+      const transactions: TradeTransaction[] = stored ? JSON.parse(stored) : [];
+      return transactions.sort((a, b) => a.tradeDate.localeCompare(b.tradeDate));
+    } catch (error) {
+      console.error('❌ TradeJournalService: 读取交易记录失败:', error);
+      return [];
+    }
+  }
+
+  /**
+   * 解析CSV并生成导入预览，不写入任何数据
+   * @param email 用户邮箱（用于和已有记录去重）
+   * @param csvText CSV文本
+   * @param options 列映射、日期格式等
+   */
+  async previewImport(email: string, csvText: string, options: CsvImportOptions = {}): Promise<CsvImportPreview> {
+    const table = parseCSV(csvText, detectDelimiter(csvText));
+    if (table.length === 0) {
+      throw new Error('CSV内容为空');
+    }
+
+    const [headers, ...dataRows] = table;
+    const mapping = options.mapping || detectColumnMapping(headers);
+    const missing = REQUIRED_TRADE_FIELDS.filter(field => !mapping[field] || !headers.includes(mapping[field]!));
+    if (missing.length > 0) {
+      throw new Error(`缺少必需的列映射: ${missing.map(field => TRADE_FIELD_LABELS[field]).join('、')}`);
+    }
+
+    const decimalSeparator = options.decimalSeparator || '.';
+    const dateFormat = options.dateFormat || 'auto';
+    const now = new Date().toISOString();
+
+    const rows: CsvImportRow[] = dataRows.map((cells, index) => {
+      const raw: Record<string, string> = {};
+      headers.forEach((header, i) => {
+        raw[header] = cells[i] ?? '';
+      });
+      const get = (field: TradeField) => (mapping[field] ? raw[mapping[field]!] || '' : '');
+      const errors: string[] = [];
+
+      const symbol = get('symbol').trim().toUpperCase();
+      if (!symbol) errors.push('股票代码为空');
+
+      const sharesValue = parseTradeNumber(get('shares'), decimalSeparator);
+      if (isNaN(sharesValue) || sharesValue === 0) errors.push(`无效的数量: "${get('shares')}"`);
+
+      const price = parseTradeNumber(get('price'), decimalSeparator);
+      if (isNaN(price) || price <= 0) errors.push(`无效的成交价: "${get('price')}"`);
+
+      const tradeDate = parseTradeDate(get('date'), dateFormat);
+      if (!tradeDate) errors.push(`无法解析日期: "${get('date')}"`);
+
+      const feeText = get('fee');
+      const feeValue = feeText ? parseTradeNumber(feeText, decimalSeparator) : 0;
+      if (isNaN(feeValue)) errors.push(`无效的手续费: "${feeText}"`);
+
+      // 没有方向列时根据数量正负判断
+      let side: TradeSide | null = null;
+      if (mapping.side && get('side')) {
+        side = parseTradeSide(get('side'));
+        if (!side) errors.push(`无法识别买卖方向: "${get('side')}"`);
+      } else if (!isNaN(sharesValue)) {
+        side = sharesValue < 0 ? 'sell' : 'buy';
+      }
+
+      const row: CsvImportRow = { rowNumber: index + 2, raw, errors, duplicate: false };
+      if (errors.length === 0 && side && tradeDate) {
+        row.transaction = {
+          id: generateId(),
+          symbol,
+          side,
+          shares: Math.abs(sharesValue),
+          price,
+          fee: Math.abs(feeValue),
+          tradeDate,
+          source: 'csv',
+          createdAt: now,
+        };
+      }
+      return row;
+    });
+
+    // 校验股票代码是否为已知美股
+    const symbols = Array.from(new Set(rows.filter(row => row.transaction).map(row => row.transaction!.symbol)));
+    if (symbols.length > 0) {
+      try {
+        const known = await this.symbolValidator(symbols);
+        rows.forEach(row => {
+          if (row.transaction && !known.has(row.transaction.symbol)) {
+            row.errors.push(`未知的股票代码: ${row.transaction.symbol}`);
+            row.transaction = undefined;
+          }
+        });
+      } catch (error) {
+        console.error('❌ TradeJournalService: 股票代码校验失败:', error);
+        rows.forEach(row => {
+          if (row.transaction) {
+            row.errors.push('无法验证股票代码，请检查网络后重试');
+            row.transaction = undefined;
+          }
+        });
+      }
+    }
+
+    // 只与已有记录去重：同一文件内相同的行可能是同价分批成交，不能合并；
+    // 每条已有记录只抵消一行，重复导入同一文件时全部标为重复
+    const existing = await this.getTransactions(email);
+    const remaining = new Map<string, number>();
+    existing.forEach(trade => {
+      const fingerprint = getTradeFingerprint(trade);
+      remaining.set(fingerprint, (remaining.get(fingerprint) || 0) + 1);
+    });
+    rows.forEach(row => {
+      if (!row.transaction) return;
+      const fingerprint = getTradeFingerprint(row.transaction);
+      const count = remaining.get(fingerprint) || 0;
+      if (count > 0) {
+        row.duplicate = true;
+        remaining.set(fingerprint, count - 1);
+      }
+    });
+
+    const preview: CsvImportPreview = {
+      headers,
+      mapping,
+      rows,
+      validCount: rows.filter(row => row.transaction && !row.duplicate).length,
+      errorCount: rows.filter(row => row.errors.length > 0).length,
+      duplicateCount: rows.filter(row => row.duplicate).length,
+    };
+    console.log('📥 TradeJournalService: 导入预览', {
+      total: rows.length,
+      valid: preview.validCount,
+      errors: preview.errorCount,
+      duplicates: preview.duplicateCount,
+    });
+    return preview;
+  }
+
+  /**
+   * 确认导入预览中的有效记录（跳过错误和重复行）
+   * @returns 实际写入的交易记录
+   */
+  async commitImport(email: string, preview: CsvImportPreview): Promise<TradeTransaction[]> {
+    const toImport = preview.rows
+      .filter(row => row.transaction && !row.duplicate)
+      .map(row => row.transaction!);
+    if (toImport.length === 0) {
+      return [];
+    }
+    const existing = await this.getTransactions(email);
+    await this.saveTransactions(email, [...existing, ...toImport]);
+    console.log(`✅ TradeJournalService: 已导入 ${toImport.length} 条交易记录`);
+    return toImport;
+  }
+
+  /**
+   * 删除一条交易记录
+   */
+  async removeTransaction(email: string, transactionId: string): Promise<TradeTransaction[]> {
+    const existing = await this.getTransactions(email);
+    const updated = existing.filter(trade => trade.id !== transactionId);
+    await this.saveTransactions(email, updated);
+    return updated;
+  }
+
+  /**
+   * 导出交易记录为CSV（表头可被 previewImport 自动识别）
+   */
+  async exportCSV(email: string): Promise<string> {
+    const transactions = await this.getTransactions(email);
+    return toCSV(
+      EXPORT_HEADERS,
+      transactions.map(trade => [trade.tradeDate, trade.symbol, trade.side, trade.shares, trade.price, trade.fee])
+    );
+  }
+
+  private async saveTransactions(email: string, transactions: TradeTransaction[]): Promise<void> {
+    await StorageAdapter.setItem(this.STORAGE_KEY_PREFIX + email, JSON.stringify(transactions));
+  }
+}
+
+const tradeJournalService = TradeJournalService.getInstance();
+export default tradeJournalService;
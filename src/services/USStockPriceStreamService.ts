@@ -0,0 +1,317 @@
+import configService from './ConfigService';
+import { StockPriceMap } from './USStockRealTimePriceService';
+
+// 推送通道类型
+export type PriceStreamKind = 'websocket' | 'sse';
+
+// 推送连接状态：idle 未使用实时价格，connecting 连接中，open 推送中，polling 未配置推送或推送断开后降级为轮询
+export type PriceStreamStatus = 'idle' | 'connecting' | 'open' | 'polling';
+
+// 服务端推送的消息
+// { "type": "prices", "data": { "nvda": 178.08 } } 或 { "type": "heartbeat" }
+export type PriceStreamMessage =
+  | { type: 'prices'; data: StockPriceMap }
+  | { type: 'heartbeat' };
+
+// 推送通道回调
+export interface PriceStreamHandlers {
+  onOpen: () => void;
+  onPrices: (prices: StockPriceMap) => void;
+  // 连接断开（不包括主动调用 close）
+  onClose: (reason: string) => void;
+}
+
+// 推送通道接口，内置 WebSocket 和 SSE 两种实现，可通过 setTransportFactory 替换
+export interface PriceStreamTransport {
+  readonly kind: string;
+  // 建立连接并订阅指定股票
+  connect(symbols: string[], handlers: PriceStreamHandlers): void;
+  // 更新订阅的股票列表（全量替换）
+  updateSymbols(symbols: string[]): void;
+  // 主动关闭连接，不会触发 onClose
+  close(): void;
+}
+
+export type PriceStreamTransportFactory = (url: string) => PriceStreamTransport | null;
+
+// 超过该时间没有收到任何消息（包括心跳）视为连接已断开
+const HEARTBEAT_TIMEOUT = 30000;
+
+/**
+ * 解析推送消息，价格统一转为小写代码，无效价格会被忽略
+ * @returns 无法识别的消息返回 null
+ */
+export const parsePriceStreamMessage = (raw: string): PriceStreamMessage | null => {
+  try {
+    const message = JSON.parse(raw);
+    if (message?.type === 'heartbeat') {
+      return { type: 'heartbeat' };
+    }
+    if (message?.type === 'prices' && message.data && typeof message.data === 'object') {
+      const data: StockPriceMap = {};
+      Object.entries(message.data).forEach(([symbol, value]) => {
+        const price = typeof value === 'number' ? value : parseFloat(String(value));
+        if (isFinite(price) && price > 0) {
+          data[symbol.toLowerCase()] = price;
+        }
+      });
+      return { type: 'prices', data };
+    }
+  } catch (error) {
+    console.warn('⚠️ USStockPriceStreamService: Invalid stream message:', raw);
+  }
+  return null;
+};
+
+const normalizeSymbols = (symbols: string[]): string[] =>
+  Array.from(new Set(symbols.map(symbol => symbol.toUpperCase()))).sort();
+
+/**
+ * 推送通道公共逻辑：消息解析、心跳超时检测、断开回调只触发一次
+ */
+abstract class BasePriceStreamTransport implements PriceStreamTransport {
+  abstract readonly kind: string;
+  protected symbols: string[] = [];
+  protected handlers: PriceStreamHandlers | null = null;
+  private heartbeatTimer: ReturnType<typeof setTimeout> | null = null;
+  private closed = false;
+
+  constructor(protected readonly url: string) {}
+
+  connect(symbols: string[], handlers: PriceStreamHandlers): void {
+    this.symbols = normalizeSymbols(symbols);
+    this.handlers = handlers;
+    this.closed = false;
+    this.open();
+    this.resetHeartbeat();
+  }
+
+  updateSymbols(symbols: string[]): void {
+    const next = normalizeSymbols(symbols);
+    if (next.join(',') === this.symbols.join(',')) {
+      return;
+    }
+    this.symbols = next;
+    if (!this.closed) {
+      this.sendSymbols();
+    }
+  }
+
+  close(): void {
+    this.closed = true;
+    this.clearHeartbeat();
+    this.shutdown();
+  }
+
+  protected abstract open(): void;
+  protected abstract sendSymbols(): void;
+  protected abstract shutdown(): void;
+
+  protected handleOpen(): void {
+    if (this.closed) return;
+    this.resetHeartbeat();
+    this.handlers?.onOpen();
+  }
+
+  protected handleMessage(raw: string): void {
+    if (this.closed) return;
+    this.resetHeartbeat();
+    const message = parsePriceStreamMessage(raw);
+    if (message?.type === 'prices' && Object.keys(message.data).length > 0) {
+      this.handlers?.onPrices(message.data);
+    }
+  }
+
+  // 连接异常断开：释放资源并通知上层
+  protected handleDisconnect(reason: string): void {
+    if (this.closed) return;
+    this.closed = true;
+    this.clearHeartbeat();
+    this.shutdown();
+    this.handlers?.onClose(reason);
+  }
+
+  private resetHeartbeat(): void {
+    this.clearHeartbeat();
+    this.heartbeatTimer = setTimeout(() => {
+      this.handleDisconnect('heartbeat timeout');
+    }, HEARTBEAT_TIMEOUT);
+  }
+
+  private clearHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearTimeout(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+}
+
+/**
+ * WebSocket 推送通道
+ * 连接后发送 { "type": "subscribe", "symbols": [...] }，订阅变化时重新发送全量列表
+ */
+export class WebSocketPriceTransport extends BasePriceStreamTransport {
+  readonly kind = 'websocket';
+  private socket: WebSocket | null = null;
+
+  protected open(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+    socket.onopen = () => {
+      this.sendSymbols();
+      this.handleOpen();
+    };
+    socket.onmessage = (event) => {
+      this.handleMessage(String(event.data));
+    };
+    socket.onerror = () => {
+      console.warn('⚠️ USStockPriceStreamService: WebSocket error');
+    };
+    socket.onclose = (event) => {
+      this.handleDisconnect(`websocket closed (${event.code})`);
+    };
+  }
+
+  protected sendSymbols(): void {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify({ type: 'subscribe', symbols: this.symbols }));
+    }
+  }
+
+  protected shutdown(): void {
+    if (this.socket) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.onopen = null;
+      socket.onmessage = null;
+      socket.onerror = null;
+      socket.onclose = null;
+      socket.close();
+    }
+  }
+}
+
+/**
+ * Server-Sent Events 推送通道
+ * 订阅列表通过 ?symbols=NVDA,AAPL 传递，订阅变化时重建连接
+ */
+export class SSEPriceTransport extends BasePriceStreamTransport {
+  readonly kind = 'sse';
+  private source: EventSource | null = null;
+
+  protected open(): void {
+    const separator = this.url.includes('?') ? '&' : '?';
+    const source = new EventSource(`${this.url}${separator}symbols=${encodeURIComponent(this.symbols.join(','))}`);
+    this.source = source;
+    source.onopen = () => {
+      this.handleOpen();
+    };
+    source.onmessage = (event) => {
+      this.handleMessage(String(event.data));
+    };
+    // EventSource 出错后会自动重连，这里直接视为断开，由上层统一降级和重连
+    source.onerror = () => {
+      this.handleDisconnect('sse error');
+    };
+  }
+
+  protected sendSymbols(): void {
+    this.shutdown();
+    this.open();
+  }
+
+  protected shutdown(): void {
+    if (this.source) {
+      const source = this.source;
+      this.source = null;
+      source.onopen = null;
+      source.onmessage = null;
+      source.onerror = null;
+      source.close();
+    }
+  }
+}
+
+/**
+ * 默认推送通道工厂：ws:// / wss:// 使用 WebSocket，http:// / https:// 使用 SSE
+ * 当前运行环境不支持对应协议时返回 null
+ */
+export const createDefaultPriceStreamTransport: PriceStreamTransportFactory = (url) => {
+  if (/^wss?:\/\//i.test(url)) {
+    return typeof WebSocket !== 'undefined' ? new WebSocketPriceTransport(url) : null;
+  }
+  if (/^https?:\/\//i.test(url)) {
+    return typeof EventSource !== 'undefined' ? new SSEPriceTransport(url) : null;
+  }
+  console.warn('⚠️ USStockPriceStreamService: Unsupported stream URL:', url);
+  return null;
+};
+
+/**
+ * 美股实时价格推送服务
+ * 推送地址优先读取环境变量 EXPO_PUBLIC_PRICE_STREAM_URL（本地调试），其次读取远程配置 USSTOCK_REALTIME_STREAM_URL；
+ * 两者都为空时不启用推送，实时价格继续使用轮询
+ */
+class USStockPriceStreamService {
+  private static instance: USStockPriceStreamService;
+  private static readonly RECONNECT_BASE_DELAY = 5000;
+  private static readonly RECONNECT_MAX_DELAY = 60000;
+  private transportFactory: PriceStreamTransportFactory = createDefaultPriceStreamTransport;
+
+  private constructor() {}
+
+  static getInstance(): USStockPriceStreamService {
+    if (!USStockPriceStreamService.instance) {
+      USStockPriceStreamService.instance = new USStockPriceStreamService();
+    }
+    return USStockPriceStreamService.instance;
+  }
+
+  /**
+   * 替换推送通道实现（用于测试或接入其他协议）
+   */
+  setTransportFactory(factory: PriceStreamTransportFactory): void {
+    this.transportFactory = factory;
+  }
+
+  /**
+   * 获取推送地址，未配置时返回空字符串
+   */
+  async getStreamURL(): Promise<string> {
+    const envURL = process.env.EXPO_PUBLIC_PRICE_STREAM_URL;
+    if (envURL) {
+      return envURL;
+    }
+    try {
+      return (await configService.getConfig('USSTOCK_REALTIME_STREAM_URL', '')).trim();
+    } catch (error) {
+      console.warn('⚠️ USStockPriceStreamService: Failed to load stream URL config:', error);
+      return '';
+    }
+  }
+
+  /**
+   * 创建推送通道，未配置推送地址或环境不支持时返回 null
+   */
+  async createTransport(): Promise<PriceStreamTransport | null> {
+    const url = await this.getStreamURL();
+    if (!url) {
+      return null;
+    }
+    return this.transportFactory(url);
+  }
+
+  /**
+   * 断线重连延迟（指数退避）
+   * @param attempt 已失败的重连次数
+   */
+  getReconnectDelay(attempt: number): number {
+    return Math.min(
+      USStockPriceStreamService.RECONNECT_BASE_DELAY * Math.pow(2, attempt),
+      USStockPriceStreamService.RECONNECT_MAX_DELAY
+    );
+  }
+}
+
+const usStockPriceStreamService = USStockPriceStreamService.getInstance();
+export default usStockPriceStreamService;
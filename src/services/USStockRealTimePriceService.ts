@@ -1,5 +1,8 @@
 import apiService from './APIService';
 import configService from './ConfigService';
+import cachePolicyRegistry from './CachePolicyRegistry';
+import rpcClient from './rpc/RPCClient';
+import { RPC_CONTRACTS, ListDataItem } from './rpc/contracts';
 
 // 定义实时价格数据接口
 interface RealTimeStockData {
@@ -27,24 +30,46 @@ class USStockRealTimePriceService {
     timestamp: 0
   };
 
+  // 缓存有效期取自 listData:realtime 缓存规则，ttl 为 0 时不缓存
+  private static readonly CACHE_POLICY_ID = 'listData:realtime';
+  private static readonly CACHE_STATS_ID = 'USStockRealTimePriceService.cache';
   // 默认配置值
-  private static readonly DEFAULT_CACHE_DURATION = 5000;
-  private static readonly DEFAULT_ENABLE_CACHE = true;
   private static readonly DEFAULT_MAX_CACHE_SIZE = 10000;
+  // 按代码请求的最大股票数量，超过后直接请求全量数据
+  private static readonly SUBSET_LIMIT = 20;
+  // 服务端是否支持按股票代码过滤，null 表示尚未探测
+  private static subsetSupported: boolean | null = null;
+  private static subsetProbe: Promise<boolean | null> | null = null;
 
   // 配置缓存
   private static configCache: {
-    cacheDuration: number;
-    enableCache: boolean;
     maxCacheSize: number;
     lastConfigFetch: number;
   } = {
-    cacheDuration: USStockRealTimePriceService.DEFAULT_CACHE_DURATION,
-    enableCache: USStockRealTimePriceService.DEFAULT_ENABLE_CACHE,
     maxCacheSize: USStockRealTimePriceService.DEFAULT_MAX_CACHE_SIZE,
     lastConfigFetch: 0
   };
 
+  constructor() {
+    cachePolicyRegistry.subscribeInvalidation(tag => {
+      if (USStockRealTimePriceService.getCachePolicy().tags.includes(tag)) {
+        this.clearCache();
+      }
+    });
+  }
+
+  private static getCachePolicy() {
+    return cachePolicyRegistry.getPolicy(this.CACHE_POLICY_ID);
+  }
+
+  /**
+   * 全量价格缓存是否有效
+   */
+  private static hasValidCache(): boolean {
+    const { ttl } = this.getCachePolicy();
+    return ttl > 0 && this.cache.data !== null && Date.now() - this.cache.timestamp < ttl;
+  }
+
   /**
    * 获取远程配置
    * 每5分钟刷新一次配置，避免过于频繁的配置请求
@@ -58,14 +83,8 @@ class USStockRealTimePriceService {
     }
 
     try {
-      // 获取缓存有效期配置
-      const cacheDurationStr = await configService.getConfig('USSTOCK_REALTIME_PRICE_CACHE_DURATION', this.DEFAULT_CACHE_DURATION.toString());
-      const cacheDuration = parseInt(cacheDurationStr, 10);
-      this.configCache.cacheDuration = isNaN(cacheDuration) || cacheDuration < 0 ? this.DEFAULT_CACHE_DURATION : cacheDuration;
-
-      // 获取是否启用缓存配置
-      const enableCacheStr = await configService.getConfig('USSTOCK_REALTIME_PRICE_ENABLE_CACHE', this.DEFAULT_ENABLE_CACHE.toString());
-      this.configCache.enableCache = enableCacheStr.toLowerCase() === 'true';
+      // 缓存有效期和开关由缓存策略注册表管理（兼容 USSTOCK_REALTIME_PRICE_CACHE_DURATION / ENABLE_CACHE）
+      await cachePolicyRegistry.loadRemoteOverrides();
 
       // 获取最大缓存条目数配置
       const maxCacheSizeStr = await configService.getConfig('USSTOCK_REALTIME_PRICE_MAX_CACHE_SIZE', this.DEFAULT_MAX_CACHE_SIZE.toString());
@@ -75,8 +94,7 @@ class USStockRealTimePriceService {
       this.configCache.lastConfigFetch = now;
       
       console.log('📋 USStockRealTimePriceService: Config loaded:', {
-        cacheDuration: this.configCache.cacheDuration,
-        enableCache: this.configCache.enableCache,
+        cacheDuration: this.getCachePolicy().ttl,
         maxCacheSize: this.configCache.maxCacheSize
       });
     } catch (error) {
@@ -94,22 +112,14 @@ class USStockRealTimePriceService {
       // 先获取最新配置
       await USStockRealTimePriceService.getConfigs();
 
-      // 检查是否启用缓存
-      if (!USStockRealTimePriceService.configCache.enableCache) {
-        // console.log('🚫 USStockRealTimePriceService: Cache disabled, fetching fresh data');
-        return await this.fetchFreshData();
-      }
-
       // 检查缓存是否有效
-      const now = Date.now();
-      const timeDiff = now - USStockRealTimePriceService.cache.timestamp;
-      
-      if (USStockRealTimePriceService.cache.data && timeDiff < USStockRealTimePriceService.configCache.cacheDuration) {
-        // console.log(`🗄️ USStockRealTimePriceService: Using cached data (${Math.round(timeDiff/1000)}s old)`);
-        return USStockRealTimePriceService.cache.data;
+      if (USStockRealTimePriceService.hasValidCache()) {
+        cachePolicyRegistry.record(USStockRealTimePriceService.CACHE_STATS_ID, 'hit');
+        return USStockRealTimePriceService.cache.data!;
       }
 
       // 缓存无效或不存在，从API获取新数据
+      cachePolicyRegistry.record(USStockRealTimePriceService.CACHE_STATS_ID, 'miss');
       return await this.fetchFreshData();
       
     } catch (error) {
@@ -126,7 +136,7 @@ class USStockRealTimePriceService {
     // console.log('🔄 USStockRealTimePriceService: Fetching all real-time US stock prices...');
     
     // 调用API获取美股实时数据
-    const response = await apiService.call('listData', [
+    let resultArray: ListDataItem[] = await rpcClient.call('listData', [
       '',
       'REAL-TIME-DATA-USSTOCK',
       '',
@@ -134,22 +144,6 @@ class USStockRealTimePriceService {
       '1'
     ]);
 
-    // 处理两种可能的响应格式：
-    // 1. 如果APIService已经提取了result字段，response就是数组
-    // 2. 如果APIService返回完整响应，response.result才是数组
-    let resultArray: RealTimeStockData[];
-
-    if (Array.isArray(response)) {
-      // APIService已经提取了result字段
-      resultArray = response;
-    } else if (response && response.result && Array.isArray(response.result)) {
-      // 完整的响应格式
-      resultArray = response.result;
-    } else {
-      console.error('❌ USStockRealTimePriceService: Invalid response format:', response);
-      throw new Error('Invalid API response format');
-    }
-
     // console.log(`✅ USStockRealTimePriceService: Received ${resultArray.length} stock prices`);
     
     // 应用最大缓存条目数限制
@@ -163,8 +157,8 @@ class USStockRealTimePriceService {
     const priceArray: StockPriceMap[] = resultArray
       .filter(item => item.page && item.data) // 过滤无效数据
       .map(item => {
-        const stockSymbol = item.page.toLowerCase(); // 转换为小写作为key
-        const price = parseFloat(item.data);
+        const stockSymbol = item.page!.toLowerCase(); // 转换为小写作为key
+        const price = parseFloat(String(item.data));
         
         // 如果价格无效，跳过该股票
         if (isNaN(price)) {
@@ -182,12 +176,11 @@ class USStockRealTimePriceService {
     // console.log('💰 Sample US stock prices:', priceArray.slice(0, 5));
     
     // 只有在启用缓存时才更新缓存
-    if (USStockRealTimePriceService.configCache.enableCache) {
+    if (USStockRealTimePriceService.getCachePolicy().ttl > 0) {
       USStockRealTimePriceService.cache = {
         data: priceArray,
         timestamp: Date.now()
       };
-      // console.log(`💾 USStockRealTimePriceService: Data cached for ${USStockRealTimePriceService.configCache.cacheDuration}ms`);
     }
     
     return priceArray;
@@ -268,6 +261,99 @@ class USStockRealTimePriceService {
     }
   }
 
+  /**
+   * 探测服务端是否支持按股票代码过滤（只发一次请求，结果在本次运行期间缓存）
+   * listData 第6个参数为 page（即股票代码），该参数没有文档约定：
+   * 返回了未请求的股票时视为不支持；没有返回记录或请求失败时无法判断，下次再探测
+   * @param symbol 用于探测的股票代码
+   */
+  private static probeSubsetSupport(symbol: string): Promise<boolean | null> {
+    if (USStockRealTimePriceService.subsetSupported !== null) {
+      return Promise.resolve(USStockRealTimePriceService.subsetSupported);
+    }
+    if (!USStockRealTimePriceService.subsetProbe) {
+      USStockRealTimePriceService.subsetProbe = rpcClient
+        .call('listData', ['', 'REAL-TIME-DATA-USSTOCK', '', '0', '1', symbol.toUpperCase()])
+        .then(items => {
+          if (items.length === 0) {
+            return null;
+          }
+          const supported = items.every(entry => entry.page?.toLowerCase() === symbol);
+          if (!supported) {
+            console.warn('⚠️ USStockRealTimePriceService: listData ignored the symbol filter, switching to full list requests');
+          }
+          USStockRealTimePriceService.subsetSupported = supported;
+          return supported;
+        })
+        .catch(error => {
+          console.warn('⚠️ USStockRealTimePriceService: Subset support probe failed:', error);
+          return null;
+        })
+        .finally(() => {
+          USStockRealTimePriceService.subsetProbe = null;
+        });
+    }
+    return USStockRealTimePriceService.subsetProbe;
+  }
+
+  /**
+   * 只获取订阅股票的实时价格
+   * 全量缓存有效时直接读取缓存；否则按股票代码批量请求，订阅数量超过 SUBSET_LIMIT、
+   * 服务端不支持按代码过滤（见 probeSubsetSupport）或按代码请求失败时退回全量请求
+   * @param stockSymbols 股票代码数组
+   * @returns Promise<StockPriceMap> 返回格式为 { nvda: 178.08, ... }
+   */
+  async getRealTimePricesForSymbols(stockSymbols: string[]): Promise<StockPriceMap> {
+    const symbols = Array.from(new Set(stockSymbols.filter(Boolean).map(symbol => symbol.toLowerCase())));
+    if (symbols.length === 0) {
+      return {};
+    }
+
+    await USStockRealTimePriceService.getConfigs();
+    if (
+      USStockRealTimePriceService.hasValidCache()
+      || USStockRealTimePriceService.subsetSupported === false
+      || symbols.length > USStockRealTimePriceService.SUBSET_LIMIT
+    ) {
+      return this.getBatchStockPrices(symbols);
+    }
+
+    // 先用一次请求确认服务端支持按代码过滤，避免不支持时一次发出多个全量请求
+    const supported = await USStockRealTimePriceService.probeSubsetSupport(symbols[0]);
+    if (!supported) {
+      return this.getBatchStockPrices(symbols);
+    }
+
+    try {
+      const responses = await apiService.batchCall<any>(symbols.map(symbol => ({
+        method: 'listData',
+        params: ['', 'REAL-TIME-DATA-USSTOCK', '', '0', '1', symbol.toUpperCase()],
+        validate: (response: unknown) => {
+          rpcClient.validate('listData', RPC_CONTRACTS.listData.result, response);
+        }
+      })));
+
+      const result: StockPriceMap = {};
+      responses.forEach((response, index) => {
+        const items = rpcClient.validate('listData', RPC_CONTRACTS.listData.result, response);
+        const item = items.find(entry => entry.page?.toLowerCase() === symbols[index]);
+        const price = item ? parseFloat(String(item.data)) : NaN;
+        if (!isNaN(price)) {
+          result[symbols[index]] = price;
+        }
+      });
+
+      // 一个都没有取到时退回全量请求
+      if (Object.keys(result).length === 0) {
+        return this.getBatchStockPrices(symbols);
+      }
+      return result;
+    } catch (error) {
+      console.warn('⚠️ USStockRealTimePriceService: Subset request failed, falling back to full list:', error);
+      return this.getBatchStockPrices(symbols);
+    }
+  }
+
   /**
    * 获取当前配置信息（用于调试和监控）
    * @returns Promise<object> 当前的配置信息
@@ -286,10 +372,11 @@ class USStockRealTimePriceService {
     const cacheAge = USStockRealTimePriceService.cache.timestamp > 0 
       ? now - USStockRealTimePriceService.cache.timestamp 
       : -1;
+    const { ttl } = USStockRealTimePriceService.getCachePolicy();
     
     return {
-      cacheDuration: USStockRealTimePriceService.configCache.cacheDuration,
-      enableCache: USStockRealTimePriceService.configCache.enableCache,
+      cacheDuration: ttl,
+      enableCache: ttl > 0,
       maxCacheSize: USStockRealTimePriceService.configCache.maxCacheSize,
       cacheAge,
       hasCachedData: USStockRealTimePriceService.cache.data !== null,
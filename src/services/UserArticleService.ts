@@ -1,5 +1,7 @@
 import UserService from './UserService';
 import apiConfig, { getUserURL } from '../config/apiConfig';
+import { APIError, API_ERROR_CODES, isTransientAPIError } from './APIService';
+import watchlistSyncService, { SyncMutation, isNetworkSyncError } from './WatchlistSyncService';
 
 // 收藏文章数据接口
 export interface FavoriteArticle {
@@ -43,12 +45,18 @@ interface ServiceResponse<T> {
   success: boolean;
   data?: T;
   error?: string;
+  // 修改已保存到本地队列，尚未同步到服务端
+  pending?: boolean;
+  // 网络不可用，返回的是本地缓存的列表
+  offline?: boolean;
 }
 
 class UserArticleService {
   private static instance: UserArticleService;
 
-  private constructor() {}
+  private constructor() {
+    watchlistSyncService.registerTransport('article', mutation => this.sendArticleMutation(mutation));
+  }
 
   static getInstance(): UserArticleService {
     if (!UserArticleService.instance) {
@@ -71,7 +79,7 @@ class UserArticleService {
       try {
         const token = await UserService.getToken();
         if (!token) {
-          throw new Error('用户未登录');
+          throw new APIError(API_ERROR_CODES.AUTH, '用户未登录');
         }
 
         const currentURL = getUserURL();
@@ -80,29 +88,44 @@ class UserArticleService {
           method: method
         });
 
-        const response = await fetch(currentURL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            method,
-            params,
-            token
-          })
-        });
+        let response: Response;
+        try {
+          response = await fetch(currentURL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`
+            },
+            body: JSON.stringify({
+              method,
+              params,
+              token
+            })
+          });
+        } catch (fetchError) {
+          throw new APIError(API_ERROR_CODES.NETWORK, `Network request failed: ${fetchError?.message || fetchError}`);
+        }
 
-        const data = await response.json();
+        const responseText = await response.text();
+        let data: any;
+        try {
+          data = JSON.parse(responseText);
+        } catch (parseError) {
+          // 网关返回的 5xx 错误页不是 JSON，按 HTTP 状态码处理
+          if (!response.ok) {
+            throw new APIError(response.status, `HTTP error! status: ${response.status}`, { body: responseText });
+          }
+          throw new APIError(API_ERROR_CODES.INVALID_JSON, `Invalid JSON response: ${parseError.message}`, { responseText });
+        }
         
         // 简单检查常见的token过期错误码
         if (data.code === '-32604' || data.code === '-33058') {
           console.log('🚫 UserArticleService: 检测到token过期，用户需要重新登录:', data.code);
-          throw new Error('登录已过期，请重新登录');
+          throw new APIError(API_ERROR_CODES.AUTH, '登录已过期，请重新登录', data);
         }
         
         if (!response.ok) {
-          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+          throw new APIError(response.status, data.error || `HTTP error! status: ${response.status}`, data);
         }
 
         return data;
@@ -111,16 +134,12 @@ class UserArticleService {
         console.error(`UserArticleService: Secure API request failed (尝试 ${attempt + 1}):`, error);
         
         // 如果是token相关错误或用户未登录，不重试
-        if (error.message.includes('登录已过期') || error.message.includes('用户未登录')) {
+        if (error instanceof APIError && error.code === API_ERROR_CODES.AUTH) {
           throw error;
         }
         
         // 如果还有重试机会且是网络/服务器错误，尝试切换接入点
-        if (attempt < maxRetries && (
-          error.message.includes('Network request failed') || 
-          error.message.includes('HTTP error') ||
-          error.message.includes('fetch')
-        )) {
+        if (attempt < maxRetries && isTransientAPIError(error)) {
           console.log(`🔄 UserArticleService: 尝试切换到备用接入点...`);
           await apiConfig.handleRequestFailure();
           continue;
@@ -132,109 +151,101 @@ class UserArticleService {
   }
 
   /**
-   * 添加用户收藏文章
-   * @param userEmail 用户邮箱
-   * @param articlePath 文章路径
-   * @returns Promise<ServiceResponse<AddUserArticleResponse>>
+   * 发送添加/移除请求，供同步队列直接发送和重放使用
    */
-  async addUserArticle(userEmail: string, articlePath: string): Promise<ServiceResponse<AddUserArticleResponse>> {
-    try {
-      console.log('📰 UserArticleService: 添加收藏文章', { userEmail, articlePath });
+  private async sendArticleMutation(mutation: SyncMutation): Promise<any> {
+    const isAdd = mutation.op === 'add';
+    const result = await this.postSecure({ 
+      method: isAdd ? 'addUserArticle' : 'removeUserArticle', 
+      params: isAdd ? [mutation.email, mutation.key, "XMB"] : [mutation.email, mutation.key]
+    });
 
-      const result = await this.postSecure({ 
-        method: 'addUserArticle', 
-        params: [userEmail, articlePath, "XMB"]
-      });
+    console.log('📰 UserArticleService: API返回结果:', result);
 
-      console.log('📰 UserArticleService: API返回结果:', result);
+    if (result.result) {
+      return result.result;
+    }
+    throw new Error(result.error || (isAdd ? '添加收藏文章失败' : '移除收藏文章失败'));
+  }
 
-      if (result.result) {
-        return {
-          success: true,
-          data: result.result
-        };
-      } else {
-        throw new Error(result.error || '添加收藏文章失败');
-      }
-    } catch (error: any) {
-      console.error('❌ UserArticleService: 添加收藏文章失败:', error);
-      
-      // 处理网络错误
-      if (error.message?.includes('Network request failed') || error.message?.includes('timeout')) {
-        return {
-          success: false,
-          error: '网络连接失败，请检查网络后重试'
-        };
-      }
-      
-      // 处理401未授权错误
-      if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
-        return {
-          success: false,
-          error: '登录已过期，请重新登录'
-        };
-      }
-      
+  /**
+   * 同步队列返回的失败转换为服务响应
+   */
+  private toErrorResponse<T>(error: string | undefined, fallback: string): ServiceResponse<T> {
+    // 处理401未授权错误
+    if (error?.includes('401') || error?.includes('Unauthorized')) {
       return {
         success: false,
-        error: error.message || '添加收藏文章失败'
+        error: '登录已过期，请重新登录'
       };
     }
+    
+    return {
+      success: false,
+      error: error || fallback
+    };
+  }
+
+  /**
+   * 添加用户收藏文章
+   * 网络不可用或登录过期时保存到本地同步队列，返回 pending: true
+   * @param userEmail 用户邮箱
+   * @param articlePath 文章路径
+   * @param details 文章标题和日期，同步完成前用于在收藏列表中展示
+   * @returns Promise<ServiceResponse<AddUserArticleResponse>>
+   */
+  async addUserArticle(
+    userEmail: string,
+    articlePath: string,
+    details?: { title: string; date: string }
+  ): Promise<ServiceResponse<AddUserArticleResponse>> {
+    console.log('📰 UserArticleService: 添加收藏文章', { userEmail, articlePath });
+
+    const result = await watchlistSyncService.submit('article', userEmail, articlePath, 'add', details);
+    if (!result.success) {
+      console.error('❌ UserArticleService: 添加收藏文章失败:', result.error);
+      return this.toErrorResponse(result.error, '添加收藏文章失败');
+    }
+    return {
+      success: true,
+      pending: result.pending,
+      data: result.data || {
+        email: userEmail,
+        path: articlePath,
+        title: details?.title || '',
+        date: details?.date || '',
+        valid: true,
+        currentCount: 0,
+        maxLimit: 0
+      }
+    };
   }
 
   /**
    * 移除用户收藏文章
+   * 网络不可用或登录过期时保存到本地同步队列，返回 pending: true
    * @param userEmail 用户邮箱
    * @param articlePath 文章路径
    * @returns Promise<ServiceResponse<RemoveUserArticleResponse>>
    */
   async removeUserArticle(userEmail: string, articlePath: string): Promise<ServiceResponse<RemoveUserArticleResponse>> {
-    try {
-      console.log('📰 UserArticleService: 移除收藏文章', { userEmail, articlePath });
-
-      const result = await this.postSecure({ 
-        method: 'removeUserArticle', 
-        params: [userEmail, articlePath]
-      });
+    console.log('📰 UserArticleService: 移除收藏文章', { userEmail, articlePath });
 
-      console.log('📰 UserArticleService: API返回结果:', result);
-
-      if (result.result) {
-        return {
-          success: true,
-          data: result.result
-        };
-      } else {
-        throw new Error(result.error || '移除收藏文章失败');
-      }
-    } catch (error: any) {
-      console.error('❌ UserArticleService: 移除收藏文章失败:', error);
-      
-      // 处理网络错误
-      if (error.message?.includes('Network request failed') || error.message?.includes('timeout')) {
-        return {
-          success: false,
-          error: '网络连接失败，请检查网络后重试'
-        };
-      }
-      
-      // 处理401未授权错误
-      if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
-        return {
-          success: false,
-          error: '登录已过期，请重新登录'
-        };
-      }
-      
-      return {
-        success: false,
-        error: error.message || '移除收藏文章失败'
-      };
+    const result = await watchlistSyncService.submit('article', userEmail, articlePath, 'remove');
+    if (!result.success) {
+      console.error('❌ UserArticleService: 移除收藏文章失败:', result.error);
+      return this.toErrorResponse(result.error, '移除收藏文章失败');
     }
+    return {
+      success: true,
+      pending: result.pending,
+      data: result.data || { email: userEmail, path: articlePath, valid: true }
+    };
   }
 
   /**
    * 获取用户收藏的文章
+   * 结果已合并本地待同步的修改；网络不可用时返回最近一次的列表快照（offline: true）
    * @param userEmail 用户邮箱
    * @returns Promise<ServiceResponse<FavoriteArticle[]>>
    */
@@ -253,9 +264,14 @@ class UserArticleService {
         const articlesData = result.result as GetUserArticlesResponse;
         console.log('✅ UserArticleService: 获取到收藏文章:', articlesData.articles?.length || 0, '篇');
         
+        const articles = articlesData.articles || [];
+        await watchlistSyncService.saveSnapshot('article', userEmail, articles);
+        const merged = await this.applyPendingArticles(userEmail, articles, true);
+        // 请求成功说明网络已恢复，重放待同步的修改
+        watchlistSyncService.flush();
         return {
           success: true,
-          data: articlesData.articles || []
+          data: merged
         };
       } else {
         throw new Error(result.error || '获取收藏文章失败');
@@ -263,27 +279,56 @@ class UserArticleService {
     } catch (error: any) {
       console.error('❌ UserArticleService: 获取用户收藏文章失败:', error);
       
-      // 处理网络错误
-      if (error.message?.includes('Network request failed') || error.message?.includes('timeout')) {
+      // 处理网络错误：使用本地快照
+      if (isNetworkSyncError(error)) {
+        const snapshot = await watchlistSyncService.getSnapshot<FavoriteArticle[]>('article', userEmail);
+        if (snapshot) {
+          console.log('📴 UserArticleService: 网络不可用，使用本地收藏列表');
+          return {
+            success: true,
+            offline: true,
+            data: await this.applyPendingArticles(userEmail, snapshot, false)
+          };
+        }
         return {
           success: false,
           error: '网络连接失败，请检查网络后重试'
         };
       }
       
-      // 处理401未授权错误
-      if (error.message?.includes('401') || error.message?.includes('Unauthorized')) {
-        return {
-          success: false,
-          error: '登录已过期，请重新登录'
-        };
-      }
-      
+      return this.toErrorResponse(error.message, '获取收藏文章失败');
+    }
+  }
+
+  /**
+   * 将本地待同步的修改合并到收藏列表（按文章后写入者生效）
+   */
+  private async applyPendingArticles(
+    userEmail: string,
+    articles: FavoriteArticle[],
+    resolve: boolean
+  ): Promise<FavoriteArticle[]> {
+    const articleMap = new Map(articles.map(article => [article.path, article]));
+    const pending = await watchlistSyncService.getPending('article', userEmail);
+    const paths = await watchlistSyncService.mergeServerList(
+      'article',
+      userEmail,
+      articles.map(article => ({ key: article.path, updatedAt: Date.parse(article.updated_at) || 0 })),
+      resolve
+    );
+    return paths.map(path => {
+      const existing = articleMap.get(path);
+      if (existing) return existing;
+      const mutation = pending.find(item => item.key === path);
+      const addedAt = new Date(mutation?.timestamp || Date.now()).toISOString();
       return {
-        success: false,
-        error: error.message || '获取收藏文章失败'
+        path,
+        title: mutation?.details?.title || path,
+        date: mutation?.details?.date || addedAt,
+        created_at: addedAt,
+        updated_at: addedAt,
       };
-    }
+    });
   }
 }
 
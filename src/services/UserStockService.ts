@@ -1,5 +1,8 @@
 import userService from './UserService';
 import apiConfig, { getUserURL } from '../config/apiConfig';
+import { APIError, API_ERROR_CODES, isTransientAPIError } from './APIService';
+import watchlistSyncService, { SyncMutation, isNetworkSyncError } from './WatchlistSyncService';
+import { StorageAdapter } from './TokenService';
 
 export interface AddUserStockRequest {
   email: string;
@@ -37,15 +40,188 @@ export interface UserStockServiceResponse {
   success: boolean;
   data?: AddUserStockResponse | GetUserStocksResponse | RemoveUserStockResponse;
   error?: string;
+  // 修改已保存到本地队列，尚未同步到服务端
+  pending?: boolean;
+  // 网络不可用，返回的是本地缓存的列表
+  offline?: boolean;
 }
 
+// 自选分组，stocks 为手动排序后的股票代码
+export interface WatchlistGroup {
+  id: string;
+  name: string;
+  stocks: string[];
+}
+
+// 自选股备注和目标价
+export interface WatchlistStockMeta {
+  note: string;
+  targetPrice: number | null;
+}
+
+// 自选分组布局：分组顺序、组内顺序以及每只股票的备注
+export interface WatchlistLayout {
+  groups: WatchlistGroup[];
+  meta: Record<string, WatchlistStockMeta>;
+}
+
+export interface WatchlistLayoutResponse {
+  success: boolean;
+  data?: WatchlistLayout;
+  error?: string;
+}
+
+// 默认分组：未归入其他分组的股票都在这里，不能删除或重命名
+export const DEFAULT_WATCHLIST_GROUP_ID = 'default';
+export const DEFAULT_WATCHLIST_GROUP_NAME = '默认';
+export const MAX_WATCHLIST_GROUP_NAME_LENGTH = 20;
+
+const EMPTY_META: WatchlistStockMeta = { note: '', targetPrice: null };
+
+/**
+ * 获取股票的备注和目标价，没有设置时返回空值
+ */
+export const getWatchlistStockMeta = (layout: WatchlistLayout, stock: string): WatchlistStockMeta =>
+  layout.meta[stock.toUpperCase()] || EMPTY_META;
+
+/**
+ * 按当前自选股整理分组布局
+ * 保证默认分组存在且排在第一位、每只自选股只属于一个分组；
+ * 未归组的股票追加到默认分组末尾，已取消自选的股票从分组和备注中移除
+ * @param layout 本地保存的布局，可能为空或不完整
+ * @param stocks 当前自选股代码
+ */
+export const normalizeWatchlistLayout = (
+  layout: Partial<WatchlistLayout> | null | undefined,
+  stocks: string[]
+): WatchlistLayout => {
+  const followed = new Set(stocks.map(stock => stock.toUpperCase()));
+  const assigned = new Set<string>();
+
+  const groups: WatchlistGroup[] = (layout?.groups || [])
+    .filter(group => group && group.id && group.name)
+    .map(group => ({
+      id: group.id,
+      name: group.id === DEFAULT_WATCHLIST_GROUP_ID ? DEFAULT_WATCHLIST_GROUP_NAME : group.name,
+      stocks: (group.stocks || [])
+        .map(stock => stock.toUpperCase())
+        .filter(stock => {
+          if (!followed.has(stock) || assigned.has(stock)) return false;
+          assigned.add(stock);
+          return true;
+        }),
+    }));
+
+  let defaultGroup = groups.find(group => group.id === DEFAULT_WATCHLIST_GROUP_ID);
+  if (!defaultGroup) {
+    defaultGroup = { id: DEFAULT_WATCHLIST_GROUP_ID, name: DEFAULT_WATCHLIST_GROUP_NAME, stocks: [] };
+  }
+  const unassigned = Array.from(followed).filter(stock => !assigned.has(stock));
+  defaultGroup = { ...defaultGroup, stocks: [...defaultGroup.stocks, ...unassigned] };
+
+  const meta: Record<string, WatchlistStockMeta> = {};
+  Object.entries(layout?.meta || {}).forEach(([stock, value]) => {
+    const symbol = stock.toUpperCase();
+    if (followed.has(symbol) && value) {
+      const targetPrice = value.targetPrice === null || value.targetPrice === undefined ? NaN : Number(value.targetPrice);
+      meta[symbol] = {
+        note: value.note || '',
+        targetPrice: isFinite(targetPrice) && targetPrice > 0 ? targetPrice : null,
+      };
+    }
+  });
+
+  return {
+    groups: [defaultGroup, ...groups.filter(group => group.id !== DEFAULT_WATCHLIST_GROUP_ID)],
+    meta,
+  };
+};
+
+/**
+ * 将股票移动到指定分组的指定位置，股票不在布局中时直接加入
+ * @param index 在目标分组中的位置，省略时放到末尾
+ */
+export const moveStockInLayout = (
+  layout: WatchlistLayout,
+  stock: string,
+  groupId: string,
+  index?: number
+): WatchlistLayout => {
+  const symbol = stock.toUpperCase();
+  if (!layout.groups.some(group => group.id === groupId)) {
+    return layout;
+  }
+  return {
+    ...layout,
+    groups: layout.groups.map(group => {
+      const stocks = group.stocks.filter(item => item !== symbol);
+      if (group.id === groupId) {
+        const position = index === undefined ? stocks.length : Math.max(0, Math.min(index, stocks.length));
+        stocks.splice(position, 0, symbol);
+      }
+      return { ...group, stocks };
+    }),
+  };
+};
+
+/**
+ * 新建分组，追加到分组列表末尾
+ * @param id 分组 id，默认按时间生成
+ */
+export const createGroupInLayout = (
+  layout: WatchlistLayout,
+  name: string,
+  id: string = `group_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+): WatchlistLayout => ({
+  ...layout,
+  groups: [...layout.groups, { id, name: name.trim(), stocks: [] }],
+});
+
+/**
+ * 删除分组，组内股票按原顺序移回默认分组末尾
+ */
+export const removeGroupFromLayout = (layout: WatchlistLayout, groupId: string): WatchlistLayout => {
+  const removed = layout.groups.find(group => group.id === groupId);
+  if (!removed || groupId === DEFAULT_WATCHLIST_GROUP_ID) {
+    return layout;
+  }
+  return {
+    ...layout,
+    groups: layout.groups
+      .filter(group => group.id !== groupId)
+      .map(group =>
+        group.id === DEFAULT_WATCHLIST_GROUP_ID ? { ...group, stocks: [...group.stocks, ...removed.stocks] } : group
+      ),
+  };
+};
+
+/**
+ * 保存分组内的手动排序
+ * 只接受组内已有的股票，排序中遗漏的股票保持原顺序追加到末尾
+ */
+export const reorderStocksInLayout = (layout: WatchlistLayout, groupId: string, stocks: string[]): WatchlistLayout => ({
+  ...layout,
+  groups: layout.groups.map(group => {
+    if (group.id !== groupId) return group;
+    const ordered = Array.from(new Set(stocks.map(stock => stock.toUpperCase()))).filter(stock =>
+      group.stocks.includes(stock)
+    );
+    return { ...group, stocks: [...ordered, ...group.stocks.filter(stock => !ordered.includes(stock))] };
+  }),
+});
+
 /**
  * 用户自选股票服务
+ * 自选列表通过认证接口（addUserStock/removeUserStock）同步；分组、手动排序、备注和目标价按用户保存在本地，
+ * 展示时与服务端自选列表合并
  */
 class UserStockService {
   private static instance: UserStockService;
+  private readonly LAYOUT_KEY_PREFIX = 'watchlistLayout_';
 
-  private constructor() {}
+  private constructor() {
+    watchlistSyncService.registerTransport('stock', mutation => this.sendStockMutation(mutation));
+  }
 
   static getInstance(): UserStockService {
     if (!UserStockService.instance) {
@@ -68,7 +244,7 @@ class UserStockService {
       try {
         const token = await userService.getToken();
         if (!token) {
-          throw new Error('用户未登录');
+          throw new APIError(API_ERROR_CODES.AUTH, '用户未登录');
         }
 
         const currentURL = getUserURL();
@@ -77,29 +253,44 @@ class UserStockService {
           method: method
         });
 
-        const response = await fetch(currentURL, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            'Authorization': `Bearer ${token}`
-          },
-          body: JSON.stringify({
-            method,
-            params,
-            token
-          })
-        });
+        let response: Response;
+        try {
+          response = await fetch(currentURL, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${token}`
+            },
+            body: JSON.stringify({
+              method,
+              params,
+              token
+            })
+          });
+        } catch (fetchError) {
+          throw new APIError(API_ERROR_CODES.NETWORK, `Network request failed: ${fetchError?.message || fetchError}`);
+        }
 
-        const data = await response.json();
+        const responseText = await response.text();
+        let data: any;
+        try {
+          data = JSON.parse(responseText);
+        } catch (parseError) {
+          // 网关返回的 5xx 错误页不是 JSON，按 HTTP 状态码处理
+          if (!response.ok) {
+            throw new APIError(response.status, `HTTP error! status: ${response.status}`, { body: responseText });
+          }
+          throw new APIError(API_ERROR_CODES.INVALID_JSON, `Invalid JSON response: ${parseError.message}`, { responseText });
+        }
         
         // 简单检查常见的token过期错误码
         if (data.code === '-32604' || data.code === '-33058') {
           console.log('🚫 UserStockService: 检测到token过期，用户需要重新登录:', data.code);
-          throw new Error('登录已过期，请重新登录');
+          throw new APIError(API_ERROR_CODES.AUTH, '登录已过期，请重新登录', data);
         }
         
         if (!response.ok) {
-          throw new Error(data.error || `HTTP error! status: ${response.status}`);
+          throw new APIError(response.status, data.error || `HTTP error! status: ${response.status}`, data);
         }
 
         return data;
@@ -108,16 +299,12 @@ class UserStockService {
         console.error(`UserStockService: Secure API request failed (尝试 ${attempt + 1}):`, error);
         
         // 如果是token相关错误或用户未登录，不重试
-        if (error.message.includes('登录已过期') || error.message.includes('用户未登录')) {
+        if (error instanceof APIError && error.code === API_ERROR_CODES.AUTH) {
           throw error;
         }
         
         // 如果还有重试机会且是网络/服务器错误，尝试切换接入点
-        if (attempt < maxRetries && (
-          error.message.includes('Network request failed') || 
-          error.message.includes('HTTP error') ||
-          error.message.includes('fetch')
-        )) {
+        if (attempt < maxRetries && isTransientAPIError(error)) {
           console.log(`🔄 UserStockService: 尝试切换到备用接入点...`);
           await apiConfig.handleRequestFailure();
           continue;
@@ -129,85 +316,83 @@ class UserStockService {
   }
 
   /**
-   * 添加用户自选股票
-   * @param email 用户邮箱
-   * @param stock 股票代码（如：AAPL, MSFT）
-   * @returns Promise<UserStockServiceResponse>
+   * 发送添加/移除请求，供同步队列直接发送和重放使用
    */
-  async addUserStock(email: string, stock: string): Promise<UserStockServiceResponse> {
+  private async sendStockMutation(mutation: SyncMutation): Promise<any> {
+    const isAdd = mutation.op === 'add';
     try {
-      console.log('📈 UserStockService: 添加自选股票', { email, stock });
-      
-      const result = await this.postSecure({ 
-        method: 'addUserStock', 
-        params: [email, stock.toUpperCase()]
+      const result = await this.postSecure({
+        method: isAdd ? 'addUserStock' : 'removeUserStock',
+        params: [mutation.email, mutation.key]
       });
 
       console.log('📈 UserStockService: API返回结果:', result);
 
       if (result.result) {
-        return {
-          success: true,
-          data: result.result
-        };
-      } else {
-        throw new Error(result.error || '添加自选股票失败');
+        return result.result;
       }
+      throw new Error(result.error || (isAdd ? '添加自选股票失败' : '移除自选股票失败'));
     } catch (error) {
-      console.error('❌ UserStockService: 添加自选股票失败:', error);
+      // 特殊处理：如果股票已经不在自选列表中，视为成功
+      if (!isAdd && error.message && error.message.includes('user is not following this stock')) {
+        console.log('✅ UserStockService: 股票已经不在自选列表中，视为移除成功');
+        return { message: '股票已从自选列表中移除' };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * 添加用户自选股票
+   * 网络不可用或登录过期时保存到本地同步队列，返回 pending: true
+   * @param email 用户邮箱
+   * @param stock 股票代码（如：AAPL, MSFT）
+   * @returns Promise<UserStockServiceResponse>
+   */
+  async addUserStock(email: string, stock: string): Promise<UserStockServiceResponse> {
+    console.log('📈 UserStockService: 添加自选股票', { email, stock });
+    const result = await watchlistSyncService.submit('stock', email, stock.toUpperCase(), 'add');
+    if (!result.success) {
+      console.error('❌ UserStockService: 添加自选股票失败:', result.error);
       return {
         success: false,
-        error: error.message || '添加自选股票失败，请稍后重试'
+        error: result.error || '添加自选股票失败，请稍后重试'
       };
     }
+    return {
+      success: true,
+      pending: result.pending,
+      data: result.data || { email, stock: stock.toUpperCase(), valid: true }
+    };
   }
 
   /**
    * 移除用户自选股票
+   * 网络不可用或登录过期时保存到本地同步队列，返回 pending: true
    * @param email 用户邮箱
    * @param stock 股票代码（如：AAPL, MSFT）
    * @returns Promise<UserStockServiceResponse>
    */
   async removeUserStock(email: string, stock: string): Promise<UserStockServiceResponse> {
-    try {
-      console.log('📈 UserStockService: 移除自选股票', { email, stock });
-      
-      const result = await this.postSecure({ 
-        method: 'removeUserStock', 
-        params: [email, stock.toUpperCase()]
-      });
-
-      console.log('📈 UserStockService: API返回结果:', result);
-
-      if (result.result) {
-        return {
-          success: true,
-          data: result.result
-        };
-      } else {
-        throw new Error(result.error || '移除自选股票失败');
-      }
-    } catch (error) {
-      console.error('❌ UserStockService: 移除自选股票失败:', error);
-      
-      // 特殊处理：如果股票已经不在自选列表中，视为成功
-      if (error.message && error.message.includes('user is not following this stock')) {
-        console.log('✅ UserStockService: 股票已经不在自选列表中，视为移除成功');
-        return {
-          success: true,
-          data: { message: '股票已从自选列表中移除' }
-        };
-      }
-      
+    console.log('📈 UserStockService: 移除自选股票', { email, stock });
+    const result = await watchlistSyncService.submit('stock', email, stock.toUpperCase(), 'remove');
+    if (!result.success) {
+      console.error('❌ UserStockService: 移除自选股票失败:', result.error);
       return {
         success: false,
-        error: error.message || '移除自选股票失败，请稍后重试'
+        error: result.error || '移除自选股票失败，请稍后重试'
       };
     }
+    return {
+      success: true,
+      pending: result.pending,
+      data: result.data || { email, stock: stock.toUpperCase(), valid: true }
+    };
   }
 
   /**
    * 获取用户自选股票列表
+   * 结果已合并本地待同步的修改；网络不可用时返回最近一次的列表快照（offline: true）
    * @param email 用户邮箱
    * @returns Promise<UserStockServiceResponse>
    */
@@ -223,21 +408,203 @@ class UserStockService {
       console.log('📈 UserStockService: API返回结果:', result);
 
       if (result.result) {
+        const data = result.result as GetUserStocksResponse;
+        await watchlistSyncService.saveSnapshot('stock', email, data);
+        const merged = await this.applyPendingStocks(email, data, true);
+        // 请求成功说明网络已恢复，重放待同步的修改
+        watchlistSyncService.flush();
         return {
           success: true,
-          data: result.result
+          data: merged
         };
       } else {
         throw new Error(result.error || '获取自选股票失败');
       }
     } catch (error) {
       console.error('❌ UserStockService: 获取自选股票失败:', error);
+
+      if (isNetworkSyncError(error)) {
+        const snapshot = await watchlistSyncService.getSnapshot<GetUserStocksResponse>('stock', email);
+        if (snapshot) {
+          console.log('📴 UserStockService: 网络不可用，使用本地自选列表');
+          return {
+            success: true,
+            offline: true,
+            data: await this.applyPendingStocks(email, snapshot, false)
+          };
+        }
+      }
+
       return {
         success: false,
         error: error.message || '获取自选股票失败，请稍后重试'
       };
     }
   }
+
+  /**
+   * 将本地待同步的修改合并到自选列表（按股票后写入者生效）
+   */
+  private async applyPendingStocks(
+    email: string,
+    data: GetUserStocksResponse,
+    resolve: boolean
+  ): Promise<GetUserStocksResponse> {
+    const serverStocks = data.stocks || [];
+    const stockMap = new Map(serverStocks.map(item => [item.stock.toUpperCase(), item]));
+    const pending = await watchlistSyncService.getPending('stock', email);
+    const keys = await watchlistSyncService.mergeServerList(
+      'stock',
+      email,
+      serverStocks.map(item => ({ key: item.stock.toUpperCase(), updatedAt: Date.parse(item.updated_at) || 0 })),
+      resolve
+    );
+    const stocks = keys.map(key => {
+      const existing = stockMap.get(key);
+      if (existing) return existing;
+      const addedAt = new Date(pending.find(item => item.key === key)?.timestamp || Date.now()).toISOString();
+      return { stock: key, created_at: addedAt, updated_at: addedAt };
+    });
+    return { ...data, stocks, total: stocks.length };
+  }
+
+  /**
+   * 获取自选分组布局（分组、手动排序、备注和目标价）
+   * 布局保存在本地，调用方需用 getUserStocks 的结果经 normalizeWatchlistLayout 整理：
+   * 在其他设备上添加的股票归入默认分组，已取消自选的股票不显示
+   * @param email 用户邮箱
+   */
+  async getWatchlistLayout(email: string): Promise<WatchlistLayoutResponse> {
+    try {
+      return { success: true, data: await this.readLayout(email) };
+    } catch (error) {
+      console.error('❌ UserStockService: 获取自选分组失败:', error);
+      return { success: false, error: '获取自选分组失败' };
+    }
+  }
+
+  /**
+   * 新建分组
+   * @param name 分组名称，如 "AI"、"银行"
+   */
+  async createWatchlistGroup(email: string, name: string): Promise<WatchlistLayoutResponse> {
+    console.log('📈 UserStockService: 新建自选分组', { email, name });
+    return this.updateLayout(email, '新建分组失败', layout => {
+      const error = this.validateGroupName(layout, name);
+      if (error) throw new Error(error);
+      return createGroupInLayout(layout, name);
+    });
+  }
+
+  /**
+   * 重命名分组（默认分组不能重命名）
+   */
+  async renameWatchlistGroup(email: string, groupId: string, name: string): Promise<WatchlistLayoutResponse> {
+    console.log('📈 UserStockService: 重命名自选分组', { email, groupId, name });
+    return this.updateLayout(email, '重命名分组失败', layout => {
+      const error = groupId === DEFAULT_WATCHLIST_GROUP_ID ? '默认分组不能重命名' : this.validateGroupName(layout, name, groupId);
+      if (error) throw new Error(error);
+      return {
+        ...layout,
+        groups: layout.groups.map(group => (group.id === groupId ? { ...group, name: name.trim() } : group)),
+      };
+    });
+  }
+
+  /**
+   * 删除分组，组内股票移回默认分组（不会取消自选）
+   */
+  async removeWatchlistGroup(email: string, groupId: string): Promise<WatchlistLayoutResponse> {
+    if (groupId === DEFAULT_WATCHLIST_GROUP_ID) {
+      return { success: false, error: '默认分组不能删除' };
+    }
+    console.log('📈 UserStockService: 删除自选分组', { email, groupId });
+    return this.updateLayout(email, '删除分组失败', layout => removeGroupFromLayout(layout, groupId));
+  }
+
+  /**
+   * 将股票移动到其他分组
+   * @param index 在目标分组中的位置，省略时放到末尾
+   */
+  async moveUserStock(email: string, stock: string, groupId: string, index?: number): Promise<WatchlistLayoutResponse> {
+    console.log('📈 UserStockService: 移动自选股票', { email, stock, groupId, index });
+    return this.updateLayout(email, '移动股票失败', layout => {
+      if (!layout.groups.some(group => group.id === groupId)) throw new Error('分组不存在');
+      return moveStockInLayout(layout, stock, groupId, index);
+    });
+  }
+
+  /**
+   * 保存分组内的手动排序
+   * @param stocks 排序后的股票代码
+   */
+  async reorderUserStocks(email: string, groupId: string, stocks: string[]): Promise<WatchlistLayoutResponse> {
+    console.log('📈 UserStockService: 保存自选排序', { email, groupId, count: stocks.length });
+    return this.updateLayout(email, '保存排序失败', layout => reorderStocksInLayout(layout, groupId, stocks));
+  }
+
+  /**
+   * 设置股票备注和目标价，目标价为 null 时清除
+   */
+  async updateUserStockMeta(email: string, stock: string, meta: WatchlistStockMeta): Promise<WatchlistLayoutResponse> {
+    if (meta.targetPrice !== null && (!isFinite(meta.targetPrice) || meta.targetPrice <= 0)) {
+      return { success: false, error: '请输入有效的目标价' };
+    }
+    console.log('📈 UserStockService: 更新自选备注', { email, stock, meta });
+    const symbol = stock.toUpperCase();
+    return this.updateLayout(email, '保存备注失败', layout => {
+      // 尚未归组的股票先放入默认分组，避免备注在整理布局时被丢弃
+      const placed = layout.groups.some(group => group.stocks.includes(symbol))
+        ? layout
+        : moveStockInLayout(layout, symbol, DEFAULT_WATCHLIST_GROUP_ID);
+      return { ...placed, meta: { ...placed.meta, [symbol]: { note: meta.note.trim(), targetPrice: meta.targetPrice } } };
+    });
+  }
+
+  private validateGroupName(layout: WatchlistLayout, name: string, groupId?: string): string | null {
+    const trimmed = name.trim();
+    if (!trimmed) {
+      return '请输入分组名称';
+    }
+    if (trimmed.length > MAX_WATCHLIST_GROUP_NAME_LENGTH) {
+      return `分组名称不能超过 ${MAX_WATCHLIST_GROUP_NAME_LENGTH} 个字`;
+    }
+    if (layout.groups.some(group => group.id !== groupId && group.name === trimmed)) {
+      return '分组名称已存在';
+    }
+    return null;
+  }
+
+  /**
+   * 读取本地保存的布局，按布局中的股票整理（不按当前自选过滤）
+   */
+  private async readLayout(email: string): Promise<WatchlistLayout> {
+    const stored = await StorageAdapter.getItem(this.LAYOUT_KEY_PREFIX + email);
+    const layout: Partial<WatchlistLayout> | null = stored ? JSON.parse(stored) : null;
+    const stocks = (layout?.groups || []).flatMap(group => group?.stocks || []);
+    return normalizeWatchlistLayout(layout, stocks);
+  }
+
+  /**
+   * 修改本地布局并保存，update 抛出的错误作为失败原因返回
+   */
+  private async updateLayout(
+    email: string,
+    failMessage: string,
+    update: (layout: WatchlistLayout) => WatchlistLayout
+  ): Promise<WatchlistLayoutResponse> {
+    try {
+      const layout = update(await this.readLayout(email));
+      await StorageAdapter.setItem(this.LAYOUT_KEY_PREFIX + email, JSON.stringify(layout));
+      return { success: true, data: layout };
+    } catch (error) {
+      console.error(`❌ UserStockService: ${failMessage}:`, error);
+      return {
+        success: false,
+        error: error.message || `${failMessage}，请稍后重试`,
+      };
+    }
+  }
 }
 
 const userStockService = UserStockService.getInstance();
@@ -0,0 +1,379 @@
+import { AppState, AppStateStatus, Platform } from 'react-native';
+import userService from './UserService';
+import { StorageAdapter } from './TokenService';
+import { APIError, API_ERROR_CODES, isTransientAPIError } from './APIService';
+
+// 需要同步的列表：自选股票 / 收藏文章
+export type SyncMutationKind = 'stock' | 'article';
+export type SyncMutationOp = 'add' | 'remove';
+
+// 本地待同步的修改，同一用户同一代码只保留最后一次
+export interface SyncMutation {
+  id: string;
+  kind: SyncMutationKind;
+  email: string;
+  // 股票代码（大写）或文章路径
+  key: string;
+  op: SyncMutationOp;
+  // 本地修改时间（毫秒），与服务端 updated_at 比较，后写入者生效
+  timestamp: number;
+  attempts: number;
+  // 尚未同步时用于展示的附加信息，如文章标题
+  details?: Record<string, string>;
+}
+
+// 服务端列表中的一项，updatedAt 为毫秒时间戳，无法解析时为 0
+export interface SyncServerItem {
+  key: string;
+  updatedAt: number;
+}
+
+export interface SyncMergeResult {
+  // 合并后的代码列表：服务端顺序在前，本地新增的按修改时间追加
+  keys: string[];
+  // 已生效或被服务端更新覆盖的修改，可以从队列中移除
+  resolvedIds: string[];
+}
+
+// 发送一条修改到服务端，成功时返回服务端结果，失败时抛出错误
+export type SyncTransport = (mutation: SyncMutation) => Promise<any>;
+
+export interface SyncSubmitResult {
+  success: boolean;
+  // 已保存到本地队列，等待网络恢复后同步
+  pending: boolean;
+  data?: any;
+  error?: string;
+}
+
+export interface SyncQueueState {
+  pending: number;
+  syncing: boolean;
+  // 最近一次被服务端拒绝而丢弃的修改
+  lastError: string | null;
+}
+
+/**
+ * 是否为网络错误（断网、超时、服务端 5xx、响应无法解析）
+ */
+export const isNetworkSyncError = (error: any): boolean => isTransientAPIError(error);
+
+/**
+ * 是否可以稍后重试：网络错误，或登录过期（重新登录后继续同步）
+ */
+export const isRetryableSyncError = (error: any): boolean =>
+  isNetworkSyncError(error) || (error instanceof APIError && error.code === API_ERROR_CODES.AUTH);
+
+const isSameTarget = (a: SyncMutation, b: Pick<SyncMutation, 'kind' | 'email' | 'key'>): boolean =>
+  a.kind === b.kind && a.email === b.email && a.key === b.key;
+
+/**
+ * 加入队列：同一目标的旧修改被新修改替换（先添加后移除只保留移除）
+ */
+export const coalesceMutation = (queue: SyncMutation[], mutation: SyncMutation): SyncMutation[] => [
+  ...queue.filter(item => !isSameTarget(item, mutation)),
+  mutation,
+];
+
+/**
+ * 按代码做后写入者生效的合并
+ * - 本地添加：服务端已有则视为已生效；没有则加入列表，等待同步
+ * - 本地移除：服务端没有则视为已生效；服务端的 updated_at 晚于本地修改时间说明在其他设备上重新添加过，以服务端为准；否则从列表中去掉
+ * @param serverItems 服务端列表
+ * @param pending 当前用户该列表的待同步修改
+ */
+export const mergeWithPendingMutations = (
+  serverItems: SyncServerItem[],
+  pending: SyncMutation[]
+): SyncMergeResult => {
+  const serverMap = new Map(serverItems.map(item => [item.key, item]));
+  const removed = new Set<string>();
+  const added: SyncMutation[] = [];
+  const resolvedIds: string[] = [];
+
+  pending.forEach(mutation => {
+    const serverItem = serverMap.get(mutation.key);
+    if (mutation.op === 'add') {
+      if (serverItem) {
+        resolvedIds.push(mutation.id);
+      } else {
+        added.push(mutation);
+      }
+      return;
+    }
+    if (!serverItem || serverItem.updatedAt > mutation.timestamp) {
+      resolvedIds.push(mutation.id);
+    } else {
+      removed.add(mutation.key);
+    }
+  });
+
+  return {
+    keys: [
+      ...serverItems.map(item => item.key).filter(key => !removed.has(key)),
+      ...added.sort((a, b) => a.timestamp - b.timestamp).map(mutation => mutation.key),
+    ],
+    resolvedIds,
+  };
+};
+
+/**
+ * 自选股票和收藏文章的离线同步队列
+ * 添加/移除先尝试直接请求，网络不可用或登录过期时保存到本地队列并立即返回成功（乐观更新）；
+ * 应用回到前台、网络恢复、定时重试或列表加载成功时按顺序重放，列表加载时与服务端结果合并
+ */
+class WatchlistSyncService {
+  private static instance: WatchlistSyncService;
+  private readonly QUEUE_KEY = 'watchlistSyncQueue';
+  private readonly SNAPSHOT_KEY_PREFIX = 'watchlistSyncSnapshot_';
+  private readonly RETRY_BASE_DELAY = 15 * 1000;
+  private readonly RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+  private queue: SyncMutation[] = [];
+  private loadPromise: Promise<void> | null = null;
+  private transports: Partial<Record<SyncMutationKind, SyncTransport>> = {};
+  private listeners = new Set<() => void>();
+  private flushPromise: Promise<void> | null = null;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryDelay = this.RETRY_BASE_DELAY;
+  private lastError: string | null = null;
+  private sequence = 0;
+
+  private constructor() {
+    AppState.addEventListener('change', (state: AppStateStatus) => {
+      if (state === 'active') {
+        this.flush();
+      }
+    });
+    if (Platform.OS === 'web' && typeof window !== 'undefined' && window.addEventListener) {
+      window.addEventListener('online', () => this.flush());
+    }
+  }
+
+  static getInstance(): WatchlistSyncService {
+    if (!WatchlistSyncService.instance) {
+      WatchlistSyncService.instance = new WatchlistSyncService();
+    }
+    return WatchlistSyncService.instance;
+  }
+
+  /**
+   * 注册发送修改的实现，由 UserStockService / UserArticleService 提供
+   */
+  registerTransport(kind: SyncMutationKind, transport: SyncTransport): void {
+    this.transports[kind] = transport;
+  }
+
+  /**
+   * 订阅队列变化（通过 getState 读取最新状态），返回取消订阅函数
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 队列状态，传入邮箱时只统计该用户的修改
+   */
+  getState(email?: string): SyncQueueState {
+    return {
+      pending: this.queue.filter(item => !email || item.email === email).length,
+      syncing: this.flushPromise !== null,
+      lastError: this.lastError,
+    };
+  }
+
+  /**
+   * 获取待同步的修改
+   */
+  async getPending(kind: SyncMutationKind, email: string): Promise<SyncMutation[]> {
+    await this.ensureLoaded();
+    return this.queue.filter(item => item.kind === kind && item.email === email);
+  }
+
+  /**
+   * 提交一条修改
+   * 同一列表还有待同步的修改时直接入队以保证顺序；否则先直接发送，可重试的失败转入队列
+   */
+  async submit(
+    kind: SyncMutationKind,
+    email: string,
+    key: string,
+    op: SyncMutationOp,
+    details?: Record<string, string>
+  ): Promise<SyncSubmitResult> {
+    await this.ensureLoaded();
+    const mutation: SyncMutation = {
+      id: `${Date.now()}_${this.sequence++}`,
+      kind,
+      email,
+      key,
+      op,
+      timestamp: Date.now(),
+      attempts: 0,
+      details,
+    };
+
+    if (this.queue.some(item => item.kind === kind && item.email === email)) {
+      await this.enqueue(mutation);
+      this.flush();
+      return { success: true, pending: true };
+    }
+
+    try {
+      const data = await this.send(mutation);
+      return { success: true, pending: false, data };
+    } catch (error: any) {
+      if (!isRetryableSyncError(error)) {
+        return { success: false, pending: false, error: error.message };
+      }
+      console.log(`📴 WatchlistSyncService: 请求失败，已保存到本地队列 ${kind} ${op} ${key}`);
+      await this.enqueue(mutation);
+      this.scheduleRetry();
+      return { success: true, pending: true };
+    }
+  }
+
+  /**
+   * 将服务端列表与本地待同步修改合并
+   * @param resolve 是否移除已生效的修改；使用离线快照时应传 false
+   */
+  async mergeServerList(
+    kind: SyncMutationKind,
+    email: string,
+    serverItems: SyncServerItem[],
+    resolve: boolean = true
+  ): Promise<string[]> {
+    const pending = await this.getPending(kind, email);
+    if (pending.length === 0) {
+      return serverItems.map(item => item.key);
+    }
+    const result = mergeWithPendingMutations(serverItems, pending);
+    if (resolve && result.resolvedIds.length > 0) {
+      this.queue = this.queue.filter(item => !result.resolvedIds.includes(item.id));
+      await this.persist();
+    }
+    return result.keys;
+  }
+
+  /**
+   * 保存最近一次服务端列表，离线时用于展示
+   */
+  async saveSnapshot(kind: SyncMutationKind, email: string, data: any): Promise<void> {
+    try {
+      await StorageAdapter.setItem(`${this.SNAPSHOT_KEY_PREFIX}${kind}_${email}`, JSON.stringify(data));
+    } catch (error) {
+      console.error('❌ WatchlistSyncService: 保存列表快照失败:', error);
+    }
+  }
+
+  async getSnapshot<T>(kind: SyncMutationKind, email: string): Promise<T | null> {
+    try {
+      const stored = await StorageAdapter.getItem(`${this.SNAPSHOT_KEY_PREFIX}${kind}_${email}`);
+      return stored ? (JSON.parse(stored) as T) : null;
+    } catch (error) {
+      console.error('❌ WatchlistSyncService: 读取列表快照失败:', error);
+      return null;
+    }
+  }
+
+  /**
+   * 按顺序重放当前登录用户的待同步修改
+   * 遇到可重试的错误时停止并安排下次重试；被服务端拒绝的修改直接丢弃
+   */
+  flush(): Promise<void> {
+    if (!this.flushPromise) {
+      this.flushPromise = this.replay().finally(() => {
+        this.flushPromise = null;
+        this.notify();
+      });
+      this.notify();
+    }
+    return this.flushPromise;
+  }
+
+  private async replay(): Promise<void> {
+    await this.ensureLoaded();
+    const email = userService.getCurrentUser()?.email;
+    if (!email) return;
+
+    // 每次取队首，重放期间新提交的修改也会被处理
+    let mutation: SyncMutation | undefined;
+    while ((mutation = this.queue.find(item => item.email === email))) {
+      try {
+        await this.send(mutation);
+        console.log(`✅ WatchlistSyncService: 已同步 ${mutation.kind} ${mutation.op} ${mutation.key}`);
+      } catch (error: any) {
+        if (isRetryableSyncError(error)) {
+          mutation.attempts++;
+          await this.persist();
+          this.scheduleRetry();
+          return;
+        }
+        console.warn(`⚠️ WatchlistSyncService: 服务端拒绝修改，已丢弃 ${mutation.key}:`, error.message);
+        this.lastError = `${mutation.key}: ${error.message}`;
+      }
+      const doneId = mutation.id;
+      this.queue = this.queue.filter(item => item.id !== doneId);
+      await this.persist();
+    }
+
+    this.retryDelay = this.RETRY_BASE_DELAY;
+  }
+
+  private async send(mutation: SyncMutation): Promise<any> {
+    const transport = this.transports[mutation.kind];
+    if (!transport) {
+      throw new Error(`未注册的同步类型: ${mutation.kind}`);
+    }
+    return transport(mutation);
+  }
+
+  private async enqueue(mutation: SyncMutation): Promise<void> {
+    this.queue = coalesceMutation(this.queue, mutation);
+    await this.persist();
+  }
+
+  // 指数退避重试，最长间隔 5 分钟
+  private scheduleRetry(): void {
+    if (this.retryTimer) return;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.flush();
+    }, this.retryDelay);
+    this.retryDelay = Math.min(this.retryDelay * 2, this.RETRY_MAX_DELAY);
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loadPromise) {
+      this.loadPromise = StorageAdapter.getItem(this.QUEUE_KEY)
+        .then(stored => {
+          const saved: SyncMutation[] = stored ? JSON.parse(stored) : [];
+          // 加载期间提交的修改更新，放在后面覆盖旧记录
+          this.queue = this.queue.reduce(coalesceMutation, saved);
+        })
+        .catch(error => {
+          console.error('❌ WatchlistSyncService: 读取同步队列失败:', error);
+        });
+    }
+    return this.loadPromise;
+  }
+
+  private async persist(): Promise<void> {
+    this.notify();
+    try {
+      await StorageAdapter.setItem(this.QUEUE_KEY, JSON.stringify(this.queue));
+    } catch (error) {
+      console.error('❌ WatchlistSyncService: 保存同步队列失败:', error);
+    }
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener());
+  }
+}
+
+const watchlistSyncService = WatchlistSyncService.getInstance();
+export default watchlistSyncService;
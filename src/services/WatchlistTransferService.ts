@@ -0,0 +1,475 @@
+import stockService from './StockService';
+import userStockService, {
+  WatchlistLayout,
+  DEFAULT_WATCHLIST_GROUP_NAME,
+  normalizeWatchlistLayout,
+  getWatchlistStockMeta,
+} from './UserStockService';
+import { getWebAppURL } from '../config/apiConfig';
+import { parseCSV, detectDelimiter, toCSV } from '../utils/csvUtils';
+
+// 导出/导入的单只自选股
+export interface WatchlistTransferItem {
+  symbol: string;
+  group: string;
+  note: string;
+  targetPrice: number | null;
+}
+
+// JSON 导出格式
+export interface WatchlistExportData {
+  version: number;
+  exportedAt: string;
+  items: WatchlistTransferItem[];
+}
+
+export type WatchlistExportFormat = 'csv' | 'json';
+
+// 导入行状态：新增、已在自选中、股票代码无效、与前面的行重复、超出自选数量上限
+export type WatchlistImportStatus = 'new' | 'existing' | 'invalid' | 'duplicate' | 'overLimit';
+
+// 已在自选中的股票与导入内容不同的字段
+export type WatchlistConflictField = 'group' | 'note' | 'targetPrice';
+
+export interface WatchlistImportRow {
+  item: WatchlistTransferItem;
+  status: WatchlistImportStatus;
+  conflicts: WatchlistConflictField[];
+  // 已在自选中时的当前值，用于预览对比
+  current?: WatchlistTransferItem;
+}
+
+export interface WatchlistImportPreview {
+  rows: WatchlistImportRow[];
+  newCount: number;
+  conflictCount: number;
+  skippedCount: number;
+}
+
+// 冲突处理：跳过已有股票 / 只补充空白的备注和目标价 / 用导入内容覆盖分组、备注和目标价
+export type WatchlistConflictStrategy = 'skip' | 'merge' | 'overwrite';
+
+export interface WatchlistImportResult {
+  added: number;
+  updated: number;
+  failed: string[];
+}
+
+export type WatchlistSymbolValidator = (symbols: string[]) => Promise<Set<string>>;
+
+export const WATCHLIST_EXPORT_VERSION = 1;
+
+export const WATCHLIST_CONFLICT_FIELD_LABELS: Record<WatchlistConflictField, string> = {
+  group: '分组',
+  note: '备注',
+  targetPrice: '目标价',
+};
+
+export const WATCHLIST_CONFLICT_STRATEGY_LABELS: Record<WatchlistConflictStrategy, string> = {
+  skip: '跳过已有',
+  merge: '补充空白',
+  overwrite: '覆盖',
+};
+
+const CSV_HEADERS = ['Symbol', 'Group', 'Note', 'TargetPrice'];
+
+// 表头别名（小写），兼容其他软件导出的自选列表
+const HEADER_ALIASES: Record<keyof WatchlistTransferItem, string[]> = {
+  symbol: ['symbol', 'ticker', 'code', 'stock', '代码', '股票代码'],
+  group: ['group', 'list', 'watchlist', '分组'],
+  note: ['note', 'notes', 'comment', '备注'],
+  targetPrice: ['targetprice', 'target price', 'target', 'price target', '目标价'],
+};
+
+const SYMBOL_PATTERN = /^[A-Z][A-Z0-9.\-]{0,9}$/;
+
+// 分享链接中分组之间、分组名与股票之间的分隔符，分组名经过 encodeURIComponent 不会包含这两个字符
+const SHARE_GROUP_SEPARATOR = ';';
+const SHARE_NAME_SEPARATOR = ':';
+
+const normalizeSymbol = (value: string): string => (value || '').trim().toUpperCase().replace(/^\$/, '');
+
+const parseTargetPrice = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const price = typeof value === 'number' ? value : parseFloat(String(value).replace(/[$,\s]/g, ''));
+  return isFinite(price) && price > 0 ? price : null;
+};
+
+const toTransferItem = (raw: Partial<Record<keyof WatchlistTransferItem, unknown>>): WatchlistTransferItem => ({
+  symbol: normalizeSymbol(String(raw.symbol || '')),
+  group: String(raw.group || '').trim() || DEFAULT_WATCHLIST_GROUP_NAME,
+  note: String(raw.note || '').trim(),
+  targetPrice: parseTargetPrice(raw.targetPrice),
+});
+
+/**
+ * 将分组布局展开为导出条目（按分组顺序和组内手动顺序）
+ */
+export const buildWatchlistExportItems = (layout: WatchlistLayout): WatchlistTransferItem[] =>
+  layout.groups.flatMap(group =>
+    group.stocks.map(symbol => {
+      const meta = getWatchlistStockMeta(layout, symbol);
+      return { symbol, group: group.name, note: meta.note, targetPrice: meta.targetPrice };
+    })
+  );
+
+/**
+ * 生成导出文本
+ */
+export const formatWatchlistExport = (items: WatchlistTransferItem[], format: WatchlistExportFormat): string => {
+  if (format === 'csv') {
+    return toCSV(CSV_HEADERS, items.map(item => [item.symbol, item.group, item.note, item.targetPrice]));
+  }
+  const data: WatchlistExportData = {
+    version: WATCHLIST_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    items,
+  };
+  return JSON.stringify(data, null, 2);
+};
+
+/**
+ * 解析导入文本
+ * 支持本应用导出的 JSON/CSV、带表头的其他 CSV，以及只有股票代码的列表（逗号、空格或换行分隔）
+ */
+export const parseWatchlistText = (text: string): WatchlistTransferItem[] => {
+  const trimmed = (text || '').trim();
+  if (!trimmed) {
+    throw new Error('导入内容为空');
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('JSON 格式不正确');
+    }
+    const list: any[] = Array.isArray(parsed) ? parsed : parsed?.items;
+    if (!Array.isArray(list)) {
+      throw new Error('JSON 中缺少 items 列表');
+    }
+    return list
+      .map(entry => toTransferItem(typeof entry === 'string' ? { symbol: entry } : entry || {}))
+      .filter(item => item.symbol);
+  }
+
+  const table = parseCSV(trimmed, detectDelimiter(trimmed));
+  const header = table[0].map(cell => cell.toLowerCase());
+  const columns: Partial<Record<keyof WatchlistTransferItem, number>> = {};
+  (Object.keys(HEADER_ALIASES) as Array<keyof WatchlistTransferItem>).forEach(field => {
+    const index = header.findIndex(cell => HEADER_ALIASES[field].includes(cell));
+    if (index >= 0) columns[field] = index;
+  });
+
+  // 没有可识别的表头时，把所有单元格当作股票代码
+  if (columns.symbol === undefined) {
+    return table
+      .flatMap(row => row.flatMap(cell => cell.split(/\s+/)))
+      .map(cell => toTransferItem({ symbol: cell }))
+      .filter(item => item.symbol);
+  }
+
+  return table
+    .slice(1)
+    .map(row =>
+      toTransferItem({
+        symbol: row[columns.symbol!],
+        group: columns.group !== undefined ? row[columns.group] : '',
+        note: columns.note !== undefined ? row[columns.note] : '',
+        targetPrice: columns.targetPrice !== undefined ? row[columns.targetPrice] : '',
+      })
+    )
+    .filter(item => item.symbol);
+};
+
+/**
+ * 生成分享参数：分组名:代码,代码;分组名:代码
+ * 分享链接只包含分组和股票代码，不包含个人备注和目标价
+ */
+export const encodeWatchlistShare = (items: WatchlistTransferItem[]): string => {
+  const groups = new Map<string, string[]>();
+  items.forEach(item => {
+    groups.set(item.group, [...(groups.get(item.group) || []), item.symbol]);
+  });
+  return Array.from(groups.entries())
+    .map(([name, symbols]) => `${encodeURIComponent(name)}${SHARE_NAME_SEPARATOR}${symbols.join(',')}`)
+    .join(SHARE_GROUP_SEPARATOR);
+};
+
+/**
+ * 解析分享参数，格式错误的部分会被忽略
+ */
+export const parseWatchlistShare = (value: string | undefined | null): WatchlistTransferItem[] => {
+  if (!value) return [];
+  return value.split(SHARE_GROUP_SEPARATOR).flatMap(part => {
+    const separatorIndex = part.indexOf(SHARE_NAME_SEPARATOR);
+    let group = DEFAULT_WATCHLIST_GROUP_NAME;
+    if (separatorIndex >= 0) {
+      try {
+        group = decodeURIComponent(part.slice(0, separatorIndex)) || DEFAULT_WATCHLIST_GROUP_NAME;
+      } catch {
+        group = DEFAULT_WATCHLIST_GROUP_NAME;
+      }
+    }
+    return part
+      .slice(separatorIndex + 1)
+      .split(',')
+      .map(symbol => toTransferItem({ symbol, group }))
+      .filter(item => item.symbol);
+  });
+};
+
+/**
+ * 生成分享链接，由 LinkingConfiguration 中的 watchlist/share 路由打开
+ */
+export const buildWatchlistShareUrl = (items: WatchlistTransferItem[]): string =>
+  getWebAppURL(`watchlist/share?list=${encodeURIComponent(encodeWatchlistShare(items))}`);
+
+/**
+ * 对比导入条目和当前自选，生成导入预览
+ * @param items 解析后的导入条目
+ * @param current 当前自选（按导出格式展开）
+ * @param validSymbols 校验通过的股票代码
+ * @param maxLimit 自选数量上限，未知时传 Infinity
+ */
+export const buildWatchlistImportPreview = (
+  items: WatchlistTransferItem[],
+  current: WatchlistTransferItem[],
+  validSymbols: Set<string>,
+  maxLimit: number
+): WatchlistImportPreview => {
+  const currentMap = new Map(current.map(item => [item.symbol, item]));
+  const seen = new Set<string>();
+  let remaining = maxLimit - current.length;
+
+  const rows: WatchlistImportRow[] = items.map(item => {
+    if (seen.has(item.symbol)) {
+      return { item, status: 'duplicate', conflicts: [] };
+    }
+    seen.add(item.symbol);
+
+    const existing = currentMap.get(item.symbol);
+    if (existing) {
+      const conflicts: WatchlistConflictField[] = [];
+      if (existing.group !== item.group) conflicts.push('group');
+      if (item.note && existing.note !== item.note) conflicts.push('note');
+      if (item.targetPrice !== null && existing.targetPrice !== item.targetPrice) conflicts.push('targetPrice');
+      return { item, status: 'existing', conflicts, current: existing };
+    }
+    if (!SYMBOL_PATTERN.test(item.symbol) || !validSymbols.has(item.symbol)) {
+      return { item, status: 'invalid', conflicts: [] };
+    }
+    if (remaining <= 0) {
+      return { item, status: 'overLimit', conflicts: [] };
+    }
+    remaining--;
+    return { item, status: 'new', conflicts: [] };
+  });
+
+  return {
+    rows,
+    newCount: rows.filter(row => row.status === 'new').length,
+    conflictCount: rows.filter(row => row.status === 'existing' && row.conflicts.length > 0).length,
+    skippedCount: rows.filter(row => row.status !== 'new' && row.status !== 'existing').length,
+  };
+};
+
+/**
+ * 按冲突处理方式计算已有股票需要写入的分组和备注，无需修改的字段返回 undefined
+ */
+export const resolveWatchlistConflict = (
+  row: WatchlistImportRow,
+  strategy: WatchlistConflictStrategy
+): { group?: string; note?: string; targetPrice?: number | null } => {
+  if (row.status !== 'existing' || !row.current || strategy === 'skip') {
+    return {};
+  }
+  const resolved: { group?: string; note?: string; targetPrice?: number | null } = {};
+  if (strategy === 'overwrite') {
+    if (row.conflicts.includes('group')) resolved.group = row.item.group;
+    if (row.conflicts.includes('note')) resolved.note = row.item.note;
+    if (row.conflicts.includes('targetPrice')) resolved.targetPrice = row.item.targetPrice;
+    return resolved;
+  }
+  if (row.conflicts.includes('note') && !row.current.note) resolved.note = row.item.note;
+  if (row.conflicts.includes('targetPrice') && row.current.targetPrice === null) {
+    resolved.targetPrice = row.item.targetPrice;
+  }
+  return resolved;
+};
+
+// 逐个搜索校验，搜索结果中存在代码完全一致的股票才算有效
+const defaultSymbolValidator: WatchlistSymbolValidator = async (symbols: string[]) => {
+  const valid = new Set<string>();
+  const CONCURRENCY = 5;
+  for (let i = 0; i < symbols.length; i += CONCURRENCY) {
+    const chunk = symbols.slice(i, i + CONCURRENCY);
+    const results = await Promise.all(chunk.map(symbol => stockService.searchUSStocks(symbol, 5).catch(() => [])));
+    results.forEach((list, index) => {
+      if (list.some(stock => (stock.code || '').toUpperCase() === chunk[index])) {
+        valid.add(chunk[index]);
+      }
+    });
+  }
+  return valid;
+};
+
+/**
+ * 自选股导入导出服务
+ * 导出 CSV/JSON、生成分享链接，导入时校验股票代码并预览与现有自选的冲突
+ */
+class WatchlistTransferService {
+  private static instance: WatchlistTransferService;
+  private symbolValidator: WatchlistSymbolValidator = defaultSymbolValidator;
+
+  private constructor() {}
+
+  static getInstance(): WatchlistTransferService {
+    if (!WatchlistTransferService.instance) {
+      WatchlistTransferService.instance = new WatchlistTransferService();
+    }
+    return WatchlistTransferService.instance;
+  }
+
+  /**
+   * 替换股票代码校验实现（用于测试或离线预览）
+   */
+  setSymbolValidator(validator: WatchlistSymbolValidator): void {
+    this.symbolValidator = validator;
+  }
+
+  /**
+   * 获取当前自选（含分组、备注），按导出格式展开
+   */
+  async getCurrentItems(email: string): Promise<{ items: WatchlistTransferItem[]; layout: WatchlistLayout; maxLimit: number }> {
+    const [stockResult, layoutResult] = await Promise.all([
+      userStockService.getUserStocks(email),
+      userStockService.getWatchlistLayout(email),
+    ]);
+    if (!stockResult.success || !stockResult.data) {
+      throw new Error(stockResult.error || '获取自选股票失败');
+    }
+    const data = stockResult.data as { stocks?: Array<{ stock: string }>; maxLimit?: number };
+    const layout = normalizeWatchlistLayout(
+      layoutResult.data,
+      (data.stocks || []).map(item => item.stock.toUpperCase())
+    );
+    return {
+      items: buildWatchlistExportItems(layout),
+      layout,
+      maxLimit: data.maxLimit && data.maxLimit > 0 ? data.maxLimit : Infinity,
+    };
+  }
+
+  /**
+   * 导出自选为 CSV 或 JSON 文本
+   */
+  async exportWatchlist(email: string, format: WatchlistExportFormat): Promise<string> {
+    const { items } = await this.getCurrentItems(email);
+    if (items.length === 0) {
+      throw new Error('暂无自选股票可导出');
+    }
+    console.log(`📤 WatchlistTransferService: 导出自选 ${items.length} 只 (${format})`);
+    return formatWatchlistExport(items, format);
+  }
+
+  /**
+   * 生成当前自选的分享链接
+   */
+  async getShareUrl(email: string): Promise<string> {
+    const { items } = await this.getCurrentItems(email);
+    if (items.length === 0) {
+      throw new Error('暂无自选股票可分享');
+    }
+    return buildWatchlistShareUrl(items);
+  }
+
+  /**
+   * 校验导入条目并生成预览，不写入任何数据
+   */
+  async previewImport(email: string, items: WatchlistTransferItem[]): Promise<WatchlistImportPreview> {
+    if (items.length === 0) {
+      throw new Error('没有识别到股票代码');
+    }
+    const { items: current, maxLimit } = await this.getCurrentItems(email);
+    const currentSymbols = new Set(current.map(item => item.symbol));
+    const toValidate = Array.from(new Set(items.map(item => item.symbol)))
+      .filter(symbol => !currentSymbols.has(symbol) && SYMBOL_PATTERN.test(symbol));
+
+    console.log(`📥 WatchlistTransferService: 校验 ${toValidate.length} 个股票代码`);
+    const validSymbols = await this.symbolValidator(toValidate);
+    return buildWatchlistImportPreview(items, current, validSymbols, maxLimit);
+  }
+
+  /**
+   * 按预览结果导入：添加新股票，按冲突处理方式更新已有股票，并还原分组、备注和目标价
+   */
+  async commitImport(
+    email: string,
+    preview: WatchlistImportPreview,
+    strategy: WatchlistConflictStrategy
+  ): Promise<WatchlistImportResult> {
+    const result: WatchlistImportResult = { added: 0, updated: 0, failed: [] };
+    let { layout } = await this.getCurrentItems(email);
+
+    // 分组按名称匹配，不存在时创建
+    const ensureGroup = async (name: string): Promise<string | null> => {
+      const existing = layout.groups.find(group => group.name === name);
+      if (existing) return existing.id;
+      const created = await userStockService.createWatchlistGroup(email, name);
+      if (!created.success || !created.data) return null;
+      layout = { ...layout, groups: created.data.groups };
+      return created.data.groups.find(group => group.name === name)?.id || null;
+    };
+
+    for (const row of preview.rows) {
+      const { symbol } = row.item;
+      let target: { group?: string; note?: string; targetPrice?: number | null };
+
+      if (row.status === 'new') {
+        const added = await userStockService.addUserStock(email, symbol);
+        if (!added.success) {
+          result.failed.push(symbol);
+          continue;
+        }
+        result.added++;
+        target = {
+          group: row.item.group !== DEFAULT_WATCHLIST_GROUP_NAME ? row.item.group : undefined,
+          note: row.item.note || undefined,
+          targetPrice: row.item.targetPrice ?? undefined,
+        };
+      } else if (row.status === 'existing') {
+        target = resolveWatchlistConflict(row, strategy);
+        if (Object.keys(target).length === 0) continue;
+        result.updated++;
+      } else {
+        continue;
+      }
+
+      if (target.group !== undefined) {
+        const groupId = await ensureGroup(target.group);
+        const moved = groupId ? await userStockService.moveUserStock(email, symbol, groupId) : null;
+        if (!moved?.success) {
+          result.failed.push(symbol);
+        }
+      }
+      if (target.note !== undefined || target.targetPrice !== undefined) {
+        const currentMeta = row.current || { note: '', targetPrice: null };
+        const saved = await userStockService.updateUserStockMeta(email, symbol, {
+          note: target.note ?? currentMeta.note,
+          targetPrice: target.targetPrice !== undefined ? target.targetPrice : currentMeta.targetPrice,
+        });
+        if (!saved.success && !result.failed.includes(symbol)) {
+          result.failed.push(symbol);
+        }
+      }
+    }
+
+    console.log('📥 WatchlistTransferService: 导入完成', result);
+    return result;
+  }
+}
+
+const watchlistTransferService = WatchlistTransferService.getInstance();
+export default watchlistTransferService;
@@ -0,0 +1,214 @@
+import type { SyncMutation } from '../WatchlistSyncService';
+
+const mockStorage = new Map<string, string>();
+
+jest.mock('../TokenService', () => ({
+  StorageAdapter: {
+    getItem: async (key: string) => mockStorage.get(key) ?? null,
+    setItem: async (key: string, value: string) => {
+      mockStorage.set(key, value);
+    },
+    removeItem: async (key: string) => {
+      mockStorage.delete(key);
+    },
+  },
+}));
+
+jest.mock('../UserService', () => ({
+  __esModule: true,
+  default: { getCurrentUser: () => ({ email: 'user@example.com' }) },
+}));
+
+const EMAIL = 'user@example.com';
+
+const buildMutation = (overrides: Partial<SyncMutation>): SyncMutation => ({
+  id: 'm1',
+  kind: 'stock',
+  email: EMAIL,
+  key: 'AAPL',
+  op: 'add',
+  timestamp: 1000,
+  attempts: 0,
+  ...overrides,
+});
+
+describe('WatchlistSyncService', () => {
+  let sync: typeof import('../WatchlistSyncService');
+  let api: typeof import('../APIService');
+
+  beforeEach(() => {
+    jest.resetModules();
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    mockStorage.clear();
+    sync = require('../WatchlistSyncService');
+    api = require('../APIService');
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('coalesceMutation', () => {
+    it('keeps only the remove when a stock is added then removed', () => {
+      const added = buildMutation({ id: 'a', op: 'add' });
+      const removed = buildMutation({ id: 'b', op: 'remove', timestamp: 2000 });
+
+      const queue = sync.coalesceMutation(sync.coalesceMutation([], added), removed);
+
+      expect(queue).toEqual([removed]);
+    });
+
+    it('keeps the last of repeated changes to the same target', () => {
+      const other = buildMutation({ id: 'x', key: 'MSFT' });
+      let queue = sync.coalesceMutation([], other);
+      queue = sync.coalesceMutation(queue, buildMutation({ id: 'a', op: 'add' }));
+      queue = sync.coalesceMutation(queue, buildMutation({ id: 'b', op: 'remove' }));
+      queue = sync.coalesceMutation(queue, buildMutation({ id: 'c', op: 'add' }));
+
+      expect(queue.map(item => item.id)).toEqual(['x', 'c']);
+    });
+
+    it('does not merge changes from different users or lists', () => {
+      let queue = sync.coalesceMutation([], buildMutation({ id: 'a' }));
+      queue = sync.coalesceMutation(queue, buildMutation({ id: 'b', email: 'other@example.com' }));
+      queue = sync.coalesceMutation(queue, buildMutation({ id: 'c', kind: 'article' }));
+
+      expect(queue.map(item => item.id)).toEqual(['a', 'b', 'c']);
+    });
+  });
+
+  describe('mergeWithPendingMutations', () => {
+    const server = [
+      { key: 'AAPL', updatedAt: 1000 },
+      { key: 'MSFT', updatedAt: 5000 },
+    ];
+
+    it('appends local adds missing on the server and resolves adds already there', () => {
+      const result = sync.mergeWithPendingMutations(server, [
+        buildMutation({ id: 'a', key: 'AAPL', op: 'add' }),
+        buildMutation({ id: 'b', key: 'TSLA', op: 'add', timestamp: 3000 }),
+        buildMutation({ id: 'c', key: 'NVDA', op: 'add', timestamp: 2000 }),
+      ]);
+
+      expect(result.keys).toEqual(['AAPL', 'MSFT', 'NVDA', 'TSLA']);
+      expect(result.resolvedIds).toEqual(['a']);
+    });
+
+    it('applies a local remove newer than the server item', () => {
+      const result = sync.mergeWithPendingMutations(server, [
+        buildMutation({ id: 'a', key: 'AAPL', op: 'remove', timestamp: 2000 }),
+      ]);
+
+      expect(result.keys).toEqual(['MSFT']);
+      expect(result.resolvedIds).toEqual([]);
+    });
+
+    it('lets a newer server item win over an older local remove', () => {
+      const result = sync.mergeWithPendingMutations(server, [
+        buildMutation({ id: 'a', key: 'MSFT', op: 'remove', timestamp: 2000 }),
+      ]);
+
+      expect(result.keys).toEqual(['AAPL', 'MSFT']);
+      expect(result.resolvedIds).toEqual(['a']);
+    });
+
+    it('resolves a remove for an item already gone from the server', () => {
+      const result = sync.mergeWithPendingMutations(server, [
+        buildMutation({ id: 'a', key: 'TSLA', op: 'remove' }),
+      ]);
+
+      expect(result.keys).toEqual(['AAPL', 'MSFT']);
+      expect(result.resolvedIds).toEqual(['a']);
+    });
+  });
+
+  describe('isRetryableSyncError', () => {
+    it('retries network, timeout, 5xx, unparseable and auth errors', () => {
+      const { APIError, API_ERROR_CODES } = api;
+
+      expect(sync.isRetryableSyncError(new TypeError('Failed to fetch'))).toBe(true);
+      expect(sync.isRetryableSyncError(new APIError(API_ERROR_CODES.NETWORK, 'offline'))).toBe(true);
+      expect(sync.isRetryableSyncError(new APIError(API_ERROR_CODES.TIMEOUT, 'timeout'))).toBe(true);
+      expect(sync.isRetryableSyncError(new APIError(502, 'HTTP error! status: 502'))).toBe(true);
+      expect(sync.isRetryableSyncError(new APIError(API_ERROR_CODES.INVALID_JSON, 'Unexpected token <'))).toBe(true);
+      expect(sync.isRetryableSyncError(new APIError(API_ERROR_CODES.AUTH, '登录已过期，请重新登录'))).toBe(true);
+    });
+
+    it('drops changes the server rejected', () => {
+      const { APIError } = api;
+
+      expect(sync.isRetryableSyncError(new APIError(400, 'stock limit reached'))).toBe(false);
+      expect(sync.isRetryableSyncError(new Error('添加自选股票失败'))).toBe(false);
+      // 只按错误类型判断，不再匹配错误信息
+      expect(sync.isRetryableSyncError(new Error('fetch timeout'))).toBe(false);
+    });
+  });
+
+  describe('submit and replay', () => {
+    it('returns the server result when the request succeeds', async () => {
+      const transport = jest.fn().mockResolvedValue({ stock: 'AAPL' });
+      sync.default.registerTransport('stock', transport);
+
+      const result = await sync.default.submit('stock', EMAIL, 'AAPL', 'add');
+
+      expect(result).toEqual({ success: true, pending: false, data: { stock: 'AAPL' } });
+      expect(sync.default.getState(EMAIL).pending).toBe(0);
+    });
+
+    it('queues the change while offline and replays it in order once back online', async () => {
+      const { APIError, API_ERROR_CODES } = api;
+      const sent: string[] = [];
+      let online = false;
+      sync.default.registerTransport('stock', async mutation => {
+        if (!online) {
+          throw new APIError(API_ERROR_CODES.NETWORK, 'Network request failed');
+        }
+        sent.push(`${mutation.op} ${mutation.key}`);
+        return {};
+      });
+
+      const first = await sync.default.submit('stock', EMAIL, 'AAPL', 'add');
+      const second = await sync.default.submit('stock', EMAIL, 'MSFT', 'add');
+      await sync.default.flush();
+
+      expect(first).toEqual({ success: true, pending: true });
+      expect(second).toEqual({ success: true, pending: true });
+      expect(sync.default.getState(EMAIL).pending).toBe(2);
+      expect(JSON.parse(mockStorage.get('watchlistSyncQueue') || '[]')).toHaveLength(2);
+
+      online = true;
+      await jest.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(sent).toEqual(['add AAPL', 'add MSFT']);
+      expect(sync.default.getState(EMAIL).pending).toBe(0);
+      expect(JSON.parse(mockStorage.get('watchlistSyncQueue') || '[]')).toEqual([]);
+    });
+
+    it('queues a change when the server answers with a 5xx error page', async () => {
+      const { APIError } = api;
+      sync.default.registerTransport('stock', async () => {
+        throw new APIError(503, 'HTTP error! status: 503');
+      });
+
+      const result = await sync.default.submit('stock', EMAIL, 'AAPL', 'remove');
+
+      expect(result).toEqual({ success: true, pending: true });
+      expect(sync.default.getState(EMAIL).pending).toBe(1);
+    });
+
+    it('drops a queued change the server rejects during replay', async () => {
+      const { APIError, API_ERROR_CODES } = api;
+      const transport = jest.fn().mockRejectedValue(new APIError(API_ERROR_CODES.NETWORK, 'offline'));
+      sync.default.registerTransport('stock', transport);
+      await sync.default.submit('stock', EMAIL, 'AAPL', 'add');
+
+      transport.mockRejectedValue(new APIError(400, 'invalid stock'));
+      await sync.default.flush();
+
+      expect(sync.default.getState(EMAIL)).toMatchObject({ pending: 0, lastError: 'AAPL: invalid stock' });
+    });
+  });
+});
@@ -1,100 +1,70 @@
-import apiService from '../APIService';
+import rpcClient, { ListDataRecord } from '../rpc/RPCClient';
+import s, { Schema } from '../rpc/schema';
+import { RPCValidationError, isTransientAPIError } from '../APIService';
 
-// 通用数据响应接口
-export interface DataResponse<T = any> {
-  result: Array<{
-    date: string;
-    page: string;
-    type: string;
-    createdAt: string;
-    data: string; // JSON字符串
-    updatedAt: string;
-    data_id: string;
-  }>;
-}
+/**
+ * 数据加载失败时展示给用户的错误信息
+ */
+export const getDataErrorMessage = (error: unknown): string => {
+  if (error instanceof RPCValidationError) {
+    return '数据格式异常，请稍后重试';
+  }
+  if (isTransientAPIError(error)) {
+    return '网络连接失败，请检查网络后重试';
+  }
+  return '数据加载失败，请稍后重试';
+};
 
 // 基础数据服务类
 export abstract class DataService<T> {
   protected abstract dataType: string;
   protected abstract serviceName: string;
+  // 每条记录 data 字段（JSON 字符串）解析后的结构，默认只校验为数组
+  protected dataSchema: Schema<T[]> = s.array(s.unknown<T>());
 
   /**
    * 获取数据的通用方法
    * @param limit 获取数据条数，默认为1
-   * @returns Promise<T[] | null>
+   * @returns Promise<T[] | null> 没有数据时为 null；请求失败或响应结构不正确时抛出错误
    */
   protected async fetchData(limit: number = 1): Promise<T[] | null> {
     try {
       console.log(`🔄 ${this.serviceName}: Fetching ${this.dataType} data...`);
 
-      const response = await apiService.call<DataResponse<T> | T[]>(
-        'listData', 
-        ['', this.dataType, '', '0', limit.toString()]
-      );
+      const records = await this.fetchRecords(limit);
 
-      // 处理响应可能是数组或对象的情况
-      let dataArray = [];
-      if (Array.isArray(response)) {
-        dataArray = response;
-      } else if (response?.result && Array.isArray(response.result)) {
-        dataArray = response.result;
+      // 合并多条历史记录中的数据
+      const allData = records.flatMap(record => record.data);
+      if (allData.length > 0) {
+        console.log(`✅ ${this.serviceName}: Successfully parsed ${allData.length} ${this.dataType} items`);
+        return allData;
       }
 
-      if (dataArray && dataArray.length > 0) {
-        // 处理多条历史数据
-        const allData: T[] = [];
-        
-        for (const dataItem of dataArray) {
-          console.log(`📊 ${this.serviceName}: Processing data item:`, dataItem);
-          
-          if (dataItem.data) {
-            console.log(`📊 ${this.serviceName}: Raw data field:`, dataItem.data);
-            try {
-              // 解析JSON字符串
-              const parsedData: T[] = JSON.parse(dataItem.data);
-              console.log(`📊 ${this.serviceName}: Parsed data:`, parsedData);
-              
-              if (parsedData && parsedData.length > 0) {
-                // 将解析出的数据添加到结果数组中
-                allData.push(...parsedData);
-              }
-            } catch (parseError) {
-              console.error(`❌ ${this.serviceName}: Failed to parse ${this.dataType} data:`, parseError);
-              console.error('Raw data:', dataItem.data);
-            }
-          }
-        }
-        
-        if (allData.length > 0) {
-          console.log(`✅ ${this.serviceName}: Successfully parsed ${this.dataType} data:`, allData);
-          return allData;
-        } else {
-          console.warn(`⚠️ ${this.serviceName}: No valid parsed data found`);
-          return null;
-        }
-      } else {
-        console.warn(`⚠️ ${this.serviceName}: No ${this.dataType} data found`);
-        return null;
-      }
+      console.warn(`⚠️ ${this.serviceName}: No ${this.dataType} data found`);
+      return null;
     } catch (error) {
       console.error(`❌ ${this.serviceName}: Failed to fetch ${this.dataType}:`, error);
-      return null;
+      throw error;
     }
   }
 
+  /**
+   * 获取已校验的 listData 记录，保留每条记录的日期信息
+   * @param limit 获取记录条数
+   * @param order 排序参数，'1' 为按日期倒序
+   */
+  protected fetchRecords(limit: number, order: string = ''): Promise<ListDataRecord<T[]>[]> {
+    return rpcClient.listData(['', this.dataType, order, '0', limit.toString()], this.dataSchema);
+  }
+
   /**
    * 获取最新的单条数据
-   * @returns Promise<T | null>
+   * @returns Promise<T | null> 没有数据时为 null，请求失败时抛出错误
    */
   async getLatestData(): Promise<T | null> {
-    try {
-      const dataArray = await this.fetchData(1);
-      // 由于fetchData现在返回的是所有解析出的数据，我们取最后一个（最新的）
-      return dataArray && dataArray.length > 0 ? dataArray[dataArray.length - 1] : null;
-    } catch (error) {
-      console.error(`❌ ${this.serviceName}: Failed to get latest ${this.dataType} data:`, error);
-      return null;
-    }
+    const dataArray = await this.fetchData(1);
+    // 由于fetchData现在返回的是所有解析出的数据，我们取最后一个（最新的）
+    return dataArray && dataArray.length > 0 ? dataArray[dataArray.length - 1] : null;
   }
 
   /**
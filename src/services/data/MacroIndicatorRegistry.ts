@@ -0,0 +1,204 @@
+import configService from '../ConfigService';
+import s from '../rpc/schema';
+import MacroIndicatorService from './MacroIndicatorService';
+import {
+  DEFAULT_MACRO_INDICATORS,
+  MacroIndicatorConfig,
+} from '../../config/macroIndicatorConfig';
+
+// 远程配置键，值为 JSON 数组：
+// 与内置指标 id 相同的条目覆盖对应字段，enabled 为 false 时移除该指标；新 id 追加为新指标
+const REMOTE_CONFIG_KEY = 'MACRO_INDICATORS';
+
+type IndicatorsListener = (indicators: MacroIndicatorConfig[]) => void;
+
+const levelSchema = s.object({
+  min: s.optional(s.number()),
+  color: s.string(),
+  label: s.string(),
+  range: s.optional(s.string()),
+  description: s.optional(s.string()),
+  advice: s.optional(s.string()),
+});
+
+const factorSchema = s.object({
+  tag: s.string(),
+  title: s.string(),
+  description: s.string(),
+});
+
+const linkSchema = s.object({
+  label: s.string(),
+  route: s.string(),
+  description: s.optional(s.string()),
+});
+
+const remoteIndicatorSchema = s.object({
+  id: s.string(),
+  enabled: s.optional(s.boolean()),
+  name: s.optional(s.string()),
+  shortName: s.optional(s.string()),
+  dataType: s.optional(s.string()),
+  valueField: s.optional(s.string()),
+  unit: s.optional(s.string()),
+  decimals: s.optional(s.number()),
+  suffix: s.optional(s.string()),
+  thousandsSeparator: s.optional(s.boolean()),
+  chartColor: s.optional(s.string()),
+  levels: s.optional(s.array(levelSchema)),
+  levelsTitle: s.optional(s.string()),
+  description: s.optional(s.string()),
+  factorsTitle: s.optional(s.string()),
+  factorsIntro: s.optional(s.string()),
+  factors: s.optional(s.array(factorSchema)),
+  adviceTitle: s.optional(s.string()),
+  tips: s.optional(s.array(s.string())),
+  links: s.optional(s.array(linkSchema)),
+  titleConfigKey: s.optional(s.string()),
+});
+
+/**
+ * 宏观指标注册表
+ * 合并内置指标与远程配置，为每个指标提供 MacroIndicatorService 实例
+ */
+class MacroIndicatorRegistry {
+  private static instance: MacroIndicatorRegistry;
+  private readonly REMOTE_REFRESH_INTERVAL = 30 * 60 * 1000; // 30分钟
+
+  private indicators: MacroIndicatorConfig[] = DEFAULT_MACRO_INDICATORS;
+  private services = new Map<string, MacroIndicatorService>();
+  private listeners = new Set<IndicatorsListener>();
+  private remoteLoading: Promise<void> | null = null;
+  private lastRemoteFetch = 0;
+
+  private constructor() {}
+
+  static getInstance(): MacroIndicatorRegistry {
+    if (!MacroIndicatorRegistry.instance) {
+      MacroIndicatorRegistry.instance = new MacroIndicatorRegistry();
+    }
+    return MacroIndicatorRegistry.instance;
+  }
+
+  /**
+   * 获取当前全部指标
+   */
+  getIndicators(): MacroIndicatorConfig[] {
+    return this.indicators;
+  }
+
+  /**
+   * 按 id 获取指标（不区分大小写，兼容链接中的小写 id）
+   */
+  getIndicator(id: string): MacroIndicatorConfig | null {
+    const key = id.toLowerCase();
+    return this.indicators.find(indicator => indicator.id.toLowerCase() === key) || null;
+  }
+
+  /**
+   * 获取指标的数据服务，配置变化后自动重建
+   */
+  getService(id: string): MacroIndicatorService | null {
+    const indicator = this.getIndicator(id);
+    if (!indicator) {
+      return null;
+    }
+    let service = this.services.get(indicator.id);
+    if (!service || service.config !== indicator) {
+      service = new MacroIndicatorService(indicator);
+      this.services.set(indicator.id, service);
+    }
+    return service;
+  }
+
+  /**
+   * 加载远程指标配置（30分钟内只加载一次）
+   */
+  loadRemoteIndicators(): Promise<void> {
+    if (this.remoteLoading) {
+      return this.remoteLoading;
+    }
+    if (Date.now() - this.lastRemoteFetch < this.REMOTE_REFRESH_INTERVAL) {
+      return Promise.resolve();
+    }
+
+    this.remoteLoading = (async () => {
+      this.lastRemoteFetch = Date.now();
+      try {
+        const raw = await configService.getConfig(REMOTE_CONFIG_KEY, '');
+        const entries = raw ? JSON.parse(raw) : [];
+        this.setRemoteIndicators(Array.isArray(entries) ? entries : []);
+      } catch (error) {
+        console.warn('⚠️ MacroIndicatorRegistry: 加载远程指标配置失败，使用内置指标:', error);
+      } finally {
+        this.remoteLoading = null;
+      }
+    })();
+    return this.remoteLoading;
+  }
+
+  /**
+   * 应用远程指标配置，无效条目会被忽略
+   * @param entries 远程配置条目
+   */
+  setRemoteIndicators(entries: unknown[]): void {
+    const indicators = [...DEFAULT_MACRO_INDICATORS];
+
+    entries.forEach((entry, index) => {
+      let remote;
+      try {
+        remote = remoteIndicatorSchema.parse(entry, `${REMOTE_CONFIG_KEY}[${index}]`);
+      } catch (error) {
+        console.warn('⚠️ MacroIndicatorRegistry: 忽略无效的指标配置:', error);
+        return;
+      }
+
+      const { enabled, ...fields } = remote;
+      const existingIndex = indicators.findIndex(indicator => indicator.id === remote.id);
+      if (enabled === false) {
+        if (existingIndex >= 0) {
+          indicators.splice(existingIndex, 1);
+        }
+        return;
+      }
+
+      if (existingIndex >= 0) {
+        indicators[existingIndex] = { ...indicators[existingIndex], ...fields };
+        return;
+      }
+
+      // 新指标至少需要名称、数据类型和数值字段
+      if (!fields.name || !fields.dataType || !fields.valueField) {
+        console.warn(`⚠️ MacroIndicatorRegistry: 指标 ${remote.id} 缺少 name/dataType/valueField，已忽略`);
+        return;
+      }
+      indicators.push({
+        ...fields,
+        name: fields.name,
+        shortName: fields.shortName || fields.name,
+        dataType: fields.dataType,
+        valueField: fields.valueField,
+        unit: fields.unit || '',
+        decimals: fields.decimals ?? 2,
+      });
+    });
+
+    this.indicators = indicators;
+    console.log(`📋 MacroIndicatorRegistry: ${indicators.length} 个指标可用`);
+    this.listeners.forEach(listener => listener(indicators));
+  }
+
+  /**
+   * 订阅指标列表变化
+   * @returns 取消订阅函数
+   */
+  subscribe(listener: IndicatorsListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+const macroIndicatorRegistry = MacroIndicatorRegistry.getInstance();
+export default macroIndicatorRegistry;
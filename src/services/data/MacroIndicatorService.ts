@@ -0,0 +1,119 @@
+import DataService from './DataService';
+import { ListDataRecord } from '../rpc/RPCClient';
+import s from '../rpc/schema';
+import { MacroIndicatorConfig, MacroIndicatorLevel } from '../../config/macroIndicatorConfig';
+
+// 指标的单个数据点
+export interface MacroIndicatorPoint {
+  date: string;
+  value: number;
+  timestamp?: string;
+}
+
+type IndicatorRecordData = Record<string, string | number>;
+
+// 历史数据一次拉取的记录数，再按天数本地裁剪
+const HISTORY_FETCH_LIMIT = 1000;
+
+/**
+ * 通用宏观指标数据服务
+ * 由 MacroIndicatorConfig 驱动：按 dataType 拉取 listData 记录，读取 valueField 字段
+ */
+export class MacroIndicatorService extends DataService<IndicatorRecordData> {
+  protected dataType: string;
+  protected serviceName: string;
+
+  constructor(readonly config: MacroIndicatorConfig) {
+    super();
+    this.dataType = config.dataType;
+    this.serviceName = `MacroIndicator[${config.id}]`;
+    // 每条记录的 data 形如 [{ "dxy": "98.12" }]
+    this.dataSchema = s.array(s.object({ [config.valueField]: s.numeric() }));
+  }
+
+  /**
+   * 获取最新数据点，没有数据时为 null，请求失败或响应结构不正确时抛出错误
+   */
+  async getCurrent(): Promise<MacroIndicatorPoint | null> {
+    try {
+      const records = await this.fetchRecords(1, '1');
+      const point = records.length > 0 ? this.toPoint(records[0]) : null;
+      if (!point) {
+        console.warn(`⚠️ ${this.serviceName}: No ${this.dataType} data found`);
+      }
+      return point;
+    } catch (error) {
+      console.error(`❌ ${this.serviceName}: Failed to fetch current ${this.dataType}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 获取历史数据（按日期倒序），请求失败或响应结构不正确时抛出错误
+   * @param days 返回的天数
+   */
+  async getHistory(days: number = 30): Promise<MacroIndicatorPoint[]> {
+    try {
+      const records = await this.fetchRecords(HISTORY_FETCH_LIMIT, '1');
+      return records
+        .map(record => this.toPoint(record))
+        .filter((point): point is MacroIndicatorPoint => point !== null)
+        .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+        .slice(0, days);
+    } catch (error) {
+      console.error(`❌ ${this.serviceName}: Failed to fetch ${this.dataType} history:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * 解析数值，兼容带单位或千分位的字符串
+   */
+  parseValue(raw: string | number): number {
+    if (typeof raw === 'number') {
+      return raw;
+    }
+    const value = parseFloat(String(raw).replace(/[^0-9.-]/g, ''));
+    return isNaN(value) ? 0 : value;
+  }
+
+  /**
+   * 按配置的小数位、千分位和后缀格式化数值
+   */
+  formatValue(value: number): string {
+    const { decimals, suffix = '', thousandsSeparator } = this.config;
+    const formatted = thousandsSeparator
+      ? value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals })
+      : value.toFixed(decimals);
+    return `${formatted}${suffix}`;
+  }
+
+  /**
+   * 获取数值所在的区间
+   */
+  getLevel(value: number): MacroIndicatorLevel | null {
+    const levels = this.config.levels || [];
+    return levels.find(level => level.min === undefined || value >= level.min) || null;
+  }
+
+  /**
+   * 获取数值对应的颜色，未配置区间时为灰色
+   */
+  getColor(value: number): string {
+    return this.getLevel(value)?.color || '#8E8E93';
+  }
+
+  private toPoint(record: ListDataRecord<IndicatorRecordData[]>): MacroIndicatorPoint | null {
+    const raw = record.data[0]?.[this.config.valueField];
+    if (raw === undefined) {
+      return null;
+    }
+    return {
+      date: record.date || record.createdAt || new Date().toISOString().split('T')[0],
+      value: this.parseValue(raw),
+      timestamp: record.updatedAt || record.createdAt,
+    };
+  }
+}
+
+export default MacroIndicatorService;
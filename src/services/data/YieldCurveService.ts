@@ -0,0 +1,112 @@
+import macroIndicatorRegistry from './MacroIndicatorRegistry';
+import { MacroIndicatorPoint } from './MacroIndicatorService';
+import { YIELD_CURVE_TENORS, YieldCurveTenor } from '../../config/macroIndicatorConfig';
+
+// 收益率曲线在某一时点的快照
+export interface YieldCurveSnapshot {
+  key: 'current' | 'month' | 'year';
+  label: string;
+  // 快照对应的日期（最新一期数据往前推）
+  date: string | null;
+  // 与 tenors 一一对应，缺少数据时为 null
+  yields: Array<number | null>;
+  // 10年期 - 2年期利差（基点），为负表示倒挂
+  spread: number | null;
+}
+
+export interface YieldCurveData {
+  tenors: YieldCurveTenor[];
+  // 当前、1个月前、1年前
+  snapshots: YieldCurveSnapshot[];
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const SNAPSHOTS: Array<{ key: YieldCurveSnapshot['key']; label: string; daysAgo: number }> = [
+  { key: 'current', label: '当前', daysAgo: 0 },
+  { key: 'month', label: '1个月前', daysAgo: 30 },
+  { key: 'year', label: '1年前', daysAgo: 365 },
+];
+
+// 拉取的历史记录条数，需覆盖一年以上
+const HISTORY_RECORDS = 400;
+// 目标日期前最多回溯的天数（周末、节假日没有数据）
+const MAX_LOOKBACK_DAYS = 10;
+
+/**
+ * 美债收益率曲线服务
+ * 读取各期限国债收益率的历史数据，生成当前、1个月前和1年前的曲线及2年-10年期利差
+ */
+class YieldCurveService {
+  private static instance: YieldCurveService;
+
+  private constructor() {}
+
+  static getInstance(): YieldCurveService {
+    if (!YieldCurveService.instance) {
+      YieldCurveService.instance = new YieldCurveService();
+    }
+    return YieldCurveService.instance;
+  }
+
+  /**
+   * 获取收益率曲线
+   */
+  async getYieldCurve(): Promise<YieldCurveData> {
+    const histories = await Promise.all(
+      YIELD_CURVE_TENORS.map(tenor => {
+        const service = macroIndicatorRegistry.getService(tenor.indicatorId);
+        return service ? service.getHistory(HISTORY_RECORDS) : Promise.resolve([]);
+      })
+    );
+
+    const latestTime = Math.max(
+      0,
+      ...histories.map(history => (history.length > 0 ? new Date(history[0].date).getTime() : 0))
+    );
+    if (!latestTime) {
+      console.warn('⚠️ YieldCurveService: No treasury yield data');
+    }
+
+    const snapshots = SNAPSHOTS.map(({ key, label, daysAgo }) => {
+      const target = latestTime - daysAgo * DAY;
+      const yields = histories.map(history => this.findPointOnOrBefore(history, target)?.value ?? null);
+      return {
+        key,
+        label,
+        date: latestTime ? new Date(target).toISOString().split('T')[0] : null,
+        yields,
+        spread: this.getSpread(yields),
+      };
+    });
+
+    return { tenors: YIELD_CURVE_TENORS, snapshots };
+  }
+
+  /**
+   * 计算 10年期 - 2年期利差（基点）
+   * @param yields 与 YIELD_CURVE_TENORS 对应的收益率
+   */
+  getSpread(yields: Array<number | null>): number | null {
+    const twoYear = yields[YIELD_CURVE_TENORS.findIndex(tenor => tenor.years === 2)];
+    const tenYear = yields[YIELD_CURVE_TENORS.findIndex(tenor => tenor.years === 10)];
+    if (twoYear == null || tenYear == null) {
+      return null;
+    }
+    return Math.round((tenYear - twoYear) * 100);
+  }
+
+  /**
+   * 在按日期倒序的历史数据中查找目标日期当天或之前最近的数据点
+   */
+  private findPointOnOrBefore(history: MacroIndicatorPoint[], target: number): MacroIndicatorPoint | null {
+    const point = history.find(item => new Date(item.date).getTime() <= target);
+    if (!point || target - new Date(point.date).getTime() > MAX_LOOKBACK_DAYS * DAY) {
+      return null;
+    }
+    return point;
+  }
+}
+
+const yieldCurveService = YieldCurveService.getInstance();
+export default yieldCurveService;
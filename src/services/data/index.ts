@@ -1,22 +1,7 @@
-// Data services exports - US stock relevant only
-export { default as DataService } from './DataService';
-export { default as DXYService, dxyService } from './DXYService';
-export { default as USBond10YRService, usBond10YRService } from './USBond10YRService';
-export { default as USDJPYService, usdJpyService } from './USDJPYService';
-export { default as SP500Service, sp500Service } from './SP500Service';
-export { default as NasdaqService, nasdaqService } from './NasdaqService';
-export { default as DJIService, djiService } from './DJIService';
-export { default as XAUUSDService, xauusdService } from './XAUUSDService';
-export { default as USCLService, usclService } from './USCLService';
-export { default as USDCNHService, usdcnhService } from './USDCNHService'; // added
+// Data services exports
+export { default as DataService, getDataErrorMessage } from './DataService';
+export { default as MacroIndicatorService } from './MacroIndicatorService';
+export { default as macroIndicatorRegistry } from './MacroIndicatorRegistry';
 
-// Type exports - US stock relevant only
-export type { DXYData } from './DXYService';
-export type { USBond10YRData } from './USBond10YRService';
-export type { USDJPYData } from './USDJPYService';
-export type { SP500Data } from './SP500Service';
-export type { NasdaqData } from './NasdaqService';
-export type { DJIData } from './DJIService';
-export type { XAUUSDData } from './XAUUSDService';
-export type { USCLData } from './USCLService';
-export type { USDCNHData } from './USDCNHService'; // added
+// Type exports
+export type { MacroIndicatorPoint } from './MacroIndicatorService';
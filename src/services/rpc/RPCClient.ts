@@ -0,0 +1,114 @@
+import apiService, { RPCValidationError } from '../APIService';
+import s, { Schema, SchemaError } from './schema';
+import {
+  RPC_CONTRACTS,
+  RPCMethod,
+  RPCParams,
+  RPCResult,
+  ListDataItem,
+  ListDataParams,
+  listDataItemSchema,
+} from './contracts';
+
+// listData 外层结构，单条记录由 listData() 逐条校验
+const listDataEnvelopeSchema = s.list(s.unknown<unknown>());
+
+// listData 记录，data 字段已解析并校验
+export interface ListDataRecord<T> extends Omit<ListDataItem, 'data'> {
+  data: T;
+}
+
+/**
+ * 类型化 RPC 客户端
+ * 按 RPC_CONTRACTS 检查参数类型并校验响应结构，校验失败时抛出 RPCValidationError；
+ * 只有通过校验的响应才会写入 APIService 的缓存
+ */
+class RPCClient {
+  private static instance: RPCClient;
+
+  private constructor() {}
+
+  static getInstance(): RPCClient {
+    if (!RPCClient.instance) {
+      RPCClient.instance = new RPCClient();
+    }
+    return RPCClient.instance;
+  }
+
+  /**
+   * 调用已登记契约的 RPC 方法
+   * @param method RPC方法名
+   * @param params 参数元组
+   */
+  async call<M extends RPCMethod>(method: M, params: RPCParams<M>): Promise<RPCResult<M>> {
+    const schema = RPC_CONTRACTS[method].result as Schema<RPCResult<M>>;
+    const response = await this.request(method, params as unknown[], schema);
+    // 缓存中的响应也可能来自旧版本，返回前统一校验
+    return this.validate(method, schema, response);
+  }
+
+  /**
+   * 获取 listData 数据并解析每条记录的 data 字段
+   * 外层结构不正确时抛出 RPCValidationError；单条记录不符合结构时丢弃该记录并记录日志
+   * @param params listData 参数
+   * @param dataSchema data 字段（JSON 字符串）解析后的结构
+   */
+  async listData<T>(params: ListDataParams, dataSchema: Schema<T>): Promise<ListDataRecord<T>[]> {
+    const response = await this.request('listData', params, listDataEnvelopeSchema);
+    const items = this.validate('listData', listDataEnvelopeSchema, response);
+    const dataFieldSchema = s.object({ data: s.json(dataSchema) });
+
+    const records: ListDataRecord<T>[] = [];
+    items.forEach((raw, index) => {
+      try {
+        const item = this.validate('listData', listDataItemSchema, raw, `[${index}]`);
+        const { data } = this.validate('listData', dataFieldSchema, item, `[${index}]`);
+        records.push({ ...item, data });
+      } catch (error) {
+        if (!(error instanceof RPCValidationError)) {
+          throw error;
+        }
+      }
+    });
+
+    if (records.length < items.length) {
+      console.warn(`⚠️ RPCClient: listData ${params[1]} 丢弃 ${items.length - records.length}/${items.length} 条无效记录`);
+    }
+    return records;
+  }
+
+  /**
+   * 发送请求，响应的外层结构通过校验后才写入缓存
+   */
+  private request(method: string, params: unknown[], schema: Schema<unknown>): Promise<unknown> {
+    return apiService.call<unknown>(method, params, response => {
+      this.validate(method, schema, response);
+    });
+  }
+
+  /**
+   * 按结构校验值，失败时转换为 RPCValidationError
+   * @param method 用于错误信息的方法名
+   * @param basePath 值在响应中的位置
+   */
+  validate<T>(method: string, schema: Schema<T>, value: unknown, basePath: string = ''): T {
+    try {
+      return schema.parse(value, basePath);
+    } catch (error) {
+      if (error instanceof SchemaError) {
+        const validationError = new RPCValidationError({
+          method,
+          path: error.path,
+          expected: error.expected,
+          received: error.received,
+        });
+        console.error(`❌ RPCClient: ${validationError.message}`, error.received);
+        throw validationError;
+      }
+      throw error;
+    }
+  }
+}
+
+const rpcClient = RPCClient.getInstance();
+export default rpcClient;
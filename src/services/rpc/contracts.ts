@@ -0,0 +1,116 @@
+import s, { Infer, Schema } from './schema';
+import type { CoinData, ListCoinsResult } from '../MarketService';
+import type { RawNewsData } from '../NewsService';
+
+/**
+ * RPC 契约：方法名 → 参数元组 → 响应结构
+ * 新增 RPC 方法时在 RPC_CONTRACTS 中登记，通过 rpcClient.call 调用即可获得参数类型检查和响应校验
+ */
+
+export interface RPCContract<P extends unknown[], R> {
+  // 仅用于类型推导
+  readonly params?: P;
+  readonly result: Schema<R>;
+}
+
+const contract = <P extends unknown[]>() => <R>(result: Schema<R>): RPCContract<P, R> => ({ result });
+
+// listData 参数：日期、数据类型、排序、跳过条数、条数、page（美股实时价格中为股票代码）
+export type ListDataParams = [date: string, type: string, order: string, skip: string, limit: string, page?: string];
+
+// listData 单条记录，data 为 JSON 字符串，由调用方按数据类型校验
+export const listDataItemSchema = s.object({
+  date: s.optional(s.string()),
+  page: s.optional(s.string()),
+  type: s.optional(s.string()),
+  createdAt: s.optional(s.string()),
+  updatedAt: s.optional(s.string()),
+  data_id: s.optional(s.string()),
+  data: s.unknown<unknown>(),
+});
+export type ListDataItem = Infer<typeof listDataItemSchema>;
+
+export const configItemSchema = s.object({
+  group: s.string(),
+  key: s.string(),
+  value: s.string(),
+});
+
+// 财经日历事件：listData 类型 ECONOMIC_CALENDAR，每条记录的 data 为当天（美东日期）的事件数组
+export const economicEventSchema = s.object({
+  id: s.string(),
+  title: s.string(),
+  country: s.string(),
+  // 重要性 1-3
+  importance: s.numeric(),
+  // 公布时间（ISO 8601）
+  datetime: s.string(),
+  // 公布值、预期值、前值：数字或带单位的字符串（如 "3.2%"、"256K"），未公布时为空
+  actual: s.optional(s.unknown<string | number>()),
+  forecast: s.optional(s.unknown<string | number>()),
+  previous: s.optional(s.unknown<string | number>()),
+  unit: s.optional(s.string()),
+  // 搜索相关资讯的关键词，默认使用 title
+  keywords: s.optional(s.string()),
+});
+export type EconomicEventItem = Infer<typeof economicEventSchema>;
+
+// 以下为早期接口：记录字段多且不固定，只校验列表结构和调用方依赖的字段，记录类型沿用各服务中的定义
+// 仍由服务自行解析、尚未登记的早期接口：listUsstocks、getMultipleUsstocksInfo、getChainalertContent
+
+// 币种/股票行情记录（listCoins、getCoinInfo、getMultipleCoinsInfo）
+const coinRecordSchema = s.loose<CoinData>({ name: s.string() });
+
+// 美股详情记录（getUsstockInfo），行情字段可能在 baseinfo 中
+export type UsStockInfoRecord = Record<string, any>;
+const usStockInfoSchema = s.loose<UsStockInfoRecord>({
+  code: s.optional(s.string()),
+  baseinfo: s.optional(s.object({})),
+});
+
+// 美股24小时价格点
+export interface UsStock24hPoint {
+  _id: string;
+  rank: number;
+  code: string;
+  name: string;
+  price: string;
+  createdAt: string;
+}
+
+// 币种/股票24小时价格点
+export interface Coin24hPoint {
+  _id: string;
+  rank: number;
+  name: string;
+  price: string;
+  __v: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const pricePointShape = { price: s.numeric(), createdAt: s.string() };
+
+const newsItemSchema = s.loose<RawNewsData>({ path: s.string(), title: s.string() });
+
+export const RPC_CONTRACTS = {
+  listData: contract<ListDataParams>()(s.list(listDataItemSchema)),
+  listConfig: contract<[group: string]>()(s.list(configItemSchema)),
+  listCoins: contract<[skip: string, limit: string, sortBy: string, sortOrder: string]>()(
+    s.loose<ListCoinsResult>({ coins: s.array(coinRecordSchema) })
+  ),
+  // 参数为代码、天数，可选的完整名称用于区分同名股票
+  getCoinInfo: contract<[code: string, days: string, fullName?: string]>()(s.list(coinRecordSchema)),
+  // codes 为逗号分隔的代码
+  getMultipleCoinsInfo: contract<[codes: string, days: string]>()(s.list(coinRecordSchema, ['result', 'coins'])),
+  getCoin24hByName: contract<[name: string, ...rest: string[]]>()(s.list(s.loose<Coin24hPoint>(pricePointShape))),
+  getUsstockInfo: contract<[code: string, days: string]>()(s.list(usStockInfoSchema)),
+  getUsstock24hByCode: contract<[code: string, count: string]>()(s.list(s.loose<UsStock24hPoint>(pricePointShape))),
+  // 参数为两个保留字段、分类、跳过条数、条数、搜索关键词
+  listChainalertContent: contract<string[]>()(s.list(newsItemSchema, ['result', 'data'])),
+};
+
+export type RPCContracts = typeof RPC_CONTRACTS;
+export type RPCMethod = keyof RPCContracts;
+export type RPCParams<M extends RPCMethod> = RPCContracts[M] extends RPCContract<infer P, any> ? P : never;
+export type RPCResult<M extends RPCMethod> = RPCContracts[M] extends RPCContract<any, infer R> ? R : never;
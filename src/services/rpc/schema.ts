@@ -0,0 +1,135 @@
+/**
+ * 轻量运行时校验
+ * 用于校验 RPC 响应结构，校验失败时抛出 SchemaError（包含出错路径、期望类型和实际值）
+ */
+
+export class SchemaError extends Error {
+  constructor(
+    public path: string,
+    public expected: string,
+    public received: unknown
+  ) {
+    super(`${path || '(root)'}: expected ${expected}, received ${describeValue(received)}`);
+    this.name = 'SchemaError';
+  }
+}
+
+export interface Schema<T> {
+  // 期望类型的描述，用于错误信息
+  readonly expected: string;
+  /**
+   * 校验并返回（可能经过转换的）值
+   * @param value 待校验的值
+   * @param path 当前路径，如 result[0].data
+   */
+  parse(value: unknown, path?: string): T;
+}
+
+// 从 Schema 推导出的类型
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+const describeValue = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return `array(${value.length})`;
+  if (typeof value === 'string') return `string "${value.length > 40 ? `${value.slice(0, 40)}...` : value}"`;
+  return typeof value;
+};
+
+const createSchema = <T>(expected: string, parse: (value: unknown, path: string) => T): Schema<T> => ({
+  expected,
+  parse: (value: unknown, path: string = '') => parse(value, path),
+});
+
+const string = (): Schema<string> => createSchema('string', (value, path) => {
+  if (typeof value !== 'string') throw new SchemaError(path, 'string', value);
+  return value;
+});
+
+const number = (): Schema<number> => createSchema('number', (value, path) => {
+  if (typeof value !== 'number' || isNaN(value)) throw new SchemaError(path, 'number', value);
+  return value;
+});
+
+// 数值或数值字符串（接口中的价格、指数大多以字符串返回），保留原始值
+const numeric = (): Schema<string | number> => createSchema('numeric string or number', (value, path) => {
+  if (typeof value === 'number' && !isNaN(value)) return value;
+  if (typeof value === 'string' && value.trim() !== '' && !isNaN(parseFloat(value))) return value;
+  throw new SchemaError(path, 'numeric string or number', value);
+});
+
+const boolean = (): Schema<boolean> => createSchema('boolean', (value, path) => {
+  if (typeof value !== 'boolean') throw new SchemaError(path, 'boolean', value);
+  return value;
+});
+
+const unknown = <T = unknown>(): Schema<T> => createSchema('any', value => value as T);
+
+const optional = <T>(schema: Schema<T>): Schema<T | undefined> => createSchema(`${schema.expected} | undefined`, (value, path) => {
+  if (value === undefined || value === null) return undefined;
+  return schema.parse(value, path);
+});
+
+const array = <T>(item: Schema<T>): Schema<T[]> => createSchema(`${item.expected}[]`, (value, path) => {
+  if (!Array.isArray(value)) throw new SchemaError(path, `${item.expected}[]`, value);
+  return value.map((element, index) => item.parse(element, `${path}[${index}]`));
+});
+
+// 对象：只校验声明的字段，其余字段原样保留
+const object = <S extends Record<string, Schema<any>>>(shape: S): Schema<{ [K in keyof S]: Infer<S[K]> }> =>
+  createSchema('object', (value, path) => {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) throw new SchemaError(path, 'object', value);
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) };
+    Object.keys(shape).forEach(key => {
+      const parsed = shape[key].parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+      if (parsed === undefined) {
+        delete result[key];
+      } else {
+        result[key] = parsed;
+      }
+    });
+    return result as { [K in keyof S]: Infer<S[K]> };
+  });
+
+// 只校验部分字段的对象，返回类型由调用方指定：用于字段多且不固定的早期接口记录，其余字段原样保留
+const loose = <T>(shape: Record<string, Schema<any>>): Schema<T> => object(shape) as unknown as Schema<T>;
+
+// JSON 字符串（listData 的 data 字段）：解析后再校验；已经是对象时直接校验
+const json = <T>(schema: Schema<T>): Schema<T> => createSchema(`JSON ${schema.expected}`, (value, path) => {
+  if (typeof value !== 'string') return schema.parse(value, path);
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(value);
+  } catch (error) {
+    throw new SchemaError(path, `JSON ${schema.expected}`, value);
+  }
+  return schema.parse(parsed, path);
+});
+
+// 列表响应：兼容直接返回数组和 { result: [...] } 等包装格式
+// @param wrapperKeys 包装数组的字段名，按顺序查找
+const list = <T>(item: Schema<T>, wrapperKeys: string[] = ['result']): Schema<T[]> => createSchema(`${item.expected}[]`, (value, path) => {
+  if (Array.isArray(value)) return array(item).parse(value, path);
+  if (value && typeof value === 'object') {
+    const key = wrapperKeys.find(name => Array.isArray((value as Record<string, unknown>)[name]));
+    if (key) {
+      return array(item).parse((value as Record<string, unknown>)[key], path ? `${path}.${key}` : key);
+    }
+  }
+  throw new SchemaError(path, `${item.expected}[]`, value);
+});
+
+export const s = {
+  string,
+  number,
+  numeric,
+  boolean,
+  unknown,
+  optional,
+  array,
+  object,
+  loose,
+  json,
+  list,
+};
+
+export default s;
@@ -0,0 +1,91 @@
+// K线（OHLC）数据工具
+
+export interface OHLCCandle {
+  // 蜡烛对应的时间（日K为交易日期，分时聚合为该时段的第一笔时间）
+  date: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+// 构建K线所需的原始数据点，日线数据带开高低，分时数据只有价格
+export interface OHLCSourcePoint {
+  date: string;
+  currentPrice: string;
+  openPrice?: string;
+  dayHigh?: string;
+  dayLow?: string;
+}
+
+const toPositiveNumber = (value?: string): number => {
+  const num = Number(value);
+  return isFinite(num) && num > 0 ? num : 0;
+};
+
+/**
+ * 将日线数据转换为K线
+ * 缺少开盘价时使用前一日收盘价，缺少最高/最低价时由开盘价和收盘价推算
+ * @param points 按时间升序排列的日线数据
+ */
+export const buildDailyCandles = (points: OHLCSourcePoint[]): OHLCCandle[] => {
+  const candles: OHLCCandle[] = [];
+  let previousClose = 0;
+
+  points.forEach(point => {
+    const close = toPositiveNumber(point.currentPrice);
+    if (close <= 0) return;
+
+    const open = toPositiveNumber(point.openPrice) || previousClose || close;
+    const high = Math.max(toPositiveNumber(point.dayHigh), open, close);
+    const dayLow = toPositiveNumber(point.dayLow);
+    const low = Math.min(dayLow > 0 ? dayLow : Infinity, open, close);
+
+    candles.push({ date: point.date, open, high, low, close });
+    previousClose = close;
+  });
+
+  return candles;
+};
+
+/**
+ * 将分时价格按固定时间间隔聚合为K线
+ * 每个时段的开盘价为上一时段的收盘价，保证K线连续
+ * @param points 按时间升序排列的分时数据
+ * @param intervalMinutes 聚合间隔（分钟），默认60
+ */
+export const aggregateIntradayCandles = (
+  points: OHLCSourcePoint[],
+  intervalMinutes: number = 60
+): OHLCCandle[] => {
+  const intervalMs = intervalMinutes * 60 * 1000;
+  const candles: OHLCCandle[] = [];
+  let currentBucket: number | null = null;
+
+  points.forEach(point => {
+    const price = toPositiveNumber(point.currentPrice);
+    const time = new Date(point.date).getTime();
+    if (price <= 0 || isNaN(time)) return;
+
+    const bucket = Math.floor(time / intervalMs);
+    const last = candles[candles.length - 1];
+
+    if (bucket !== currentBucket || !last) {
+      const open = last ? last.close : price;
+      candles.push({
+        date: point.date,
+        open,
+        high: Math.max(open, price),
+        low: Math.min(open, price),
+        close: price,
+      });
+      currentBucket = bucket;
+    } else {
+      last.high = Math.max(last.high, price);
+      last.low = Math.min(last.low, price);
+      last.close = price;
+    }
+  });
+
+  return candles;
+};
@@ -0,0 +1,102 @@
+/**
+ * CSV 解析与生成工具
+ * 支持带引号的字段、字段内换行/逗号以及 "" 转义，兼容常见券商导出格式
+ */
+
+/**
+ * 解析CSV文本为二维数组
+ * @param text CSV文本
+ * @param delimiter 分隔符，默认逗号
+ * @returns string[][] 每行的字段数组（已跳过空行）
+ */
+export const parseCSV = (text: string, delimiter: string = ','): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // 去除 UTF-8 BOM（Excel 导出的文件常带 BOM）
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows
+    .map(cells => cells.map(cell => cell.trim()))
+    .filter(cells => cells.some(cell => cell !== ''));
+};
+
+/**
+ * 检测CSV分隔符（逗号、分号或制表符）
+ * @param text CSV文本
+ */
+export const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/).find(line => line.trim() !== '') || '';
+  const candidates = [',', ';', '\t'];
+  let best = ',';
+  let bestCount = 0;
+  candidates.forEach(candidate => {
+    const count = firstLine.split(candidate).length - 1;
+    if (count > bestCount) {
+      best = candidate;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+const escapeField = (value: string | number | null | undefined): string => {
+  const str = value === null || value === undefined ? '' : String(value);
+  if (/[",\r\n]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`;
+  }
+  return str;
+};
+
+/**
+ * 生成CSV文本
+ * @param headers 表头
+ * @param rows 数据行
+ */
+export const toCSV = (headers: string[], rows: Array<Array<string | number | null | undefined>>): string => {
+  return [headers, ...rows]
+    .map(row => row.map(escapeField).join(','))
+    .join('\n');
+};
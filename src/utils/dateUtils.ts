@@ -259,4 +259,15 @@ export class DateUtils {
       return typeof dateInput === 'string' ? dateInput.substring(11, 16) : '';
     }
   }
+
+  /**
+   * 取日期键 YYYY-MM-DD（不做时区转换），用于按交易日对齐行情记录
+   * @param dateInput 日期字符串，如 "2025-01-03" 或 ISO 时间
+   * @returns 日期键，无法解析时返回空字符串
+   */
+  static toDateKey(dateInput: string): string {
+    if (/^\d{4}-\d{2}-\d{2}/.test(dateInput)) return dateInput.slice(0, 10);
+    const date = new Date(dateInput);
+    return isNaN(date.getTime()) ? '' : date.toISOString().split('T')[0];
+  }
 }
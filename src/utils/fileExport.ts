@@ -0,0 +1,68 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as Sharing from 'expo-sharing';
+
+/**
+ * 导出文本文件
+ * Web端直接触发浏览器下载，移动端写入缓存目录后调用系统分享
+ * @param filename 文件名，如 trades.csv
+ * @param content 文件内容
+ * @param mimeType MIME类型
+ */
+export const exportTextFile = async (
+  filename: string,
+  content: string,
+  mimeType: string = 'text/csv'
+): Promise<void> => {
+  if (Platform.OS === 'web' && typeof document !== 'undefined') {
+    // 添加 BOM，保证 Excel 正确识别中文
+    const blob = new Blob([mimeType === 'text/csv' ? '\uFEFF' + content : content], { type: `${mimeType};charset=utf-8` });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    return;
+  }
+
+  const fileUri = `${FileSystem.cacheDirectory}${filename}`;
+  await FileSystem.writeAsStringAsync(fileUri, content, { encoding: FileSystem.EncodingType.UTF8 });
+
+  if (await Sharing.isAvailableAsync()) {
+    await Sharing.shareAsync(fileUri, { mimeType, dialogTitle: filename });
+  } else {
+    throw new Error('当前设备不支持分享功能');
+  }
+};
+
+/**
+ * Web端选择本地文本文件并读取内容
+ * @param accept 文件类型，如 ".csv,text/csv"
+ * @returns 文件内容，取消选择时返回null；非Web平台返回null
+ */
+export const pickTextFileOnWeb = (accept: string = '.csv,text/csv'): Promise<string | null> => {
+  if (Platform.OS !== 'web' || typeof document === 'undefined') {
+    return Promise.resolve(null);
+  }
+
+  return new Promise((resolve, reject) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = accept;
+    input.onchange = () => {
+      const file = input.files && input.files[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      const reader = new FileReader();
+      reader.onload = () => resolve(typeof reader.result === 'string' ? reader.result : null);
+      reader.onerror = () => reject(reader.error);
+      reader.readAsText(file);
+    };
+    input.click();
+  });
+};
@@ -0,0 +1,50 @@
+/**
+ * 数值解析工具
+ * 后端返回的行情字段多为字符串（如 "2130.00B"、"1.25%"、"$178.08"），统一在此解析为数字
+ */
+
+const ABBREVIATION_MULTIPLIERS: Record<string, number> = {
+  K: 1e3,
+  M: 1e6,
+  B: 1e9,
+  T: 1e12,
+};
+
+/**
+ * 解析带单位缩写的数值字符串
+ * @param value 如 "2130.00B", "45.2M", "1,234,567", "$178.08"
+ * @returns number 解析后的数值，无法解析时返回 NaN
+ */
+export const parseAbbreviatedNumber = (value: string | number | null | undefined): number => {
+  if (value === null || value === undefined) {
+    return NaN;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+
+  const cleaned = value.replace(/[$,\s]/g, '').toUpperCase();
+  const match = cleaned.match(/^(-?\d+(?:\.\d+)?)([KMBT])?$/);
+  if (!match) {
+    return parseFloat(cleaned);
+  }
+
+  const num = parseFloat(match[1]);
+  const unit = match[2];
+  return unit ? num * ABBREVIATION_MULTIPLIERS[unit] : num;
+};
+
+/**
+ * 解析百分比字符串
+ * @param value 如 "+1.25%", "-0.8%", "2.1"
+ * @returns number 百分比数值（1.25 表示 1.25%），无法解析时返回 NaN
+ */
+export const parsePercent = (value: string | number | null | undefined): number => {
+  if (value === null || value === undefined) {
+    return NaN;
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  return parseFloat(value.replace(/[%+\s]/g, ''));
+};
@@ -0,0 +1,170 @@
+// 技术指标计算工具（纯函数，不依赖UI）
+// 所有函数返回与输入等长的数组，数据不足以计算的位置为 null，便于与价格序列按下标对齐
+
+export type IndicatorSeries = Array<number | null>;
+
+export interface BollingerBands {
+  upper: IndicatorSeries;
+  middle: IndicatorSeries;
+  lower: IndicatorSeries;
+}
+
+export interface MACDResult {
+  macd: IndicatorSeries;
+  signal: IndicatorSeries;
+  histogram: IndicatorSeries;
+}
+
+/**
+ * 从 stockService.getUsstockInfo 返回的日线数据中提取收盘价序列
+ * @param records 按时间升序排列的日线数据
+ */
+export const extractCloseSeries = (records: Array<{ currentPrice: string }>): number[] =>
+  records.map(record => Number(record.currentPrice)).map(price => (isFinite(price) ? price : 0));
+
+/**
+ * 从 stockService.getUsstock24hByCode 返回的分时数据中提取价格序列
+ * @param ticks 按时间升序排列的分时数据
+ */
+export const extractIntradaySeries = (ticks: Array<{ price: string }>): number[] =>
+  ticks.map(tick => Number(tick.price)).map(price => (isFinite(price) ? price : 0));
+
+/**
+ * 简单移动平均线 SMA
+ * @param values 价格序列
+ * @param period 周期
+ */
+export const calculateSMA = (values: number[], period: number): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length < period) return result;
+
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (i >= period) {
+      sum -= values[i - period];
+    }
+    if (i >= period - 1) {
+      result[i] = sum / period;
+    }
+  }
+  return result;
+};
+
+/**
+ * 指数移动平均线 EMA
+ * 第一个有效值取前 period 个数据的 SMA，之后按 2/(period+1) 平滑
+ * @param values 价格序列，可包含 null（如对 MACD 线再求 EMA），null 之前的部分会被跳过
+ * @param period 周期
+ */
+export const calculateEMA = (values: Array<number | null>, period: number): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0) return result;
+
+  const start = values.findIndex(value => value !== null);
+  if (start < 0 || values.length - start < period) return result;
+
+  const multiplier = 2 / (period + 1);
+  let seed = 0;
+  for (let i = start; i < start + period; i++) {
+    seed += values[i] as number;
+  }
+  let ema = seed / period;
+  result[start + period - 1] = ema;
+
+  for (let i = start + period; i < values.length; i++) {
+    const value = values[i];
+    if (value === null) continue;
+    ema = (value - ema) * multiplier + ema;
+    result[i] = ema;
+  }
+  return result;
+};
+
+/**
+ * 布林带
+ * @param values 价格序列
+ * @param period 周期，默认20
+ * @param multiplier 标准差倍数，默认2
+ */
+export const calculateBollingerBands = (
+  values: number[],
+  period: number = 20,
+  multiplier: number = 2
+): BollingerBands => {
+  const middle = calculateSMA(values, period);
+  const upper: IndicatorSeries = new Array(values.length).fill(null);
+  const lower: IndicatorSeries = new Array(values.length).fill(null);
+
+  middle.forEach((mean, i) => {
+    if (mean === null) return;
+    const window = values.slice(i - period + 1, i + 1);
+    const variance = window.reduce((sum, value) => sum + (value - mean) ** 2, 0) / period;
+    const deviation = Math.sqrt(variance) * multiplier;
+    upper[i] = mean + deviation;
+    lower[i] = mean - deviation;
+  });
+
+  return { upper, middle, lower };
+};
+
+/**
+ * 相对强弱指标 RSI（Wilder 平滑）
+ * @param values 价格序列
+ * @param period 周期，默认14
+ */
+export const calculateRSI = (values: number[], period: number = 14): IndicatorSeries => {
+  const result: IndicatorSeries = new Array(values.length).fill(null);
+  if (period <= 0 || values.length <= period) return result;
+
+  let gainSum = 0;
+  let lossSum = 0;
+  for (let i = 1; i <= period; i++) {
+    const change = values[i] - values[i - 1];
+    if (change >= 0) gainSum += change;
+    else lossSum -= change;
+  }
+
+  let avgGain = gainSum / period;
+  let avgLoss = lossSum / period;
+  const toRSI = () => (avgLoss === 0 ? (avgGain === 0 ? 50 : 100) : 100 - 100 / (1 + avgGain / avgLoss));
+  result[period] = toRSI();
+
+  for (let i = period + 1; i < values.length; i++) {
+    const change = values[i] - values[i - 1];
+    avgGain = (avgGain * (period - 1) + Math.max(change, 0)) / period;
+    avgLoss = (avgLoss * (period - 1) + Math.max(-change, 0)) / period;
+    result[i] = toRSI();
+  }
+  return result;
+};
+
+/**
+ * MACD 指标
+ * @param values 价格序列
+ * @param fastPeriod 快线周期，默认12
+ * @param slowPeriod 慢线周期，默认26
+ * @param signalPeriod 信号线周期，默认9
+ */
+export const calculateMACD = (
+  values: number[],
+  fastPeriod: number = 12,
+  slowPeriod: number = 26,
+  signalPeriod: number = 9
+): MACDResult => {
+  const fast = calculateEMA(values, fastPeriod);
+  const slow = calculateEMA(values, slowPeriod);
+
+  const macd: IndicatorSeries = values.map((_, i) => {
+    const fastValue = fast[i];
+    const slowValue = slow[i];
+    return fastValue !== null && slowValue !== null ? fastValue - slowValue : null;
+  });
+  const signal = calculateEMA(macd, signalPeriod);
+  const histogram: IndicatorSeries = macd.map((value, i) => {
+    const signalValue = signal[i];
+    return value !== null && signalValue !== null ? value - signalValue : null;
+  });
+
+  return { macd, signal, histogram };
+};
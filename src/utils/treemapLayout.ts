@@ -0,0 +1,105 @@
+/**
+ * 矩形树图布局（squarified treemap）
+ * 按数值大小划分矩形区域，尽量让每个方块接近正方形
+ */
+
+export interface TreemapRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface TreemapNode<T> extends TreemapRect {
+  item: T;
+}
+
+interface TreemapEntry<T> {
+  item: T;
+  area: number;
+}
+
+/**
+ * 一行方块中最差（最扁）的长宽比
+ * @param areas 行内方块面积
+ * @param side 行所沿的边长
+ */
+const worstRatio = (areas: number[], side: number): number => {
+  const sum = areas.reduce((total, area) => total + area, 0);
+  const max = Math.max(...areas);
+  const min = Math.min(...areas);
+  const sideSquared = side * side;
+  const sumSquared = sum * sum;
+  return Math.max((sideSquared * max) / sumSquared, sumSquared / (sideSquared * min));
+};
+
+/**
+ * 计算矩形树图布局
+ * @param items 数据项，数值不大于 0 的项会被忽略
+ * @param getValue 获取数据项数值（如市值）
+ * @param rect 可用区域
+ * @returns 各数据项的矩形，按数值从大到小排列
+ */
+export const squarify = <T>(items: T[], getValue: (item: T) => number, rect: TreemapRect): TreemapNode<T>[] => {
+  const valid = items
+    .map(item => ({ item, value: getValue(item) }))
+    .filter(entry => isFinite(entry.value) && entry.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const total = valid.reduce((sum, entry) => sum + entry.value, 0);
+  if (total <= 0 || rect.width <= 0 || rect.height <= 0) {
+    return [];
+  }
+
+  const scale = (rect.width * rect.height) / total;
+  const entries: TreemapEntry<T>[] = valid.map(entry => ({ item: entry.item, area: entry.value * scale }));
+  const nodes: TreemapNode<T>[] = [];
+  let { x, y, width, height } = rect;
+
+  // 将一行方块排在剩余区域的短边上，并收缩剩余区域
+  const layoutRow = (row: TreemapEntry<T>[]) => {
+    const rowArea = row.reduce((sum, entry) => sum + entry.area, 0);
+    if (width >= height) {
+      const columnWidth = height > 0 ? rowArea / height : 0;
+      let offsetY = y;
+      row.forEach(entry => {
+        const itemHeight = columnWidth > 0 ? entry.area / columnWidth : 0;
+        nodes.push({ item: entry.item, x, y: offsetY, width: columnWidth, height: itemHeight });
+        offsetY += itemHeight;
+      });
+      x += columnWidth;
+      width -= columnWidth;
+    } else {
+      const rowHeight = width > 0 ? rowArea / width : 0;
+      let offsetX = x;
+      row.forEach(entry => {
+        const itemWidth = rowHeight > 0 ? entry.area / rowHeight : 0;
+        nodes.push({ item: entry.item, x: offsetX, y, width: itemWidth, height: rowHeight });
+        offsetX += itemWidth;
+      });
+      y += rowHeight;
+      height -= rowHeight;
+    }
+  };
+
+  let row: TreemapEntry<T>[] = [];
+  let index = 0;
+  while (index < entries.length) {
+    const side = Math.min(width, height);
+    const candidate = [...row, entries[index]];
+    if (
+      row.length === 0 ||
+      worstRatio(candidate.map(entry => entry.area), side) <= worstRatio(row.map(entry => entry.area), side)
+    ) {
+      row = candidate;
+      index++;
+    } else {
+      layoutRow(row);
+      row = [];
+    }
+  }
+  if (row.length > 0) {
+    layoutRow(row);
+  }
+
+  return nodes;
+};